@@ -0,0 +1,202 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { closeMcpSessions, getMcpSessionCount, initMcpRouter } from '../../api/mcp.js';
+import { requestIdMiddleware } from '../../middleware/requestLogger.js';
+import { accessControl } from '../../utils/accessControl.js';
+import { getApiKeyId, requestContext } from '../../utils/requestContext.js';
+import { tenantContext } from '../../middleware/tenant.js';
+import { tenantManager } from '../../utils/tenants.js';
+
+/**
+ * Create an MCP server whose only tool is named after the tenant it runs for
+ * @returns The MCP server
+ */
+function createServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: `tenant_${tenantManager.current()}`, inputSchema: { type: 'object' } }],
+  }));
+  return server;
+}
+
+describe('MCP streamable HTTP transport', () => {
+  let server: http.Server;
+  let url: string;
+  let createServerMock: jest.Mock<Server, []>;
+
+  /**
+   * Send a JSON-RPC message to the MCP endpoint
+   * @param message The JSON-RPC message
+   * @param headers Additional request headers
+   * @returns The response, with the JSON-RPC messages of its event stream in messages
+   */
+  async function post(message: Record<string, any>, headers: Record<string, string> = {}) {
+    const response = await axios.post(url, message, {
+      headers: { Accept: 'application/json, text/event-stream', ...headers },
+      responseType: 'text',
+      validateStatus: () => true,
+    });
+    const text = String(response.data);
+    const messages = text.startsWith('{')
+      ? [JSON.parse(text)]
+      : text
+          .split('\n')
+          .filter((line) => line.startsWith('data: '))
+          .map((line) => JSON.parse(line.slice('data: '.length)));
+    return { status: response.status, headers: response.headers, messages };
+  }
+
+  /**
+   * Start a session
+   * @param headers Additional request headers
+   * @returns The session ID
+   */
+  async function initialize(headers: Record<string, string> = {}): Promise<string> {
+    const response = await post(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-03-26',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        },
+      },
+      headers
+    );
+    expect(response.status).toBe(200);
+    return response.headers['mcp-session-id'];
+  }
+
+  const listTools = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+  beforeAll(() => {
+    tenantManager.register({
+      name: 'acme',
+      apiKey: 'acme-token',
+      apiKeys: [
+        { key: 'acme-gateway-key', role: 'agent' },
+        { key: 'acme-other-key', role: 'agent' },
+      ],
+    });
+    tenantManager.register({
+      name: 'globex',
+      apiKey: 'globex-token',
+      apiKeys: [{ key: 'globex-gateway-key', role: 'agent' }],
+    });
+  });
+
+  beforeEach(async () => {
+    createServerMock = jest.fn(createServer);
+
+    // Requests made with a tenant's API key are bound to the tenant and run with the key's role,
+    // like with apiKeyAuth
+    const app = express();
+    app.use(express.json());
+    app.use(requestIdMiddleware);
+    app.use((req, res, next) => {
+      const apiKey = req.header('X-API-Key');
+      const tenant = apiKey ? tenantManager.findByApiKey(apiKey) : undefined;
+      req.tenant = tenant?.name;
+      req.role = tenant?.apiKeys.find((entry) => entry.key === apiKey).role;
+      if (apiKey) {
+        requestContext.current().apiKeyId = getApiKeyId(apiKey);
+      }
+      accessControl.run(req.role || 'admin', next);
+    });
+    app.use(tenantContext);
+    app.use('/mcp', initMcpRouter(createServerMock));
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    url = `http://localhost:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await closeMcpSessions();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should reuse the session of the Mcp-Session-Id header', async () => {
+    const sessionId = await initialize();
+
+    const first = await post(listTools, { 'Mcp-Session-Id': sessionId });
+    const second = await post({ ...listTools, id: 3 }, { 'Mcp-Session-Id': sessionId });
+
+    expect(sessionId).toEqual(expect.any(String));
+    expect(first.status).toBe(200);
+    expect(first.messages[0].result.tools[0].name).toBe('tenant_default');
+    expect(second.messages[0].id).toBe(3);
+    expect(createServerMock).toHaveBeenCalledTimes(1);
+    expect(getMcpSessionCount()).toBe(1);
+  });
+
+  it('should reject unknown session IDs', async () => {
+    await initialize();
+
+    const response = await post(listTools, { 'Mcp-Session-Id': 'unknown-session' });
+    const stream = await axios.get(url, {
+      headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': 'unknown-session' },
+      validateStatus: () => true,
+    });
+
+    expect(response.status).toBe(404);
+    expect(response.messages[0].error.message).toBe('Session not found');
+    expect(stream.status).toBe(404);
+    expect(createServerMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require a session for requests other than initialize', async () => {
+    const response = await post(listTools);
+
+    expect(response.status).toBe(400);
+    expect(response.messages[0].error.message).toBe('Bad Request: No valid session ID provided');
+    expect(createServerMock).not.toHaveBeenCalled();
+  });
+
+  it('should run the requests of a session for the tenant it was started for', async () => {
+    const sessionId = await initialize({ 'X-Frontapp-Tenant': 'acme' });
+
+    // Later requests of the session don't need to select the tenant again
+    const response = await post(listTools, { 'Mcp-Session-Id': sessionId });
+
+    expect(response.messages[0].result.tools[0].name).toBe('tenant_acme');
+  });
+
+  it('should reject requests of a session made with the API key of another tenant', async () => {
+    const sessionId = await initialize({ 'X-API-Key': 'acme-gateway-key' });
+
+    const own = await post(listTools, {
+      'Mcp-Session-Id': sessionId,
+      'X-API-Key': 'acme-gateway-key',
+    });
+    const other = await post(listTools, {
+      'Mcp-Session-Id': sessionId,
+      'X-API-Key': 'globex-gateway-key',
+    });
+
+    expect(own.messages[0].result.tools[0].name).toBe('tenant_acme');
+    expect(other.status).toBe(403);
+    expect(other.messages[0].error.message).toBe('Session belongs to another tenant');
+  });
+
+  it('should reject requests of a session made with another API key of the same tenant', async () => {
+    const sessionId = await initialize({ 'X-API-Key': 'acme-gateway-key' });
+
+    const other = await post(listTools, {
+      'Mcp-Session-Id': sessionId,
+      'X-API-Key': 'acme-other-key',
+    });
+    const unauthenticated = await post(listTools, { 'Mcp-Session-Id': sessionId });
+
+    expect(other.status).toBe(403);
+    expect(other.messages[0].error.message).toBe('Session belongs to another API key');
+    expect(unauthenticated.status).toBe(403);
+  });
+});
@@ -1,4 +1,10 @@
-import { frontappClient } from '../../clients/frontapp/index.js';
+import {
+  FrontappClient,
+  frontappClient,
+  getFrontappClient,
+} from '../../clients/frontapp/index.js';
+import { config } from '../../config/index.js';
+import { useConfig } from '../helpers.js';
 import axios from 'axios';
 
 // Mock the frontappClient to avoid actual API calls
@@ -74,4 +80,33 @@ describe('FrontappClient', () => {
       expect(result).toBe(mockResponse);
     });
   });
+
+  describe('Tenant clients', () => {
+    useConfig(() => ({ frontapp: { ...config.frontapp, apiKey: 'token-1' } }));
+
+    it('should create the client of a tenant again when its API token changes', () => {
+      const client = getFrontappClient('default');
+      expect(getFrontappClient('default')).toBe(client);
+
+      config.frontapp.apiKey = 'token-2';
+
+      expect(getFrontappClient('default')).not.toBe(client);
+    });
+  });
+
+  describe('Downloads', () => {
+    useConfig(() => ({ frontapp: { ...config.frontapp, baseUrl: 'https://api2.frontapp.com' } }));
+
+    it.each([
+      ['https://files.frontapp.com/download/fil_123', 'https://files.frontapp.com'],
+      ['http://api2.frontapp.com/download/fil_123', 'http://api2.frontapp.com'],
+      ['//example.com/download/fil_123', 'https://example.com'],
+    ])('should not send the API token to %s', async (url, origin) => {
+      const client = new FrontappClient({ apiKey: 'token' });
+
+      await expect(client.download(url, 1024)).rejects.toThrow(
+        `Files can only be downloaded from https://api2.frontapp.com, not from ${origin}`
+      );
+    });
+  });
 });
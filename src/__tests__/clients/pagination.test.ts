@@ -0,0 +1,62 @@
+import { FrontappClient } from '../../clients/frontapp/index.js';
+
+// Create a page of a paginated list
+function page(ids: string[], next?: string) {
+  return {
+    data: {
+      _results: ids.map((id) => ({ id })),
+      _pagination: { next },
+      _links: { self: '' },
+    },
+  };
+}
+
+describe('FrontappClient pagination', () => {
+  let client: FrontappClient;
+  let get: jest.SpyInstance;
+
+  beforeEach(() => {
+    client = new FrontappClient();
+    get = jest.spyOn(client, 'get');
+  });
+
+  it('should follow the next links until the list ends', async () => {
+    get
+      .mockResolvedValueOnce(page(['a', 'b'], 'https://api2.frontapp.com/tags?page_token=p2'))
+      .mockResolvedValueOnce(page(['c']));
+
+    const collection = await client.collect('/tags', { limit: 2 });
+
+    expect(collection.results.map((item) => item.id)).toEqual(['a', 'b', 'c']);
+    expect(collection.pages).toBe(2);
+    expect(collection.next).toBeUndefined();
+    expect(get).toHaveBeenNthCalledWith(1, '/tags', { limit: 2 });
+    expect(get).toHaveBeenNthCalledWith(2, 'https://api2.frontapp.com/tags?page_token=p2&limit=2');
+  });
+
+  it('should stop at max items and return the link to the next page', async () => {
+    get
+      .mockResolvedValueOnce(page(['a', 'b'], 'https://api2.frontapp.com/tags?page_token=p2'))
+      .mockResolvedValueOnce(page(['c'], 'https://api2.frontapp.com/tags?page_token=p3'));
+
+    const collection = await client.collect('/tags', { limit: 2 }, 3);
+
+    expect(collection.results).toHaveLength(3);
+    expect(collection.next).toBe('https://api2.frontapp.com/tags?page_token=p3');
+
+    // The last page only requests the remaining items so none are skipped
+    expect(get).toHaveBeenNthCalledWith(2, 'https://api2.frontapp.com/tags?page_token=p2&limit=1');
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should yield pages lazily', async () => {
+    get.mockResolvedValueOnce(page(['a'], 'https://api2.frontapp.com/tags?page_token=p2'));
+
+    for await (const result of client.paginate('/tags')) {
+      expect(result._results).toEqual([{ id: 'a' }]);
+      break;
+    }
+
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,192 @@
+import { bulkUpdateConversationsHandler } from '../../../handlers/requests/conversations/bulkUpdateConversations.js';
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { progressReporter } from '../../../utils/progress.js';
+import { config } from '../../../config/index.js';
+
+// Mock the Frontapp client
+jest.mock('../../../clients/frontapp/index.js', () => ({
+  frontappClient: {
+    collect: jest.fn(),
+    put: jest.fn(),
+    post: jest.fn(),
+    patch: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+// Parse the JSON report of a tool response
+function report(result: { content: Array<{ text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe('BulkUpdateConversationsHandler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    for (const method of ['put', 'post', 'patch', 'delete'] as const) {
+      (frontappClient[method] as jest.Mock).mockResolvedValue({ data: '' });
+    }
+  });
+
+  it('should apply the changes to every conversation and report the outcome', async () => {
+    const result = await bulkUpdateConversationsHandler.handle({
+      conversation_ids: ['cnv_1', 'cnv_2', 'cnv_1'],
+      add_tag_ids: ['tag_1'],
+      assignee_id: 'tea_1',
+      status: 'archived',
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(frontappClient.put).toHaveBeenCalledWith('/conversations/cnv_1/assignee', {
+      assignee_id: 'tea_1',
+    });
+    expect(frontappClient.post).toHaveBeenCalledWith('/conversations/cnv_2/tags', {
+      tag_ids: ['tag_1'],
+    });
+    expect(frontappClient.patch).toHaveBeenCalledTimes(2);
+    expect(report(result)).toMatchObject({
+      dry_run: false,
+      changes: ['assign to tea_1', 'add tags tag_1', 'set status to archived'],
+      summary: { conversations: 2, updated: 2, failed: 0 },
+      results: [
+        { conversation_id: 'cnv_1', status: 'updated' },
+        { conversation_id: 'cnv_2', status: 'updated' },
+      ],
+    });
+  });
+
+  it('should report failed conversations and keep updating the others', async () => {
+    (frontappClient.post as jest.Mock).mockImplementation(async (path: string) => {
+      if (path.includes('cnv_1')) {
+        throw { response: { data: { _error: { message: 'Conversation not found' } } } };
+      }
+      return { data: '' };
+    });
+
+    const result = await bulkUpdateConversationsHandler.handle({
+      conversation_ids: ['cnv_1', 'cnv_2'],
+      add_follower_ids: ['tea_1'],
+      status: 'archived',
+    });
+
+    expect(frontappClient.patch).toHaveBeenCalledTimes(1);
+    expect(report(result)).toMatchObject({
+      summary: { conversations: 2, updated: 1, failed: 1 },
+      results: [
+        {
+          conversation_id: 'cnv_1',
+          status: 'failed',
+          applied: [],
+          error: 'Failed to add followers tea_1: Conversation not found',
+        },
+        {
+          conversation_id: 'cnv_2',
+          status: 'updated',
+          applied: ['add followers tea_1', 'set status to archived'],
+        },
+      ],
+    });
+  });
+
+  it('should list the conversations matching a query without changing them in dry-run', async () => {
+    (frontappClient.collect as jest.Mock).mockResolvedValue({
+      results: [{ id: 'cnv_1', subject: 'Refund request' }],
+      pages: 1,
+      next: 'https://api2.frontapp.com/conversations/search/tag%3Aurgent?page_token=abc',
+    });
+
+    const result = await bulkUpdateConversationsHandler.handle({
+      query: 'tag:urgent',
+      unassign: true,
+      dry_run: true,
+    });
+
+    expect(frontappClient.collect).toHaveBeenCalledWith(
+      '/conversations/search/tag%3Aurgent',
+      {},
+      expect.any(Number)
+    );
+    expect(frontappClient.put).not.toHaveBeenCalled();
+    expect(report(result)).toMatchObject({
+      dry_run: true,
+      changes: ['unassign'],
+      summary: { conversations: 1, more_matching: true },
+      results: [{ conversation_id: 'cnv_1', subject: 'Refund request', status: 'would_update' }],
+    });
+  });
+
+  it('should update the conversations of a query across calls with the page token', async () => {
+    const maxConversations = config.bulkUpdate.maxConversations;
+    config.bulkUpdate.maxConversations = 2;
+    (frontappClient.collect as jest.Mock)
+      .mockResolvedValueOnce({
+        results: [{ id: 'cnv_1' }, { id: 'cnv_2' }],
+        pages: 1,
+        next: 'https://api2.frontapp.com/conversations/search/is%3Aopen?page_token=page_2',
+      })
+      .mockResolvedValueOnce({ results: [{ id: 'cnv_3' }], pages: 1 });
+
+    try {
+      const first = report(
+        await bulkUpdateConversationsHandler.handle({ query: 'is:open', add_tag_ids: ['tag_1'] })
+      );
+      const second = report(
+        await bulkUpdateConversationsHandler.handle({
+          query: 'is:open',
+          add_tag_ids: ['tag_1'],
+          page_token: first.summary.next_page_token,
+        })
+      );
+
+      expect(first.summary).toMatchObject({
+        conversations: 2,
+        more_matching: true,
+        next_page_token: 'page_2',
+      });
+      expect(frontappClient.collect).toHaveBeenLastCalledWith(
+        '/conversations/search/is%3Aopen',
+        { page_token: 'page_2' },
+        2
+      );
+      expect(second.summary).toEqual({ conversations: 1, updated: 1, failed: 0 });
+      expect((frontappClient.post as jest.Mock).mock.calls.map(([path]) => path)).toEqual([
+        '/conversations/cnv_1/tags',
+        '/conversations/cnv_2/tags',
+        '/conversations/cnv_3/tags',
+      ]);
+    } finally {
+      config.bulkUpdate.maxConversations = maxConversations;
+    }
+  });
+
+  it('should report progress after every conversation', async () => {
+    const listener = jest.fn();
+
+    await progressReporter.run(listener, () =>
+      bulkUpdateConversationsHandler.handle({
+        conversation_ids: ['cnv_1', 'cnv_2'],
+        remove_tag_ids: ['tag_1'],
+      })
+    );
+
+    expect(listener.mock.calls.map(([progress, total]) => [progress, total])).toEqual([
+      [0, 2],
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it('should require conversations and changes', async () => {
+    const noTarget = await bulkUpdateConversationsHandler.handle({ status: 'archived' });
+    const bothTargets = await bulkUpdateConversationsHandler.handle({
+      conversation_ids: ['cnv_1'],
+      query: 'is:open',
+      status: 'archived',
+    });
+    const noChanges = await bulkUpdateConversationsHandler.handle({ conversation_ids: ['cnv_1'] });
+
+    expect(noTarget.isError).toBe(true);
+    expect(bothTargets.content[0].text).toContain('Either conversation_ids or query is required');
+    expect(noChanges.content[0].text).toContain('No changes given');
+  });
+});
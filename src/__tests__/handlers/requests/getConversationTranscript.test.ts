@@ -0,0 +1,138 @@
+import { getConversationTranscriptHandler } from '../../../handlers/requests/conversations/getConversationTranscript.js';
+import { frontappClient } from '../../../clients/frontapp/index.js';
+
+// Mock the Frontapp client
+jest.mock('../../../clients/frontapp/index.js', () => ({
+  frontappClient: {
+    collect: jest.fn(),
+    getConversation: jest.fn(),
+  },
+}));
+
+// Collected list items keyed by path
+const lists: Record<string, any[]> = {
+  '/conversations/cnv_123/messages': [
+    {
+      id: 'msg_2',
+      author: { first_name: 'Jane', last_name: 'Agent', is_teammate: true },
+      created_at: 1700000300,
+      is_inbound: false,
+      body:
+        '<p>Your refund has been issued.</p><div class="gmail_quote">On Tue, customer wrote:<blockquote>I would like a refund.</blockquote></div>',
+    },
+    {
+      id: 'msg_1',
+      author: null,
+      recipients: [{ role: 'from', name: 'John Customer', handle: 'john@example.com' }],
+      created_at: 1700000000,
+      is_inbound: true,
+      text: 'I would like a refund.\n\n> Earlier quoted text',
+    },
+  ],
+  '/conversations/cnv_123/comments': [
+    {
+      id: 'com_1',
+      author: { username: 'jane', is_teammate: true },
+      posted_at: 1700000100,
+      body: 'Approved by billing',
+    },
+  ],
+  '/conversations/cnv_123/events': [
+    {
+      id: 'evt_1',
+      type: 'assign',
+      emitted_at: 1700000050,
+      source: { _meta: { type: 'rule' }, data: { name: 'Billing triage' } },
+      target: { _meta: { type: 'teammate' }, data: { first_name: 'Jane', last_name: 'Agent' } },
+    },
+    {
+      id: 'evt_2',
+      type: 'inbound',
+      emitted_at: 1700000000,
+      source: { _meta: { type: 'inbox' }, data: { name: 'Support' } },
+    },
+  ],
+};
+
+describe('GetConversationTranscriptHandler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (frontappClient.getConversation as jest.Mock).mockResolvedValue({
+      data: { id: 'cnv_123', subject: 'Refund request', status: 'open' },
+    });
+    (frontappClient.collect as jest.Mock).mockImplementation(async (path: string) => ({
+      results: lists[path],
+      pages: 1,
+    }));
+  });
+
+  it('should render messages, comments and events in chronological order', async () => {
+    const result = await getConversationTranscriptHandler.handle({ conversation_id: 'cnv_123' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].type).toBe('text');
+
+    const transcript = result.content[0].text;
+    const order = [
+      'John Customer (inbound message)',
+      'Rule Billing triage assigned the conversation to Jane Agent',
+      'jane (internal comment)',
+      'Jane Agent (outbound message)',
+    ].map((text) => transcript.indexOf(text));
+
+    expect(order.every((index) => index > -1)).toBe(true);
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+
+    // Events for messages are not repeated
+    expect(transcript).not.toContain('inbound event');
+  });
+
+  it('should skip events when they are not included', async () => {
+    await getConversationTranscriptHandler.handle({
+      conversation_id: 'cnv_123',
+      include_events: false,
+    });
+
+    expect(frontappClient.collect).toHaveBeenCalledTimes(2);
+    expect(frontappClient.collect).not.toHaveBeenCalledWith(
+      '/conversations/cnv_123/events',
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  it('should strip quoted replies and HTML', async () => {
+    const result = await getConversationTranscriptHandler.handle({ conversation_id: 'cnv_123' });
+    const transcript = result.content[0].text;
+
+    expect(transcript).toContain('Your refund has been issued.');
+    expect(transcript).not.toContain('<p>');
+    expect(transcript).not.toContain('Earlier quoted text');
+    expect(transcript.match(/I would like a refund\./g)).toHaveLength(1);
+  });
+
+  it('should omit the oldest entries to fit the token budget', async () => {
+    const result = await getConversationTranscriptHandler.handle({
+      conversation_id: 'cnv_123',
+      format: 'text',
+      max_tokens: 40,
+    });
+    const transcript = result.content[0].text;
+
+    expect(transcript).toContain('Subject: Refund request');
+    expect(transcript).toContain('Your refund has been issued.');
+    expect(transcript).toContain('omitted to fit the token budget');
+    expect(transcript).not.toContain('John Customer');
+  });
+
+  it('should reject invalid arguments', async () => {
+    const result = await getConversationTranscriptHandler.handle({
+      conversation_id: 'cnv_123',
+      format: 'html' as any,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Error: Format must be one of: markdown, text');
+  });
+});
@@ -1,5 +1,7 @@
 import { getInboxesHandler } from '../../../handlers/requests/inboxes/getInboxes.js';
 import { frontappClient } from '../../../clients/frontapp/index.js';
+import { config } from '../../../config/index.js';
+import { useConfig } from '../../helpers.js';
 
 // Mock the Frontapp client
 jest.mock('../../../clients/frontapp/index.js', () => ({
@@ -9,6 +11,10 @@ jest.mock('../../../clients/frontapp/index.js', () => ({
 }));
 
 describe('GetInboxesHandler', () => {
+  useConfig(() => ({
+    pii: { enabled: false, types: 'email', allowFields: '', reversible: false, tokenTtlMs: 60000 },
+  }));
+
   beforeEach(() => {
     jest.clearAllMocks();
   });
@@ -56,6 +62,18 @@ describe('GetInboxesHandler', () => {
     expect(result.isError).toBe(true);
   });
 
+  it('should redact personal data from error messages', async () => {
+    config.pii.enabled = true;
+    (frontappClient.getInboxes as jest.Mock).mockRejectedValue(
+      new Error('Contact jane@example.com not found')
+    );
+
+    const result = await getInboxesHandler.handle({});
+
+    expect(result.content[0].text).toBe('Error: Contact [REDACTED_EMAIL] not found');
+    expect(result.isError).toBe(true);
+  });
+
   it('should pass pagination parameters to the API', async () => {
     // Mock data
     const mockInboxes = {
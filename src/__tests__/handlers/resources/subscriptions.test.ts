@@ -0,0 +1,105 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ResourceSubscriptionManager,
+  conversationResourceUri,
+} from '../../../handlers/resources/subscriptions.js';
+import { tenantManager } from '../../../utils/tenants.js';
+
+// Create a mock MCP server
+function createMockServer(): Server {
+  return {
+    setRequestHandler: jest.fn(),
+    sendResourceUpdated: jest.fn().mockResolvedValue(undefined),
+  } as unknown as Server;
+}
+
+describe('ResourceSubscriptionManager', () => {
+  let manager: ResourceSubscriptionManager;
+
+  beforeEach(() => {
+    manager = new ResourceSubscriptionManager();
+  });
+
+  it('should install the subscribe and unsubscribe handlers', () => {
+    const server = createMockServer();
+
+    manager.register(server);
+
+    expect(server.setRequestHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should notify only the servers subscribed to a resource', async () => {
+    const subscribed = createMockServer();
+    const other = createMockServer();
+    const uri = conversationResourceUri('cnv_123');
+
+    manager.register(subscribed);
+    manager.register(other);
+    manager.subscribe(subscribed, uri);
+
+    const notified = await manager.notifyResourceUpdated(uri);
+
+    expect(notified).toBe(1);
+    expect(subscribed.sendResourceUpdated).toHaveBeenCalledWith({
+      uri: 'frontapp://conversations/cnv_123',
+    });
+    expect(other.sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should only notify the servers of the tenant the resource changed in', async () => {
+    const acme = createMockServer();
+    const globex = createMockServer();
+    const uri = conversationResourceUri('cnv_123');
+
+    manager.register(acme);
+    manager.register(globex);
+    tenantManager.run('acme', () => manager.subscribe(acme, uri));
+    tenantManager.run('globex', () => manager.subscribe(globex, uri));
+
+    const notified = await tenantManager.run('acme', () => manager.notifyResourceUpdated(uri));
+
+    expect(notified).toBe(1);
+    expect(acme.sendResourceUpdated).toHaveBeenCalled();
+    expect(globex.sendResourceUpdated).not.toHaveBeenCalled();
+    expect(manager.hasSubscribers(uri)).toBe(false);
+  });
+
+  it('should stop notifying after unsubscribing', async () => {
+    const server = createMockServer();
+    const uri = conversationResourceUri('cnv_123');
+
+    manager.register(server);
+    manager.subscribe(server, uri);
+    manager.unsubscribe(server, uri);
+
+    expect(manager.hasSubscribers(uri)).toBe(false);
+    expect(await manager.notifyResourceUpdated(uri)).toBe(0);
+    expect(server.sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should forget the subscriptions of a closed server', async () => {
+    const server = createMockServer();
+    const uri = conversationResourceUri('cnv_123');
+
+    manager.register(server);
+    manager.subscribe(server, uri);
+    server.onclose?.();
+
+    expect(manager.hasSubscribers(uri)).toBe(false);
+  });
+
+  it('should keep notifying other subscribers when one fails', async () => {
+    const failing = createMockServer();
+    const working = createMockServer();
+    const uri = conversationResourceUri('cnv_123');
+    (failing.sendResourceUpdated as jest.Mock).mockRejectedValue(new Error('Not connected'));
+
+    manager.register(failing);
+    manager.register(working);
+    manager.subscribe(failing, uri);
+    manager.subscribe(working, uri);
+
+    await expect(manager.notifyResourceUpdated(uri)).resolves.toBe(2);
+    expect(working.sendResourceUpdated).toHaveBeenCalled();
+  });
+});
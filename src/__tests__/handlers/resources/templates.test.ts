@@ -0,0 +1,156 @@
+import { readResource } from '../../../handlers/resources/index.js';
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { config } from '../../../config/index.js';
+import { useConfig } from '../../helpers.js';
+// Register the tools whose access control applies to the resources
+import '../../../handlers/requests/index.js';
+
+// Mock the Frontapp client
+jest.mock('../../../clients/frontapp/index.js', () => ({
+  frontappClient: {
+    get: jest.fn(),
+    getConversation: jest.fn(),
+    getConversationMessages: jest.fn(),
+    getContact: jest.fn(),
+    collect: jest.fn(),
+  },
+}));
+
+describe('Resource templates', () => {
+  useConfig(() => ({
+    pii: { ...config.pii, enabled: false },
+    access: { ...config.access, readOnly: false, allowTools: '', denyTools: '' },
+  }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render a conversation as a transcript and as JSON', async () => {
+    (frontappClient.getConversation as jest.Mock).mockResolvedValue({
+      data: { id: 'cnv_123', subject: 'Refund request', status: 'open' },
+    });
+    // Messages and comments are listed page by page
+    const lists: Record<string, any[]> = {
+      '/conversations/cnv_123/messages': [
+        {
+          id: 'msg_2',
+          author: { first_name: 'Jane', last_name: 'Agent' },
+          created_at: 1700000200,
+          is_inbound: false,
+          body: '<p>Your refund has been issued.</p>',
+        },
+        {
+          id: 'msg_1',
+          recipients: [{ role: 'from', handle: 'customer@example.com' }],
+          created_at: 1700000000,
+          is_inbound: true,
+          text: 'I would like a refund.',
+        },
+      ],
+      '/conversations/cnv_123/comments': [
+        {
+          id: 'com_1',
+          author: { username: 'jane' },
+          posted_at: 1700000100,
+          body: 'Approved by billing',
+        },
+      ],
+    };
+    (frontappClient.collect as jest.Mock).mockImplementation(async (listPath: string) => ({
+      results: lists[listPath],
+      pages: 2,
+    }));
+
+    const [transcript, json] = await readResource('frontapp://conversations/cnv_123');
+
+    expect(frontappClient.collect).toHaveBeenCalledWith(
+      '/conversations/cnv_123/comments',
+      {},
+      config.pagination.maxItems
+    );
+    expect(transcript.mimeType).toBe('text/markdown');
+    expect(transcript.text).toContain('# Refund request');
+
+    // Messages and comments are interleaved in chronological order
+    const inbound = transcript.text.indexOf('customer@example.com (inbound message)');
+    const comment = transcript.text.indexOf('jane (internal comment)');
+    const outbound = transcript.text.indexOf('Jane Agent (outbound message)');
+    expect(inbound).toBeGreaterThan(-1);
+    expect(comment).toBeGreaterThan(inbound);
+    expect(outbound).toBeGreaterThan(comment);
+    expect(transcript.text).toContain('Your refund has been issued.');
+    expect(transcript.text).not.toContain('<p>');
+
+    expect(json.mimeType).toBe('application/json');
+    expect(JSON.parse(json.text).messages).toHaveLength(2);
+  });
+
+  it('should resolve contact resources by ID', async () => {
+    (frontappClient.getContact as jest.Mock).mockResolvedValue({
+      data: { id: 'crd_123', name: 'John Doe' },
+    });
+
+    const [content] = await readResource('frontapp://contacts/crd_123');
+
+    expect(frontappClient.getContact).toHaveBeenCalledWith('crd_123');
+    expect(JSON.parse(content.text)).toEqual({ id: 'crd_123', name: 'John Doe' });
+  });
+
+  it('should redact personal data like tool results', async () => {
+    config.pii = {
+      enabled: true,
+      types: 'email,phone',
+      allowFields: '',
+      reversible: true,
+      tokenTtlMs: 60000,
+    };
+    (frontappClient.getContact as jest.Mock).mockResolvedValue({
+      data: { id: 'crd_123', handles: [{ handle: 'john@example.com', source: 'email' }] },
+    });
+    (frontappClient.getConversationMessages as jest.Mock).mockResolvedValue({
+      data: { _results: [{ id: 'msg_1', text: 'Write to john@example.com or +1 (555) 123-4567' }] },
+    });
+
+    const [contact] = await readResource('frontapp://contacts/crd_123');
+    const [messages] = await readResource('frontapp://conversations/cnv_123/messages');
+
+    expect(JSON.parse(contact.text).handles[0].handle).toBe('<EMAIL_1>');
+    expect(JSON.parse(messages.text)._results[0].text).toBe('Write to <EMAIL_1> or <PHONE_1>');
+  });
+
+  it('should reject IDs that are not Front resource IDs', async () => {
+    await expect(readResource('frontapp://contacts/..%2Fteammates')).rejects.toThrow(
+      'Invalid resource ID in frontapp://contacts/..%2Fteammates'
+    );
+    await expect(readResource('frontapp://accounts/..%2F..%2Fevents')).rejects.toThrow(
+      'Invalid resource ID'
+    );
+    expect(frontappClient.getContact).not.toHaveBeenCalled();
+    expect(frontappClient.get).not.toHaveBeenCalled();
+  });
+
+  it('should apply the access control of the tool that reads the same data', async () => {
+    config.access.denyTools = 'contacts';
+
+    await expect(readResource('frontapp://contacts/crd_123')).rejects.toThrow(
+      'Tool get_contact is denied by the server configuration'
+    );
+    expect(frontappClient.getContact).not.toHaveBeenCalled();
+  });
+
+  it('should prefer static resources over templates', async () => {
+    (frontappClient.get as jest.Mock).mockResolvedValue({ data: { _results: [] } });
+
+    await readResource('frontapp://conversations/recent');
+
+    expect(frontappClient.get).toHaveBeenCalledWith('/conversations', { limit: 20 });
+    expect(frontappClient.getConversation).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown resources', async () => {
+    await expect(readResource('frontapp://unknown/123')).rejects.toThrow(
+      'Unknown resource: frontapp://unknown/123'
+    );
+  });
+});
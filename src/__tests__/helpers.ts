@@ -0,0 +1,52 @@
+/**
+ * Shared test helpers
+ * These helpers register beforeEach/afterEach hooks in the calling describe block
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config/index.js';
+
+type Config = typeof config;
+
+/**
+ * Create a temporary directory before each test and remove it after each test
+ * @param prefix The prefix of the directory name
+ * @returns A function that returns the directory of the current test
+ */
+export function useTempDir(prefix: string): () => string {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  return () => dir;
+}
+
+/**
+ * Replace configuration sections before each test and restore them after each test
+ * Sections are replaced as a whole, so tests may change fields of them freely
+ * @param overrides A function that returns the sections to replace, called before each test
+ */
+export function useConfig(overrides: () => Partial<Config>): void {
+  let originals: Partial<Config>;
+
+  beforeEach(() => {
+    const sections = overrides();
+    originals = {};
+    for (const key of Object.keys(sections) as Array<keyof Config>) {
+      (originals as any)[key] = config[key];
+      (config as any)[key] = sections[key];
+    }
+  });
+
+  afterEach(() => {
+    Object.assign(config, originals);
+  });
+}
@@ -8,6 +8,7 @@
 process.env.FRONTAPP_API_KEY = 'test_api_key';
 process.env.WEBHOOK_SECRET = 'test_webhook_secret';
 process.env.WEBHOOK_BASE_URL = 'http://localhost:3000';
+process.env.AUDIT_LOG_ENABLED = 'false';
 
 // Mock console methods to reduce noise in test output
 global.console = {
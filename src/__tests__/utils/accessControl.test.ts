@@ -0,0 +1,169 @@
+import { AccessControl } from '../../utils/accessControl.js';
+import { config } from '../../config/index.js';
+import { defineTool } from '../../handlers/requests/registry.js';
+import { useConfig } from '../helpers.js';
+
+const listContacts = defineTool({
+  name: 'list_contacts',
+  description: 'List contacts',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'read',
+  scopes: ['contacts:read'],
+  execute: async () => ({}),
+});
+
+const updateContact = defineTool({
+  name: 'update_contact',
+  description: 'Update a contact',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'write',
+  scopes: ['contacts:write'],
+  execute: async () => ({}),
+});
+
+const deleteContact = defineTool({
+  name: 'delete_contact',
+  description: 'Delete a contact',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'delete',
+  scopes: ['contacts:write'],
+  execute: async () => ({}),
+});
+
+const applyTag = defineTool({
+  name: 'apply_tag',
+  description: 'Apply a tag to a conversation',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'write',
+  scopes: ['tags:write'],
+  execute: async () => ({}),
+});
+
+const approveAction = defineTool({
+  name: 'approve_pending_action',
+  description: 'Approve a pending tool call',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'approve',
+  scopes: ['approvals:write'],
+  execute: async () => ({}),
+});
+
+const queryAuditLog = defineTool({
+  name: 'query_audit_log',
+  description: 'Query the audit log',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'admin',
+  scopes: ['audit:read'],
+  execute: async () => ({}),
+});
+
+describe('AccessControl', () => {
+  let accessControl: AccessControl;
+
+  useConfig(() => ({
+    api: { ...config.api, apiKey: 'gateway-key' },
+    access: {
+      apiKeyRole: 'admin',
+      apiKeys: 'explore-key:read-only, support-key:agent, review-key:approver',
+      readOnly: false,
+      allowTools: '',
+      denyTools: '',
+    },
+  }));
+
+  beforeEach(() => {
+    accessControl = new AccessControl();
+  });
+
+  it('should map API keys to roles', () => {
+    expect(accessControl.getRole('gateway-key')).toBe('admin');
+    expect(accessControl.getRole('explore-key')).toBe('read-only');
+    expect(accessControl.getRole('support-key')).toBe('agent');
+    expect(accessControl.getRole('review-key')).toBe('approver');
+    expect(accessControl.getRole('unknown-key')).toBeUndefined();
+  });
+
+  it('should treat callers without a role as admins', () => {
+    expect(accessControl.current()).toBe('admin');
+    expect(accessControl.isAllowed(deleteContact)).toBe(true);
+  });
+
+  it('should limit the access levels of each role', () => {
+    accessControl.run('read-only', () => {
+      expect(accessControl.isAllowed(listContacts)).toBe(true);
+      expect(accessControl.getDenialReason(updateContact)).toBe(
+        'Role read-only is not allowed to run write tools such as update_contact'
+      );
+    });
+
+    accessControl.run('agent', () => {
+      expect(accessControl.isAllowed(updateContact)).toBe(true);
+      expect(accessControl.isAllowed(deleteContact)).toBe(false);
+    });
+  });
+
+  it('should only let approvers approve, not callers with the default role', () => {
+    expect(accessControl.getDenialReason(approveAction)).toBe(
+      'Role admin is not allowed to run approve tools such as approve_pending_action'
+    );
+    accessControl.run(config.access.apiKeyRole, () => {
+      expect(accessControl.isAllowed(approveAction)).toBe(false);
+    });
+
+    accessControl.run('approver', () => {
+      expect(accessControl.isAllowed(approveAction)).toBe(true);
+      expect(accessControl.isAllowed(listContacts)).toBe(true);
+      expect(accessControl.isAllowed(updateContact)).toBe(false);
+    });
+  });
+
+  it('should only let admins use admin tools, also in read-only mode', () => {
+    accessControl.run('agent', () => {
+      expect(accessControl.getDenialReason(queryAuditLog)).toBe(
+        'Role agent is not allowed to run admin tools such as query_audit_log'
+      );
+    });
+    accessControl.run('approver', () => {
+      expect(accessControl.isAllowed(queryAuditLog)).toBe(false);
+    });
+
+    config.access.readOnly = true;
+    accessControl.run('admin', () => {
+      expect(accessControl.isAllowed(queryAuditLog)).toBe(true);
+    });
+  });
+
+  it('should refuse tools that modify data in read-only mode', () => {
+    config.access.readOnly = true;
+
+    expect(accessControl.isAllowed(listContacts)).toBe(true);
+    expect(accessControl.getDenialReason(updateContact)).toBe(
+      'Tool update_contact modifies data and the server is in read-only mode'
+    );
+  });
+
+  it('should apply the allow and deny lists by name, category and scope', () => {
+    config.access.allowTools = 'contacts,apply_tag';
+    config.access.denyTools = 'contacts:write';
+
+    expect(accessControl.isAllowed(listContacts)).toBe(true);
+    expect(accessControl.isAllowed(applyTag)).toBe(true);
+    expect(accessControl.getDenialReason(updateContact)).toBe(
+      'Tool update_contact is denied by the server configuration'
+    );
+
+    config.access.allowTools = 'contacts';
+    expect(accessControl.getDenialReason(applyTag)).toBe(
+      'Tool apply_tag is not allowed by the server configuration'
+    );
+  });
+
+  it('should match access levels in the allow and deny lists', () => {
+    config.access.denyTools = 'delete';
+
+    expect(accessControl.isAllowed(updateContact)).toBe(true);
+    expect(accessControl.getDenialReason(deleteContact)).toBe(
+      'Tool delete_contact is denied by the server configuration'
+    );
+  });
+});
@@ -0,0 +1,171 @@
+import { AnalyticsReports, resolveDateRange } from '../../utils/analyticsReports.js';
+import { frontappClient } from '../../clients/frontapp/index.js';
+import { cacheManager } from '../../utils/cache.js';
+import { useConfig } from '../helpers.js';
+
+// Mock the Frontapp client
+jest.mock('../../clients/frontapp/index.js', () => ({
+  frontappClient: {
+    get: jest.fn(),
+    post: jest.fn(),
+  },
+}));
+
+describe('resolveDateRange', () => {
+  // A Wednesday
+  const now = Date.parse('2024-01-17T10:30:00Z');
+
+  it('should resolve named ranges in the timezone', () => {
+    expect(resolveDateRange({ range: 'last_week' }, 'UTC', now)).toEqual({
+      name: 'last_week',
+      start: 1704672000, // Monday 2024-01-08
+      end: 1705276800,
+      timezone: 'UTC',
+      label: 'Last week (2024-01-08 00:00 to 2024-01-15 00:00, UTC)',
+    });
+    expect(resolveDateRange({ range: 'last_week' }, 'Europe/Paris', now)).toMatchObject({
+      start: 1704668400,
+      end: 1705273200,
+    });
+    expect(resolveDateRange({ range: 'last_month' }, 'UTC', now)).toMatchObject({
+      start: 1701388800,
+      end: 1704067200,
+    });
+    expect(resolveDateRange({ range: 'this_week' }, 'UTC', now)).toMatchObject({
+      start: 1705276800,
+      end: now / 1000,
+    });
+    expect(resolveDateRange({}, 'UTC', now)).toMatchObject({
+      name: 'last_7_days',
+      start: 1704844800,
+      end: 1705449600,
+    });
+  });
+
+  it('should resolve custom ranges, with dates that end after the day', () => {
+    // Clocks go forward on 2024-03-10 in New York, so the day is 23 hours long
+    expect(
+      resolveDateRange({ start: '2024-03-10', end: '2024-03-10' }, 'America/New_York', now)
+    ).toEqual({
+      start: 1710046800,
+      end: 1710129600,
+      timezone: 'America/New_York',
+      label: '2024-03-10 00:00 to 2024-03-11 00:00 (America/New_York)',
+    });
+    expect(resolveDateRange({ start: 1704067200, end: '1704153600' }, 'UTC', now)).toMatchObject({
+      start: 1704067200,
+      end: 1704153600,
+    });
+  });
+
+  it('should reject invalid ranges', () => {
+    expect(() => resolveDateRange({ range: 'fortnight' }, 'UTC', now)).toThrow(
+      'Unknown date range: fortnight'
+    );
+    expect(() => resolveDateRange({ range: 'last_week', start: 1 }, 'UTC', now)).toThrow(
+      'Give either a range, or a start and an end, not both'
+    );
+    expect(() => resolveDateRange({ start: 'soon' }, 'UTC', now)).toThrow('Invalid start: soon');
+    expect(() => resolveDateRange({ start: '2024-02-01', end: '2024-01-01' }, 'UTC', now)).toThrow(
+      'The start of the date range must be earlier than its end'
+    );
+    expect(() => resolveDateRange({}, 'Mars/Base', now)).toThrow('Invalid timezone: Mars/Base');
+  });
+});
+
+describe('AnalyticsReports', () => {
+  const metric = { id: 'avg_first_response_time', type: 'duration', value: 5400 };
+  let reports: AnalyticsReports;
+
+  useConfig(() => ({ analytics: { timezone: 'UTC', reportTtlMs: 60000, waitSeconds: 0 } }));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await cacheManager.clear();
+    (frontappClient.post as jest.Mock).mockResolvedValue({
+      data: {
+        _links: { self: 'https://api2.frontapp.com/analytics/reports/rpt_1' },
+        status: 'running',
+        progress: 0,
+      },
+    });
+    (frontappClient.get as jest.Mock).mockResolvedValue({
+      data: { status: 'done', progress: 100, metrics: [metric] },
+    });
+    reports = new AnalyticsReports();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should start a report with the metrics of the presets', async () => {
+    const report = await reports.run({
+      presets: ['first_response_time', 'sla_breaches'],
+      metrics: ['avg_first_response_time', 'num_messages_sent'],
+      start: '2024-01-08',
+      end: '2024-01-14',
+      inbox_ids: ['inb_support'],
+      tag_ids: [],
+    });
+
+    expect(frontappClient.post).toHaveBeenCalledWith('/analytics/reports', {
+      start: 1704672000,
+      end: 1705276800,
+      timezone: 'UTC',
+      metrics: [
+        'avg_first_response_time',
+        'avg_response_time',
+        'num_sla_goal_met',
+        'num_sla_goal_breached',
+        'avg_sla_breach_time',
+        'num_messages_sent',
+      ],
+      filters: { inbox_ids: ['inb_support'] },
+    });
+    expect(report).toMatchObject({ report_id: 'rpt_1', status: 'running', progress: 0 });
+  });
+
+  it('should wait for the report to be done', async () => {
+    jest.useFakeTimers();
+    const running = reports.run({ presets: ['first_response_time'] }, { waitSeconds: 5 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await running).toMatchObject({ status: 'done', progress: 100, metrics: [metric] });
+    expect(frontappClient.get).toHaveBeenCalledWith('/analytics/reports/rpt_1');
+  });
+
+  it('should get a report by ID and serve it from the cache once done', async () => {
+    const started = await reports.run({ presets: ['first_response_time'] });
+
+    const report = await reports.get(started.report_id);
+    expect(report).toMatchObject({ status: 'done', presets: ['first_response_time'] });
+    expect(report.range?.name).toBe('last_7_days');
+
+    expect(await reports.get(started.report_id)).toMatchObject({ status: 'done', cached: true });
+    expect(await reports.run({ presets: ['first_response_time'] })).toMatchObject({
+      report_id: 'rpt_1',
+      cached: true,
+    });
+    expect(frontappClient.get).toHaveBeenCalledTimes(1);
+    expect(frontappClient.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report failed reports', async () => {
+    (frontappClient.get as jest.Mock).mockResolvedValue({ data: { status: 'failed' } });
+
+    await expect(reports.get('rpt_2')).rejects.toThrow('Analytics report rpt_2 failed');
+  });
+
+  it('should reject invalid requests', async () => {
+    await expect(reports.run({ presets: ['weekly'] })).rejects.toThrow(
+      'Unknown analytics preset: weekly'
+    );
+    await expect(reports.run({ metrics: ['avg first response'] })).rejects.toThrow(
+      'Invalid metric ID: avg first response'
+    );
+    await expect(reports.run({})).rejects.toThrow('Give at least one analytics preset or metric');
+    expect(frontappClient.post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,187 @@
+import fs from 'fs';
+import path from 'path';
+import { ApprovalQueue } from '../../utils/approvalQueue.js';
+import { config } from '../../config/index.js';
+import { accessControl } from '../../utils/accessControl.js';
+import { defineTool } from '../../handlers/requests/registry.js';
+import { useConfig, useTempDir } from '../helpers.js';
+
+const sendMessage = defineTool({
+  name: 'send_message',
+  description: 'Send a message',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'write',
+  scopes: ['messages:write'],
+  execute: async () => ({}),
+});
+
+const deleteContact = defineTool({
+  name: 'delete_contact',
+  description: 'Delete a contact',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'delete',
+  scopes: ['contacts:write'],
+  execute: async () => ({}),
+});
+
+const applyTag = defineTool({
+  name: 'apply_tag',
+  description: 'Apply a tag to a conversation',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'write',
+  scopes: ['tags:write'],
+  execute: async () => ({}),
+});
+
+const rejectAction = defineTool({
+  name: 'reject_pending_action',
+  description: 'Reject a pending tool call',
+  inputSchema: { type: 'object', properties: {} },
+  access: 'approve',
+  scopes: ['approvals:write'],
+  execute: async () => ({}),
+});
+
+const success = { content: [{ type: 'text', text: '{}' }] };
+
+describe('ApprovalQueue', () => {
+  const tempDir = useTempDir('pending-actions-');
+  let filePath: string;
+  let queue: ApprovalQueue;
+
+  useConfig(() => ({
+    pii: { ...config.pii, enabled: false },
+    security: { ...config.security },
+    approvals: {
+      enabled: true,
+      tools: 'send_message,delete',
+      ttlMs: 60000,
+      path: path.join(tempDir(), 'pending-actions.jsonl'),
+    },
+  }));
+
+  beforeEach(() => {
+    filePath = config.approvals.path;
+    queue = new ApprovalQueue(filePath);
+  });
+
+  it('should require approval for the configured tools in approval mode', () => {
+    expect(queue.requiresApproval(sendMessage)).toBe(true);
+    expect(queue.requiresApproval(deleteContact)).toBe(true);
+    expect(queue.requiresApproval(applyTag)).toBe(false);
+    expect(queue.requiresApproval(rejectAction)).toBe(false);
+
+    config.approvals.enabled = false;
+    expect(queue.requiresApproval(sendMessage)).toBe(false);
+  });
+
+  it('should execute approved actions', async () => {
+    const action = queue.enqueue('send_message', { body: 'Hello' }, 'default');
+    const execute = jest.fn().mockResolvedValue(success);
+
+    const approved = await queue.approve(action.id, { apiKeyId: 'key_alice' }, execute);
+
+    expect(execute).toHaveBeenCalledWith(expect.objectContaining({ arguments: { body: 'Hello' } }));
+    expect(approved.status).toBe('executed');
+    expect(approved.decidedBy).toBe('key_alice');
+    expect(approved.result).toEqual(success);
+  });
+
+  it('should mark approved actions whose tool fails as failed', async () => {
+    const action = queue.enqueue('send_message', {}, 'default');
+
+    const approved = await queue.approve(action.id, { apiKeyId: 'key_alice' }, async () => {
+      throw new Error('Frontapp is down');
+    });
+
+    expect(approved.status).toBe('failed');
+    expect(approved.result?.isError).toBe(true);
+  });
+
+  it('should not run rejected actions', async () => {
+    const action = queue.enqueue('delete_contact', { contact_id: 'crd_1' }, 'default');
+    const execute = jest.fn().mockResolvedValue(success);
+
+    const decider = { apiKeyId: 'key_bob', note: 'Bob' };
+    const rejected = queue.reject(action.id, decider, 'Wrong contact');
+
+    expect(rejected).toMatchObject({ status: 'rejected', decidedBy: 'key_bob', decisionNote: 'Bob' });
+    expect(rejected.reason).toBe('Wrong contact');
+    await expect(queue.approve(action.id, { apiKeyId: 'key_alice' }, execute)).rejects.toThrow(
+      `Action ${action.id} is rejected, only pending actions can be decided`
+    );
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should expire actions that are not decided within the TTL', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    try {
+      const action = queue.enqueue('send_message', {}, 'default');
+
+      jest.setSystemTime(new Date('2024-01-01T00:01:01Z'));
+
+      expect(queue.get(action.id)?.status).toBe('expired');
+      expect(() => queue.reject(action.id, { apiKeyId: 'key_bob' })).toThrow('is expired');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should list the actions of a tenant by status', () => {
+    const pending = queue.enqueue('send_message', {}, 'acme');
+    queue.enqueue('send_message', {}, 'default');
+    queue.reject(queue.enqueue('send_message', {}, 'acme').id, { apiKeyId: 'key_bob' });
+
+    expect(queue.list({ status: 'pending', tenant: 'acme' }).map((action) => action.id)).toEqual([
+      pending.id,
+    ]);
+  });
+
+  it('should let another process decide the actions', async () => {
+    const action = queue.enqueue('send_message', { body: 'Hello' }, 'default');
+    const gateway = new ApprovalQueue(filePath);
+
+    expect(gateway.list({ status: 'pending' }).map((pending) => pending.id)).toEqual([action.id]);
+    await gateway.approve(
+      action.id,
+      { apiKeyId: 'key_alice' },
+      jest.fn().mockResolvedValue(success)
+    );
+
+    expect(queue.get(action.id)).toMatchObject({ status: 'executed', decidedBy: 'key_alice' });
+    expect(() => queue.reject(action.id, { apiKeyId: 'key_bob' })).toThrow('is executed');
+  });
+
+  it('should store personal data in the arguments encrypted', async () => {
+    config.pii = { ...config.pii, enabled: true, types: 'email,phone', allowFields: '' };
+    config.security = { ...config.security, encryptionKey: 'a'.repeat(64) };
+    const args = { to: ['jane@example.com'], body: 'Call me on +44 20 7946 0958' };
+
+    const action = queue.enqueue('send_message', args, 'default');
+    const execute = jest.fn().mockResolvedValue(success);
+    await new ApprovalQueue(filePath).approve(action.id, { apiKeyId: 'key_alice' }, (approved) =>
+      execute(queue.getArguments(approved))
+    );
+
+    const file = fs.readFileSync(filePath, 'utf8');
+    expect(file).not.toContain('jane@example.com');
+    expect(file).not.toContain('7946');
+    expect(action.arguments).toEqual({ to: ['<EMAIL_1>'], body: 'Call me on <PHONE_1>' });
+    expect(execute).toHaveBeenCalledWith(args);
+    expect(queue.reveal(queue.get(action.id)!).arguments).toEqual(args);
+  });
+
+  it('should only show the personal data of actions to approvers', async () => {
+    config.pii = { ...config.pii, enabled: true, types: 'email,phone', allowFields: '' };
+    config.security = { ...config.security, encryptionKey: 'a'.repeat(64) };
+    const args = { to: ['jane@example.com'], body: 'Hi Jane' };
+    const action = queue.enqueue('send_message', args, 'default');
+
+    const shown = accessControl.run('agent', () => queue.present(action));
+    const revealed = accessControl.run('approver', () => queue.present(action));
+
+    expect(shown.arguments).toEqual({ to: ['[REDACTED_EMAIL]'], body: 'Hi Jane' });
+    expect(shown).not.toHaveProperty('sealedValues');
+    expect(revealed.arguments).toEqual(args);
+  });
+});
@@ -0,0 +1,138 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AttachmentUtil } from '../../utils/attachments.js';
+import { frontappClient } from '../../clients/frontapp/index.js';
+import { config } from '../../config/index.js';
+import { createPdf } from '../../mock/fixtures.js';
+import { useConfig, useTempDir } from '../helpers.js';
+
+// Mock the Frontapp client
+jest.mock('../../clients/frontapp/index.js', () => ({
+  frontappClient: {
+    download: jest.fn(),
+  },
+}));
+
+describe('AttachmentUtil', () => {
+  const tempDir = useTempDir('attachments-');
+  let util: AttachmentUtil;
+
+  useConfig(() => ({
+    attachments: { maxSizeBytes: 1024, allowedDirs: tempDir(), textMaxChars: 1000 },
+  }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    util = new AttachmentUtil();
+  });
+
+  describe('resolve', () => {
+    it('should resolve base64 content, local files and earlier attachments', async () => {
+      fs.writeFileSync(path.join(tempDir(), 'notes.txt'), 'From disk');
+      (frontappClient.download as jest.Mock).mockResolvedValue({
+        content: Buffer.from('%PDF'),
+        contentType: 'application/pdf',
+        filename: 'invoice.pdf',
+      });
+
+      const files = await util.resolve([
+        { content_base64: Buffer.from('a,b').toString('base64'), filename: 'data.csv' },
+        { path: path.join(tempDir(), 'notes.txt') },
+        { attachment_id: 'frontapp://attachments/fil_123' },
+      ]);
+
+      expect(files.map(({ filename, contentType }) => [filename, contentType])).toEqual([
+        ['data.csv', 'text/csv'],
+        ['notes.txt', 'text/plain'],
+        ['invoice.pdf', 'application/pdf'],
+      ]);
+      expect(files[1].content.toString()).toBe('From disk');
+      expect(frontappClient.download).toHaveBeenCalledWith('/download/fil_123', 1024);
+    });
+
+    it('should only attach local files of the allowed directories', async () => {
+      const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'outside-'));
+      fs.writeFileSync(path.join(outside, 'secret.txt'), 'secret');
+
+      try {
+        await expect(util.resolve([{ path: path.join(outside, 'secret.txt') }])).rejects.toThrow(
+          'is not in a directory of ATTACHMENT_ALLOWED_DIRS'
+        );
+        await expect(
+          util.resolve([{ path: path.join(tempDir(), '..', path.basename(outside), 'secret.txt') }])
+        ).rejects.toThrow('is not in a directory of ATTACHMENT_ALLOWED_DIRS');
+
+        config.attachments.allowedDirs = '';
+        await expect(util.resolve([{ path: path.join(outside, 'secret.txt') }])).rejects.toThrow(
+          'attaching local files is disabled'
+        );
+      } finally {
+        fs.rmSync(outside, { recursive: true, force: true });
+      }
+    });
+
+    it('should require exactly one source and a filename for base64 content', async () => {
+      await expect(util.resolve([{ filename: 'empty.txt' }])).rejects.toThrow(
+        'attachments[0] needs exactly one of path, content_base64 or attachment_id'
+      );
+      await expect(util.resolve([{ content_base64: 'aGk=' }])).rejects.toThrow(
+        'attachments[0] needs a filename with content_base64'
+      );
+    });
+
+    it('should reject attachments larger than the size limit', async () => {
+      const content = Buffer.alloc(600).toString('base64');
+
+      await expect(
+        util.resolve([
+          { content_base64: content, filename: 'a.bin' },
+          { content_base64: content, filename: 'b.bin' },
+        ])
+      ).rejects.toThrow('Attachments are 1200 bytes, more than the 1024 bytes allowed');
+    });
+  });
+
+  describe('toFormData', () => {
+    it('should encode arrays, objects and files like Front expects', async () => {
+      const form = util.toFormData(
+        { to: ['a@example.com', 'b@example.com'], sender: { handle: 'c@example.com' }, body: 'Hi' },
+        [{ filename: 'data.csv', contentType: 'text/csv', content: Buffer.from('a,b') }]
+      );
+
+      expect(form.get('to[0]')).toBe('a@example.com');
+      expect(form.get('to[1]')).toBe('b@example.com');
+      expect(form.get('sender[handle]')).toBe('c@example.com');
+      expect(form.get('body')).toBe('Hi');
+
+      const file = form.get('attachments[0]') as File;
+      expect(file.name).toBe('data.csv');
+      expect(file.type).toBe('text/csv');
+      expect(await file.text()).toBe('a,b');
+    });
+  });
+
+  describe('extractText', () => {
+    it('should extract the text of PDFs', () => {
+      const pdf = createPdf(['Invoice #1042', 'Total: 89.00 EUR (paid)']);
+
+      expect(util.extractText(pdf, 'application/pdf')).toEqual({
+        text: 'Invoice #1042\nTotal: 89.00 EUR (paid)',
+        truncated: false,
+      });
+    });
+
+    it('should convert HTML to text and cut long text', () => {
+      config.attachments.textMaxChars = 5;
+
+      expect(util.extractText(Buffer.from('<p>Hello world</p>'), 'text/html')).toEqual({
+        text: 'Hello',
+        truncated: true,
+      });
+    });
+
+    it('should not extract text from binary files', () => {
+      expect(util.extractText(Buffer.from([0x89, 0x50]), 'image/png')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import path from 'path';
+import { AuditLog, findResourceIds, redactArguments } from '../../utils/auditLog.js';
+import { accessControl } from '../../utils/accessControl.js';
+import { requestContext } from '../../utils/requestContext.js';
+import { config } from '../../config/index.js';
+import { ToolResponse } from '../../models/mcp.js';
+import { useConfig, useTempDir } from '../helpers.js';
+
+describe('AuditLog', () => {
+  const tempDir = useTempDir('audit-log-');
+  let auditLog: AuditLog;
+
+  useConfig(() => ({ audit: { ...config.audit, enabled: true } }));
+
+  beforeEach(() => {
+    auditLog = new AuditLog(path.join(tempDir(), 'audit.jsonl'));
+  });
+
+  it('should record the caller of a tool call', async () => {
+    const context = { requestId: 'req_1', apiKeyId: 'key_abc', sessionId: 'session-1' };
+
+    const entry = requestContext.run(context, () =>
+      accessControl.run('agent', () =>
+        auditLog.recordToolCall({
+          tool: 'archive_conversation',
+          access: 'write',
+          arguments: { conversation_id: 'cnv_1' },
+          outcome: 'success',
+          latencyMs: 12,
+        })
+      )
+    );
+
+    expect(entry).toMatchObject({
+      requestId: 'req_1',
+      actor: { type: 'api_key', apiKeyId: 'key_abc', sessionId: 'session-1', role: 'agent' },
+      tenant: 'default',
+      resourceIds: ['cnv_1'],
+      outcome: 'success',
+      latencyMs: 12,
+    });
+    expect(await auditLog.query()).toEqual([entry]);
+  });
+
+  it('should record calls made without a request as stdio calls', () => {
+    const entry = auditLog.recordToolCall({
+      tool: 'list_tags',
+      arguments: {},
+      outcome: 'success',
+      latencyMs: 1,
+    });
+
+    expect(entry?.actor).toEqual({ type: 'stdio', role: 'admin' });
+  });
+
+  it('should not record tool calls when disabled', async () => {
+    config.audit.enabled = false;
+
+    auditLog.recordToolCall({ tool: 'list_tags', arguments: {}, outcome: 'success', latencyMs: 1 });
+
+    expect(await auditLog.query()).toEqual([]);
+  });
+
+  it('should filter entries by resource, actor, outcome and time', async () => {
+    const record = (tool: string, args: Record<string, any>, apiKeyId: string, outcome: any) =>
+      requestContext.run({ requestId: tool, apiKeyId }, () =>
+        auditLog.recordToolCall({ tool, arguments: args, outcome, latencyMs: 0 })
+      );
+
+    const first = record('get_conversation', { conversation_id: 'cnv_1' }, 'key_a', 'success');
+    const second = record('apply_tag', { conversation_id: 'cnv_1' }, 'key_b', 'error');
+    record('get_conversation', { conversation_id: 'cnv_2' }, 'key_a', 'success');
+
+    expect(await auditLog.query({ resourceId: 'cnv_1' })).toEqual([second, first]);
+    expect(await auditLog.query({ actor: 'key_b' })).toEqual([second]);
+    expect(await auditLog.query({ outcome: 'error' })).toEqual([second]);
+    expect(await auditLog.query({ until: first!.timestamp })).toEqual([]);
+    expect(await auditLog.query({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('should read the most recent entries first until the limit is reached', async () => {
+    const body = 'x'.repeat(1000);
+    for (let i = 0; i < 300; i++) {
+      auditLog.recordToolCall({
+        tool: 'list_tags',
+        arguments: { page_token: `page-${i}`, note: body },
+        outcome: 'success',
+        latencyMs: 0,
+      });
+    }
+
+    const entries = await auditLog.query({ limit: 250 });
+
+    expect(entries.map((entry) => entry.arguments.page_token)).toEqual(
+      Array.from({ length: 250 }, (_, i) => `page-${299 - i}`)
+    );
+  });
+});
+
+describe('redactArguments', () => {
+  useConfig(() => ({ pii: { ...config.pii, enabled: false } }));
+
+  it('should redact credentials and message content', () => {
+    expect(
+      redactArguments({
+        conversation_id: 'cnv_1',
+        body: 'Hello there',
+        options: { api_key: 'abc', text: 'Hi' },
+        page_token: 'next',
+      })
+    ).toEqual({
+      conversation_id: 'cnv_1',
+      body: '[11 characters]',
+      options: { api_key: '[REDACTED]', text: '[2 characters]' },
+      page_token: 'next',
+    });
+  });
+});
+
+describe('findResourceIds', () => {
+  it('should find the resources in the arguments and the created resource', () => {
+    const result: ToolResponse = {
+      content: [{ type: 'text', text: JSON.stringify({ id: 'msg_9' }) }],
+    };
+
+    expect(
+      findResourceIds({ conversation_id: 'cnv_1', tag_ids: ['tag_1', 'tag_2'], body: 'Hi' }, result)
+    ).toEqual(['cnv_1', 'tag_1', 'tag_2', 'msg_9']);
+  });
+
+  it('should mask personal data while PII redaction is enabled', () => {
+    config.pii = { ...config.pii, enabled: true, types: 'email,phone', allowFields: '' };
+
+    expect(
+      redactArguments({
+        to: ['jane@example.com'],
+        contact: { handles: [{ handle: '+44 20 7946 0958', source: 'phone' }] },
+      })
+    ).toEqual({
+      to: ['[REDACTED_EMAIL]'],
+      contact: { handles: [{ handle: '[REDACTED_PHONE]', source: 'phone' }] },
+    });
+  });
+});
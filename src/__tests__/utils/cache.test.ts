@@ -0,0 +1,146 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  CacheBackend,
+  CacheManager,
+  FileCacheBackend,
+  MemoryCacheBackend,
+} from '../../utils/cache.js';
+import { useTempDir } from '../helpers.js';
+
+// Create a cache entry that expires in an hour
+function entry(data: any, tags: string[] = []) {
+  return { data, expiresAt: Date.now() + 60 * 60 * 1000, tags };
+}
+
+describe('Cache backends', () => {
+  const tempDir = useTempDir('cache-');
+
+  const backends: Array<[string, (maxEntries: number) => CacheBackend]> = [
+    ['memory', (maxEntries) => new MemoryCacheBackend(maxEntries)],
+    ['file', (maxEntries) => new FileCacheBackend(tempDir(), maxEntries)],
+  ];
+
+  describe.each(backends)('%s backend', (_name, createBackend) => {
+    it('should evict the least recently used entry when full', async () => {
+      const backend = createBackend(2);
+      await backend.set('a', entry(1));
+      await backend.set('b', entry(2));
+      await backend.get('a');
+      await backend.set('c', entry(3));
+
+      expect(await backend.get('a')).toMatchObject({ data: 1 });
+      expect(await backend.get('b')).toBeUndefined();
+      expect(await backend.get('c')).toMatchObject({ data: 3 });
+      expect(await backend.size()).toBe(2);
+    });
+
+    it('should not return expired entries', async () => {
+      const backend = createBackend(10);
+      await backend.set('a', { data: 1, expiresAt: Date.now() - 1, tags: [] });
+
+      expect(await backend.get('a')).toBeUndefined();
+      expect(await backend.deleteExpired()).toBe(0);
+    });
+
+    it('should delete the entries with any of the tags', async () => {
+      const backend = createBackend(10);
+      await backend.set('contact', entry({ id: 'crd_1' }, ['crd_1']));
+      await backend.set('list', entry({ _results: [] }, ['crd_1', 'crd_2']));
+      await backend.set('other', entry({ id: 'crd_3' }, ['crd_3']));
+
+      expect((await backend.deleteTagged(['crd_1'])).sort()).toEqual(['contact', 'list']);
+      expect(await backend.get('other')).toBeDefined();
+      expect(await backend.size()).toBe(1);
+    });
+
+    it('should return copies of the cached data', async () => {
+      const backend = createBackend(10);
+      await backend.set('a', entry({ name: 'Support' }));
+
+      (await backend.get('a')).data.name = 'Changed';
+
+      expect((await backend.get('a')).data).toEqual({ name: 'Support' });
+    });
+  });
+
+  it('should keep file entries across instances', async () => {
+    await new FileCacheBackend(tempDir(), 10).set('tags', entry(['tag_1'], ['tag_1']));
+
+    const reloaded = new FileCacheBackend(tempDir(), 10);
+
+    expect(await reloaded.get('tags')).toMatchObject({ data: ['tag_1'], tags: ['tag_1'] });
+    expect(await reloaded.deleteTagged(['tag_1'])).toEqual(['tags']);
+    expect(fs.readdirSync(tempDir())).toEqual([]);
+  });
+
+  it('should encrypt the key and data of file entries', async () => {
+    await new FileCacheBackend(tempDir(), 10).set(
+      '/contacts?q=jane@example.com',
+      entry({ email: 'jane@example.com' })
+    );
+
+    const [file] = fs.readdirSync(tempDir());
+
+    expect(fs.readFileSync(path.join(tempDir(), file), 'utf8')).not.toContain('jane@example.com');
+  });
+
+  it('should drop file entries without encrypted data', async () => {
+    fs.writeFileSync(
+      path.join(tempDir(), 'plain.json'),
+      JSON.stringify({ key: 'tags', ...entry(['tag_1']) })
+    );
+
+    const backend = new FileCacheBackend(tempDir(), 10);
+
+    expect(await backend.size()).toBe(0);
+    expect(fs.readdirSync(tempDir())).toEqual([]);
+  });
+
+  it('should drop unreadable cache files', async () => {
+    fs.writeFileSync(path.join(tempDir(), 'broken.json'), '{');
+
+    const backend = new FileCacheBackend(tempDir(), 10);
+
+    expect(await backend.size()).toBe(0);
+    expect(fs.readdirSync(tempDir())).toEqual([]);
+  });
+});
+
+describe('CacheManager', () => {
+  it('should use the default TTLs unless overridden', () => {
+    const cache = new CacheManager({ ttls: 'contacts=1000, tags=0' });
+
+    expect(cache.getTtl('contacts')).toBe(1000);
+    expect(cache.getTtl('tags')).toBe(0);
+    expect(cache.getTtl('teammates')).toBe(60 * 60 * 1000);
+    expect(cache.getTtl('unknown')).toBe(0);
+  });
+
+  it('should invalidate entries by tag and count hits and misses', async () => {
+    const cache = new CacheManager({ backend: 'memory' });
+    await cache.set('frontapp:contacts:/contacts/crd_1', { id: 'crd_1' }, 1000, ['frontapp:crd_1']);
+
+    expect(await cache.get('frontapp:contacts:/contacts/crd_1')).toEqual({ id: 'crd_1' });
+    expect(await cache.invalidate(['frontapp:crd_1'])).toEqual([
+      'frontapp:contacts:/contacts/crd_1',
+    ]);
+    expect(await cache.get('frontapp:contacts:/contacts/crd_1')).toBeUndefined();
+    expect(await cache.stats()).toMatchObject({ hits: 1, misses: 1, invalidations: 1 });
+  });
+
+  it('should not cache values with a TTL of 0', async () => {
+    const cache = new CacheManager({ backend: 'memory' });
+    await cache.set('key', 'value', 0);
+
+    expect(await cache.size()).toBe(0);
+  });
+
+  it('should treat backend errors as cache misses', async () => {
+    const backend = new MemoryCacheBackend(10);
+    jest.spyOn(backend, 'get').mockRejectedValue(new Error('disk full'));
+    const cache = new CacheManager({}, backend);
+
+    await expect(cache.getOrSet('key', async () => 'fetched', 1000)).resolves.toBe('fetched');
+  });
+});
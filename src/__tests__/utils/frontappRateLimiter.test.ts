@@ -0,0 +1,92 @@
+import { FrontappRateLimiter } from '../../utils/frontappRateLimiter.js';
+import { config } from '../../config/index.js';
+import { useConfig } from '../helpers.js';
+
+describe('FrontappRateLimiter', () => {
+  let limiter: FrontappRateLimiter;
+  let sent: string[];
+
+  // Schedule a request that records when it is sent
+  function request(name: string, key = 'default') {
+    return limiter.schedule(key, async () => {
+      sent.push(name);
+      return name;
+    });
+  }
+
+  useConfig(() => ({ frontapp: { ...config.frontapp, rateLimit: { perMinute: 60, burst: 2 } } }));
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    limiter = new FrontappRateLimiter();
+    sent = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send a burst at once and spread the next requests over the minute', async () => {
+    const requests = ['a', 'b', 'c'].map((name) => request(name));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toEqual(['a', 'b']);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sent).toEqual(['a', 'b', 'c']);
+    await expect(Promise.all(requests)).resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('should send waiting interactive requests before background requests', async () => {
+    request('a');
+    request('b');
+    limiter.run('background', () => request('background'));
+    request('interactive');
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sent).toEqual(['a', 'b', 'interactive']);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sent).toEqual(['a', 'b', 'interactive', 'background']);
+  });
+
+  it('should keep a token bucket per Front company', async () => {
+    request('a');
+    request('b');
+    request('c');
+    request('acme', 'acme');
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toEqual(['a', 'b', 'acme']);
+  });
+
+  it('should pause requests after a 429 until retry-after', async () => {
+    expect(limiter.throttle('default', { 'retry-after': '5' })).toBe(5000);
+    request('a');
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(sent).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sent).toEqual(['a']);
+    expect(limiter.getStats().default.pausedUntil).toBeUndefined();
+  });
+
+  it('should follow the rate limit headers of responses', async () => {
+    limiter.update('default', {
+      'x-ratelimit-limit': '120',
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(Date.now() / 1000 + 10),
+    });
+    request('a');
+
+    expect(limiter.getStats().default).toMatchObject({
+      perMinute: 120,
+      queued: { interactive: 1, background: 0 },
+      pausedUntil: '2024-01-01T00:00:10.000Z',
+    });
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(sent).toEqual(['a']);
+  });
+});
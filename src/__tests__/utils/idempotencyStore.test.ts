@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import { IdempotencyStore } from '../../utils/idempotencyStore.js';
+import { config } from '../../config/index.js';
+import { ToolResponse } from '../../models/mcp.js';
+import { requestContext } from '../../utils/requestContext.js';
+import { useConfig, useTempDir } from '../helpers.js';
+
+// Create a tool response with a text content
+function text(value: string, isError = false): ToolResponse {
+  return { content: [{ type: 'text', text: value }], isError };
+}
+
+describe('IdempotencyStore', () => {
+  const tempDir = useTempDir('idempotency-');
+  let filePath: string;
+  let store: IdempotencyStore;
+
+  useConfig(() => ({
+    idempotency: {
+      ...config.idempotency,
+      enabled: true,
+      path: path.join(tempDir(), 'idempotency-keys.jsonl'),
+      ttlMs: 60 * 60 * 1000,
+    },
+  }));
+
+  beforeEach(() => {
+    filePath = config.idempotency.path;
+    store = new IdempotencyStore(filePath);
+  });
+
+  // Run a call through the store, counting how often it executes
+  async function call(
+    args: Record<string, any>,
+    idempotencyKey?: string,
+    response = text('sent'),
+    tool = 'send_message'
+  ) {
+    const key = store.getKey(tool, 'default', args, idempotencyKey);
+    const execute = jest.fn().mockResolvedValue(response);
+    const result = key
+      ? await store.run(key, execute)
+      : { response: await execute(), replayed: false };
+    return { ...result, executed: execute.mock.calls.length };
+  }
+
+  it('should return the response of the first call with the same key', async () => {
+    expect(await call({ body: 'Hello' }, 'key-1')).toMatchObject({
+      replayed: false,
+      executed: 1,
+    });
+    expect(await call({ body: 'Hello' }, 'key-1', text('again'))).toEqual({
+      response: text('sent'),
+      replayed: true,
+      executed: 0,
+    });
+  });
+
+  it('should refuse a key used with other arguments', async () => {
+    await call({ body: 'Hello' }, 'key-1');
+
+    expect(() => store.getKey('send_message', 'default', { body: 'Bye' }, 'key-1')).toThrow(
+      'Idempotency key key-1 was already used for a send_message call with other arguments'
+    );
+  });
+
+  it('should scope keys to the tool and the tenant', async () => {
+    await call({ body: 'Hello' }, 'key-1');
+
+    expect(store.getKey('send_message', 'acme', { body: 'Bye' }, 'key-1')).toMatchObject({
+      response: undefined,
+    });
+    expect(store.getKey('create_draft', 'default', { body: 'Bye' }, 'key-1')).toMatchObject({
+      response: undefined,
+    });
+  });
+
+  it('should scope keys to the API key of the caller', async () => {
+    await requestContext.run({ requestId: 'req_1', apiKeyId: 'key_alice' }, () =>
+      call({ body: 'Hello' }, 'key-1')
+    );
+
+    const getKey = (apiKeyId: string) =>
+      requestContext.run({ requestId: 'req_2', apiKeyId, sessionId: 'session-2' }, () =>
+        store.getKey('send_message', 'default', { body: 'Bye' }, 'key-1')
+      );
+
+    expect(getKey('key_bob')).toMatchObject({ response: undefined });
+    expect(() => getKey('key_alice')).toThrow('Idempotency key key-1 was already used');
+  });
+
+  it('should not store error responses', async () => {
+    await call({ body: 'Hello' }, 'key-1', text('failed', true));
+
+    expect(await call({ body: 'Hello' }, 'key-1')).toMatchObject({
+      replayed: false,
+      executed: 1,
+    });
+  });
+
+  it('should deduplicate calls without a key by their arguments when configured', async () => {
+    config.idempotency.derivedTtlMs = 60 * 1000;
+    await call({ body: 'Hello', to: ['a@example.com'] });
+
+    expect(await call({ to: ['a@example.com'], body: 'Hello' })).toMatchObject({
+      replayed: true,
+    });
+    expect(await call({ body: 'Bye', to: ['a@example.com'] })).toMatchObject({
+      replayed: false,
+    });
+  });
+
+  it('should not deduplicate calls without a key by default', () => {
+    expect(config.idempotency.derivedTtlMs).toBe(0);
+    expect(store.getKey('send_message', 'default', { body: 'Hello' })).toBeUndefined();
+    expect(store.getKey('send_message', 'default', { body: 'Hello' }, 'key-1')).toBeDefined();
+  });
+
+  it('should run a call without a key again after another call undid its change', async () => {
+    const tag = { conversation_id: 'cnv_1', tag_ids: ['tag_bug'] };
+
+    expect(await call(tag, undefined, text('tagged'), 'add_conversation_tag')).toMatchObject({
+      executed: 1,
+    });
+    expect(await call(tag, undefined, text('untagged'), 'remove_conversation_tag')).toMatchObject({
+      executed: 1,
+    });
+    expect(await call(tag, undefined, text('tagged'), 'add_conversation_tag')).toMatchObject({
+      replayed: false,
+      executed: 1,
+    });
+  });
+
+  it('should wait for a running call with the same key instead of repeating it', async () => {
+    let resolve: (response: ToolResponse) => void = () => undefined;
+    const first = store.run(
+      store.getKey('send_message', 'default', { body: 'Hello' }, 'key-1')!,
+      () => new Promise((r) => (resolve = r))
+    );
+    const execute = jest.fn();
+    const second = store.run(
+      store.getKey('send_message', 'default', { body: 'Hello' }, 'key-1')!,
+      execute
+    );
+
+    resolve(text('sent'));
+
+    await expect(first).resolves.toEqual({ response: text('sent'), replayed: false });
+    await expect(second).resolves.toEqual({ response: text('sent'), replayed: true });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should keep keys across restarts and drop expired keys', async () => {
+    config.idempotency.derivedTtlMs = 60 * 1000;
+    await call({ body: 'Hello' }, 'key-1');
+    await call({ body: 'Hello' });
+
+    jest.useFakeTimers().setSystemTime(Date.now() + 2 * 60 * 1000);
+    try {
+      const reloaded = new IdempotencyStore(filePath);
+
+      expect(reloaded.getKey('send_message', 'default', { body: 'Hello' }, 'key-1')).toMatchObject(
+        { response: text('sent') }
+      );
+      expect(reloaded.getKey('send_message', 'default', { body: 'Hello' })).toMatchObject({
+        response: undefined,
+      });
+      expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should compact the file once most of its keys are expired', async () => {
+    for (let i = 0; i < 999; i++) {
+      await call({ body: 'Hello' }, `key-${i}`);
+    }
+
+    jest.useFakeTimers().setSystemTime(Date.now() + 2 * 60 * 60 * 1000);
+    try {
+      await call({ body: 'Hello' }, 'key-999');
+
+      expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import { NameResolver } from '../../utils/nameResolver.js';
+import { frontappClient } from '../../clients/frontapp/index.js';
+import { cacheManager } from '../../utils/cache.js';
+import { useConfig } from '../helpers.js';
+
+// Mock the Frontapp client
+jest.mock('../../clients/frontapp/index.js', () => ({
+  frontappClient: {
+    collect: jest.fn(),
+  },
+}));
+
+describe('NameResolver', () => {
+  const tagLink = (id: string) => `https://api2.frontapp.com/tags/${id}`;
+  let lists: Record<string, any[]>;
+  let resolver: NameResolver;
+
+  useConfig(() => ({ nameResolution: { ttlMs: 60000 } }));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await cacheManager.clear();
+    lists = {
+      '/teammates': [
+        {
+          id: 'tea_alice',
+          email: 'alice@example.com',
+          username: 'alice',
+          first_name: 'Alice',
+          last_name: 'Martin',
+        },
+        { id: 'tea_bob', email: 'bob@example.com', username: 'bob', first_name: 'Bob' },
+      ],
+      '/tags': [
+        { id: 'tag_billing', name: 'Billing' },
+        {
+          id: 'tag_billing_refund',
+          name: 'Refund',
+          _links: { related: { parent_tag: tagLink('tag_billing') } },
+        },
+        { id: 'tag_sales', name: 'Sales' },
+        {
+          id: 'tag_sales_refund',
+          name: 'Refund',
+          _links: { related: { parent_tag: tagLink('tag_sales') } },
+        },
+      ],
+      '/inboxes': [{ id: 'inb_support', name: 'Support' }],
+      '/channels': [{ id: 'cha_support', name: 'Support email', address: 'support@example.com' }],
+    };
+    (frontappClient.collect as jest.Mock).mockImplementation(async (path: string) => ({
+      results: lists[path],
+      pages: 1,
+    }));
+    resolver = new NameResolver();
+  });
+
+  describe('resolve', () => {
+    it('should resolve teammates by email, username and full name', async () => {
+      expect(await resolver.resolve('teammates', 'Alice@Example.com')).toBe('tea_alice');
+      expect(await resolver.resolve('teammates', 'bob')).toBe('tea_bob');
+      expect(await resolver.resolve('teammates', 'alice martin')).toBe('tea_alice');
+      expect(frontappClient.collect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve nested tags by path and report ambiguous names', async () => {
+      expect(await resolver.resolve('tags', 'Sales/Refund')).toBe('tag_sales_refund');
+      await expect(resolver.resolve('tags', 'refund')).rejects.toThrow(
+        '"refund" matches more than one tag: Billing/Refund (tag_billing_refund), ' +
+          'Sales/Refund (tag_sales_refund). Give the ID or the parent/child path instead.'
+      );
+    });
+
+    it('should resolve inboxes by name and channels by address', async () => {
+      expect(await resolver.resolve('inboxes', 'support')).toBe('inb_support');
+      expect(await resolver.resolve('channels', 'support@example.com')).toBe('cha_support');
+    });
+
+    it('should keep IDs and alt references without listing resources', async () => {
+      expect(await resolver.resolve('tags', 'tag_123')).toBe('tag_123');
+      expect(await resolver.resolve('teammates', 'alt:email:carol@example.com')).toBe(
+        'alt:email:carol@example.com'
+      );
+      expect(frontappClient.collect).not.toHaveBeenCalled();
+    });
+
+    it('should list the resources again when a name is not found', async () => {
+      await resolver.resolve('inboxes', 'Support');
+      lists['/inboxes'] = [...lists['/inboxes'], { id: 'inb_vip', name: 'VIP' }];
+
+      expect(await resolver.resolve('inboxes', 'VIP')).toBe('inb_vip');
+      await expect(resolver.resolve('inboxes', 'Sales')).rejects.toThrow(
+        'No inbox matches "Sales". Use list_inboxes to find the inbox.'
+      );
+      expect(frontappClient.collect).toHaveBeenCalledTimes(3);
+    });
+
+    it('should list the resources again when the cache of one of them is invalidated', async () => {
+      await resolver.resolve('tags', 'Billing');
+      await resolver.resolve('tags', 'Sales');
+      expect(frontappClient.collect).toHaveBeenCalledTimes(1);
+
+      // e.g. a webhook reports that the tag was renamed
+      await cacheManager.invalidate(['frontapp:tag_sales']);
+      lists['/tags'][2] = { id: 'tag_sales', name: 'Sales EMEA' };
+
+      expect(await resolver.resolve('tags', 'Sales EMEA')).toBe('tag_sales');
+      expect(frontappClient.collect).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('resolveArguments', () => {
+    it('should resolve the names in ID arguments', async () => {
+      const args = await resolver.resolveArguments({
+        conversation_id: 'cnv_123',
+        assignee_id: 'alice@example.com',
+        add_tag_ids: ['Billing/Refund', 'tag_123'],
+        inbox_id: null,
+        body: 'Refund',
+      });
+
+      expect(args).toEqual({
+        conversation_id: 'cnv_123',
+        assignee_id: 'tea_alice',
+        add_tag_ids: ['tag_billing_refund', 'tag_123'],
+        inbox_id: null,
+        body: 'Refund',
+      });
+    });
+  });
+
+  describe('describeArguments', () => {
+    it('should describe the names ID arguments take', () => {
+      const properties = resolver.describeArguments({
+        tag_id: { type: 'string', description: 'Tag ID.' },
+        body: { type: 'string', description: 'Body' },
+      });
+
+      expect(properties.tag_id.description).toBe(
+        'Tag ID. Tags can also be given by name, or by parent/child path for nested tags.'
+      );
+      expect(properties.body.description).toBe('Body');
+    });
+  });
+});
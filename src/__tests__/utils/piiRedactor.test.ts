@@ -0,0 +1,93 @@
+import { PiiRedactor } from '../../utils/piiRedactor.js';
+import { requestContext } from '../../utils/requestContext.js';
+import { config } from '../../config/index.js';
+import { useConfig } from '../helpers.js';
+
+/**
+ * Run a function in an MCP session
+ * @param sessionId The session ID
+ * @param fn The function
+ * @returns The result of the function
+ */
+function inSession<T>(sessionId: string, fn: () => T): T {
+  return requestContext.run({ requestId: 'req_1', sessionId }, fn);
+}
+
+describe('PiiRedactor', () => {
+  let redactor: PiiRedactor;
+
+  useConfig(() => ({
+    pii: {
+      enabled: true,
+      types: 'email,phone,card,iban',
+      allowFields: '',
+      reversible: true,
+      tokenTtlMs: 60000,
+    },
+  }));
+
+  beforeEach(() => {
+    redactor = new PiiRedactor();
+  });
+
+  it('should replace personal data with reversible tokens', () => {
+    const contact = {
+      id: 'crd_123',
+      email: 'jane@example.com',
+      phone: '+1 (555) 123-4567',
+      note: 'Paid with 4111 1111 1111 1111 from GB82 WEST 1234 5698 7654 32, cc jane@example.com',
+      updated_at: '2024-01-31T14:05:00Z',
+    };
+
+    expect(inSession('session-1', () => redactor.redact(contact))).toEqual({
+      id: 'crd_123',
+      email: '<EMAIL_1>',
+      phone: '<PHONE_1>',
+      note: 'Paid with <CARD_1> from <IBAN_1>, cc <EMAIL_1>',
+      updated_at: '2024-01-31T14:05:00Z',
+    });
+  });
+
+  it('should not redact numbers that fail the detector checks', () => {
+    const text = 'Order 4111 1111 1111 1112 from 192.168.100.200 on 2024-01-31 12:00';
+
+    expect(redactor.redact(text)).toBe(text);
+  });
+
+  it('should restore tokens in the session that received them', () => {
+    inSession('session-1', () => redactor.redact({ email: 'jane@example.com' }));
+
+    expect(inSession('session-1', () => redactor.restore({ to: ['<EMAIL_1>'] }))).toEqual({
+      to: ['jane@example.com'],
+    });
+    expect(() => inSession('session-2', () => redactor.restore({ to: ['<EMAIL_1>'] }))).toThrow(
+      'Unknown PII token <EMAIL_1>'
+    );
+  });
+
+  it('should keep allowed fields and disabled types', () => {
+    config.pii.allowFields = 'handle';
+    config.pii.types = 'email';
+
+    const contact = {
+      handle: 'jane@example.com',
+      email: 'jane@example.com',
+      phone: '+44 20 7946 0958',
+    };
+
+    expect(redactor.redact(contact)).toEqual({ ...contact, email: '<EMAIL_1>' });
+  });
+
+  it('should mask personal data without tokens when tokens are not reversible', () => {
+    config.pii.reversible = false;
+
+    expect(redactor.redact('Mail jane@example.com')).toBe('Mail [REDACTED_EMAIL]');
+    expect(redactor.restore({ body: '<EMAIL_1>' })).toEqual({ body: '<EMAIL_1>' });
+  });
+
+  it('should leave data unchanged when disabled', () => {
+    config.pii.enabled = false;
+
+    expect(redactor.redact({ email: 'jane@example.com' })).toEqual({ email: 'jane@example.com' });
+  });
+});
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { PromptLibrary, parsePromptFile } from '../../utils/promptLibrary.js';
+import { PromptDefinition } from '../../models/prompts.js';
+import { useTempDir } from '../helpers.js';
+
+describe('PromptLibrary', () => {
+  const builtins: PromptDefinition[] = [
+    {
+      name: 'triage_inbox',
+      description: 'Triage an inbox',
+      arguments: [
+        { name: 'inbox_id', required: true },
+        { name: 'limit', default: '20' },
+      ],
+      template: 'Triage {{limit}} conversations of {{ inbox_id }}.',
+    },
+  ];
+
+  const tempDir = useTempDir('prompts-');
+  let library: PromptLibrary;
+
+  beforeEach(() => {
+    library = new PromptLibrary(tempDir(), builtins);
+  });
+
+  /**
+   * Write a prompt file with a modification time that differs from the previous one
+   */
+  const writePrompt = (file: string, content: string, modifiedAt: number) => {
+    const filePath = path.join(tempDir(), file);
+    fs.writeFileSync(filePath, content);
+    fs.utimesSync(filePath, modifiedAt, modifiedAt);
+  };
+
+  describe('list', () => {
+    it('should list the built-in prompts when the directory does not exist', () => {
+      library = new PromptLibrary(path.join(tempDir(), 'missing'), builtins);
+
+      expect(library.list().map((prompt) => prompt.name)).toEqual(['triage_inbox']);
+    });
+
+    it('should add the prompts of the files and let them replace built-in prompts', () => {
+      writePrompt(
+        'escalate.yaml',
+        [
+          'name: escalate_to_engineering',
+          'arguments:',
+          '  - name: conversation_id',
+          '    required: true',
+          'template: Escalate {{conversation_id}}.',
+        ].join('\n'),
+        1000
+      );
+      writePrompt(
+        'triage_inbox.md',
+        ['---', 'description: Our triage', '---', 'Triage {{inbox_id}} our way.'].join('\n'),
+        1000
+      );
+      writePrompt('notes.txt', 'Not a prompt', 1000);
+
+      const prompts = library.list();
+
+      expect(prompts.map((prompt) => prompt.name)).toEqual([
+        'escalate_to_engineering',
+        'triage_inbox',
+      ]);
+      expect(prompts[1]).toMatchObject({
+        description: 'Our triage',
+        template: 'Triage {{inbox_id}} our way.',
+        file: path.join(tempDir(), 'triage_inbox.md'),
+      });
+    });
+
+    it('should keep the previous version of a prompt file that becomes invalid', () => {
+      writePrompt('escalate.json', '{"name": "escalate", "template": "Escalate it."}', 1000);
+      expect(library.list().map((prompt) => prompt.name)).toContain('escalate');
+
+      writePrompt('escalate.json', '{"name": "escalate", "template": ', 2000);
+      expect(library.render('escalate').text).toBe('Escalate it.');
+
+      fs.rmSync(path.join(tempDir(), 'escalate.json'));
+      expect(library.list().map((prompt) => prompt.name)).not.toContain('escalate');
+    });
+  });
+
+  describe('render', () => {
+    it('should fill in the arguments and the defaults of optional arguments', () => {
+      expect(library.render('triage_inbox', { inbox_id: 'inb_123' })).toEqual({
+        description: 'Triage an inbox',
+        text: 'Triage 20 conversations of inb_123.',
+      });
+    });
+
+    it('should reject unknown prompts and missing required arguments', () => {
+      expect(() => library.render('unknown')).toThrow('Unknown prompt: unknown');
+      expect(() => library.render('triage_inbox', { limit: '5' })).toThrow(
+        'Missing required argument of prompt triage_inbox: inbox_id'
+      );
+    });
+  });
+});
+
+describe('parsePromptFile', () => {
+  it('should default the name to the file name', () => {
+    expect(parsePromptFile('Summarize the week.', '/prompts/weekly.md')).toEqual({
+      name: 'weekly',
+      description: undefined,
+      arguments: [],
+      template: 'Summarize the week.',
+      file: '/prompts/weekly.md',
+    });
+  });
+
+  it('should reject invalid prompts', () => {
+    expect(() => parsePromptFile('name: weekly', '/prompts/weekly.yaml')).toThrow(
+      'Prompt weekly must have a template'
+    );
+    expect(() => parsePromptFile('Text', '/prompts/weekly report.md')).toThrow(
+      'Invalid prompt name: weekly report'
+    );
+    expect(() =>
+      parsePromptFile('template: Hi\narguments:\n  - name: a\n  - name: a', '/prompts/weekly.yaml')
+    ).toThrow('Prompt weekly has the argument a more than once');
+  });
+});
@@ -0,0 +1,104 @@
+import { formatDuration, ReportFormatter } from '../../utils/reportFormatter.js';
+import { AnalyticsReport } from '../../utils/analyticsReports.js';
+
+describe('ReportFormatter', () => {
+  const report: AnalyticsReport = {
+    report_id: 'rpt_1',
+    status: 'done',
+    progress: 100,
+    presets: ['first_response_time', 'volume_by_tag'],
+    metric_ids: ['avg_first_response_time', 'num_sla_goal_breached', 'tags_table'],
+    range: {
+      name: 'last_week',
+      start: 1704672000,
+      end: 1705276800,
+      timezone: 'UTC',
+      label: 'Last week (2024-01-08 00:00 to 2024-01-15 00:00, UTC)',
+    },
+    filters: {},
+    metrics: [
+      { id: 'avg_first_response_time', type: 'duration', value: 7530 },
+      { id: 'num_sla_goal_breached', type: 'number', value: 4 },
+      {
+        id: 'tags_table',
+        type: 'table',
+        value: [
+          [
+            {
+              id: 'tag',
+              type: 'resource',
+              value: 'tag_1',
+              resource: { id: 'tag_1', name: 'Billing' },
+            },
+            { id: 'new_segments_count', type: 'number', value: 12 },
+          ],
+          [
+            {
+              id: 'tag',
+              type: 'resource',
+              value: 'tag_2',
+              resource: { id: 'tag_2', name: '=SUM(A1)' },
+            },
+            { id: 'new_segments_count', type: 'number', value: null },
+          ],
+        ],
+      },
+    ],
+  };
+
+  let formatter: ReportFormatter;
+
+  beforeEach(() => {
+    formatter = new ReportFormatter();
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(42)).toBe('42s');
+    expect(formatDuration(150)).toBe('2m 30s');
+    expect(formatDuration(7530)).toBe('2h 5m');
+    expect(formatDuration(183600)).toBe('2d 3h');
+  });
+
+  it('should render a summary table and a table per table metric in Markdown', () => {
+    expect(formatter.toMarkdown(report)).toBe(
+      [
+        '## Analytics report: Last week (2024-01-08 00:00 to 2024-01-15 00:00, UTC)',
+        '',
+        '### Summary',
+        '',
+        '| Metric | Value |',
+        '| --- | --- |',
+        '| Average first response time | 2h 5m |',
+        '| SLA breached | 4 |',
+        '',
+        '### Volume by tag',
+        '',
+        '| Tag | New conversations |',
+        '| --- | --- |',
+        '| Billing | 12 |',
+        '| =SUM(A1) | n/a |',
+      ].join('\n')
+    );
+  });
+
+  it('should render aligned plain text tables', () => {
+    const text = formatter.toText(report);
+
+    expect(text).toContain(
+      [
+        'Summary',
+        'Metric                      | Value',
+        '----------------------------+------',
+        'Average first response time | 2h 5m',
+        'SLA breached                | 4',
+      ].join('\n')
+    );
+  });
+
+  it('should render CSV with raw values and escape formulas', () => {
+    expect(formatter.toCsv(report)).toEqual({
+      summary: 'Metric,Value\r\navg_first_response_time,7530\r\nnum_sla_goal_breached,4\r\n',
+      tags_table: "Tag,New conversations\r\nBilling,12\r\n'=SUM(A1),\r\n",
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import fs from 'fs';
+import path from 'path';
+import { RulesEngine, validateRulesFile } from '../../utils/rulesEngine.js';
+import { frontappClient } from '../../clients/frontapp/index.js';
+import { cacheManager } from '../../utils/cache.js';
+import { approvalQueue } from '../../utils/approvalQueue.js';
+import { defineTool, toolRegistry } from '../../handlers/requests/registry.js';
+import { useTempDir } from '../helpers.js';
+
+// Mock the Frontapp client
+jest.mock('../../clients/frontapp/index.js', () => ({
+  frontappClient: {
+    get: jest.fn(),
+    getConversation: jest.fn(),
+    paginate: jest.fn(),
+    getContact: jest.fn(),
+    collect: jest.fn(),
+    applyTag: jest.fn(),
+    removeTag: jest.fn(),
+    assignConversation: jest.fn(),
+    addComment: jest.fn(),
+    sendMessage: jest.fn(),
+    archiveConversation: jest.fn(),
+  },
+}));
+
+// Mock the approval queue
+jest.mock('../../utils/approvalQueue.js', () => ({
+  approvalQueue: {
+    requiresApproval: jest.fn(),
+    enqueue: jest.fn(),
+  },
+}));
+
+const client = frontappClient as jest.Mocked<typeof frontappClient>;
+const approvals = approvalQueue as jest.Mocked<typeof approvalQueue>;
+
+toolRegistry.register(
+  defineTool({
+    name: 'reply_to_conversation',
+    description: 'Send a reply to an existing conversation',
+    inputSchema: { type: 'object', properties: {} },
+    access: 'write',
+    scopes: ['messages:write'],
+    execute: async () => ({}),
+  })
+);
+
+const RULES = `
+author_id: tea_bot
+templates:
+  refund_ack: "Hi {{sender.name}}, we received your refund request about {{conversation.subject}}."
+rules:
+  - name: refunds
+    events: [message.received]
+    conditions:
+      inboxes: [Support]
+      sender_domains: [example.com]
+      subject: refund
+      exclude_tags: [VIP]
+    actions:
+      - type: add_tag
+        tag: Refunds
+      - type: reply
+        template: refund_ack
+      - type: assign
+        teammate: billing@company.com
+  - name: archive-spam
+    dry_run: true
+    events: [message.received]
+    conditions:
+      body: "win a prize"
+    actions:
+      - type: archive
+`;
+
+// A message.received webhook event
+const event = {
+  type: 'message.received',
+  payload: { id: 'msg_1', conversation_id: 'cnv_1' },
+};
+
+describe('RulesEngine', () => {
+  const tempDir = useTempDir('rules-');
+  let filePath: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await cacheManager.clear();
+    filePath = path.join(tempDir(), 'rules.yaml');
+    fs.writeFileSync(filePath, RULES);
+
+    client.getConversation.mockResolvedValue({
+      data: {
+        id: 'cnv_1',
+        subject: 'Refund for order 42',
+        tags: [{ id: 'tag_2', name: 'Billing' }],
+      },
+    } as any);
+    // The message of the event is on the second page of the conversation's messages
+    client.paginate.mockImplementation(async function* () {
+      yield { _results: [{ id: 'msg_2', text: 'Thanks' }] } as any;
+      yield {
+        _results: [
+          {
+            id: 'msg_1',
+            text: 'Please refund my order',
+            recipients: [{ role: 'from', name: 'John', handle: 'john@example.com' }],
+          },
+        ],
+      } as any;
+    });
+    approvals.requiresApproval.mockReturnValue(false);
+    client.get.mockResolvedValue({ data: { _results: [{ id: 'inb_1', name: 'Support' }] } } as any);
+    // Tag and teammate names are resolved with the name resolver, which lists the directories
+    client.collect.mockImplementation(async (listPath: string) => ({
+      results:
+        listPath === '/tags'
+          ? [{ id: 'tag_1', name: 'Refunds' }]
+          : [{ id: 'tea_1', email: 'billing@company.com', username: 'billing' }],
+      pages: 1,
+    }));
+  });
+
+  it('should run the actions of matching rules', async () => {
+    const engine = new RulesEngine(filePath, false);
+
+    const runs = await engine.evaluate(event);
+
+    expect(runs.map((run) => [run.rule, run.matched])).toEqual([
+      ['refunds', true],
+      ['archive-spam', false],
+    ]);
+    expect(client.applyTag).toHaveBeenCalledWith('cnv_1', 'tag_1');
+    expect(client.sendMessage).toHaveBeenCalledWith('cnv_1', {
+      body: 'Hi John, we received your refund request about Refund for order 42.',
+      author_id: 'tea_bot',
+      channel_id: undefined,
+    });
+    expect(client.assignConversation).toHaveBeenCalledWith('cnv_1', 'tea_1');
+    expect(engine.getRuns('refunds')).toHaveLength(1);
+  });
+
+  it('should queue replies for approval in approval mode', async () => {
+    approvals.requiresApproval.mockImplementation(
+      (tool) => tool.definition.name === 'reply_to_conversation'
+    );
+    approvals.enqueue.mockReturnValue({ id: 'act_1' } as any);
+    const engine = new RulesEngine(filePath, false);
+
+    const [run] = await engine.evaluate(event, { rule: 'refunds' });
+
+    expect(run.actions.map((action) => action.status)).toEqual([
+      'applied',
+      'pending_approval',
+      'applied',
+    ]);
+    expect(run.actions[1].actionId).toBe('act_1');
+    expect(approvals.enqueue).toHaveBeenCalledWith(
+      'reply_to_conversation',
+      {
+        conversation_id: 'cnv_1',
+        type: 'reply',
+        body: 'Hi John, we received your refund request about Refund for order 42.',
+        author_id: 'tea_bot',
+      },
+      'default'
+    );
+    expect(client.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should report the condition that did not match', async () => {
+    client.getConversation.mockResolvedValue({
+      data: { id: 'cnv_1', subject: 'Refund', tags: [{ id: 'tag_9', name: 'VIP' }] },
+    } as any);
+    const engine = new RulesEngine(filePath, false);
+
+    const [run] = await engine.evaluate(event, { rule: 'refunds' });
+
+    expect(run).toMatchObject({ matched: false, reason: 'exclude_tags' });
+    expect(client.applyTag).not.toHaveBeenCalled();
+  });
+
+  it('should only describe the actions in dry-run mode', async () => {
+    const engine = new RulesEngine(filePath, true);
+
+    const [run] = await engine.evaluate(event, { rule: 'refunds' });
+
+    expect(run.dryRun).toBe(true);
+    expect(run.actions.map((action) => action.status)).toEqual(['dry_run', 'dry_run', 'dry_run']);
+    expect(run.actions[0].detail).toBe('Tag cnv_1 with tag_1');
+    expect(client.applyTag).not.toHaveBeenCalled();
+    expect(client.sendMessage).not.toHaveBeenCalled();
+    expect(client.assignConversation).not.toHaveBeenCalled();
+  });
+
+  it('should record failed actions and run the remaining actions', async () => {
+    client.applyTag.mockRejectedValue(new Error('Frontapp unavailable'));
+    const engine = new RulesEngine(filePath, false);
+
+    const [run] = await engine.evaluate(event, { rule: 'refunds' });
+
+    expect(run.actions[0]).toMatchObject({ status: 'failed', error: 'Frontapp unavailable' });
+    expect(run.actions[2].status).toBe('applied');
+  });
+
+  it('should not run a rule again on the events its own actions cause', async () => {
+    fs.writeFileSync(
+      filePath,
+      `rules:
+  - name: escalate
+    events: [conversation.tagged]
+    actions:
+      - type: add_tag
+        tag: tag_escalated
+`
+    );
+    const engine = new RulesEngine(filePath, false, 60000);
+    const tagged = (id: string, conversationId: string) => ({
+      type: 'conversation.tagged',
+      payload: { id: conversationId, tag_id: 'tag_1' },
+      _links: { self: `https://api2.frontapp.com/events/${id}` },
+    });
+
+    const [first] = await engine.evaluate(tagged('evt_1', 'cnv_1'));
+    // Front reports the tag added by the rule as a new conversation.tagged event
+    const [second] = await engine.evaluate(tagged('evt_2', 'cnv_1'));
+    const [other] = await engine.evaluate(tagged('evt_3', 'cnv_2'));
+
+    expect(first.matched).toBe(true);
+    expect(second).toMatchObject({ matched: false, reason: 'cooldown', actions: [] });
+    expect(other.matched).toBe(true);
+    expect(client.applyTag.mock.calls).toEqual([
+      ['cnv_1', 'tag_escalated'],
+      ['cnv_2', 'tag_escalated'],
+    ]);
+  });
+
+  it('should report tag names that match more than one tag', async () => {
+    client.collect.mockResolvedValue({
+      results: [
+        { id: 'tag_1', name: 'Refunds' },
+        { id: 'tag_2', name: 'Refunds' },
+      ],
+      pages: 1,
+    });
+    const engine = new RulesEngine(filePath, false);
+
+    const [run] = await engine.evaluate(event, { rule: 'refunds' });
+
+    expect(run.actions[0]).toMatchObject({ type: 'add_tag', status: 'failed' });
+    expect(run.actions[0].error).toContain('"Refunds" matches more than one tag');
+    expect(client.applyTag).not.toHaveBeenCalled();
+  });
+
+  it('should keep the previous rules when the file becomes invalid', () => {
+    const engine = new RulesEngine(filePath, false);
+    expect(engine.getRules()).toHaveLength(2);
+
+    fs.writeFileSync(filePath, 'rules:\n  - name: broken\n');
+    fs.utimesSync(filePath, new Date(), new Date(Date.now() + 1000));
+
+    expect(engine.getRules()).toHaveLength(2);
+  });
+});
+
+describe('validateRulesFile', () => {
+  it('should reject unknown actions', () => {
+    const rule = { name: 'bad', events: ['conversation.created'], actions: [{ type: 'delete' }] };
+
+    expect(() => validateRulesFile({ rules: [rule] })).toThrow(
+      'Rule "bad" has an unknown action: delete'
+    );
+  });
+
+  it('should reject comments without an author', () => {
+    const rule = {
+      name: 'note',
+      events: ['message.received'],
+      actions: [{ type: 'comment', body: 'Hi' }],
+    };
+
+    expect(() => validateRulesFile({ rules: [rule] })).toThrow(
+      'Rule "note" has a comment action without author_id'
+    );
+  });
+});
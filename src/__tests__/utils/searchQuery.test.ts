@@ -0,0 +1,81 @@
+import { SearchQueryBuilder } from '../../utils/searchQuery.js';
+import { nameResolver } from '../../utils/nameResolver.js';
+
+// Mock the name resolver
+jest.mock('../../utils/nameResolver.js', () => ({
+  nameResolver: {
+    resolve: jest.fn(),
+  },
+}));
+
+describe('SearchQueryBuilder', () => {
+  const ids: Record<string, string> = {
+    'inboxes:support': 'inb_support',
+    'tags:Urgent': 'tag_urgent',
+    'teammates:Alice Martin': 'tea_alice',
+  };
+
+  let builder: SearchQueryBuilder;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (nameResolver.resolve as jest.Mock).mockImplementation(async (type: string, value: string) => {
+      if (/^[a-z]{3}_/.test(value)) {
+        return value;
+      }
+      if (!ids[`${type}:${value}`]) {
+        throw new Error(`No match for "${value}"`);
+      }
+      return ids[`${type}:${value}`];
+    });
+    builder = new SearchQueryBuilder();
+  });
+
+  it('should compile the filters and resolve names to IDs', async () => {
+    const result = await builder.build({
+      text: 'invoice missing',
+      status: ['open', 'unassigned'],
+      inbox: ['support', 'inb_billing'],
+      tag: 'Urgent',
+      assignee: 'Alice Martin',
+      from: 'jane@customer.example',
+      after: '2024-01-01T00:00:00Z',
+      before: 1706745600,
+      custom_fields: { Plan: 'Pro Plus' },
+    });
+
+    expect(result.query).toBe(
+      'invoice missing is:open is:unassigned inbox:inb_support inbox:inb_billing ' +
+        'tag:tag_urgent assignee:tea_alice from:jane@customer.example after:1704067200 ' +
+        'before:1706745600 custom_field:"Plan=Pro Plus"'
+    );
+    expect(result.resolved).toEqual([
+      { filter: 'inbox', value: 'support', id: 'inb_support' },
+      { filter: 'tag', value: 'Urgent', id: 'tag_urgent' },
+      { filter: 'assignee', value: 'Alice Martin', id: 'tea_alice' },
+    ]);
+    expect(nameResolver.resolve).toHaveBeenCalledWith('teammates', 'Alice Martin');
+  });
+
+  it('should report names that can not be resolved', async () => {
+    await expect(builder.build({ inbox: 'Sales' })).rejects.toThrow('No match for "Sales"');
+  });
+
+  it('should reject invalid filters', async () => {
+    await expect(builder.build({})).rejects.toThrow('Give at least one search filter');
+    await expect(builder.build({ status: 'closed' })).rejects.toThrow('Invalid status: closed');
+    await expect(builder.build({ tag: [''] })).rejects.toThrow("The tag filter can't be empty");
+    await expect(builder.build({ after: 'last tuesday' })).rejects.toThrow(
+      'Invalid after date: last tuesday'
+    );
+    await expect(builder.build({ after: '2024-02-01', before: '2024-01-01' })).rejects.toThrow(
+      'The after date must be earlier than the before date'
+    );
+    await expect(builder.build({ text: 'say "hi"' })).rejects.toThrow(
+      "The text filter can't contain double quotes"
+    );
+    await expect(builder.build({ subject: 'Refund' } as any)).rejects.toThrow(
+      'Unknown search filters: subject'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { DEFAULT_TENANT, TenantManager } from '../../utils/tenants.js';
+import { config } from '../../config/index.js';
+
+describe('TenantManager', () => {
+  let tenants: TenantManager;
+
+  beforeEach(() => {
+    tenants = new TenantManager();
+    tenants.register({
+      name: 'acme',
+      apiKey: 'acme-token',
+      apiKeys: [{ key: 'acme-gateway-key', role: 'agent' }],
+    });
+  });
+
+  it('should build the default tenant from the configuration', () => {
+    config.webhook.secret = 'default-secret';
+
+    expect(tenants.get(DEFAULT_TENANT)).toMatchObject({
+      apiKey: config.frontapp.apiKey,
+      webhookSecret: 'default-secret',
+      cacheNamespace: 'frontapp',
+    });
+    expect(tenants.list()).toEqual([DEFAULT_TENANT, 'acme']);
+    expect(tenants.isMultiTenant()).toBe(true);
+  });
+
+  it('should give named tenants their own cache namespace', () => {
+    expect(tenants.get('acme')).toMatchObject({
+      apiKey: 'acme-token',
+      webhookSecret: '',
+      cacheNamespace: 'frontapp:acme',
+    });
+  });
+
+  it('should reject invalid and reserved tenant names', () => {
+    expect(() => tenants.register({ name: 'Acme Inc', apiKey: 'token' })).toThrow(
+      'Invalid tenant name: Acme Inc'
+    );
+    expect(() => tenants.register({ name: DEFAULT_TENANT, apiKey: 'token' })).toThrow(
+      'The default tenant is configured by the environment'
+    );
+  });
+
+  it('should find tenants by API gateway key', () => {
+    expect(tenants.findByApiKey('acme-gateway-key')?.name).toBe('acme');
+    expect(tenants.findByApiKey('other-key')).toBeUndefined();
+  });
+
+  it('should keep the tenant across asynchronous calls', async () => {
+    const tenant = await tenants.run('acme', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return tenants.current();
+    });
+
+    expect(tenant).toBe('acme');
+    expect(tenants.current()).toBe(DEFAULT_TENANT);
+  });
+
+  it('should resolve the requested tenant', () => {
+    expect(tenants.resolve()).toBe(DEFAULT_TENANT);
+    expect(tenants.resolve('acme')).toBe('acme');
+    expect(() => tenants.resolve('unknown')).toThrow('Unknown tenant: unknown');
+  });
+
+  it('should not let bound callers select another tenant', () => {
+    tenants.run(
+      'acme',
+      () => {
+        expect(tenants.resolve()).toBe('acme');
+        expect(tenants.resolve('acme')).toBe('acme');
+        expect(() => tenants.resolve(DEFAULT_TENANT)).toThrow(
+          'Not authorized for tenant: default'
+        );
+      },
+      true
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import { getWebhookEventId, WebhookEventStore } from '../../utils/webhookEventStore.js';
+import { useTempDir } from '../helpers.js';
+
+// Create a webhook event about a conversation
+function webhookEvent(id: string, type = 'conversation.created') {
+  return {
+    type,
+    payload: { id: 'cnv_1' },
+    _links: { self: `https://api2.frontapp.com/events/${id}` },
+  };
+}
+
+describe('WebhookEventStore', () => {
+  const tempDir = useTempDir('webhook-events-');
+  let filePath: string;
+
+  beforeEach(() => {
+    filePath = path.join(tempDir(), 'events.jsonl');
+  });
+
+  it('should track the status of received events', () => {
+    const store = new WebhookEventStore(filePath, 30);
+
+    store.recordReceived(webhookEvent('evt_1'));
+    store.recordReceived(webhookEvent('evt_2'));
+    store.markProcessed('evt_1');
+    store.markFailed('evt_2', new Error('Frontapp unavailable'));
+
+    expect(store.get('evt_1')).toMatchObject({ status: 'processed', attempts: 1 });
+    expect(store.getDeadLetters()).toEqual([
+      expect.objectContaining({ id: 'evt_2', status: 'failed', error: 'Frontapp unavailable' }),
+    ]);
+    expect(store.getStats()).toEqual({ received: 0, processed: 1, failed: 1, discarded: 0 });
+  });
+
+  it('should persist events across instances', () => {
+    const store = new WebhookEventStore(filePath, 30);
+    store.recordReceived(webhookEvent('evt_1'));
+    store.markFailed('evt_1', new Error('Timeout'));
+
+    const reloaded = new WebhookEventStore(filePath, 30);
+
+    expect(reloaded.has('evt_1')).toBe(true);
+    expect(reloaded.get('evt_1')).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(reloaded.get('evt_1').event).toEqual(webhookEvent('evt_1'));
+  });
+
+  it('should see changes made by another instance', () => {
+    const server = new WebhookEventStore(filePath, 30);
+    const cli = new WebhookEventStore(filePath, 30);
+
+    server.recordReceived(webhookEvent('evt_1'));
+    server.markFailed('evt_1', new Error('Timeout'));
+    cli.markDiscarded('evt_1');
+
+    expect(server.get('evt_1').status).toBe('discarded');
+  });
+
+  it('should not discard processed events', () => {
+    const store = new WebhookEventStore(filePath, 30);
+    store.recordReceived(webhookEvent('evt_1'));
+    store.markProcessed('evt_1');
+
+    expect(() => store.markDiscarded('evt_1')).toThrow('Webhook event has already been processed');
+  });
+
+  it('should remove expired events when compacting', () => {
+    const store = new WebhookEventStore(filePath, 30);
+    store.recordReceived(webhookEvent('evt_old'));
+    store.recordReceived(webhookEvent('evt_failed'));
+    store.markProcessed('evt_old');
+    store.markFailed('evt_failed', new Error('Timeout'));
+
+    // Age every event beyond the retention period
+    const expired = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    const lines = fs
+      .readFileSync(filePath, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.stringify({ ...JSON.parse(line), updatedAt: expired }));
+    fs.writeFileSync(filePath, `${lines.join('\n')}\n`);
+
+    const reloaded = new WebhookEventStore(filePath, 30);
+
+    expect(reloaded.has('evt_old')).toBe(false);
+    expect(reloaded.has('evt_failed')).toBe(true);
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('should compact the file once most of its lines are superseded', () => {
+    const store = new WebhookEventStore(filePath, 30);
+    store.recordReceived(webhookEvent('evt_1'));
+
+    for (let i = 0; i < 999; i++) {
+      store.markFailed('evt_1', new Error('Timeout'));
+    }
+
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+    expect(new WebhookEventStore(filePath, 30).get('evt_1')).toMatchObject({
+      status: 'failed',
+      attempts: 999,
+    });
+  });
+
+  it('should keep the attempts of events that are delivered again', () => {
+    const store = new WebhookEventStore(filePath, 30);
+    const first = store.recordReceived(webhookEvent('evt_1'));
+    store.markFailed('evt_1', new Error('Timeout'));
+
+    const redelivered = store.recordReceived(webhookEvent('evt_1'));
+
+    expect(redelivered).toMatchObject({
+      status: 'received',
+      attempts: 1,
+      receivedAt: first.receivedAt,
+    });
+  });
+
+  it('should store each event about the same conversation', () => {
+    const store = new WebhookEventStore(filePath, 30);
+
+    store.recordReceived(webhookEvent('evt_1'));
+    store.recordReceived(webhookEvent('evt_2', 'conversation.tagged'));
+    store.markProcessed('evt_1');
+
+    expect(store.get('evt_1')).toMatchObject({ type: 'conversation.created', status: 'processed' });
+    expect(store.get('evt_2')).toMatchObject({ type: 'conversation.tagged', status: 'received' });
+    expect(store.has('cnv_1')).toBe(false);
+  });
+
+  it('should identify events without an event link by a hash of their body', () => {
+    const created = { type: 'conversation.created', payload: { id: 'cnv_1', timestamp: 1 } };
+    const tagged = { type: 'conversation.tagged', payload: { id: 'cnv_1', timestamp: 1 } };
+
+    expect(getWebhookEventId(webhookEvent('evt_1'))).toBe('evt_1');
+    expect(getWebhookEventId(created)).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(getWebhookEventId(created)).toBe(getWebhookEventId(JSON.parse(JSON.stringify(created))));
+    expect(getWebhookEventId(created)).not.toBe(getWebhookEventId(tagged));
+  });
+});
@@ -0,0 +1,93 @@
+import { WebhookQueue } from '../../utils/webhookQueue.js';
+
+// Create a task that completes when it is released
+function deferredTask(log: string[], name: string) {
+  let release: () => void = () => {};
+  const done = new Promise<void>((resolve) => (release = resolve));
+  const run = async () => {
+    log.push(`start ${name}`);
+    await done;
+    log.push(`end ${name}`);
+  };
+  return { run, release: () => release() };
+}
+
+// Let pending promise callbacks run
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('WebhookQueue', () => {
+  it('should run tasks with the same key in order, one at a time', async () => {
+    const queue = new WebhookQueue(4, 10);
+    const log: string[] = [];
+    const first = deferredTask(log, 'first');
+    const second = deferredTask(log, 'second');
+
+    queue.enqueue('conversation:cnv_1', first.run);
+    queue.enqueue('conversation:cnv_1', second.run);
+    await flush();
+
+    expect(log).toEqual(['start first']);
+    expect(queue.getDepth()).toBe(1);
+
+    first.release();
+    await flush();
+    second.release();
+    await queue.onIdle();
+
+    expect(log).toEqual(['start first', 'end first', 'start second', 'end second']);
+  });
+
+  it('should run tasks with different keys concurrently up to the concurrency limit', async () => {
+    const queue = new WebhookQueue(2, 10);
+    const log: string[] = [];
+    const tasks = ['a', 'b', 'c'].map((name) => deferredTask(log, name));
+
+    tasks.forEach((task, index) => queue.enqueue(`conversation:cnv_${index}`, task.run));
+    await flush();
+
+    expect(log).toEqual(['start a', 'start b']);
+    expect(queue.getActiveCount()).toBe(2);
+
+    tasks[0].release();
+    await flush();
+
+    expect(log).toContain('start c');
+
+    tasks.forEach((task) => task.release());
+    await queue.onIdle();
+
+    expect(queue.getActiveCount()).toBe(0);
+  });
+
+  it('should keep processing after a task fails', async () => {
+    const queue = new WebhookQueue(1, 10);
+    const log: string[] = [];
+
+    queue.enqueue('conversation:cnv_1', async () => {
+      throw new Error('Frontapp unavailable');
+    });
+    queue.enqueue('conversation:cnv_1', async () => {
+      log.push('next');
+    });
+    await queue.onIdle();
+
+    expect(log).toEqual(['next']);
+  });
+
+  it('should reject tasks when the queue is full', async () => {
+    const queue = new WebhookQueue(1, 1);
+    const log: string[] = [];
+    const running = deferredTask(log, 'running');
+
+    queue.enqueue('conversation:cnv_1', running.run);
+    queue.enqueue('conversation:cnv_2', async () => {});
+
+    expect(queue.isFull()).toBe(true);
+    expect(() => queue.enqueue('conversation:cnv_3', async () => {})).toThrow(
+      'Webhook queue is full'
+    );
+
+    running.release();
+    await queue.onIdle();
+  });
+});
@@ -0,0 +1,267 @@
+import express, { Request, Response } from 'express';
+import { approvalQueue, PendingAction, PendingActionStatus } from '../utils/approvalQueue.js';
+import { accessControl } from '../utils/accessControl.js';
+import { tenantManager } from '../utils/tenants.js';
+import { toolRegistry } from '../handlers/requests/registry.js';
+import { getDecider, getTenantAction } from '../handlers/requests/approvals/tools.js';
+
+const STATUSES: PendingActionStatus[] = [
+  'pending',
+  'approved',
+  'executed',
+  'failed',
+  'rejected',
+  'expired',
+];
+
+/**
+ * Get an action of the current tenant that can be decided, or send an error
+ * @param req Express request object
+ * @param res Express response object
+ * @returns The action, or undefined if the error response has been sent
+ */
+function requireDecidableAction(req: Request, res: Response): PendingAction | undefined {
+  const role = accessControl.current();
+  if (!accessControl.hasAccess('approve')) {
+    req.logger?.warn('Approval decision denied', { id: req.params.id, role });
+    res.status(403).json({
+      status: 'error',
+      message: `Role ${role} is not allowed to approve or reject pending actions`,
+    });
+    return undefined;
+  }
+
+  let action: PendingAction;
+  try {
+    action = getTenantAction(req.params.id);
+  } catch (error: any) {
+    res.status(404).json({ status: 'error', message: error.message });
+    return undefined;
+  }
+
+  if (action.status !== 'pending') {
+    res.status(409).json({
+      status: 'error',
+      message: `Action ${action.id} is ${action.status}, only pending actions can be decided`,
+    });
+    return undefined;
+  }
+
+  return action;
+}
+
+/**
+ * Initialize the approvals router
+ * The router lets humans review the tool calls waiting for approval, and approve or reject them.
+ * Only API keys with the approver role may approve or reject actions.
+ * @returns The Express router
+ */
+export function initApprovalsRouter(): express.Router {
+  const router = express.Router();
+
+  /**
+   * @swagger
+   * /approvals:
+   *   get:
+   *     summary: List pending actions
+   *     description: Returns the tool calls recorded for human approval, most recent first. Personal data in their arguments is only shown to the approver role, and masked for other roles.
+   *     tags: [Approvals]
+   *     security:
+   *       - ApiKeyAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [pending, approved, executed, failed, rejected, expired]
+   *         description: Filter by status (default pending)
+   *     responses:
+   *       200:
+   *         description: A list of actions
+   *       400:
+   *         description: Invalid status
+   *       401:
+   *         description: Unauthorized
+   */
+  router.get('/', (req: Request, res: Response) => {
+    const status = (req.query.status as PendingActionStatus | undefined) || 'pending';
+    if (!STATUSES.includes(status)) {
+      return res.status(400).json({
+        status: 'error',
+        message: `status must be one of: ${STATUSES.join(', ')}`,
+      });
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      data: approvalQueue
+        .list({ status, tenant: tenantManager.current() })
+        .map((action) => approvalQueue.present(action)),
+    });
+  });
+
+  /**
+   * @swagger
+   * /approvals/{id}:
+   *   get:
+   *     summary: Get a pending action
+   *     description: Returns an action with the exact arguments its tool runs with and, once executed, the tool response. Personal data is only shown to the approver role, and masked for other roles.
+   *     tags: [Approvals]
+   *     security:
+   *       - ApiKeyAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: The action ID
+   *     responses:
+   *       200:
+   *         description: The action
+   *       401:
+   *         description: Unauthorized
+   *       404:
+   *         description: Action not found
+   */
+  router.get('/:id', (req: Request, res: Response) => {
+    try {
+      return res.status(200).json({
+        status: 'success',
+        data: approvalQueue.present(getTenantAction(req.params.id)),
+      });
+    } catch (error: any) {
+      return res.status(404).json({ status: 'error', message: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /approvals/{id}/approve:
+   *   post:
+   *     summary: Approve a pending action
+   *     description: Approves the action and executes its tool call. Requires the approver role.
+   *     tags: [Approvals]
+   *     security:
+   *       - ApiKeyAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: The action ID
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               approver:
+   *                 type: string
+   *                 description: Name of the person approving the action, recorded as a note with the API key ID
+   *     responses:
+   *       200:
+   *         description: The executed or failed action, with the tool response
+   *       401:
+   *         description: Unauthorized
+   *       403:
+   *         description: The role of the API key can't approve actions
+   *       404:
+   *         description: Action not found
+   *       409:
+   *         description: The action is not pending
+   *       500:
+   *         description: The result of the executed tool call could not be recorded
+   */
+  router.post('/:id/approve', async (req: Request, res: Response) => {
+    const action = requireDecidableAction(req, res);
+    if (!action) {
+      return res;
+    }
+
+    // The tool call only runs once the decision is recorded
+    let decided = false;
+    try {
+      const approved = await approvalQueue.approve(
+        action.id,
+        getDecider(req.body?.approver),
+        (pending) => {
+          decided = true;
+          return toolRegistry.executeAction(pending);
+        }
+      );
+
+      return res.status(200).json({ status: 'success', data: approvalQueue.reveal(approved) });
+    } catch (error: any) {
+      if (!decided) {
+        // Decided or expired since it was checked
+        req.logger?.warn('Approval decision rejected', { id: action.id, error: error.message });
+        return res.status(409).json({ status: 'error', message: error.message });
+      }
+
+      req.logger?.error('Error approving action', { id: action.id, error: error.message });
+      return res.status(500).json({
+        status: 'error',
+        message: 'Failed to record the result of the approved action',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /approvals/{id}/reject:
+   *   post:
+   *     summary: Reject a pending action
+   *     description: Rejects the action so that its tool call never runs. Requires the approver role.
+   *     tags: [Approvals]
+   *     security:
+   *       - ApiKeyAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: The action ID
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               approver:
+   *                 type: string
+   *                 description: Name of the person rejecting the action, recorded as a note with the API key ID
+   *               reason:
+   *                 type: string
+   *                 description: Why the action is rejected
+   *     responses:
+   *       200:
+   *         description: The rejected action
+   *       401:
+   *         description: Unauthorized
+   *       403:
+   *         description: The role of the API key can't reject actions
+   *       404:
+   *         description: Action not found
+   *       409:
+   *         description: The action is not pending
+   */
+  router.post('/:id/reject', (req: Request, res: Response) => {
+    const action = requireDecidableAction(req, res);
+    if (!action) {
+      return res;
+    }
+
+    const rejected = approvalQueue.reject(
+      action.id,
+      getDecider(req.body?.approver),
+      req.body?.reason
+    );
+
+    return res.status(200).json({ status: 'success', data: approvalQueue.reveal(rejected) });
+  });
+
+  return router;
+}
@@ -0,0 +1,106 @@
+import express, { Request, Response } from 'express';
+import { accessControl } from '../utils/accessControl.js';
+import { AuditOutcome } from '../utils/auditLog.js';
+import { queryTenantAuditLog } from '../handlers/requests/audit/tools.js';
+
+/**
+ * Initialize the audit log router
+ * Only admins may query the audit log.
+ * @returns The Express router
+ */
+export function initAuditRouter(): express.Router {
+  const router = express.Router();
+
+  /**
+   * @swagger
+   * /audit:
+   *   get:
+   *     summary: Query the audit log
+   *     description: Returns the audited tool calls, most recent first. Requires the admin role.
+   *     tags: [Audit]
+   *     security:
+   *       - ApiKeyAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: conversation_id
+   *         schema:
+   *           type: string
+   *         description: Only tool calls that touched this conversation
+   *       - in: query
+   *         name: resource_id
+   *         schema:
+   *           type: string
+   *         description: Only tool calls that touched this Front resource
+   *       - in: query
+   *         name: actor
+   *         schema:
+   *           type: string
+   *         description: Only tool calls of this API key ID, MCP session ID, or stdio
+   *       - in: query
+   *         name: tool
+   *         schema:
+   *           type: string
+   *         description: Only calls of this tool
+   *       - in: query
+   *         name: outcome
+   *         schema:
+   *           type: string
+   *           enum: [success, error, denied, invalid, pending_approval, replayed]
+   *         description: Only tool calls with this outcome
+   *       - in: query
+   *         name: since
+   *         schema:
+   *           type: string
+   *         description: Only tool calls made at or after this time (ISO 8601)
+   *       - in: query
+   *         name: until
+   *         schema:
+   *           type: string
+   *         description: Only tool calls made before this time (ISO 8601)
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *         description: Maximum number of entries to return (default 100)
+   *     responses:
+   *       200:
+   *         description: The audit log entries
+   *       400:
+   *         description: Invalid query
+   *       401:
+   *         description: Unauthorized
+   *       403:
+   *         description: The role of the API key can't query the audit log
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    const role = accessControl.current();
+    if (!accessControl.hasAccess('admin')) {
+      return res.status(403).json({
+        status: 'error',
+        message: `Role ${role} is not allowed to query the audit log`,
+      });
+    }
+
+    const query = req.query as Record<string, string | undefined>;
+    const limit = query.limit ? parseInt(query.limit, 10) : undefined;
+
+    try {
+      const entries = await queryTenantAuditLog({
+        conversation_id: query.conversation_id,
+        resource_id: query.resource_id,
+        actor: query.actor,
+        tool: query.tool,
+        outcome: query.outcome as AuditOutcome | undefined,
+        since: query.since,
+        until: query.until,
+        limit: limit && limit > 0 ? limit : undefined,
+      });
+
+      return res.status(200).json({ status: 'success', data: entries });
+    } catch (error: any) {
+      return res.status(400).json({ status: 'error', message: error.message });
+    }
+  });
+
+  return router;
+}
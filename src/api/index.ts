@@ -1,4 +1,6 @@
 import express, { Request, Response, NextFunction } from 'express';
+import http from 'http';
+import https from 'https';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { config } from '../config/index.js';
 import logger from '../utils/logger.js';
@@ -10,10 +12,18 @@ import {
   requestBodyLogger,
 } from '../middleware/requestLogger.js';
 import { securityMiddleware, apiKeyAuth, httpsRedirect } from '../middleware/security.js';
+import { tenantContext } from '../middleware/tenant.js';
 import { setupSwagger } from './swagger.js';
 import { initToolsRouter } from './tools.js';
+import { initApprovalsRouter } from './approvals.js';
+import { initAuditRouter } from './audit.js';
+import { initMcpRouter, closeMcpSessions, startIdleSessionCleanup } from './mcp.js';
 import healthRouter from './health.js';
 import { verifyWebhookSignature } from '../middleware/webhookAuth.js';
+import { createWebhookRoute, recoverWebhookEvents } from '../handlers/webhooks/index.js';
+import { webhookQueue } from '../utils/webhookQueue.js';
+import { approvalQueue } from '../utils/approvalQueue.js';
+import { HttpsUtil } from '../utils/https.js';
 
 // Create Express app
 const app = express();
@@ -32,8 +42,15 @@ app.use(securityMiddleware);
 // Apply routes
 app.use('/health', healthRouter);
 
-// Error handling middleware
-app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
+/**
+ * Error handling middleware
+ * Registered after all routes, so that it handles their errors
+ * @param err The error
+ * @param req Express request object
+ * @param res Express response object
+ * @param _next Express next function
+ */
+function handleError(err: Error, req: Request, res: Response, _next: NextFunction): void {
   const statusCode = res.statusCode !== 200 ? res.statusCode : 500;
   
   // Log the error
@@ -45,86 +62,110 @@ app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
     message: err.message,
     stack: process.env.NODE_ENV === 'production' ? undefined : err.stack,
   });
-});
+}
+
+// Intervals started by the API gateway, cleared on shutdown
+const intervals: NodeJS.Timeout[] = [];
 
 /**
  * Initialize the API gateway
  * @param mcpServer The MCP server instance
+ * @param createSessionServer Factory for the MCP servers backing streamable HTTP sessions.
+ *   The /mcp endpoint is only served when a factory is provided.
  * @returns The Express app
  */
-export function initApiGateway(mcpServer: Server): express.Application {
+export function initApiGateway(
+  mcpServer: Server,
+  createSessionServer?: () => Server
+): express.Application {
   // Start metrics logging
-  const metricsInterval = startMetricsLogging(config.logging.metricsInterval || 60000);
-  
-  // Handle process termination
-  process.on('SIGTERM', () => {
-    logger.info('SIGTERM received, shutting down gracefully');
-    clearInterval(metricsInterval);
-    // Close any other resources here
-  });
-  
-  process.on('SIGINT', () => {
-    logger.info('SIGINT received, shutting down gracefully');
-    clearInterval(metricsInterval);
-    // Close any other resources here
-  });
+  intervals.push(startMetricsLogging(config.logging.metricsInterval || 60000));
   
   // Set up Swagger documentation
   setupSwagger(app);
   
   // Set up API routes
-  app.use('/tools', apiKeyAuth, initToolsRouter(mcpServer));
+  app.use('/tools', apiKeyAuth, tenantContext, initToolsRouter(mcpServer));
+
+  // Set up the approval of pending tool calls
+  intervals.push(approvalQueue.startExpiry());
+  app.use('/approvals', apiKeyAuth, tenantContext, initApprovalsRouter());
+
+  // Set up the audit log of tool calls
+  app.use('/audit', apiKeyAuth, tenantContext, initAuditRouter());
   
-  // Webhook route with signature verification
-  app.use('/webhooks', verifyWebhookSignature);
+  // Set up the MCP streamable HTTP transport
+  if (createSessionServer) {
+    intervals.push(startIdleSessionCleanup());
+    app.use('/mcp', apiKeyAuth, tenantContext, initMcpRouter(createSessionServer));
+  }
   
-  // Set up webhook handlers
-  app.post('/webhooks', (req: Request, res: Response) => {
-    try {
-      const { type, data } = req.body;
-      
-      // Log the webhook
-      req.logger?.info('Webhook received', { type });
-      
-      // Route to appropriate handler based on webhook type
-      switch (type) {
-        case 'conversation.created':
-          // Handle conversation created webhook
-          // conversationCreatedHandler(data, mcpServer);
-          break;
-        case 'message.received':
-          // Handle message received webhook
-          // messageReceivedHandler(data, mcpServer);
-          break;
-        // Add more cases for other webhook types
-        default:
-          req.logger?.warn('Unknown webhook type', { type });
-      }
-      
-      // Acknowledge receipt of webhook
-      res.status(200).send('OK');
-    } catch (error) {
-      req.logger?.error('Error processing webhook', { error });
-      res.status(500).send('Error processing webhook');
-    }
-  });
+  // Webhook route with signature verification, per tenant
+  app.post('/webhooks/:tenant?', verifyWebhookSignature, createWebhookRoute(mcpServer));
+
+  // Process webhooks that were received but not processed before the last shutdown
+  recoverWebhookEvents(mcpServer);
+
+  // Error handling middleware, after all routes
+  app.use(handleError);
   
   return app;
 }
 
+/**
+ * Shut the API server down gracefully
+ * Closes the MCP sessions, stops accepting connections and exits once open requests are done
+ * and the webhook queue is drained
+ * @param server The HTTP server instance
+ * @param signal The signal that triggered the shutdown
+ */
+async function shutdown(server: http.Server | https.Server, signal: string): Promise<void> {
+  logger.info(`${signal} received, shutting down gracefully`);
+
+  intervals.forEach((interval) => clearInterval(interval));
+
+  // Exit anyway if open connections don't close in time
+  setTimeout(() => {
+    logger.warn('Forcing shutdown after timeout');
+    process.exit(1);
+  }, 10000).unref();
+
+  await closeMcpSessions();
+
+  server.close(async () => {
+    await webhookQueue.onIdle();
+    logger.info('API server closed');
+    process.exit(0);
+  });
+}
+
 /**
  * Start the API server
+ * The server uses HTTPS when it is enabled in the configuration
  * @param mcpServer The MCP server instance
+ * @param createSessionServer Factory for the MCP servers backing streamable HTTP sessions
  * @returns The HTTP server instance
  */
-export function startApiServer(mcpServer: Server): any {
-  const app = initApiGateway(mcpServer);
+export function startApiServer(
+  mcpServer: Server,
+  createSessionServer?: () => Server
+): http.Server | https.Server {
+  const app = initApiGateway(mcpServer, createSessionServer);
   const port = config.server.port || 3000;
+  const protocol = config.security.https.enabled ? 'https' : 'http';
   
-  const server = app.listen(port, () => {
+  const server = HttpsUtil.createServer(app);
+  server.listen(port, () => {
     logger.info(`API server listening on port ${port}`);
-    logger.info(`API documentation available at http://localhost:${port}/api-docs`);
+    logger.info(`API documentation available at ${protocol}://localhost:${port}/api-docs`);
+    if (createSessionServer) {
+      logger.info(`MCP endpoint available at ${protocol}://localhost:${port}/mcp`);
+    }
   });
   
+  // Handle process termination
+  process.once('SIGTERM', () => shutdown(server, 'SIGTERM'));
+  process.once('SIGINT', () => shutdown(server, 'SIGINT'));
+  
   return server;
 }
@@ -0,0 +1,295 @@
+import express, { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config/index.js';
+import { tenantManager } from '../utils/tenants.js';
+import { requestContext } from '../utils/requestContext.js';
+import { Role } from '../utils/accessControl.js';
+import logger from '../utils/logger.js';
+
+/**
+ * An MCP session served over streamable HTTP
+ * Each session has its own MCP server instance connected to its own transport
+ */
+interface McpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  /** The tenant the session was started for */
+  tenant: string;
+  /** Whether the session was started with an API key bound to the tenant */
+  bound: boolean;
+  /** The ID of the API key that started the session */
+  apiKeyId?: string;
+  /** The role of the API key that started the session */
+  role?: Role;
+}
+
+// Active sessions by session ID
+const sessions = new Map<string, McpSession>();
+
+/**
+ * Send a JSON-RPC error response
+ * @param res The Express response
+ * @param status The HTTP status code
+ * @param message The error message
+ */
+function sendJsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Get the session for a request from the Mcp-Session-Id header
+ * @param req The Express request
+ * @returns The session, or undefined if the header is missing or the session is unknown
+ */
+function getSession(req: Request): McpSession | undefined {
+  const sessionId = req.headers['mcp-session-id'];
+  if (typeof sessionId !== 'string') {
+    return undefined;
+  }
+
+  const session = sessions.get(sessionId);
+  if (session) {
+    session.lastActivity = Date.now();
+  }
+
+  return session;
+}
+
+/**
+ * Handle a request of a session for the tenant of the session
+ * Only requests made with the API key that started the session can use it
+ * @param session The session
+ * @param req The Express request
+ * @param res The Express response
+ */
+async function handleSessionRequest(
+  session: McpSession,
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (req.tenant && req.tenant !== session.tenant) {
+    sendJsonRpcError(res, 403, 'Session belongs to another tenant');
+    return;
+  }
+
+  if (requestContext.current()?.apiKeyId !== session.apiKeyId || req.role !== session.role) {
+    sendJsonRpcError(res, 403, 'Session belongs to another API key');
+    return;
+  }
+
+  // Tool calls made by the request are audited as calls of the session
+  const context = requestContext.current();
+  if (context) {
+    context.sessionId = session.transport.sessionId;
+  }
+
+  // Only POST requests carry JSON-RPC messages
+  const body = req.method === 'POST' ? req.body : undefined;
+
+  await tenantManager.run(
+    session.tenant,
+    () => session.transport.handleRequest(req, res, body),
+    session.bound
+  );
+}
+
+/**
+ * Start a new session for an initialize request
+ * The session is started for the tenant and the API key of the request
+ * @param createServer Factory for the MCP server backing the session
+ * @param req The initialize request
+ * @returns The transport of the new session
+ */
+async function startSession(
+  createServer: () => Server,
+  req: Request
+): Promise<StreamableHTTPServerTransport> {
+  const server = createServer();
+  const tenant = tenantManager.current();
+  const bound = req.tenant !== undefined;
+  const apiKeyId = requestContext.current()?.apiKeyId;
+  const { role } = req;
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId) => {
+      sessions.set(sessionId, {
+        server,
+        transport,
+        lastActivity: Date.now(),
+        tenant,
+        bound,
+        apiKeyId,
+        role,
+      });
+      logger.info('MCP session started', { sessionId, tenant, activeSessions: sessions.size });
+    },
+  });
+
+  transport.onclose = () => {
+    const { sessionId } = transport;
+    if (sessionId && sessions.delete(sessionId)) {
+      logger.info('MCP session closed', { sessionId, activeSessions: sessions.size });
+    }
+  };
+
+  await server.connect(transport);
+
+  return transport;
+}
+
+/**
+ * Close a session and its MCP server
+ * @param sessionId The session ID
+ */
+async function closeSession(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return;
+  }
+
+  sessions.delete(sessionId);
+
+  try {
+    await session.server.close();
+  } catch (error: any) {
+    logger.error('Error closing MCP session', { sessionId, error: error.message });
+  }
+}
+
+/**
+ * Close every active MCP session
+ * Used to shut the API server down cleanly
+ */
+export async function closeMcpSessions(): Promise<void> {
+  const sessionIds = Array.from(sessions.keys());
+
+  if (sessionIds.length > 0) {
+    logger.info(`Closing ${sessionIds.length} MCP sessions`);
+  }
+
+  await Promise.all(sessionIds.map((sessionId) => closeSession(sessionId)));
+}
+
+/**
+ * Get the number of active MCP sessions
+ * @returns The number of active sessions
+ */
+export function getMcpSessionCount(): number {
+  return sessions.size;
+}
+
+/**
+ * Close sessions that have been idle for longer than the session timeout
+ * @param timeoutMs The session timeout in milliseconds
+ */
+async function closeIdleSessions(timeoutMs: number): Promise<void> {
+  const now = Date.now();
+
+  for (const [sessionId, session] of sessions) {
+    if (now - session.lastActivity > timeoutMs) {
+      logger.info('Closing idle MCP session', { sessionId });
+      await closeSession(sessionId);
+    }
+  }
+}
+
+/**
+ * Start closing idle MCP sessions at regular intervals
+ * @param timeoutMs The session timeout in milliseconds
+ * @returns The interval ID
+ */
+export function startIdleSessionCleanup(
+  timeoutMs: number = config.mcp.sessionTimeoutMs
+): NodeJS.Timeout {
+  const interval = setInterval(
+    () => {
+      closeIdleSessions(timeoutMs).catch((error) => {
+        logger.error('Error closing idle MCP sessions', { error: error.message });
+      });
+    },
+    Math.min(timeoutMs, 60000)
+  );
+
+  // Don't keep the process alive just for the cleanup
+  interval.unref();
+
+  return interval;
+}
+
+/**
+ * Initialize the MCP router
+ * Serves the MCP streamable HTTP transport: clients start a session with an initialize
+ * request, then send requests with POST and receive server messages over SSE with GET
+ * @param createServer Factory for the MCP server backing each session
+ * @returns The MCP router
+ */
+export function initMcpRouter(createServer: () => Server): express.Router {
+  const router = express.Router();
+
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const session = getSession(req);
+
+      if (session) {
+        await handleSessionRequest(session, req, res);
+        return;
+      }
+
+      if (req.headers['mcp-session-id']) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const transport = await startSession(createServer, req);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error: any) {
+      req.logger?.error('Error handling MCP request', { error: error.message });
+
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  // GET opens the SSE stream for server messages, DELETE ends the session
+  const handleStreamRequest = async (req: Request, res: Response) => {
+    try {
+      const session = getSession(req);
+
+      if (!session) {
+        if (req.headers['mcp-session-id']) {
+          sendJsonRpcError(res, 404, 'Session not found');
+        } else {
+          sendJsonRpcError(res, 400, 'Bad Request: Missing session ID');
+        }
+        return;
+      }
+
+      await handleSessionRequest(session, req, res);
+    } catch (error: any) {
+      req.logger?.error('Error handling MCP request', { error: error.message });
+
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  };
+
+  router.get('/', handleStreamRequest);
+  router.delete('/', handleStreamRequest);
+
+  return router;
+}
@@ -1,234 +1,264 @@
 import express, { Request, Response } from 'express';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import logger from '../utils/logger.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getToolDispatcher, ToolDispatcher } from '../handlers/requests/dispatcher.js';
+import { TOOL_FORBIDDEN_ERROR_CODE } from '../handlers/requests/registry.js';
 
-const router = express.Router();
+/**
+ * Map an MCP error code to an HTTP status code
+ * @param code The MCP error code
+ * @returns The HTTP status code
+ */
+function getHttpStatus(code: number): number {
+  switch (code) {
+    case ErrorCode.MethodNotFound:
+      return 404;
+    case TOOL_FORBIDDEN_ERROR_CODE:
+      return 403;
+    case ErrorCode.InvalidParams:
+    case ErrorCode.InvalidRequest:
+      return 400;
+    default:
+      return 500;
+  }
+}
 
 /**
- * @swagger
- * /tools:
- *   get:
- *     summary: Get a list of available MCP tools
- *     description: Returns a list of all available MCP tools with their descriptions and input schemas
- *     tags: [Tools]
- *     security:
- *       - ApiKeyAuth: []
- *     responses:
- *       200:
- *         description: A list of tools
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: string
- *                   example: success
- *                 data:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       name:
- *                         type: string
- *                         example: get_conversations
- *                       description:
- *                         type: string
- *                         example: Get a list of conversations from Frontapp
- *                       inputSchema:
- *                         type: object
- *       401:
- *         description: Unauthorized
- *       500:
- *         description: Server error
+ * Execute a tool through the MCP server's tool dispatcher and send the result
+ * Tool failures are returned as a tool response with isError set, exactly as over MCP
+ * @param dispatcher The tool dispatcher of the MCP server
+ * @param name The name of the tool
+ * @param args The arguments passed to the tool
+ * @param req Express request object
+ * @param res Express response object
  */
-router.get('/', async (req: Request, res: Response) => {
-  try {
-    req.logger?.info('Getting list of tools');
-    
-    // In a real implementation, you would get this from the MCP server
-    // For now, we'll return a placeholder
-    const tools = [
-      {
-        name: 'get_conversations',
-        description: 'Get a list of conversations from Frontapp',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            status: {
-              type: 'string',
-              enum: ['open', 'archived'],
-              description: 'Filter conversations by status',
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of conversations to return',
-            },
-          },
-        },
-      },
-      {
-        name: 'send_message',
-        description: 'Send a message to a conversation',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            conversation_id: {
-              type: 'string',
-              description: 'ID of the conversation',
-            },
-            body: {
-              type: 'string',
-              description: 'Message body',
-            },
-            tags: {
-              type: 'array',
-              items: {
-                type: 'string',
-              },
-              description: 'Tags to apply to the message',
-            },
-          },
-          required: ['conversation_id', 'body'],
-        },
-      },
-    ];
-    
-    return res.status(200).json({
-      status: 'success',
-      data: tools,
+async function executeTool(
+  dispatcher: ToolDispatcher,
+  name: string,
+  args: Record<string, any> | undefined,
+  req: Request,
+  res: Response
+): Promise<Response> {
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({
+      status: 'error',
+      message: 'Missing required argument: name',
     });
-  } catch (error) {
-    req.logger?.error('Error getting tools', { error });
-    return res.status(500).json({
+  }
+
+  if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+    return res.status(400).json({
       status: 'error',
-      message: 'Failed to get tools',
+      message: 'arguments must be an object',
     });
   }
-});
 
-/**
- * @swagger
- * /tools/{name}:
- *   post:
- *     summary: Execute an MCP tool
- *     description: Execute a specific MCP tool with the provided arguments
- *     tags: [Tools]
- *     security:
- *       - ApiKeyAuth: []
- *     parameters:
- *       - in: path
- *         name: name
- *         required: true
- *         schema:
- *           type: string
- *         description: The name of the tool to execute
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               arguments:
- *                 type: object
- *                 description: Tool-specific arguments
- *     responses:
- *       200:
- *         description: Tool execution result
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: string
- *                   example: success
- *                 data:
- *                   type: object
- *       400:
- *         description: Invalid request
- *       401:
- *         description: Unauthorized
- *       404:
- *         description: Tool not found
- *       500:
- *         description: Server error
- */
-router.post('/:name', async (req: Request, res: Response) => {
   try {
-    const { name } = req.params;
-    const { arguments: args } = req.body;
-    
-    req.logger?.info('Executing tool', { name, args });
-    
-    // In a real implementation, you would execute the tool using the MCP server
-    // For now, we'll return a placeholder
-    if (name === 'get_conversations') {
-      return res.status(200).json({
-        status: 'success',
-        data: {
-          conversations: [
-            {
-              id: 'cnv_123',
-              subject: 'Example conversation',
-              status: 'open',
-              assignee: {
-                id: 'usr_456',
-                name: 'John Doe',
-              },
-              tags: ['support', 'priority'],
-            },
-          ],
-        },
-      });
-    } else if (name === 'send_message') {
-      if (!args.conversation_id || !args.body) {
-        return res.status(400).json({
-          status: 'error',
-          message: 'Missing required arguments: conversation_id and body',
-        });
-      }
-      
-      return res.status(200).json({
-        status: 'success',
-        data: {
-          message: {
-            id: 'msg_789',
-            conversation_id: args.conversation_id,
-            body: args.body,
-            author: {
-              id: 'usr_456',
-              name: 'John Doe',
-            },
-            created_at: new Date().toISOString(),
-          },
-        },
-      });
-    } else {
-      return res.status(404).json({
+    req.logger?.info('Executing tool', { name });
+
+    const result = await dispatcher.callTool(name, args || {});
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    if (error instanceof McpError) {
+      req.logger?.warn('Tool call rejected', { name, code: error.code, error: error.message });
+      return res.status(getHttpStatus(error.code)).json({
         status: 'error',
-        message: `Tool not found: ${name}`,
+        message: error.message,
       });
     }
-  } catch (error) {
-    req.logger?.error('Error executing tool', { error, params: req.params });
+
+    req.logger?.error('Error executing tool', { name, error: error.message });
     return res.status(500).json({
       status: 'error',
       message: 'Failed to execute tool',
     });
   }
-});
+}
 
 /**
  * Initialize the tools router with the MCP server
+ * The router lists and executes the tools registered with the MCP server, using the same
+ * handlers, argument validation and error mapping as MCP clients
  * @param mcpServer The MCP server instance
  * @returns The Express router
  */
 export function initToolsRouter(mcpServer: Server): express.Router {
-  // In a real implementation, you would use the MCP server to handle tool requests
-  // For now, we'll just return the router
+  const router = express.Router();
+
+  /**
+   * Get the tool dispatcher of the MCP server, or send an error if no tools are registered
+   * @param res Express response object
+   * @returns The tool dispatcher, or undefined if the error response has been sent
+   */
+  const requireDispatcher = (res: Response): ToolDispatcher | undefined => {
+    const dispatcher = getToolDispatcher(mcpServer);
+    if (!dispatcher) {
+      res.status(503).json({
+        status: 'error',
+        message: 'No tools are registered with the MCP server',
+      });
+    }
+    return dispatcher;
+  };
+
+  /**
+   * @swagger
+   * /tools:
+   *   get:
+   *     summary: Get a list of available MCP tools
+   *     description: Returns a list of all available MCP tools with their descriptions and input schemas
+   *     tags: [Tools]
+   *     security:
+   *       - ApiKeyAuth: []
+   *     responses:
+   *       200:
+   *         description: A list of tools
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 status:
+   *                   type: string
+   *                   example: success
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *                     properties:
+   *                       name:
+   *                         type: string
+   *                         example: list_conversations
+   *                       description:
+   *                         type: string
+   *                         example: List conversations in Front
+   *                       inputSchema:
+   *                         type: object
+   *       401:
+   *         description: Unauthorized
+   *       500:
+   *         description: Server error
+   *       503:
+   *         description: No tools are registered with the MCP server
+   */
+  router.get('/', (req: Request, res: Response) => {
+    try {
+      req.logger?.info('Getting list of tools');
+
+      const dispatcher = requireDispatcher(res);
+      if (!dispatcher) {
+        return res;
+      }
+
+      return res.status(200).json({
+        status: 'success',
+        data: dispatcher.listTools(),
+      });
+    } catch (error) {
+      req.logger?.error('Error getting tools', { error });
+      return res.status(500).json({
+        status: 'error',
+        message: 'Failed to get tools',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /tools/call:
+   *   post:
+   *     summary: Execute an MCP tool by name
+   *     description: Execute a tool using the same request shape as the MCP tools/call method
+   *     tags: [Tools]
+   *     security:
+   *       - ApiKeyAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name]
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 description: The name of the tool to execute
+   *               arguments:
+   *                 type: object
+   *                 description: Tool-specific arguments
+   *     responses:
+   *       200:
+   *         description: Tool execution result (isError is set when the tool failed)
+   *       400:
+   *         description: Invalid request
+   *       401:
+   *         description: Unauthorized
+   *       403:
+   *         description: The role of the API key or the server configuration doesn't allow the tool
+   *       404:
+   *         description: Tool not found
+   *       500:
+   *         description: Server error
+   */
+  router.post('/call', async (req: Request, res: Response) => {
+    const dispatcher = requireDispatcher(res);
+    if (!dispatcher) {
+      return res;
+    }
+
+    const { name, arguments: args } = req.body || {};
+    return executeTool(dispatcher, name, args, req, res);
+  });
+
+  /**
+   * @swagger
+   * /tools/{name}:
+   *   post:
+   *     summary: Execute an MCP tool
+   *     description: Execute a specific MCP tool with the provided arguments
+   *     tags: [Tools]
+   *     security:
+   *       - ApiKeyAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: The name of the tool to execute
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               arguments:
+   *                 type: object
+   *                 description: Tool-specific arguments
+   *     responses:
+   *       200:
+   *         description: Tool execution result (isError is set when the tool failed)
+   *       400:
+   *         description: Invalid request
+   *       401:
+   *         description: Unauthorized
+   *       403:
+   *         description: The role of the API key or the server configuration doesn't allow the tool
+   *       404:
+   *         description: Tool not found
+   *       500:
+   *         description: Server error
+   */
+  router.post('/:name', async (req: Request, res: Response) => {
+    const dispatcher = requireDispatcher(res);
+    if (!dispatcher) {
+      return res;
+    }
+
+    return executeTool(dispatcher, req.params.name, req.body?.arguments, req, res);
+  });
+
   return router;
 }
-
-export default router;
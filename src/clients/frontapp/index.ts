@@ -11,6 +11,8 @@ import { setTimeout } from 'timers/promises';
 import logger from '../../utils/logger.js';
 import ErrorLogger from '../../utils/errorLogger.js';
 import cacheManager from '../../utils/cache.js';
+import { frontappRateLimiter } from '../../utils/frontappRateLimiter.js';
+import { DEFAULT_TENANT, tenantManager } from '../../utils/tenants.js';
 
 // Define types for Frontapp API responses
 export interface FrontappPaginatedResponse<T> {
@@ -23,19 +25,110 @@ export interface FrontappPaginatedResponse<T> {
   _results: T[];
 }
 
+// The items collected from the pages of a paginated list
+export interface PaginatedCollection<T> {
+  /** The items of all fetched pages */
+  results: T[];
+  /** The number of pages fetched */
+  pages: number;
+  /** The link to the next page, when the list has more items than were fetched */
+  next?: string;
+}
+
+// Options for creating a Frontapp client
+export interface FrontappClientOptions {
+  /** The Frontapp API token (defaults to the configured token) */
+  apiKey?: string;
+  /** The prefix of the cache keys of the client (defaults to frontapp) */
+  cacheNamespace?: string;
+  /** The tenant of the client, whose Front company requests are rate limited for */
+  tenant?: string;
+}
+
+// A file downloaded from the Frontapp API
+export interface DownloadedFile {
+  content: Buffer;
+  /** The content type the API responded with */
+  contentType: string;
+  /** The file name from the Content-Disposition header, if any */
+  filename?: string;
+}
+
+// Largest page size accepted by the Frontapp API
+const MAX_PAGE_SIZE = 100;
+
+// Cached resource types by path, checked in order
+// Custom fields come first as their paths (e.g. /contacts/custom_fields) look like single resources
+const CACHED_PATHS: Array<{ pattern: RegExp; type: string }> = [
+  { pattern: /^\/(?:[a-z_]+\/)?custom_fields$/, type: 'custom_fields' },
+  { pattern: /^\/teammates(?:\/[^/]+)?$/, type: 'teammates' },
+  { pattern: /^\/inboxes(?:\/[^/]+)?$/, type: 'inboxes' },
+  { pattern: /^\/tags(?:\/[^/]+(?:\/children)?)?$/, type: 'tags' },
+  { pattern: /^\/contacts\/[^/]+$/, type: 'contacts' },
+  { pattern: /^\/conversations\/[^/]+$/, type: 'conversations' },
+  { pattern: /^\/accounts(?:\/[^/]+)?$/, type: 'accounts' },
+  { pattern: /^\/webhooks$/, type: 'webhooks' },
+];
+
+// Front resource IDs: a lowercase prefix, an underscore and an alphanumeric ID (e.g. cnv_55c8c149)
+const RESOURCE_ID = /^[a-z]{2,5}_[0-9a-z]+$/;
+
+// Network errors raised before a request was sent, after which even a POST is safe to retry
+const UNSENT_REQUEST_ERRORS = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * Get the path of a request without its query, also for the full URLs of next pages
+ * @param path The path or URL of the request
+ * @returns The path
+ */
+function getPathname(path: string): string {
+  return /^https?:/.test(path) ? new URL(path).pathname : path.split('?')[0];
+}
+
+/**
+ * Get the cached resource type of a request path
+ * @param path The path or URL of the request
+ * @returns The resource type, or undefined if responses to the path are not cached
+ */
+function getCacheType(path: string): string | undefined {
+  const pathname = getPathname(path);
+  return CACHED_PATHS.find(({ pattern }) => pattern.test(pathname))?.type;
+}
+
+/**
+ * Get the IDs of the Front resources in a request path and in the data it returned
+ * @param path The path or URL of the request
+ * @param data The response data: a resource or a paginated list of resources
+ * @returns The resource IDs
+ */
+function getResourceIds(path: string, data?: any): string[] {
+  const ids = new Set(getPathname(path).split('/').filter((segment) => RESOURCE_ID.test(segment)));
+
+  const resources = Array.isArray(data?._results) ? data._results : [data];
+  for (const resource of resources) {
+    if (typeof resource?.id === 'string') {
+      ids.add(resource.id);
+    }
+  }
+
+  return [...ids];
+}
+
 export class FrontappClient {
   private client: AxiosInstance;
-  private rateLimitDelay: number = 0; // ms to wait before next request
-  private rateLimitReset: number = 0; // timestamp when rate limit resets
+  private cacheNamespace: string;
+  private tenant: string;
   private maxRetries: number = 3; // maximum number of retries
   private retryDelay: number = 1000; // initial retry delay in ms
   private requestTimeout: number = 30000; // default request timeout in ms (30 seconds)
 
-  constructor() {
+  constructor(options: FrontappClientOptions = {}) {
+    this.cacheNamespace = options.cacheNamespace || 'frontapp';
+    this.tenant = options.tenant || DEFAULT_TENANT;
     this.client = axios.create({
       baseURL: config.frontapp.baseUrl,
       headers: {
-        Authorization: `Bearer ${config.frontapp.apiKey}`,
+        Authorization: `Bearer ${options.apiKey ?? config.frontapp.apiKey}`,
         'Content-Type': 'application/json',
         Accept: 'application/json',
       },
@@ -52,7 +145,7 @@ export class FrontappClient {
     this.client.interceptors.response.use(
       (response: AxiosResponse) => {
         // Check for rate limit headers
-        this.updateRateLimitInfo(response);
+        frontappRateLimiter.update(this.tenant, response.headers);
         return response;
       },
       async (error: AxiosError) => {
@@ -67,19 +160,15 @@ export class FrontappClient {
 
           // Handle rate limiting (429 Too Many Requests)
           if (error.response.status === 429) {
-            // Update rate limit info from headers
-            this.updateRateLimitInfo(error.response);
-
-            // Get retry-after header or use default
-            const retryAfter = error.response.headers['retry-after'];
-            const delayMs = retryAfter ? parseInt(retryAfter) * 1000 : this.rateLimitDelay;
-
-            logger.info(`Rate limit reached, waiting before retrying`, { delayMs });
-            await setTimeout(delayMs);
-
-            // Retry the request
-            if (error.config) {
-              return this.client(error.config);
+            // Pause every request to the Front company until Front accepts requests again
+            const delayMs = frontappRateLimiter.throttle(this.tenant, error.response.headers);
+
+            // Retry the request once the rate limiter lets it through
+            const retryCount = this.getRetryCount(error.config);
+            if (error.config && retryCount < this.maxRetries) {
+              logger.info(`Rate limit reached, waiting before retrying`, { delayMs });
+              error.config.headers['x-retry-count'] = (retryCount + 1).toString();
+              return this.rateLimitedRequest(() => this.client(error.config));
             }
           }
 
@@ -104,32 +193,13 @@ export class FrontappClient {
   }
 
   /**
-   * Update rate limit information from response headers
-   * @param response The Axios response
+   * Get the number of times a request was retried
+   * @param requestConfig The request config
+   * @returns The retry count
    */
-  private updateRateLimitInfo(response: AxiosResponse): void {
-    const remaining = response.headers['x-ratelimit-remaining'];
-    const reset = response.headers['x-ratelimit-reset'];
-
-    if (remaining && reset) {
-      const remainingRequests = parseInt(remaining);
-      const resetTime = parseInt(reset) * 1000; // Convert to milliseconds
-
-      // If we're running low on requests, calculate delay to spread remaining requests
-      if (remainingRequests < 10) {
-        const now = Date.now();
-        const timeUntilReset = Math.max(0, resetTime - now);
-        this.rateLimitDelay = Math.ceil(timeUntilReset / (remainingRequests + 1));
-        this.rateLimitReset = resetTime;
-
-        logger.info(`Rate limit status`, {
-          remainingRequests,
-          timeUntilReset,
-          delayMs: this.rateLimitDelay,
-          resetTime: new Date(this.rateLimitReset).toISOString()
-        });
-      }
-    }
+  private getRetryCount(requestConfig?: AxiosRequestConfig): number {
+    const retryCount = requestConfig?.headers?.['x-retry-count'];
+    return retryCount ? parseInt(retryCount as string) : 0;
   }
 
   /**
@@ -142,9 +212,15 @@ export class FrontappClient {
       return Promise.reject(error);
     }
 
-    let retryCount = error.config.headers?.['x-retry-count']
-      ? parseInt(error.config.headers['x-retry-count'] as string)
-      : 0;
+    // A POST that may have reached Front is not retried, as it could e.g. send a message twice
+    if (
+      error.config.method?.toLowerCase() === 'post' &&
+      !UNSENT_REQUEST_ERRORS.includes(error.code as string)
+    ) {
+      return Promise.reject(error);
+    }
+
+    let retryCount = this.getRetryCount(error.config);
 
     if (retryCount < this.maxRetries) {
       retryCount++;
@@ -168,8 +244,8 @@ export class FrontappClient {
       }
       error.config.headers['x-retry-count'] = retryCount.toString();
 
-      // Retry the request
-      return this.client(error.config);
+      // Retry the request through the rate limiter
+      return this.rateLimitedRequest(() => this.client(error.config));
     }
 
     // Max retries reached, reject with original error
@@ -210,317 +286,399 @@ export class FrontappClient {
 
   /**
    * Make a rate-limited request
-   * This method ensures we respect rate limits by adding delays when necessary
+   * Every Frontapp API request goes through the rate limiter shared by the clients, which sends
+   * it once the token bucket of the client's Front company allows it (see FrontappRateLimiter)
    * @param requestFn Function that makes the actual request
    * @returns The response from the request
    */
   private async rateLimitedRequest<T>(requestFn: () => Promise<T>): Promise<T> {
-    // If we have a rate limit delay, wait before making the request
-    if (this.rateLimitDelay > 0) {
-      const now = Date.now();
+    return frontappRateLimiter.schedule(this.tenant, requestFn);
+  }
+
+  /**
+   * Get the cache tags of a Frontapp API path and of the data it returned
+   * Entries are tagged with the IDs of the resources they hold, and lists with their type,
+   * so that they can be invalidated when one of the resources changes or is created
+   * @param path The path of the request
+   * @param data The response data
+   * @returns The cache tags
+   */
+  private getCacheTags(path: string, data?: any): string[] {
+    const ids = getResourceIds(path, data);
+    const tags = ids.map((id) => `${this.cacheNamespace}:${id}`);
+
+    const type = getCacheType(path);
+    if (type && !getResourceIds(path).length) {
+      tags.push(`${this.cacheNamespace}:${type}`);
+    }
+
+    return tags;
+  }
+
+  /**
+   * Invalidate the cached responses that hold any of the given Front resources
+   * @param resourceIds The IDs of the resources that changed, e.g. a contact ID
+   * @returns The keys of the invalidated cache entries
+   */
+  async invalidateCache(resourceIds: string[]): Promise<string[]> {
+    return cacheManager.invalidate(resourceIds.map((id) => `${this.cacheNamespace}:${id}`));
+  }
+
+  /**
+   * Make a write request and invalidate the cached responses it may have made stale
+   * @param path The path of the request
+   * @param requestFn Function that makes the actual request
+   * @returns The response from the request
+   */
+  private async writeRequest<T>(
+    path: string,
+    requestFn: () => Promise<AxiosResponse<T>>
+  ): Promise<AxiosResponse<T>> {
+    const response = await this.rateLimitedRequest(requestFn);
+    await cacheManager.invalidate(this.getCacheTags(path));
+    return response;
+  }
+
+  // Generic request methods
+  // These are used by tools that call Frontapp endpoints without a dedicated client method
+
+  /**
+   * Make a GET request
+   * Responses of cached resource types (see CACHED_PATHS) are served from the cache until the
+   * TTL of their type expires, or a write request or webhook about their resources arrives
+   * @param path The path, or the URL of the next page of a paginated list
+   * @param params The query parameters
+   * @returns The response
+   */
+  async get<T = any>(path: string, params?: Record<string, any>): Promise<AxiosResponse<T>> {
+    const type = getCacheType(path);
+    const ttl = type ? cacheManager.getTtl(type) : 0;
+    if (!ttl) {
+      return this.rateLimitedRequest(() => this.client.get(path, { params }));
+    }
+
+    const query = params && Object.keys(params).length > 0 ? ` ${JSON.stringify(params)}` : '';
+    const cacheKey = `${this.cacheNamespace}:${type}:${path}${query}`;
+
+    // Try to get from cache first
+    const cachedData = await cacheManager.get<T>(cacheKey);
+    if (cachedData !== undefined) {
+      logger.debug(`Using cached ${type}`, { path });
+      return {
+        data: cachedData,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config: {} as InternalAxiosRequestConfig,
+      };
+    }
+
+    // If not in cache, fetch from API
+    const response = await this.rateLimitedRequest(() => this.client.get(path, { params }));
+
+    // Only the data is cached, so that the file backend can store it
+    await cacheManager.set(cacheKey, response.data, ttl, this.getCacheTags(path, response.data));
+
+    return response;
+  }
+
+  async post<T = any>(path: string, data?: any): Promise<AxiosResponse<T>> {
+    return this.writeRequest(path, () => this.client.post(path, data));
+  }
+
+  async put<T = any>(path: string, data?: any): Promise<AxiosResponse<T>> {
+    return this.writeRequest(path, () => this.client.put(path, data));
+  }
+
+  async patch<T = any>(path: string, data?: any): Promise<AxiosResponse<T>> {
+    return this.writeRequest(path, () => this.client.patch(path, data));
+  }
+
+  async delete<T = any>(path: string, data?: any): Promise<AxiosResponse<T>> {
+    return this.writeRequest(path, () => this.client.delete(path, { data }));
+  }
+
+  /**
+   * Make a multipart/form-data POST request, e.g. of a message with attachments
+   * @param path The path
+   * @param form The form fields and files
+   * @returns The response
+   */
+  async postMultipart<T = any>(path: string, form: FormData): Promise<AxiosResponse<T>> {
+    // Without the multipart content type, axios would send the form as JSON
+    return this.writeRequest(path, () =>
+      this.client.post(path, form, { headers: { 'Content-Type': 'multipart/form-data' } })
+    );
+  }
+
+  /**
+   * Download a file from the Frontapp API, e.g. an attachment
+   * The file is streamed, and the download is aborted once it exceeds maxBytes. Only URLs with
+   * the scheme, host and port of the configured Frontapp API are accepted, as the request carries
+   * the API token; with the default API URL, that is https://api2.frontapp.com.
+   * @param path The path or URL of the file
+   * @param maxBytes The maximum size of the file
+   * @returns The file
+   * @throws Error if the URL is not on the Frontapp API or the file is larger than maxBytes
+   */
+  async download(path: string, maxBytes: number): Promise<DownloadedFile> {
+    const api = new URL(config.frontapp.baseUrl);
+    const url = new URL(path, api);
+    if (url.origin !== api.origin) {
+      throw new Error(`Files can only be downloaded from ${api.origin}, not from ${url.origin}`);
+    }
+
+    const response = await this.rateLimitedRequest(() =>
+      this.client.get(path, { responseType: 'stream' })
+    );
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response.data) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        response.data.destroy();
+        throw new Error(`The file is larger than ${maxBytes} bytes`);
+      }
+      chunks.push(chunk);
+    }
+
+    const disposition = String(response.headers['content-disposition'] || '');
+    const encodedFilename = /filename\*=UTF-8''([^;]+)/i.exec(disposition)?.[1];
+
+    return {
+      content: Buffer.concat(chunks),
+      contentType: String(response.headers['content-type'] || 'application/octet-stream'),
+      filename: encodedFilename
+        ? decodeURIComponent(encodedFilename)
+        : /filename="?([^";]+)"?/i.exec(disposition)?.[1],
+    };
+  }
+
+  // Pagination methods
 
-      // If the rate limit has reset, clear the delay
-      if (now > this.rateLimitReset) {
-        this.rateLimitDelay = 0;
+  /**
+   * Iterate over the pages of a paginated list by following the _pagination.next links
+   * Every page is requested through the rate limiter, and no more than maxItems are requested
+   * @param path The path of the list
+   * @param params The query parameters of the first page
+   * @param maxItems The maximum number of items to fetch across all pages
+   */
+  async *paginate<T = any>(
+    path: string,
+    params: Record<string, any> = {},
+    maxItems: number = Infinity
+  ): AsyncGenerator<FrontappPaginatedResponse<T>> {
+    const pageSize = Math.min(params.limit || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    let url: string | undefined = path;
+    let fetched = 0;
+    let pages = 0;
+
+    while (url && fetched < maxItems) {
+      const limit = Math.min(pageSize, maxItems - fetched);
+      let response: AxiosResponse<FrontappPaginatedResponse<T>>;
+
+      if (pages++ === 0) {
+        response = await this.get(path, { ...params, limit });
       } else {
-        logger.info(`Applying rate limit delay before request`, { delayMs: this.rateLimitDelay });
-        await setTimeout(this.rateLimitDelay);
+        // The next link already carries the page token and the query of the first page
+        const next = new URL(url);
+        next.searchParams.set('limit', String(limit));
+        response = await this.get(next.toString());
       }
+
+      const page = response.data;
+      yield page;
+
+      fetched += page._results.length;
+      url = page._results.length > 0 ? page._pagination?.next : undefined;
+    }
+  }
+
+  /**
+   * Collect the items of a paginated list
+   * @param path The path of the list
+   * @param params The query parameters of the first page
+   * @param maxItems The maximum number of items to collect
+   * @returns The collected items and the link to the next page, if any
+   */
+  async collect<T = any>(
+    path: string,
+    params: Record<string, any> = {},
+    maxItems: number = Infinity
+  ): Promise<PaginatedCollection<T>> {
+    const collection: PaginatedCollection<T> = { results: [], pages: 0 };
+
+    for await (const page of this.paginate<T>(path, params, maxItems)) {
+      collection.results.push(...page._results);
+      collection.pages++;
+      collection.next = page._pagination?.next || undefined;
     }
 
-    // Make the request
-    return requestFn();
+    return collection;
   }
 
   // Conversation methods
   async getConversations(
     params?: Record<string, any>
   ): Promise<AxiosResponse<FrontappPaginatedResponse<any>>> {
-    return this.rateLimitedRequest(() => this.client.get('/conversations', { params }));
+    return this.get('/conversations', params);
   }
 
   async getConversation(conversationId: string): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() => this.client.get(`/conversations/${conversationId}`));
+    return this.get(`/conversations/${conversationId}`);
   }
 
   async getConversationMessages(
     conversationId: string
   ): Promise<AxiosResponse<FrontappPaginatedResponse<any>>> {
-    return this.rateLimitedRequest(() =>
-      this.client.get(`/conversations/${conversationId}/messages`)
-    );
+    return this.get(`/conversations/${conversationId}/messages`);
   }
 
   async sendMessage(conversationId: string, data: any): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() =>
-      this.client.post(`/conversations/${conversationId}/messages`, data)
-    );
+    return this.post(`/conversations/${conversationId}/messages`, data);
   }
 
   async addComment(
     conversationId: string,
     data: { author_id: string; body: string }
   ): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() =>
-      this.client.post(`/conversations/${conversationId}/comments`, data)
-    );
+    return this.post(`/conversations/${conversationId}/comments`, data);
   }
 
   async archiveConversation(conversationId: string): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() =>
-      this.client.patch(`/conversations/${conversationId}`, { archived: true })
-    );
+    return this.patch(`/conversations/${conversationId}`, { archived: true });
   }
 
   async unarchiveConversation(conversationId: string): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() =>
-      this.client.patch(`/conversations/${conversationId}`, { archived: false })
-    );
+    return this.patch(`/conversations/${conversationId}`, { archived: false });
   }
 
   async assignConversation(
     conversationId: string,
     assigneeId: string
   ): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() =>
-      this.client.patch(`/conversations/${conversationId}`, { assignee_id: assigneeId })
-    );
+    return this.patch(`/conversations/${conversationId}`, { assignee_id: assigneeId });
   }
 
   // Contact methods
   async getContacts(
     params?: Record<string, any>
   ): Promise<AxiosResponse<FrontappPaginatedResponse<any>>> {
-    return this.rateLimitedRequest(() => this.client.get('/contacts', { params }));
+    return this.get('/contacts', params);
   }
 
   async getContact(contactId: string): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() => this.client.get(`/contacts/${contactId}`));
+    return this.get(`/contacts/${contactId}`);
   }
 
   async createContact(data: any): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() => this.client.post('/contacts', data));
+    return this.post('/contacts', data);
   }
 
   async updateContact(contactId: string, data: any): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() => this.client.patch(`/contacts/${contactId}`, data));
+    return this.patch(`/contacts/${contactId}`, data);
   }
 
   // Tag methods
   async getTags(): Promise<AxiosResponse<FrontappPaginatedResponse<any>>> {
-    // Cache key for tags
-    const cacheKey = 'frontapp:tags';
-    
-    // Try to get from cache first
-    const cachedResponse = cacheManager.get<AxiosResponse<FrontappPaginatedResponse<any>>>(cacheKey);
-    if (cachedResponse) {
-      logger.debug('Using cached tags');
-      return cachedResponse;
-    }
-    
-    // If not in cache, fetch from API
-    const response = await this.rateLimitedRequest(() => this.client.get('/tags'));
-    
-    // Cache the response for 1 hour (tags don't change frequently)
-    cacheManager.set(cacheKey, response, 60 * 60 * 1000);
-    
-    return response;
+    return this.get('/tags');
   }
 
   async applyTag(conversationId: string, tagId: string): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() =>
-      this.client.post(`/conversations/${conversationId}/tags`, { tag_ids: [tagId] })
-    );
+    return this.post(`/conversations/${conversationId}/tags`, { tag_ids: [tagId] });
   }
 
   async removeTag(conversationId: string, tagId: string): Promise<AxiosResponse<any>> {
     // The Frontapp API uses a different endpoint for removing tags
-    return this.rateLimitedRequest(() =>
-      this.client.delete(`/conversations/${conversationId}/tags`, {
-        data: { tag_ids: [tagId] },
-      })
-    );
+    return this.delete(`/conversations/${conversationId}/tags`, { tag_ids: [tagId] });
   }
 
   // Inbox methods
   async getInboxes(
     params?: Record<string, any>
   ): Promise<AxiosResponse<FrontappPaginatedResponse<any>>> {
-    // For requests with params, don't use cache
-    if (params && Object.keys(params).length > 0) {
-      return this.rateLimitedRequest(() => this.client.get('/inboxes', { params }));
-    }
-    
-    // Cache key for inboxes
-    const cacheKey = 'frontapp:inboxes';
-    
-    // Try to get from cache first
-    const cachedResponse = cacheManager.get<AxiosResponse<FrontappPaginatedResponse<any>>>(cacheKey);
-    if (cachedResponse) {
-      logger.debug('Using cached inboxes');
-      return cachedResponse;
-    }
-    
-    // If not in cache, fetch from API
-    const response = await this.rateLimitedRequest(() => this.client.get('/inboxes'));
-    
-    // Cache the response for 1 hour (inboxes don't change frequently)
-    cacheManager.set(cacheKey, response, 60 * 60 * 1000);
-    
-    return response;
+    return this.get('/inboxes', params);
   }
 
   async getInbox(inboxId: string): Promise<AxiosResponse<any>> {
-    // Cache key for inbox
-    const cacheKey = `frontapp:inbox:${inboxId}`;
-    
-    // Try to get from cache first
-    const cachedResponse = cacheManager.get<AxiosResponse<any>>(cacheKey);
-    if (cachedResponse) {
-      logger.debug(`Using cached inbox: ${inboxId}`);
-      return cachedResponse;
-    }
-    
-    // If not in cache, fetch from API
-    const response = await this.rateLimitedRequest(() => this.client.get(`/inboxes/${inboxId}`));
-    
-    // Cache the response for 1 hour (inbox details don't change frequently)
-    cacheManager.set(cacheKey, response, 60 * 60 * 1000);
-    
-    return response;
+    return this.get(`/inboxes/${inboxId}`);
   }
 
   // User methods
   async getTeammates(): Promise<AxiosResponse<FrontappPaginatedResponse<any>>> {
-    // Cache key for teammates
-    const cacheKey = 'frontapp:teammates';
-    
-    // Try to get from cache first
-    const cachedResponse = cacheManager.get<AxiosResponse<FrontappPaginatedResponse<any>>>(cacheKey);
-    if (cachedResponse) {
-      logger.debug('Using cached teammates');
-      return cachedResponse;
-    }
-    
-    // If not in cache, fetch from API
-    const response = await this.rateLimitedRequest(() => this.client.get('/teammates'));
-    
-    // Cache the response for 1 hour (teammates don't change frequently)
-    cacheManager.set(cacheKey, response, 60 * 60 * 1000);
-    
-    return response;
+    return this.get('/teammates');
   }
 
   async getTeammate(teammateId: string): Promise<AxiosResponse<any>> {
-    // Cache key for teammate
-    const cacheKey = `frontapp:teammate:${teammateId}`;
-    
-    // Try to get from cache first
-    const cachedResponse = cacheManager.get<AxiosResponse<any>>(cacheKey);
-    if (cachedResponse) {
-      logger.debug(`Using cached teammate: ${teammateId}`);
-      return cachedResponse;
-    }
-    
-    // If not in cache, fetch from API
-    const response = await this.rateLimitedRequest(() => this.client.get(`/teammates/${teammateId}`));
-    
-    // Cache the response for 1 hour (teammate details don't change frequently)
-    cacheManager.set(cacheKey, response, 60 * 60 * 1000);
-    
-    return response;
+    return this.get(`/teammates/${teammateId}`);
   }
 
   // Account methods
   async getAccounts(
     params?: Record<string, any>
   ): Promise<AxiosResponse<FrontappPaginatedResponse<any>>> {
-    // For requests with params, don't use cache
-    if (params && Object.keys(params).length > 0) {
-      return this.rateLimitedRequest(() => this.client.get('/accounts', { params }));
-    }
-    
-    // Cache key for accounts
-    const cacheKey = 'frontapp:accounts';
-    
-    // Try to get from cache first
-    const cachedResponse = cacheManager.get<AxiosResponse<FrontappPaginatedResponse<any>>>(cacheKey);
-    if (cachedResponse) {
-      logger.debug('Using cached accounts');
-      return cachedResponse;
-    }
-    
-    // If not in cache, fetch from API
-    const response = await this.rateLimitedRequest(() => this.client.get('/accounts'));
-    
-    // Cache the response for 1 hour (accounts don't change frequently)
-    cacheManager.set(cacheKey, response, 60 * 60 * 1000);
-    
-    return response;
+    return this.get('/accounts', params);
   }
 
   async getAccount(accountId: string): Promise<AxiosResponse<any>> {
-    // Cache key for account
-    const cacheKey = `frontapp:account:${accountId}`;
-    
-    // Try to get from cache first
-    const cachedResponse = cacheManager.get<AxiosResponse<any>>(cacheKey);
-    if (cachedResponse) {
-      logger.debug(`Using cached account: ${accountId}`);
-      return cachedResponse;
-    }
-    
-    // If not in cache, fetch from API
-    const response = await this.rateLimitedRequest(() => this.client.get(`/accounts/${accountId}`));
-    
-    // Cache the response for 1 hour (account details don't change frequently)
-    cacheManager.set(cacheKey, response, 60 * 60 * 1000);
-    
-    return response;
+    return this.get(`/accounts/${accountId}`);
   }
 
   async createAccount(data: any): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() => this.client.post('/accounts', data));
+    return this.post('/accounts', data);
   }
 
   async updateAccount(accountId: string, data: any): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() => this.client.patch(`/accounts/${accountId}`, data));
+    return this.patch(`/accounts/${accountId}`, data);
   }
 
   // Webhook methods
   async subscribeWebhook(events: string[], url: string): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() =>
-      this.client.post('/webhooks', {
-        url,
-        events,
-      })
-    );
+    return this.post('/webhooks', {
+      url,
+      events,
+    });
   }
 
   async unsubscribeWebhook(webhookId: string): Promise<AxiosResponse<any>> {
-    return this.rateLimitedRequest(() => this.client.delete(`/webhooks/${webhookId}`));
+    return this.delete(`/webhooks/${webhookId}`);
   }
 
   async listWebhooks(): Promise<AxiosResponse<FrontappPaginatedResponse<any>>> {
-    // Cache key for webhooks
-    const cacheKey = 'frontapp:webhooks';
-    
-    // Try to get from cache first
-    const cachedResponse = cacheManager.get<AxiosResponse<FrontappPaginatedResponse<any>>>(cacheKey);
-    if (cachedResponse) {
-      logger.debug('Using cached webhooks');
-      return cachedResponse;
-    }
-    
-    // If not in cache, fetch from API
-    const response = await this.rateLimitedRequest(() => this.client.get('/webhooks'));
-    
-    // Cache the response for 1 hour (webhooks don't change frequently)
-    cacheManager.set(cacheKey, response, 60 * 60 * 1000);
-    
-    return response;
+    return this.get('/webhooks');
   }
 }
 
+// Clients of the tenants by tenant name, with the API token they were created with
+const tenantClients = new Map<string, { apiKey: string; client: FrontappClient }>();
+
+/**
+ * Get the Frontapp client of a tenant
+ * The client is created again when the API token of the tenant changes, e.g. when the
+ * configuration is reloaded with a rotated token
+ * @param tenant The tenant name (defaults to the tenant of the code that is running)
+ * @returns The Frontapp client
+ * @throws Error if the tenant doesn't exist
+ */
+export function getFrontappClient(tenant: string = tenantManager.current()): FrontappClient {
+  const { apiKey, cacheNamespace } = tenantManager.get(tenant);
+  let entry = tenantClients.get(tenant);
+
+  if (!entry || entry.apiKey !== apiKey) {
+    entry = { apiKey, client: new FrontappClient({ apiKey, cacheNamespace, tenant }) };
+    tenantClients.set(tenant, entry);
+  }
+
+  return entry.client;
+}
+
 // Export a singleton instance
-export const frontappClient = new FrontappClient();
+// Calls are forwarded to the client of the tenant of the code that is running
+export const frontappClient: FrontappClient = new Proxy({} as FrontappClient, {
+  get(_target, property) {
+    const client = getFrontappClient();
+    const value = Reflect.get(client, property, client);
+    return typeof value === 'function' ? value.bind(client) : value;
+  },
+});
@@ -16,12 +16,24 @@ const validatedEnv = validateEnvVars(envVarDefinitions);
  */
 export const config = {
   frontapp: {
-    apiKey: validatedEnv.FRONTAPP_API_KEY || '',
-    baseUrl: 'https://api2.frontapp.com',
+    apiKey: validatedEnv.FRONTAPP_API_KEY || validatedEnv.FRONTAPP_API_TOKEN || '',
+    baseUrl: validatedEnv.FRONTAPP_BASE_URL || 'https://api2.frontapp.com',
+    rateLimit: {
+      perMinute: validatedEnv.FRONTAPP_RATE_LIMIT_PER_MINUTE || 50,
+      burst: validatedEnv.FRONTAPP_RATE_LIMIT_BURST || 10,
+    },
   },
   webhook: {
     secret: validatedEnv.WEBHOOK_SECRET || '',
     baseUrl: validatedEnv.WEBHOOK_BASE_URL || '',
+    eventStore: {
+      path: validatedEnv.WEBHOOK_EVENT_STORE_PATH || './data/webhook-events.jsonl',
+      retentionDays: validatedEnv.WEBHOOK_EVENT_RETENTION_DAYS || 30,
+    },
+    queue: {
+      concurrency: validatedEnv.WEBHOOK_QUEUE_CONCURRENCY || 4,
+      maxSize: validatedEnv.WEBHOOK_QUEUE_MAX_SIZE || 1000,
+    },
   },
   server: {
     port: validatedEnv.PORT || 3000,
@@ -30,6 +42,73 @@ export const config = {
     level: validatedEnv.LOG_LEVEL || 'info',
     metricsInterval: validatedEnv.METRICS_INTERVAL || 60000,
   },
+  mcp: {
+    sessionTimeoutMs: validatedEnv.MCP_SESSION_TIMEOUT_MS || 1800000, // 30 minutes
+  },
+  pagination: {
+    maxItems: validatedEnv.PAGINATION_MAX_ITEMS || 1000,
+  },
+  bulkUpdate: {
+    concurrency: validatedEnv.BULK_UPDATE_CONCURRENCY || 5,
+    maxConversations: validatedEnv.BULK_UPDATE_MAX_CONVERSATIONS || 500,
+  },
+  attachments: {
+    maxSizeBytes: validatedEnv.ATTACHMENT_MAX_SIZE_BYTES || 26214400, // 25 MB, Front's limit
+    allowedDirs: validatedEnv.ATTACHMENT_ALLOWED_DIRS || '',
+    textMaxChars: validatedEnv.ATTACHMENT_TEXT_MAX_CHARS || 20000,
+  },
+  nameResolution: {
+    ttlMs: validatedEnv.NAME_RESOLUTION_TTL_MS ?? 300000, // 5 minutes
+  },
+  analytics: {
+    timezone: validatedEnv.ANALYTICS_TIMEZONE || 'UTC',
+    reportTtlMs: validatedEnv.ANALYTICS_REPORT_TTL_MS ?? 3600000, // 1 hour
+    waitSeconds: validatedEnv.ANALYTICS_WAIT_SECONDS ?? 10,
+  },
+  prompts: {
+    dir: validatedEnv.PROMPTS_DIR || './prompts',
+  },
+  rules: {
+    file: validatedEnv.RULES_FILE || './rules.yaml',
+    dryRun: validatedEnv.RULES_DRY_RUN || false,
+    cooldownMs: validatedEnv.RULES_COOLDOWN_MS ?? 300000, // 5 minutes
+  },
+  access: {
+    apiKeyRole: validatedEnv.API_KEY_ROLE || 'admin',
+    apiKeys: validatedEnv.API_KEYS || '',
+    readOnly: validatedEnv.READ_ONLY || false,
+    allowTools: validatedEnv.TOOLS_ALLOW || '',
+    denyTools: validatedEnv.TOOLS_DENY || '',
+  },
+  approvals: {
+    enabled: validatedEnv.APPROVAL_MODE || false,
+    tools: validatedEnv.APPROVAL_TOOLS || 'send_message,reply_to_conversation,delete',
+    ttlMs: validatedEnv.APPROVAL_TTL_MS || 86400000, // 24 hours
+    path: validatedEnv.APPROVAL_QUEUE_PATH || './data/pending-actions.jsonl',
+  },
+  audit: {
+    enabled: validatedEnv.AUDIT_LOG_ENABLED !== false,
+    path: validatedEnv.AUDIT_LOG_PATH || './data/audit-log.jsonl',
+  },
+  idempotency: {
+    enabled: validatedEnv.IDEMPOTENCY_ENABLED !== false,
+    path: validatedEnv.IDEMPOTENCY_STORE_PATH || './data/idempotency-keys.jsonl',
+    ttlMs: validatedEnv.IDEMPOTENCY_TTL_MS || 86400000, // 24 hours
+    derivedTtlMs: validatedEnv.IDEMPOTENCY_DERIVED_TTL_MS ?? 0, // Only calls with a key
+  },
+  pii: {
+    enabled: validatedEnv.PII_REDACTION_ENABLED || false,
+    types: validatedEnv.PII_REDACTION_TYPES || 'email,phone,card,iban',
+    allowFields: validatedEnv.PII_ALLOW_FIELDS || '',
+    reversible: validatedEnv.PII_REVERSIBLE_TOKENS !== false,
+    tokenTtlMs: validatedEnv.PII_TOKEN_TTL_MS || 86400000, // 24 hours
+  },
+  cache: {
+    backend: validatedEnv.CACHE_BACKEND || 'memory',
+    directory: validatedEnv.CACHE_DIR || './data/cache',
+    maxEntries: validatedEnv.CACHE_MAX_ENTRIES || 1000,
+    ttls: validatedEnv.CACHE_TTLS || '',
+  },
   api: {
     apiKey: validatedEnv.API_KEY || '',
     corsOrigins: validatedEnv.CORS_ORIGINS || '*',
@@ -64,11 +143,19 @@ export const config = {
   },
 };
 
+// Apply the configured log level now that the environment has been loaded
+logger.level = config.logging.level;
+
 /**
  * Validate required configuration
  * This function checks if all required configuration is present
  */
 export function validateConfig(): void {
+  // Check if the Frontapp API key is present
+  if (!config.frontapp.apiKey) {
+    throw new Error('FRONTAPP_API_KEY (or FRONTAPP_API_TOKEN) environment variable is required');
+  }
+
   // Check if webhook configuration is present
   if (!config.webhook.secret || !config.webhook.baseUrl) {
     logger.warn('Webhook configuration is missing. Webhook functionality will be disabled.');
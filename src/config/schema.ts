@@ -14,9 +14,38 @@ export const envVarDefinitions: EnvVarDefinition[] = [
   {
     name: 'FRONTAPP_API_KEY',
     type: EnvVarType.STRING,
-    required: true,
+    required: false,
     description: 'Frontapp API key for authentication',
   },
+  {
+    name: 'FRONTAPP_API_TOKEN',
+    type: EnvVarType.STRING,
+    required: false,
+    description: 'Alias for FRONTAPP_API_KEY, used by existing stdio server configurations',
+  },
+  {
+    name: 'FRONTAPP_BASE_URL',
+    type: EnvVarType.URL,
+    required: false,
+    default: 'https://api2.frontapp.com',
+    description: 'Base URL of the Frontapp API, e.g. of the mock Frontapp API server',
+  },
+  {
+    name: 'FRONTAPP_RATE_LIMIT_PER_MINUTE',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '50',
+    min: 1,
+    description: 'Frontapp API requests per minute of each Front company, until the x-ratelimit-limit header says otherwise',
+  },
+  {
+    name: 'FRONTAPP_RATE_LIMIT_BURST',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '10',
+    min: 1,
+    description: 'Frontapp API requests that can be sent at once before requests are spread over the minute',
+  },
   
   // Webhook configuration
   {
@@ -31,6 +60,37 @@ export const envVarDefinitions: EnvVarDefinition[] = [
     required: false,
     description: 'Base URL for webhook endpoints',
   },
+  {
+    name: 'WEBHOOK_EVENT_STORE_PATH',
+    type: EnvVarType.STRING,
+    required: false,
+    default: './data/webhook-events.jsonl',
+    description: 'Path of the file in which received webhook events are stored',
+  },
+  {
+    name: 'WEBHOOK_EVENT_RETENTION_DAYS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '30',
+    min: 1,
+    description: 'Number of days processed and discarded webhook events are kept in the event store',
+  },
+  {
+    name: 'WEBHOOK_QUEUE_CONCURRENCY',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '4',
+    min: 1,
+    description: 'Maximum number of webhook events processed at once',
+  },
+  {
+    name: 'WEBHOOK_QUEUE_MAX_SIZE',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '1000',
+    min: 1,
+    description: 'Maximum number of webhook events waiting to be processed',
+  },
   
   // Server configuration
   {
@@ -58,6 +118,139 @@ export const envVarDefinitions: EnvVarDefinition[] = [
     min: 1000,
     description: 'Interval in milliseconds for logging metrics',
   },
+
+  // MCP HTTP transport configuration
+  {
+    name: 'MCP_SESSION_TIMEOUT_MS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '1800000',
+    min: 1000,
+    description: 'Time in milliseconds after which idle MCP HTTP sessions are closed',
+  },
+
+  // Pagination configuration
+  {
+    name: 'PAGINATION_MAX_ITEMS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '1000',
+    min: 1,
+    description: 'Maximum number of items list tools return when fetching all pages',
+  },
+
+  // Bulk conversation updates configuration
+  {
+    name: 'BULK_UPDATE_CONCURRENCY',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '5',
+    min: 1,
+    max: 50,
+    description: 'Number of conversations bulk_update_conversations updates at once',
+  },
+  {
+    name: 'BULK_UPDATE_MAX_CONVERSATIONS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '500',
+    min: 1,
+    description: 'Maximum number of conversations one bulk_update_conversations call updates',
+  },
+
+  // Attachments configuration
+  {
+    name: 'ATTACHMENT_MAX_SIZE_BYTES',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '26214400',
+    min: 1,
+    description: 'Maximum total size of the files attached to a message, and of a downloaded attachment',
+  },
+  {
+    name: 'ATTACHMENT_ALLOWED_DIRS',
+    type: EnvVarType.STRING,
+    required: false,
+    default: '',
+    description: 'Comma-separated list of directories whose files can be attached by path (none by default)',
+  },
+  {
+    name: 'ATTACHMENT_TEXT_MAX_CHARS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '20000',
+    min: 1,
+    description: 'Maximum number of characters of text download_attachment extracts from a file',
+  },
+
+  // Name resolution configuration
+  {
+    name: 'NAME_RESOLUTION_TTL_MS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '300000',
+    min: 0,
+    description: 'How long the teammates, tags, inboxes and channels used to resolve names to IDs are cached, in milliseconds',
+  },
+  
+  // Analytics configuration
+  {
+    name: 'ANALYTICS_TIMEZONE',
+    type: EnvVarType.STRING,
+    required: false,
+    default: 'UTC',
+    description: 'IANA timezone of analytics date ranges such as last_week, and of the reports',
+  },
+  {
+    name: 'ANALYTICS_REPORT_TTL_MS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '3600000',
+    min: 0,
+    description: 'How long analytics reports are cached, in milliseconds',
+  },
+  {
+    name: 'ANALYTICS_WAIT_SECONDS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '10',
+    min: 0,
+    max: 60,
+    description: 'How long analytics tools wait for a report before returning its ID to poll later',
+  },
+
+  // Prompts configuration
+  {
+    name: 'PROMPTS_DIR',
+    type: EnvVarType.STRING,
+    required: false,
+    default: './prompts',
+    description: 'Directory of the prompt files served besides the built-in prompts',
+  },
+
+  // Automation rules configuration
+  {
+    name: 'RULES_FILE',
+    type: EnvVarType.STRING,
+    required: false,
+    default: './rules.yaml',
+    description: 'Path of the YAML or JSON file with webhook automation rules',
+  },
+  {
+    name: 'RULES_DRY_RUN',
+    type: EnvVarType.BOOLEAN,
+    required: false,
+    default: 'false',
+    description: 'Whether automation rules only log their actions instead of running them',
+  },
+  {
+    name: 'RULES_COOLDOWN_MS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '300000',
+    min: 0,
+    description: 'Time in milliseconds after a rule ran its actions on a conversation during which it does not run on that conversation again',
+  },
   
   // API configuration
   {
@@ -66,6 +259,179 @@ export const envVarDefinitions: EnvVarDefinition[] = [
     required: false,
     description: 'API key for authentication',
   },
+  {
+    name: 'API_KEY_ROLE',
+    type: EnvVarType.STRING,
+    required: false,
+    default: 'admin',
+    pattern: /^(read-only|agent|admin)$/,
+    description: 'Role of the API key: read-only, agent or admin',
+  },
+  {
+    name: 'API_KEYS',
+    type: EnvVarType.STRING,
+    required: false,
+    pattern: /^(\s*[^,:\s]+:(read-only|agent|admin|approver)\s*(,|$))*$/,
+    description: 'Comma-separated list of additional API keys with their roles (key:role)',
+  },
+  {
+    name: 'READ_ONLY',
+    type: EnvVarType.BOOLEAN,
+    required: false,
+    default: 'false',
+    description: 'Whether tools that modify data are hidden and refused for every caller',
+  },
+  {
+    name: 'TOOLS_ALLOW',
+    type: EnvVarType.STRING,
+    required: false,
+    description: 'Comma-separated list of the tool names, categories, scopes or access levels callers may use',
+  },
+  {
+    name: 'TOOLS_DENY',
+    type: EnvVarType.STRING,
+    required: false,
+    description: 'Comma-separated list of tool names, categories, scopes or access levels callers may not use',
+  },
+  {
+    name: 'APPROVAL_MODE',
+    type: EnvVarType.BOOLEAN,
+    required: false,
+    default: 'false',
+    description: 'Whether calls to the approval tools wait for a human to approve them',
+  },
+  {
+    name: 'APPROVAL_TOOLS',
+    type: EnvVarType.STRING,
+    required: false,
+    default: 'send_message,reply_to_conversation,delete',
+    description: 'Comma-separated list of the tool names, categories, scopes or access levels that need approval',
+  },
+  {
+    name: 'APPROVAL_TTL_MS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '86400000',
+    min: 60000,
+    description: 'Time in milliseconds after which undecided pending actions expire',
+  },
+  {
+    name: 'APPROVAL_QUEUE_PATH',
+    type: EnvVarType.STRING,
+    required: false,
+    default: './data/pending-actions.jsonl',
+    description: 'Path of the file in which the tool calls waiting for approval are stored',
+  },
+  {
+    name: 'AUDIT_LOG_ENABLED',
+    type: EnvVarType.BOOLEAN,
+    required: false,
+    default: 'true',
+    description: 'Whether every tool call is recorded in the audit log',
+  },
+  {
+    name: 'AUDIT_LOG_PATH',
+    type: EnvVarType.STRING,
+    required: false,
+    default: './data/audit-log.jsonl',
+    description: 'Path of the file in which the audit log is stored',
+  },
+  {
+    name: 'IDEMPOTENCY_ENABLED',
+    type: EnvVarType.BOOLEAN,
+    required: false,
+    default: 'true',
+    description: 'Whether repeated write tool calls return the response of the original call',
+  },
+  {
+    name: 'IDEMPOTENCY_STORE_PATH',
+    type: EnvVarType.STRING,
+    required: false,
+    default: './data/idempotency-keys.jsonl',
+    description: 'Path of the file in which the responses of write tool calls are stored by idempotency key',
+  },
+  {
+    name: 'IDEMPOTENCY_TTL_MS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '86400000',
+    min: 60000,
+    description: 'Time in milliseconds for which idempotency keys given by callers are remembered',
+  },
+  {
+    name: 'IDEMPOTENCY_DERIVED_TTL_MS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '0',
+    min: 0,
+    description: 'Time in milliseconds for which calls without an idempotency key are deduplicated by their arguments, 0 disables it',
+  },
+  {
+    name: 'PII_REDACTION_ENABLED',
+    type: EnvVarType.BOOLEAN,
+    required: false,
+    default: 'false',
+    description: 'Whether personal data is redacted from tool results sent to the model',
+  },
+  {
+    name: 'PII_REDACTION_TYPES',
+    type: EnvVarType.STRING,
+    required: false,
+    default: 'email,phone,card,iban',
+    pattern: /^(\s*(email|phone|card|iban)\s*(,|$))*$/,
+    description: 'Comma-separated list of the types of personal data to redact: email, phone, card, iban',
+  },
+  {
+    name: 'PII_ALLOW_FIELDS',
+    type: EnvVarType.STRING,
+    required: false,
+    description: 'Comma-separated list of the fields of tool results that are never redacted',
+  },
+  {
+    name: 'PII_REVERSIBLE_TOKENS',
+    type: EnvVarType.BOOLEAN,
+    required: false,
+    default: 'true',
+    description: 'Whether redacted values are replaced by tokens the model can pass back to tools',
+  },
+  {
+    name: 'PII_TOKEN_TTL_MS',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '86400000',
+    min: 60000,
+    description: 'Time in milliseconds after which the tokens of an unused session are forgotten',
+  },
+  {
+    name: 'CACHE_BACKEND',
+    type: EnvVarType.STRING,
+    required: false,
+    default: 'memory',
+    pattern: /^(memory|file)?$/,
+    description: 'Where cached Frontapp API responses are stored: memory or file',
+  },
+  {
+    name: 'CACHE_DIR',
+    type: EnvVarType.STRING,
+    required: false,
+    default: './data/cache',
+    description: 'Directory in which the file cache backend stores its entries',
+  },
+  {
+    name: 'CACHE_MAX_ENTRIES',
+    type: EnvVarType.NUMBER,
+    required: false,
+    default: '1000',
+    min: 1,
+    description: 'Maximum number of cache entries; the least recently used entries are evicted',
+  },
+  {
+    name: 'CACHE_TTLS',
+    type: EnvVarType.STRING,
+    required: false,
+    pattern: /^(\s*[a-z_]+\s*=\s*\d+\s*(,|$))*$/,
+    description: 'Comma-separated list of type=ms pairs overriding the cache TTL of resource types, 0 disables caching of a type',
+  },
   {
     name: 'CORS_ORIGINS',
     type: EnvVarType.STRING,
@@ -94,8 +460,8 @@ export const envVarDefinitions: EnvVarDefinition[] = [
   {
     name: 'ENCRYPTION_KEY',
     type: EnvVarType.STRING,
-    required: true,
-    description: 'Key for encrypting sensitive data',
+    required: false,
+    description: 'Key for encrypting sensitive data (a random key is generated if not set)',
   },
   {
     name: 'CREDENTIALS_DIR',
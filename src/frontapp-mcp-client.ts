@@ -60,9 +60,10 @@ export class FrontappMcpClient {
       draft?: boolean;
     }
   ) {
-    return this.callTool('send_message', {
+    return this.callTool('reply_to_conversation', {
       conversation_id: conversationId,
-      content,
+      type: 'reply',
+      body: content,
       ...options,
     });
   }
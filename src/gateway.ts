@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+
+/**
+ * Frontapp MCP HTTP Gateway
+ *
+ * Serves the Frontapp MCP server over HTTP: MCP clients connect to the streamable HTTP
+ * transport at /mcp, and the same tools are available through the REST API gateway,
+ * together with the webhook endpoint and API documentation.
+ */
+
+import { validateConfig } from './config/index.js';
+import { createMcpServer } from './server.js';
+import { startApiServer } from './api/index.js';
+import { tenantManager } from './utils/tenants.js';
+import logger from './utils/logger.js';
+
+/**
+ * Start the HTTP gateway
+ */
+async function main(): Promise<void> {
+  validateConfig();
+  await tenantManager.load();
+
+  startApiServer(createMcpServer(), createMcpServer);
+}
+
+main().catch((error) => {
+  logger.error(`Error: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,117 @@
+import { PromptDefinition } from '../../models/prompts.js';
+
+/**
+ * Built-in prompts
+ * Support workflows built on the tools of the server. A prompt file in PROMPTS_DIR with the same
+ * name replaces the built-in prompt, so teams can adapt these to their own playbooks.
+ */
+export const BUILTIN_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'triage_inbox',
+    description: 'Triage the open, unassigned conversations of an inbox',
+    arguments: [
+      {
+        name: 'inbox_id',
+        description: 'ID of the inbox to triage (e.g. inb_123)',
+        required: true,
+      },
+      {
+        name: 'limit',
+        description: 'Maximum number of conversations to triage',
+        default: '20',
+      },
+    ],
+    template: `Triage the open, unassigned conversations of the Front inbox {{inbox_id}}.
+
+1. Find up to {{limit}} conversations with search_conversations and the filters {"inbox": ["{{inbox_id}}"], "status": ["open", "unassigned"]}.
+2. Read each conversation with get_conversation_transcript (format "text").
+3. Look up the available tags with list_tags and the teammates with list_teammates.
+4. For each conversation, decide:
+   - its priority (urgent, high, normal or low) and why, in one sentence,
+   - the tags that apply, using existing tags only,
+   - the teammate best placed to handle it, if any,
+   - whether it is spam or needs no reply and can be archived.
+
+Present the result as a table with the columns: conversation ID, subject, priority, tags, assignee, archive, reason. Urgent conversations come first.
+
+Don't change any conversation yet. When I confirm the table, apply the changes with bulk_update_conversations, grouping conversations that get the same changes into one call.`,
+  },
+  {
+    name: 'summarize_conversation',
+    description: 'Summarize a conversation for a teammate taking it over',
+    arguments: [
+      {
+        name: 'conversation_id',
+        description: 'ID of the conversation (e.g. cnv_123)',
+        required: true,
+      },
+    ],
+    template: `Summarize the Front conversation {{conversation_id}} for a teammate who is taking it over.
+
+Read it with get_conversation_transcript, including its events. Then write:
+
+- **Customer**: who wrote in, and their company or plan if mentioned.
+- **Request**: what the customer needs, in one or two sentences.
+- **History**: what has been tried or promised so far, with dates.
+- **Status**: who the conversation is waiting on, and any deadline.
+- **Next step**: the single most useful thing to do next.
+
+Keep the summary under 150 words and quote the customer only where their exact words matter.`,
+  },
+  {
+    name: 'draft_reply_from_template',
+    description: 'Draft a reply to a conversation in the voice of a message template',
+    arguments: [
+      {
+        name: 'conversation_id',
+        description: 'ID of the conversation to reply to (e.g. cnv_123)',
+        required: true,
+      },
+      {
+        name: 'template_id',
+        description: 'ID of the message template whose voice to use (e.g. rsp_123)',
+        required: true,
+      },
+      {
+        name: 'author_id',
+        description: 'ID of the teammate the draft is created for (e.g. tea_123)',
+        required: true,
+      },
+    ],
+    template: `Draft a reply to the Front conversation {{conversation_id}} in the voice of the message template {{template_id}}.
+
+1. Read the conversation with get_conversation_transcript.
+2. Read the template with get_message_template.
+3. Write a reply that answers the customer's latest message. Match the template's tone, greeting, sign-off and formatting, and reuse its wording where it fits, but don't copy parts that don't apply to this customer.
+4. Don't promise refunds, discounts or dates that aren't already in the conversation or the template. Mark anything you are unsure of with [CHECK].
+5. Save the reply as a draft for teammate {{author_id}} with create_draft_reply. Don't send it.
+
+Then show me the draft and list the [CHECK] items, if any.`,
+  },
+  {
+    name: 'weekly_sla_report',
+    description: "Report on last week's response times and SLA breaches of a team",
+    arguments: [
+      { name: 'team_id', description: 'ID of the team (e.g. tim_123)', required: true },
+      {
+        name: 'sla_hours',
+        description: 'Target first response time, in hours',
+        default: '4',
+      },
+    ],
+    template: `Write the weekly SLA report of the Front team {{team_id}} for the last 7 days. The SLA is a first response within {{sla_hours}} hours.
+
+1. List the team's inboxes with list_team_inboxes.
+2. Run run_analytics_report with the presets first_response_time, resolution_time, volume_by_inbox and sla_breaches, the range last_7_days and these inboxes as inbox_ids. If the report is still running, get it with get_analytics_report. For the comparison, run it again with start and end set to the 7 days before.
+3. Find the conversations that breached the SLA with search_conversations, and read the ones that are still open with get_conversation_transcript to find out why.
+
+Report:
+
+- **Headline**: the share of conversations answered within the SLA, and how it compares to the week before if the data allows.
+- **Metrics**: a table of volume, median and 90th percentile first response time, and median resolution time, per inbox.
+- **Breaches**: a table of the conversations that breached the SLA, with their subject, assignee and how late the first response was. Open breaches come first.
+- **Patterns**: up to three causes of breaches, e.g. times of day, topics or assignees, with a suggestion for each.
+
+Use only figures returned by the tools; say so when a figure is not available.`,
+  },
+];
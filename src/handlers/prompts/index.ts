@@ -0,0 +1,43 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { promptLibrary } from '../../utils/promptLibrary.js';
+
+/**
+ * Set up prompt handlers for the MCP server
+ * Prompts are support workflows the user can pick in the client, such as triaging an inbox;
+ * the client sends the rendered prompt to the model, which runs it with the tools
+ * @param server The MCP server instance
+ */
+export function setupPromptHandlers(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: promptLibrary.list().map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description,
+      // Defaults are not part of the MCP prompt arguments
+      arguments: (prompt.arguments || []).map(({ name, description, required }) => ({
+        name,
+        description,
+        required,
+      })),
+    })),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    let prompt;
+    try {
+      prompt = promptLibrary.render(request.params.name, request.params.arguments);
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text: prompt.text } }],
+    };
+  });
+}
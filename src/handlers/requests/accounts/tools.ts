@@ -0,0 +1,165 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineHandlerTool, defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+import { getAccountsHandler } from './getAccounts.js';
+
+/**
+ * Account tools
+ * Tools for managing accounts and their contacts
+ */
+export const accountTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_accounts',
+    description: 'List all accounts in Front',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results (max 100, default 50)' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['accounts:read'],
+    execute: async (params) => {
+      return listResults('/accounts', params);
+    },
+  }),
+  defineTool({
+    name: 'create_account',
+    description: 'Create a new account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Account name' },
+        description: { type: 'string', description: 'Account description' },
+        domains: { type: 'array', items: { type: 'string' }, description: 'Account domains' },
+        custom_fields: { type: 'object', description: 'Custom field key-value pairs' },
+      },
+      required: ['name'],
+    },
+    access: 'write',
+    scopes: ['accounts:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/accounts', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'get_account',
+    description: 'Get details of a specific account by ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'string', description: 'Account ID' },
+      },
+      required: ['account_id'],
+    },
+    access: 'read',
+    scopes: ['accounts:read'],
+    execute: async ({ account_id }) => {
+      const response = await frontappClient.get(`/accounts/${account_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_account',
+    description: 'Update an existing account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'string', description: 'Account ID' },
+        name: { type: 'string', description: 'Updated name' },
+        description: { type: 'string', description: 'Updated description' },
+        domains: { type: 'array', items: { type: 'string' }, description: 'Updated domains' },
+        custom_fields: { type: 'object', description: 'Updated custom fields' },
+      },
+      required: ['account_id'],
+    },
+    access: 'write',
+    scopes: ['accounts:write'],
+    execute: async (params) => {
+      const { account_id, ...data } = params;
+      const response = await frontappClient.patch(`/accounts/${account_id}`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_account',
+    description: 'Delete an account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'string', description: 'Account ID' },
+      },
+      required: ['account_id'],
+    },
+    access: 'delete',
+    scopes: ['accounts:write'],
+    execute: async ({ account_id }) => {
+      const response = await frontappClient.delete(`/accounts/${account_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_account_contacts',
+    description: 'List all contacts associated with an account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'string', description: 'Account ID' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['account_id'],
+    },
+    access: 'read',
+    scopes: ['accounts:read'],
+    execute: async (params) => {
+      const { account_id, ...queryParams } = params;
+      return listResults(`/accounts/${account_id}/contacts`, queryParams);
+    },
+  }),
+  defineTool({
+    name: 'add_contact_to_account',
+    description: 'Add a contact to an account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'string', description: 'Account ID' },
+        contact_ids: { type: 'array', items: { type: 'string' }, description: 'Contact IDs to add' },
+      },
+      required: ['account_id', 'contact_ids'],
+    },
+    access: 'write',
+    scopes: ['accounts:write'],
+    execute: async (params) => {
+      const { account_id, contact_ids } = params;
+      const response = await frontappClient.post(`/accounts/${account_id}/contacts`, { contact_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'remove_contact_from_account',
+    description: 'Remove a contact from an account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'string', description: 'Account ID' },
+        contact_ids: { type: 'array', items: { type: 'string' }, description: 'Contact IDs to remove' },
+      },
+      required: ['account_id', 'contact_ids'],
+    },
+    access: 'write',
+    scopes: ['accounts:write'],
+    execute: async (params) => {
+      const { account_id, contact_ids } = params;
+      const response = await frontappClient.delete(`/accounts/${account_id}/contacts`, { contact_ids });
+      return response.data;
+    },
+  }),
+
+  // Tools backed by request handler classes
+  defineHandlerTool('get_accounts', 'read', ['accounts:read'], getAccountsHandler),
+];
@@ -0,0 +1,205 @@
+import {
+  analyticsReports,
+  AnalyticsReport,
+  ANALYTICS_PRESETS,
+  DATE_RANGES,
+  MAX_WAIT_SECONDS,
+} from '../../../utils/analyticsReports.js';
+import { reportFormatter, ReportFormat, REPORT_FORMATS } from '../../../utils/reportFormatter.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+
+// Arguments of the tools that return reports
+const reportOutputProperties = {
+  format: {
+    type: 'string',
+    enum: REPORT_FORMATS,
+    description:
+      'How to return the results: json (default), table (plain text), csv (a CSV document per ' +
+      'table) or markdown',
+  },
+  wait_seconds: {
+    type: 'number',
+    minimum: 0,
+    maximum: MAX_WAIT_SECONDS,
+    description:
+      'How long to wait for the report (default: ANALYTICS_WAIT_SECONDS). A report that is ' +
+      'not done in time is returned with its report_id, to get later with get_analytics_report.',
+  },
+};
+
+/**
+ * Get the response of a tool that returns a report
+ * @param report The report
+ * @param format The format of the results
+ * @returns The report with its results in the format, or how to get it if it is still running
+ */
+function toResponse(report: AnalyticsReport, format: ReportFormat = 'json'): Record<string, any> {
+  const { metrics, ...summary } = report;
+  if (report.status !== 'done') {
+    return {
+      ...summary,
+      message:
+        'The report is still running. Get it with get_analytics_report and its report_id in ' +
+        'a few seconds.',
+    };
+  }
+
+  switch (format) {
+    case 'json':
+      return report;
+    case 'table':
+      return { ...summary, table: reportFormatter.toText(report) };
+    case 'csv':
+      return { ...summary, csv: reportFormatter.toCsv(report) };
+    case 'markdown':
+      return { ...summary, markdown: reportFormatter.toMarkdown(report) };
+    default:
+      throw new Error(`Invalid format: ${format}. Use ${REPORT_FORMATS.join(', ')}.`);
+  }
+}
+
+/**
+ * Analytics tools
+ * Tools for running analytics reports
+ */
+export const analyticsTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_analytics_presets',
+    description: 'List the analytics report presets and named date ranges',
+    inputSchema: { type: 'object', properties: {} },
+    access: 'read',
+    scopes: ['analytics:read'],
+    execute: async () => ({
+      presets: Object.entries(ANALYTICS_PRESETS).map(([name, preset]) => ({ name, ...preset })),
+      date_ranges: DATE_RANGES,
+    }),
+  }),
+  defineTool({
+    name: 'run_analytics_report',
+    description:
+      'Run an analytics report of named presets, e.g. first response time or SLA breaches, over ' +
+      'a date range such as last_week. Waits for the report, or returns its report_id to get ' +
+      'later with get_analytics_report. Results can be returned as a table, CSV or Markdown.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        presets: {
+          type: 'array',
+          items: { type: 'string', enum: Object.keys(ANALYTICS_PRESETS) },
+          description: 'Presets of metrics to compute (see list_analytics_presets)',
+        },
+        metrics: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Frontapp Analytics API metric IDs to compute besides those of the presets',
+        },
+        range: {
+          type: 'string',
+          enum: DATE_RANGES,
+          description:
+            'Named date range (default: last_7_days). Weeks start on Monday; last_7_days and ' +
+            'last_30_days end at the start of today.',
+        },
+        start: {
+          type: ['string', 'number'],
+          description: 'Start of a custom date range: ISO 8601 date, or Unix timestamp',
+        },
+        end: {
+          type: ['string', 'number'],
+          description:
+            'End of a custom date range: ISO 8601 date, included, or Unix timestamp (default: now)',
+        },
+        timezone: {
+          type: 'string',
+          description: 'IANA timezone of the date range (default: ANALYTICS_TIMEZONE)',
+        },
+        inbox_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only count conversations of these inboxes',
+        },
+        tag_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only count conversations with these tags',
+        },
+        teammate_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only count conversations of these teammates',
+        },
+        channel_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only count conversations of these channels',
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Run a new report even if the same report is cached (default: false)',
+        },
+        ...reportOutputProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['analytics:read'],
+    execute: async (params) => {
+      const { format, wait_seconds, refresh, ...request } = params;
+      const report = await analyticsReports.run(request, { waitSeconds: wait_seconds, refresh });
+      return toResponse(report, format);
+    },
+  }),
+  defineTool({
+    name: 'get_analytics_report',
+    description:
+      'Get an analytics report started with run_analytics_report by its report_id, waiting for ' +
+      'it if it is still running',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        report_id: {
+          type: 'string',
+          description: 'The report_id returned when the report started',
+        },
+        ...reportOutputProperties,
+      },
+      required: ['report_id'],
+    },
+    access: 'read',
+    scopes: ['analytics:read'],
+    execute: async (params) => {
+      const { report_id, format, wait_seconds } = params;
+      const report = await analyticsReports.get(report_id, { waitSeconds: wait_seconds });
+      return toResponse(report, format);
+    },
+  }),
+  defineTool({
+    name: 'get_analytics',
+    description:
+      'Get analytics data for conversations, messages, or teammates by metric ID. Prefer ' +
+      'run_analytics_report, which takes presets and named date ranges.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start: { type: 'number', description: 'Start timestamp (Unix time)' },
+        end: { type: 'number', description: 'End timestamp (Unix time)' },
+        metrics: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Metrics to retrieve (e.g., avg_first_response_time)',
+        },
+        filters: {
+          type: 'object',
+          description: 'Filters to apply: inbox_ids, tag_ids, teammate_ids or channel_ids',
+        },
+      },
+      required: ['start', 'end'],
+    },
+    access: 'read',
+    scopes: ['analytics:read'],
+    execute: async (params) => {
+      const { start, end, metrics, filters } = params;
+      const report = await analyticsReports.run({ start, end, metrics, ...filters });
+      return toResponse(report);
+    },
+  }),
+];
@@ -0,0 +1,119 @@
+import { defineTool, toolRegistry, ToolRegistration } from '../registry.js';
+import { approvalQueue, Decider, PendingAction } from '../../../utils/approvalQueue.js';
+import { requestContext } from '../../../utils/requestContext.js';
+import { tenantManager } from '../../../utils/tenants.js';
+
+/**
+ * Get an action of the current tenant
+ * @param id The action ID
+ * @returns The action
+ * @throws Error if the action doesn't exist or belongs to another tenant
+ */
+export function getTenantAction(id: string): PendingAction {
+  const action = approvalQueue.get(id);
+  if (!action || action.tenant !== tenantManager.current()) {
+    throw new Error(`Pending action not found: ${id}`);
+  }
+  return action;
+}
+
+/**
+ * Get who decides an action: the API key of the current request
+ * @param note A note given with the decision, e.g. the name of the person deciding
+ * @returns The decider
+ */
+export function getDecider(note?: string): Decider {
+  return { apiKeyId: requestContext.current()?.apiKeyId || 'stdio', note };
+}
+
+/**
+ * Approval tools
+ * Tools for reviewing, approving and rejecting the tool calls waiting for human approval.
+ * The tools only see the actions of the tenant they run for. Approving and rejecting are
+ * approve tools, which only API keys with the approver role can see and run; other roles see
+ * the personal data of the actions masked.
+ */
+export const approvalTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_pending_actions',
+    description: 'List the tool calls recorded for human approval, most recent first, with the exact arguments they run with',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          description: 'Filter by status (default pending)',
+          enum: ['pending', 'approved', 'executed', 'failed', 'rejected', 'expired'],
+        },
+      },
+    },
+    access: 'read',
+    scopes: ['approvals:read'],
+    execute: async ({ status }) =>
+      approvalQueue
+        .list({ status: status || 'pending', tenant: tenantManager.current() })
+        .map((action) => approvalQueue.present(action)),
+  }),
+  defineTool({
+    name: 'get_pending_action',
+    description: 'Get a tool call recorded for human approval, with its status and, once executed, the tool response',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action_id: { type: 'string', description: 'Pending action ID' },
+      },
+      required: ['action_id'],
+    },
+    access: 'read',
+    scopes: ['approvals:read'],
+    execute: async ({ action_id }) => approvalQueue.present(getTenantAction(action_id)),
+  }),
+  defineTool({
+    name: 'approve_pending_action',
+    description: 'Approve a pending tool call and execute it. Requires the approver role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action_id: { type: 'string', description: 'Pending action ID' },
+        approver: {
+          type: 'string',
+          description:
+            'Name of the person approving the action, recorded as a note with the API key',
+        },
+      },
+      required: ['action_id'],
+    },
+    access: 'approve',
+    scopes: ['approvals:write'],
+    execute: async ({ action_id, approver }) => {
+      getTenantAction(action_id);
+      const action = await approvalQueue.approve(action_id, getDecider(approver), (pending) =>
+        toolRegistry.executeAction(pending)
+      );
+      return approvalQueue.reveal(action);
+    },
+  }),
+  defineTool({
+    name: 'reject_pending_action',
+    description: 'Reject a pending tool call so that it never runs. Requires the approver role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action_id: { type: 'string', description: 'Pending action ID' },
+        approver: {
+          type: 'string',
+          description:
+            'Name of the person rejecting the action, recorded as a note with the API key',
+        },
+        reason: { type: 'string', description: 'Why the action is rejected' },
+      },
+      required: ['action_id'],
+    },
+    access: 'approve',
+    scopes: ['approvals:write'],
+    execute: async ({ action_id, approver, reason }) => {
+      getTenantAction(action_id);
+      return approvalQueue.reveal(approvalQueue.reject(action_id, getDecider(approver), reason));
+    },
+  }),
+];
@@ -0,0 +1,59 @@
+import { frontappClient } from '../../clients/frontapp/index.js';
+import { AttachmentInput, attachmentUtil } from '../../utils/attachments.js';
+
+/**
+ * Input schema property added to tools that send messages, to attach files
+ */
+export const attachmentsProperty = {
+  attachments: {
+    type: 'array',
+    description:
+      'Files to attach. Give each file by exactly one of path, content_base64 or attachment_id.',
+    items: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path of a local file, in a directory of ATTACHMENT_ALLOWED_DIRS',
+        },
+        content_base64: {
+          type: 'string',
+          description: 'The content of the file, base64-encoded (requires filename)',
+        },
+        attachment_id: {
+          type: 'string',
+          description:
+            'An attachment of an earlier message to attach again: its ID (e.g. fil_abc123), URL or frontapp://attachments/ URI',
+        },
+        filename: { type: 'string', description: 'File name' },
+        content_type: {
+          type: 'string',
+          description: 'Content type (defaults to the type of the file name extension)',
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Send a POST request of a tool that can attach files
+ * Requests with attachments are sent as multipart/form-data, others as JSON
+ * @param path The path of the request
+ * @param args The tool arguments to send, including the attachments, if any
+ * @returns The response data
+ */
+export async function postWithAttachments(
+  path: string,
+  args: Record<string, any> & { attachments?: AttachmentInput[] }
+): Promise<any> {
+  const { attachments, ...data } = args;
+
+  if (attachments === undefined || (Array.isArray(attachments) && attachments.length === 0)) {
+    const response = await frontappClient.post(path, data);
+    return response.data;
+  }
+
+  const files = await attachmentUtil.resolve(attachments);
+  const response = await frontappClient.postMultipart(path, attachmentUtil.toFormData(data, files));
+  return response.data;
+}
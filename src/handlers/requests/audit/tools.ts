@@ -0,0 +1,89 @@
+import { defineTool, ToolRegistration } from '../registry.js';
+import { auditLog, AuditEntry, AuditOutcome } from '../../../utils/auditLog.js';
+import { tenantManager } from '../../../utils/tenants.js';
+
+/**
+ * Parameters for querying the audit log
+ */
+export interface AuditQueryParams {
+  conversation_id?: string;
+  resource_id?: string;
+  actor?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+/**
+ * Parse a time of an audit log query
+ * @param name The name of the parameter
+ * @param value The time (ISO 8601 date or date-time)
+ * @returns The time in ISO 8601, or undefined if not set
+ * @throws Error if the time is invalid
+ */
+function parseTime(name: string, value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const time = new Date(value);
+  if (isNaN(time.getTime())) {
+    throw new Error(`${name} must be an ISO 8601 date or date-time`);
+  }
+  return time.toISOString();
+}
+
+/**
+ * Query the audit log entries of the current tenant
+ * Callers must check that the caller may query the audit log
+ * @param params The query parameters
+ * @returns The matching entries, most recent first
+ * @throws Error if a time is invalid
+ */
+export async function queryTenantAuditLog(params: AuditQueryParams): Promise<AuditEntry[]> {
+  return auditLog.query({
+    resourceId: params.conversation_id || params.resource_id,
+    actor: params.actor,
+    tool: params.tool,
+    outcome: params.outcome,
+    tenant: tenantManager.current(),
+    since: parseTime('since', params.since),
+    until: parseTime('until', params.until),
+    limit: params.limit,
+  });
+}
+
+/**
+ * Audit log tools
+ * Tools for reviewing the tool calls made on the server. The tools only see the tool calls
+ * of the tenant they run for. Only admins may query the audit log, since it records the activity
+ * of every caller.
+ */
+export const auditTools: ToolRegistration[] = [
+  defineTool({
+    name: 'query_audit_log',
+    description: 'Query the audit log of tool calls, most recent first: who called which tool with which arguments, the Front resources touched, the outcome and latency.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Only tool calls that touched this conversation' },
+        resource_id: { type: 'string', description: 'Only tool calls that touched this Front resource (e.g. crd_123)' },
+        actor: { type: 'string', description: 'Only tool calls of this API key ID, MCP session ID, or stdio' },
+        tool: { type: 'string', description: 'Only calls of this tool' },
+        outcome: {
+          type: 'string',
+          description: 'Only tool calls with this outcome',
+          enum: ['success', 'error', 'denied', 'invalid', 'pending_approval', 'replayed'],
+        },
+        since: { type: 'string', description: 'Only tool calls made at or after this time (ISO 8601)' },
+        until: { type: 'string', description: 'Only tool calls made before this time (ISO 8601)' },
+        limit: { type: 'number', description: 'Maximum number of entries to return (default 100)' },
+      },
+    },
+    access: 'admin',
+    scopes: ['audit:read'],
+    execute: async (params) => queryTenantAuditLog(params),
+  }),
+];
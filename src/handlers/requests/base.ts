@@ -1,4 +1,5 @@
 import { ToolArguments, ToolResponse } from '../../models/mcp.js';
+import { piiRedactor } from '../../utils/piiRedactor.js';
 
 /**
  * Base interface for all request handlers
@@ -47,20 +48,13 @@ export abstract class BaseRequestHandler<T extends ToolArguments> implements Req
       return await this.execute(args);
     } catch (error: any) {
       // Return an error response
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: ${error.message}`,
-          },
-        ],
-        isError: true,
-      };
+      return this.createErrorResponse(error.message);
     }
   }
 
   /**
    * Create a success response
+   * Personal data is redacted from the data before it is serialized
    * @param data The data to include in the response
    * @returns A success response
    */
@@ -69,7 +63,7 @@ export abstract class BaseRequestHandler<T extends ToolArguments> implements Req
       content: [
         {
           type: 'json',
-          text: JSON.stringify(data, null, 2),
+          text: JSON.stringify(piiRedactor.redact(data), null, 2),
         },
       ],
     };
@@ -77,6 +71,7 @@ export abstract class BaseRequestHandler<T extends ToolArguments> implements Req
 
   /**
    * Create an error response
+   * Personal data is redacted from the message, which may quote Front data
    * @param message The error message
    * @returns An error response
    */
@@ -85,7 +80,7 @@ export abstract class BaseRequestHandler<T extends ToolArguments> implements Req
       content: [
         {
           type: 'text',
-          text: `Error: ${message}`,
+          text: `Error: ${piiRedactor.redact(message)}`,
         },
       ],
       isError: true,
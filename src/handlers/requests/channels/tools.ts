@@ -0,0 +1,223 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+
+/**
+ * Channel tools
+ * Tools for managing channels and syncing messages with application channels
+ */
+export const channelTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_channels',
+    description: 'List all channels',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['channels:read'],
+    execute: async (params) => {
+      return listResults('/channels', params);
+    },
+  }),
+  defineTool({
+    name: 'create_channel',
+    description: 'Create a new channel',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', description: 'Channel type (smtp, imap, twilio, custom, etc.)' },
+        settings: { type: 'object', description: 'Channel-specific settings' },
+        inbox_id: { type: 'string', description: 'Inbox ID to associate with' },
+      },
+      required: ['type', 'settings'],
+    },
+    access: 'write',
+    scopes: ['channels:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/channels', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'get_channel',
+    description: 'Get details of a specific channel',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel_id: { type: 'string', description: 'Channel ID' },
+      },
+      required: ['channel_id'],
+    },
+    access: 'read',
+    scopes: ['channels:read'],
+    execute: async ({ channel_id }) => {
+      const response = await frontappClient.get(`/channels/${channel_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_channel',
+    description: 'Update a channel',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel_id: { type: 'string', description: 'Channel ID' },
+        settings: { type: 'object', description: 'Updated channel settings' },
+      },
+      required: ['channel_id'],
+    },
+    access: 'write',
+    scopes: ['channels:write'],
+    execute: async (params) => {
+      const { channel_id, ...data } = params;
+      const response = await frontappClient.patch(`/channels/${channel_id}`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'validate_channel',
+    description: 'Validate channel configuration',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel_id: { type: 'string', description: 'Channel ID' },
+      },
+      required: ['channel_id'],
+    },
+    access: 'write',
+    scopes: ['channels:write'],
+    execute: async ({ channel_id }) => {
+      const response = await frontappClient.post(`/channels/${channel_id}/validate`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_teammate_channels',
+    description: 'List channels for a specific teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+      },
+      required: ['teammate_id'],
+    },
+    access: 'read',
+    scopes: ['channels:read'],
+    execute: async ({ teammate_id }) => {
+      const response = await frontappClient.get(`/teammates/${teammate_id}/channels`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_team_channels',
+    description: 'List channels for a specific team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+      },
+      required: ['team_id'],
+    },
+    access: 'read',
+    scopes: ['channels:read'],
+    execute: async ({ team_id }) => {
+      const response = await frontappClient.get(`/teams/${team_id}/channels`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'sync_inbound_message',
+    description: 'Sync an inbound message to a custom channel',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel_id: { type: 'string', description: 'Channel ID' },
+        sender: { type: 'object', description: 'Sender information' },
+        subject: { type: 'string', description: 'Message subject' },
+        body: { type: 'string', description: 'Message body' },
+        body_format: { type: 'string', enum: ['html', 'markdown'], description: 'Body format' },
+        metadata: { type: 'object', description: 'Message metadata' },
+      },
+      required: ['channel_id', 'sender', 'body'],
+    },
+    access: 'write',
+    scopes: ['channels:write'],
+    execute: async (params) => {
+      const { channel_id, ...data } = params;
+      const response = await frontappClient.post(`/channels/${channel_id}/inbound_messages`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'sync_outbound_message',
+    description: 'Sync an outbound message to a custom channel',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel_id: { type: 'string', description: 'Channel ID' },
+        to: { type: 'array', items: { type: 'string' }, description: 'Recipients' },
+        subject: { type: 'string', description: 'Message subject' },
+        body: { type: 'string', description: 'Message body' },
+        metadata: { type: 'object', description: 'Message metadata' },
+      },
+      required: ['channel_id', 'to', 'body'],
+    },
+    access: 'write',
+    scopes: ['channels:write'],
+    execute: async (params) => {
+      const { channel_id, ...data } = params;
+      const response = await frontappClient.post(`/channels/${channel_id}/outbound_messages`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_external_message_status',
+    description: 'Update the status of an external message',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel_id: { type: 'string', description: 'Channel ID' },
+        message_id: { type: 'string', description: 'Message ID' },
+        status: { type: 'string', enum: ['delivered', 'bounced', 'opened'], description: 'Message status' },
+      },
+      required: ['channel_id', 'message_id', 'status'],
+    },
+    access: 'write',
+    scopes: ['channels:write'],
+    execute: async (params) => {
+      const { channel_id, message_id, status } = params;
+      const response = await frontappClient.put(
+        `/channels/${channel_id}/messages/${message_id}/status`,
+        { status }
+      );
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'sync_application_message_template',
+    description: 'Sync an application message template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel_id: { type: 'string', description: 'Channel ID' },
+        template: { type: 'object', description: 'Template data' },
+      },
+      required: ['channel_id', 'template'],
+    },
+    access: 'write',
+    scopes: ['channels:write'],
+    execute: async (params) => {
+      const { channel_id, template } = params;
+      const response = await frontappClient.put(
+        `/channels/${channel_id}/application_message_templates`,
+        template
+      );
+      return response.data;
+    },
+  }),
+];
@@ -0,0 +1,122 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+
+/**
+ * Comment tools
+ * Tools for reading and writing internal comments
+ */
+export const commentTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_conversation_comments',
+    description: 'List all comments (internal discussions) in a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+      },
+      required: ['conversation_id'],
+    },
+    access: 'read',
+    scopes: ['comments:read'],
+    execute: async ({ conversation_id }) => {
+      const response = await frontappClient.get(`/conversations/${conversation_id}/comments`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'add_comment',
+    description: 'Add an internal comment to a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        body: { type: 'string', description: 'Comment body' },
+        author_id: { type: 'string', description: 'Teammate ID posting the comment' },
+      },
+      required: ['conversation_id', 'body'],
+    },
+    access: 'write',
+    scopes: ['comments:write'],
+    execute: async (params) => {
+      const { conversation_id, ...data } = params;
+      const response = await frontappClient.post(
+        `/conversations/${conversation_id}/comments`,
+        data
+      );
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'get_comment',
+    description: 'Get a specific comment by ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        comment_id: { type: 'string', description: 'Comment ID' },
+      },
+      required: ['comment_id'],
+    },
+    access: 'read',
+    scopes: ['comments:read'],
+    execute: async ({ comment_id }) => {
+      const response = await frontappClient.get(`/comments/${comment_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_comment',
+    description: 'Update a comment',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        comment_id: { type: 'string', description: 'Comment ID' },
+        body: { type: 'string', description: 'Updated comment body' },
+      },
+      required: ['comment_id', 'body'],
+    },
+    access: 'write',
+    scopes: ['comments:write'],
+    execute: async (params) => {
+      const { comment_id, body } = params;
+      const response = await frontappClient.patch(`/comments/${comment_id}`, { body });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_comment_mentions',
+    description: 'List all mentions in a comment',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        comment_id: { type: 'string', description: 'Comment ID' },
+      },
+      required: ['comment_id'],
+    },
+    access: 'read',
+    scopes: ['comments:read'],
+    execute: async ({ comment_id }) => {
+      const response = await frontappClient.get(`/comments/${comment_id}/mentions`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'add_comment_reply',
+    description: 'Add a reply to a comment',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        comment_id: { type: 'string', description: 'Comment ID to reply to' },
+        body: { type: 'string', description: 'Reply body' },
+        author_id: { type: 'string', description: 'Teammate ID posting the reply' },
+      },
+      required: ['comment_id', 'body'],
+    },
+    access: 'write',
+    scopes: ['comments:write'],
+    execute: async (params) => {
+      const { comment_id, ...data } = params;
+      const response = await frontappClient.post(`/comments/${comment_id}/replies`, data);
+      return response.data;
+    },
+  }),
+];
@@ -0,0 +1,373 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+
+/**
+ * Contact list tools
+ * Tools for managing contact lists and the deprecated contact groups
+ */
+export const contactListTools: ToolRegistration[] = [
+  // Contact Group tools (deprecated)
+  defineTool({
+    name: 'list_contact_groups',
+    description: 'List all contact groups (deprecated - use contact lists)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async (params) => {
+      return listResults('/contact_groups', params);
+    },
+  }),
+  defineTool({
+    name: 'create_contact_group',
+    description: 'Create a new contact group (deprecated - use contact lists)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Group name' },
+      },
+      required: ['name'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/contact_groups', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_contact_group',
+    description: 'Delete a contact group',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        group_id: { type: 'string', description: 'Group ID' },
+      },
+      required: ['group_id'],
+    },
+    access: 'delete',
+    scopes: ['contacts:write'],
+    execute: async ({ group_id }) => {
+      const response = await frontappClient.delete(`/contact_groups/${group_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_group_contacts',
+    description: 'List contacts in a contact group',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        group_id: { type: 'string', description: 'Group ID' },
+      },
+      required: ['group_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async ({ group_id }) => {
+      const response = await frontappClient.get(`/contact_groups/${group_id}/contacts`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'add_contacts_to_group',
+    description: 'Add contacts to a contact group',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        group_id: { type: 'string', description: 'Group ID' },
+        contact_ids: { type: 'array', items: { type: 'string' }, description: 'Contact IDs to add' },
+      },
+      required: ['group_id', 'contact_ids'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { group_id, contact_ids } = params;
+      const response = await frontappClient.post(`/contact_groups/${group_id}/contacts`, { contact_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'remove_contacts_from_group',
+    description: 'Remove contacts from a contact group',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        group_id: { type: 'string', description: 'Group ID' },
+        contact_ids: { type: 'array', items: { type: 'string' }, description: 'Contact IDs to remove' },
+      },
+      required: ['group_id', 'contact_ids'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { group_id, contact_ids } = params;
+      const response = await frontappClient.delete(`/contact_groups/${group_id}/contacts`, { contact_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_teammate_groups',
+    description: 'List contact groups for a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+      },
+      required: ['teammate_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async ({ teammate_id }) => {
+      const response = await frontappClient.get(`/teammates/${teammate_id}/contact_groups`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_teammate_group',
+    description: 'Create a contact group for a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+        name: { type: 'string', description: 'Group name' },
+      },
+      required: ['teammate_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { teammate_id, ...data } = params;
+      const response = await frontappClient.post(`/teammates/${teammate_id}/contact_groups`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_team_groups',
+    description: 'List contact groups for a team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+      },
+      required: ['team_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async ({ team_id }) => {
+      const response = await frontappClient.get(`/teams/${team_id}/contact_groups`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_team_group',
+    description: 'Create a contact group for a team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+        name: { type: 'string', description: 'Group name' },
+      },
+      required: ['team_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { team_id, ...data } = params;
+      const response = await frontappClient.post(`/teams/${team_id}/contact_groups`, data);
+      return response.data;
+    },
+  }),
+
+  // Contact List tools
+  defineTool({
+    name: 'list_contact_lists',
+    description: 'List all contact lists',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async (params) => {
+      return listResults('/contact_lists', params);
+    },
+  }),
+  defineTool({
+    name: 'create_contact_list',
+    description: 'Create a new contact list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'List name' },
+        is_private: { type: 'boolean', description: 'Whether list is private' },
+      },
+      required: ['name'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/contact_lists', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_contact_list',
+    description: 'Delete a contact list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+      },
+      required: ['list_id'],
+    },
+    access: 'delete',
+    scopes: ['contacts:write'],
+    execute: async ({ list_id }) => {
+      const response = await frontappClient.delete(`/contact_lists/${list_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_contact_list_contacts',
+    description: 'List contacts in a contact list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['list_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async (params) => {
+      const { list_id, ...queryParams } = params;
+      return listResults(`/contact_lists/${list_id}/contacts`, queryParams);
+    },
+  }),
+  defineTool({
+    name: 'add_contacts_to_list',
+    description: 'Add contacts to a contact list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        contact_ids: { type: 'array', items: { type: 'string' }, description: 'Contact IDs to add' },
+      },
+      required: ['list_id', 'contact_ids'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { list_id, contact_ids } = params;
+      const response = await frontappClient.post(`/contact_lists/${list_id}/contacts`, { contact_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'remove_contacts_from_list',
+    description: 'Remove contacts from a contact list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        contact_ids: { type: 'array', items: { type: 'string' }, description: 'Contact IDs to remove' },
+      },
+      required: ['list_id', 'contact_ids'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { list_id, contact_ids } = params;
+      const response = await frontappClient.delete(`/contact_lists/${list_id}/contacts`, { contact_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_teammate_contact_lists',
+    description: 'List contact lists for a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+      },
+      required: ['teammate_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async ({ teammate_id }) => {
+      const response = await frontappClient.get(`/teammates/${teammate_id}/contact_lists`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_teammate_contact_list',
+    description: 'Create a contact list for a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+        name: { type: 'string', description: 'List name' },
+      },
+      required: ['teammate_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { teammate_id, ...data } = params;
+      const response = await frontappClient.post(`/teammates/${teammate_id}/contact_lists`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_team_contact_lists',
+    description: 'List contact lists for a team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+      },
+      required: ['team_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async ({ team_id }) => {
+      const response = await frontappClient.get(`/teams/${team_id}/contact_lists`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_team_contact_list',
+    description: 'Create a contact list for a team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+        name: { type: 'string', description: 'List name' },
+      },
+      required: ['team_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { team_id, ...data } = params;
+      const response = await frontappClient.post(`/teams/${team_id}/contact_lists`, data);
+      return response.data;
+    },
+  }),
+];
@@ -0,0 +1,294 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+
+/**
+ * Contact tools
+ * Tools for managing contacts, their handles and notes
+ */
+export const contactTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_contacts',
+    description: 'List contacts in Front with pagination support',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results (max 100, default 50)' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+        sort_by: { type: 'string', description: 'Sort field' },
+        sort_order: { type: 'string', enum: ['asc', 'desc'], description: 'Sort order' },
+      },
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async (params) => {
+      return listResults('/contacts', params);
+    },
+  }),
+  defineTool({
+    name: 'get_contact',
+    description: 'Get details of a specific contact by ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contact_id: { type: 'string', description: 'Contact ID (e.g., crd_abc123)' },
+      },
+      required: ['contact_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async ({ contact_id }) => {
+      const response = await frontappClient.getContact(contact_id);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_contact',
+    description: 'Create a new contact in Front',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Contact name' },
+        description: { type: 'string', description: 'Contact description' },
+        handles: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              handle: { type: 'string', description: 'Email, phone, or social handle' },
+              source: { type: 'string', description: 'Source type (email, phone, twitter, etc.)' },
+            },
+          },
+          description: 'Contact handles (email, phone, etc.)',
+        },
+        custom_fields: { type: 'object', description: 'Custom field key-value pairs' },
+      },
+      required: ['handles'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/contacts', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_contact',
+    description: 'Update an existing contact',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contact_id: { type: 'string', description: 'Contact ID' },
+        name: { type: 'string', description: 'Updated name' },
+        description: { type: 'string', description: 'Updated description' },
+        handles: { type: 'array', items: { type: 'object' }, description: 'Updated handles' },
+        custom_fields: { type: 'object', description: 'Updated custom fields' },
+      },
+      required: ['contact_id'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { contact_id, ...data } = params;
+      const response = await frontappClient.patch(`/contacts/${contact_id}`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_contact',
+    description: 'Delete a contact',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contact_id: { type: 'string', description: 'Contact ID' },
+      },
+      required: ['contact_id'],
+    },
+    access: 'delete',
+    scopes: ['contacts:write'],
+    execute: async ({ contact_id }) => {
+      const response = await frontappClient.delete(`/contacts/${contact_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'merge_contacts',
+    description: 'Merge two contacts into one',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target_contact_id: { type: 'string', description: 'Contact ID to merge into (will be kept)' },
+        contact_ids: { type: 'array', items: { type: 'string' }, description: 'Array of contact IDs to merge into target' },
+      },
+      required: ['target_contact_id', 'contact_ids'],
+    },
+    access: 'delete',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { target_contact_id, contact_ids } = params;
+      const response = await frontappClient.post('/contacts/merge', {
+        target_contact_id,
+        contact_ids,
+      });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_contact_conversations',
+    description: 'List all conversations for a contact',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contact_id: { type: 'string', description: 'Contact ID' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['contact_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async (params) => {
+      const { contact_id, ...queryParams } = params;
+      return listResults(`/contacts/${contact_id}/conversations`, queryParams);
+    },
+  }),
+  defineTool({
+    name: 'list_contact_notes',
+    description: 'List all notes for a contact',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contact_id: { type: 'string', description: 'Contact ID' },
+      },
+      required: ['contact_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async ({ contact_id }) => {
+      const response = await frontappClient.get(`/contacts/${contact_id}/notes`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'add_contact_note',
+    description: 'Add a note to a contact',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contact_id: { type: 'string', description: 'Contact ID' },
+        body: { type: 'string', description: 'Note content' },
+        author_id: { type: 'string', description: 'Teammate ID creating the note' },
+      },
+      required: ['contact_id', 'body'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { contact_id, ...data } = params;
+      const response = await frontappClient.post(`/contacts/${contact_id}/notes`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'add_contact_handle',
+    description: 'Add a handle (email, phone, etc.) to a contact',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contact_id: { type: 'string', description: 'Contact ID' },
+        handle: { type: 'string', description: 'Handle value (email, phone, etc.)' },
+        source: { type: 'string', description: 'Handle source type (email, phone, twitter, etc.)' },
+      },
+      required: ['contact_id', 'handle', 'source'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { contact_id, handle, source } = params;
+      const response = await frontappClient.post(`/contacts/${contact_id}/handles`, { handle, source });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_contact_handle',
+    description: 'Delete a handle from a contact',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contact_id: { type: 'string', description: 'Contact ID' },
+        handle: { type: 'string', description: 'Handle to remove' },
+        source: { type: 'string', description: 'Handle source type' },
+      },
+      required: ['contact_id', 'handle', 'source'],
+    },
+    access: 'delete',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { contact_id, handle, source } = params;
+      const response = await frontappClient.delete(`/contacts/${contact_id}/handles`, { handle, source });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_teammate_contacts',
+    description: 'List contacts for a specific teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['teammate_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async (params) => {
+      const { teammate_id, ...queryParams } = params;
+      return listResults(`/teammates/${teammate_id}/contacts`, queryParams);
+    },
+  }),
+  defineTool({
+    name: 'create_teammate_contact',
+    description: 'Create a contact scoped to a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+        name: { type: 'string', description: 'Contact name' },
+        handles: { type: 'array', items: { type: 'object' }, description: 'Contact handles' },
+      },
+      required: ['teammate_id', 'handles'],
+    },
+    access: 'write',
+    scopes: ['contacts:write'],
+    execute: async (params) => {
+      const { teammate_id, ...data } = params;
+      const response = await frontappClient.post(`/teammates/${teammate_id}/contacts`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_team_contacts',
+    description: 'List contacts for a specific team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['team_id'],
+    },
+    access: 'read',
+    scopes: ['contacts:read'],
+    execute: async (params) => {
+      const { team_id, ...queryParams } = params;
+      return listResults(`/teams/${team_id}/contacts`, queryParams);
+    },
+  }),
+];
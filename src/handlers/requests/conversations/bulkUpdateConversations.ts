@@ -0,0 +1,282 @@
+import { BaseRequestHandler } from '../base.js';
+import { getToolErrorMessage } from '../registry.js';
+import { getPageToken } from '../pagination.js';
+import { BulkUpdateConversationsArguments, ToolResponse } from '../../../models/mcp.js';
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { config } from '../../../config/index.js';
+import { frontappRateLimiter } from '../../../utils/frontappRateLimiter.js';
+import { progressReporter } from '../../../utils/progress.js';
+import logger from '../../../utils/logger.js';
+
+/**
+ * A change applied to every conversation of a bulk update
+ */
+interface ConversationChange {
+  /** Description of the change, e.g. "add tags tag_1, tag_2" */
+  description: string;
+  /** Applies the change to a conversation */
+  apply: (conversationId: string) => Promise<unknown>;
+}
+
+/**
+ * The outcome of a bulk update for one conversation
+ */
+interface ConversationUpdateResult {
+  conversation_id: string;
+  subject?: string;
+  status: 'updated' | 'failed' | 'would_update';
+  /** The changes that were applied, up to the one that failed */
+  applied?: string[];
+  error?: string;
+}
+
+// Array arguments of the tool
+const ID_LIST_ARGUMENTS = [
+  'conversation_ids',
+  'add_tag_ids',
+  'remove_tag_ids',
+  'add_follower_ids',
+  'remove_follower_ids',
+] as const;
+
+/**
+ * Handler for the bulk_update_conversations tool
+ * Applies the same tag, assignee, follower and status changes to many conversations, given by ID
+ * or by a search query. Conversations are updated a few at a time, with background priority in
+ * the Frontapp rate limiter so that other tool calls aren't held up behind the bulk update. A
+ * failure only stops the update of its conversation; the report lists every conversation with
+ * its outcome, and progress is reported after every conversation. A query updates at most
+ * BULK_UPDATE_MAX_CONVERSATIONS conversations per call; the report has the page token that the
+ * next call continues from.
+ */
+export class BulkUpdateConversationsHandler extends BaseRequestHandler<BulkUpdateConversationsArguments> {
+  /**
+   * Validate the arguments passed to the tool
+   * @param args The arguments to validate
+   * @throws Error if the arguments are invalid
+   */
+  protected validateArgs(args: BulkUpdateConversationsArguments): void {
+    if ((args.conversation_ids === undefined) === (args.query === undefined)) {
+      throw new Error('Either conversation_ids or query is required, but not both');
+    }
+
+    for (const name of ID_LIST_ARGUMENTS) {
+      const ids = args[name];
+      if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string'))) {
+        throw new Error(`${name} must be an array of strings`);
+      }
+    }
+
+    if (args.conversation_ids?.length === 0) {
+      throw new Error('conversation_ids must not be empty');
+    }
+
+    const maxConversations = config.bulkUpdate.maxConversations;
+    if (args.conversation_ids && new Set(args.conversation_ids).size > maxConversations) {
+      throw new Error(`At most ${maxConversations} conversations can be updated at once`);
+    }
+
+    if (args.query !== undefined && (typeof args.query !== 'string' || !args.query.trim())) {
+      throw new Error('query must be a non-empty string');
+    }
+
+    if (args.page_token !== undefined) {
+      if (args.query === undefined) {
+        throw new Error('page_token can only be used with query');
+      }
+      if (typeof args.page_token !== 'string' || !args.page_token) {
+        throw new Error('page_token must be a non-empty string');
+      }
+    }
+
+    if (args.assignee_id !== undefined && args.unassign) {
+      throw new Error('assignee_id and unassign cannot be used together');
+    }
+
+    if (this.getChanges(args).length === 0) {
+      throw new Error(
+        'No changes given: set add_tag_ids, remove_tag_ids, assignee_id, unassign, status, add_follower_ids or remove_follower_ids'
+      );
+    }
+  }
+
+  /**
+   * Execute the bulk update
+   * @param args The validated arguments
+   * @returns A response with the outcome of every conversation
+   */
+  protected async execute(args: BulkUpdateConversationsArguments): Promise<ToolResponse> {
+    const changes = this.getChanges(args);
+
+    let conversations: Array<{ id: string; subject?: string }>;
+    let nextPageToken: string | undefined;
+    try {
+      if (args.query !== undefined) {
+        // Calls that continue a previous one start at its cursor, which is also part of the
+        // idempotency key derived from the arguments, so they aren't answered as repeats
+        const path = `/conversations/search/${encodeURIComponent(args.query)}`;
+        const collection = await frontappClient.collect(
+          path,
+          args.page_token ? { page_token: args.page_token } : {},
+          config.bulkUpdate.maxConversations
+        );
+        conversations = collection.results.map(({ id, subject }) => ({ id, subject }));
+        nextPageToken = collection.next ? getPageToken(collection.next) : undefined;
+      } else {
+        conversations = [...new Set(args.conversation_ids)].map((id) => ({ id }));
+      }
+    } catch (error: any) {
+      return this.createErrorResponse(
+        `Failed to search conversations: ${getToolErrorMessage(error)}`
+      );
+    }
+
+    const total = conversations.length;
+    const results: ConversationUpdateResult[] = [];
+
+    if (args.dry_run) {
+      for (const { id, subject } of conversations) {
+        results.push({ conversation_id: id, subject, status: 'would_update' });
+      }
+    } else {
+      await progressReporter.report(0, total, `Updating ${total} conversations`);
+
+      // Workers take the next conversation until none are left
+      let next = 0;
+      let done = 0;
+      const worker = async () => {
+        while (next < total) {
+          const index = next++;
+          results[index] = await this.updateConversation(conversations[index], changes);
+          done++;
+          await progressReporter.report(done, total, `Updated ${conversations[index].id}`);
+        }
+      };
+
+      const workers = Math.min(config.bulkUpdate.concurrency, total);
+      await frontappRateLimiter.run('background', () =>
+        Promise.all(Array.from({ length: workers }, worker))
+      );
+    }
+
+    const failed = results.filter((result) => result.status === 'failed').length;
+    logger.info('Bulk conversation update finished', {
+      conversations: total,
+      failed,
+      dryRun: Boolean(args.dry_run),
+    });
+
+    return this.createSuccessResponse({
+      dry_run: Boolean(args.dry_run),
+      changes: changes.map((change) => change.description),
+      summary: {
+        conversations: total,
+        ...(args.dry_run ? {} : { updated: total - failed, failed }),
+        ...(nextPageToken && {
+          more_matching: true,
+          next_page_token: nextPageToken,
+          message: `The query matches more than ${total} conversations. Call the tool again with the same query and changes, and page_token set to next_page_token, to update the next ones.`,
+        }),
+      },
+      results,
+    });
+  }
+
+  /**
+   * Get the changes to apply to every conversation, in the order they are applied
+   * @param args The arguments passed to the tool
+   * @returns The changes
+   */
+  private getChanges(args: BulkUpdateConversationsArguments): ConversationChange[] {
+    const changes: ConversationChange[] = [];
+
+    if (args.assignee_id !== undefined || args.unassign) {
+      const assigneeId = args.unassign ? null : args.assignee_id;
+      changes.push({
+        description: assigneeId ? `assign to ${assigneeId}` : 'unassign',
+        apply: (id) =>
+          frontappClient.put(`/conversations/${id}/assignee`, { assignee_id: assigneeId }),
+      });
+    }
+    if (args.add_tag_ids?.length) {
+      const tagIds = args.add_tag_ids;
+      changes.push({
+        description: `add tags ${tagIds.join(', ')}`,
+        apply: (id) => frontappClient.post(`/conversations/${id}/tags`, { tag_ids: tagIds }),
+      });
+    }
+    if (args.remove_tag_ids?.length) {
+      const tagIds = args.remove_tag_ids;
+      changes.push({
+        description: `remove tags ${tagIds.join(', ')}`,
+        apply: (id) => frontappClient.delete(`/conversations/${id}/tags`, { tag_ids: tagIds }),
+      });
+    }
+    if (args.add_follower_ids?.length) {
+      const teammateIds = args.add_follower_ids;
+      changes.push({
+        description: `add followers ${teammateIds.join(', ')}`,
+        apply: (id) =>
+          frontappClient.post(`/conversations/${id}/followers`, { teammate_ids: teammateIds }),
+      });
+    }
+    if (args.remove_follower_ids?.length) {
+      const teammateIds = args.remove_follower_ids;
+      changes.push({
+        description: `remove followers ${teammateIds.join(', ')}`,
+        apply: (id) =>
+          frontappClient.delete(`/conversations/${id}/followers`, { teammate_ids: teammateIds }),
+      });
+    }
+    // The status comes last, as e.g. archived conversations are still tagged and assigned
+    if (args.status !== undefined) {
+      const status = args.status;
+      changes.push({
+        description: `set status to ${status}`,
+        apply: (id) => frontappClient.patch(`/conversations/${id}`, { status }),
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Apply the changes to a conversation, stopping at the first change that fails
+   * @param conversation The conversation
+   * @param changes The changes
+   * @returns The outcome for the conversation
+   */
+  private async updateConversation(
+    conversation: { id: string; subject?: string },
+    changes: ConversationChange[]
+  ): Promise<ConversationUpdateResult> {
+    const { id: conversationId, subject } = conversation;
+    const applied: string[] = [];
+
+    for (const change of changes) {
+      try {
+        await change.apply(conversationId);
+        applied.push(change.description);
+      } catch (error: any) {
+        const message = getToolErrorMessage(error);
+        logger.warn('Bulk update of a conversation failed', {
+          conversationId,
+          change: change.description,
+          error: message,
+        });
+        return {
+          conversation_id: conversationId,
+          subject,
+          status: 'failed',
+          applied,
+          error: `Failed to ${change.description}: ${message}`,
+        };
+      }
+    }
+
+    return { conversation_id: conversationId, subject, status: 'updated', applied };
+  }
+}
+
+// Export a singleton instance of the handler
+export const bulkUpdateConversationsHandler = new BulkUpdateConversationsHandler();
@@ -0,0 +1,88 @@
+import { BaseRequestHandler } from '../base.js';
+import { GetConversationTranscriptArguments, ToolResponse } from '../../../models/mcp.js';
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { config } from '../../../config/index.js';
+import { transcriptUtil } from '../../../utils/transcript.js';
+import { piiRedactor } from '../../../utils/piiRedactor.js';
+
+// Default approximate token budget of a transcript
+const DEFAULT_MAX_TOKENS = 8000;
+
+/**
+ * Handler for the get_conversation_transcript tool
+ * Retrieves the messages, comments and events of a conversation and renders them as a
+ * chronological transcript
+ */
+export class GetConversationTranscriptHandler extends BaseRequestHandler<GetConversationTranscriptArguments> {
+  /**
+   * Validate the arguments passed to the tool
+   * @param args The arguments to validate
+   * @throws Error if the arguments are invalid
+   */
+  protected validateArgs(args: GetConversationTranscriptArguments): void {
+    if (!args.conversation_id || typeof args.conversation_id !== 'string') {
+      throw new Error('Conversation ID is required and must be a string');
+    }
+
+    if (args.format !== undefined && !['markdown', 'text'].includes(args.format)) {
+      throw new Error('Format must be one of: markdown, text');
+    }
+
+    if (
+      args.max_tokens !== undefined &&
+      (typeof args.max_tokens !== 'number' || args.max_tokens <= 0)
+    ) {
+      throw new Error('Max tokens must be a positive number');
+    }
+  }
+
+  /**
+   * Execute the request to get the conversation transcript
+   * @param args The validated arguments
+   * @returns A response containing the transcript
+   */
+  protected async execute(args: GetConversationTranscriptArguments): Promise<ToolResponse> {
+    try {
+      const conversationId = args.conversation_id;
+      const includeEvents = args.include_events ?? true;
+      const maxItems = config.pagination.maxItems;
+
+      // Fetch the conversation with all pages of its messages, comments and events
+      const [conversation, messages, comments, events] = await Promise.all([
+        frontappClient.getConversation(conversationId),
+        frontappClient.collect(`/conversations/${conversationId}/messages`, {}, maxItems),
+        frontappClient.collect(`/conversations/${conversationId}/comments`, {}, maxItems),
+        includeEvents
+          ? frontappClient.collect(`/conversations/${conversationId}/events`, {}, maxItems)
+          : Promise.resolve({ results: [] }),
+      ]);
+
+      const entries = transcriptUtil.buildEntries(
+        messages.results,
+        comments.results,
+        events.results,
+        { includeQuoted: args.include_quoted }
+      );
+
+      const transcript = transcriptUtil.render(conversation.data, entries, {
+        format: args.format,
+        maxTokens: args.max_tokens ?? DEFAULT_MAX_TOKENS,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: piiRedactor.redact(transcript),
+          },
+        ],
+      };
+    } catch (error: any) {
+      // Create an error response
+      return this.createErrorResponse(`Failed to get conversation transcript: ${error.message}`);
+    }
+  }
+}
+
+// Export a singleton instance of the handler
+export const getConversationTranscriptHandler = new GetConversationTranscriptHandler();
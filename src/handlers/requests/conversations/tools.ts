@@ -0,0 +1,436 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineHandlerTool, defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+import { getConversationsHandler } from './getConversations.js';
+import { archiveConversationHandler } from './archiveConversation.js';
+import { assignConversationHandler } from './assignConversation.js';
+import { getConversationTranscriptHandler } from './getConversationTranscript.js';
+import { bulkUpdateConversationsHandler } from './bulkUpdateConversations.js';
+import { SEARCH_STATUSES, searchQueryBuilder } from '../../../utils/searchQuery.js';
+
+/**
+ * Input schema of the typed search filters of search_conversations and build_search_query
+ */
+const searchFiltersSchema = {
+  type: 'object',
+  description:
+    'Typed search filters, compiled into Front search syntax. All filters must match. Inboxes, tags and assignees can be given by name; they are resolved to IDs.',
+  properties: {
+    text: { type: 'string', description: 'Words the subject or messages must contain' },
+    status: {
+      type: 'array',
+      items: { type: 'string', enum: SEARCH_STATUSES },
+      description: 'Statuses the conversations must have (e.g. ["open", "unassigned"])',
+    },
+    inbox: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Inbox IDs or names (e.g. ["Support"])',
+    },
+    tag: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Tag IDs, names or parent/child paths the conversations must have (e.g. ["Urgent"])',
+    },
+    assignee: {
+      type: 'string',
+      description: 'Assigned teammate: ID, email, username or full name',
+    },
+    from: { type: 'string', description: 'Handle of the sender (e.g. customer@example.com)' },
+    to: { type: 'string', description: 'Handle of a recipient (e.g. support@company.com)' },
+    after: {
+      type: 'string',
+      description: 'Only conversations created after this ISO 8601 date or Unix timestamp',
+    },
+    before: {
+      type: 'string',
+      description: 'Only conversations created before this ISO 8601 date or Unix timestamp',
+    },
+    custom_fields: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: 'Values of conversation custom fields, by field name (e.g. {"Plan": "Pro"})',
+    },
+  },
+};
+
+/**
+ * Conversation tools
+ * Tools for listing, searching and updating conversations, their assignees, followers, links and tags
+ */
+export const conversationTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_conversations',
+    description: 'List conversations in Front. Returns conversations in reverse chronological order (most recently updated first). Supports pagination and filtering via query parameter.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results (max 100, default 50)' },
+        page_token: { type: 'string', description: 'Pagination token from previous response' },
+        ...paginationProperties,
+        q: { type: 'string', description: 'Query string for filtering (e.g., "status:archived")' },
+      },
+    },
+    access: 'read',
+    scopes: ['conversations:read'],
+    execute: async (params) => {
+      return listResults('/conversations', params);
+    },
+  }),
+  defineTool({
+    name: 'get_conversation',
+    description: 'Get details of a specific conversation by ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID (e.g., cnv_abc123)' },
+      },
+      required: ['conversation_id'],
+    },
+    access: 'read',
+    scopes: ['conversations:read'],
+    execute: async ({ conversation_id }) => {
+      const response = await frontappClient.getConversation(conversation_id);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'search_conversations',
+    description: 'Search for conversations by status, inbox, tag, assignee, sender, recipient, dates, custom fields and text. Give the search as filters; inbox, tag and teammate names are resolved to IDs. The result includes the compiled query.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        filters: searchFiltersSchema,
+        query: {
+          type: 'string',
+          description: 'Raw Front search query (e.g., "tag:tag_123 is:open"), added to the filters. Only use it for syntax the filters don\'t cover.',
+        },
+        limit: { type: 'number', description: 'Number of results (max 100, default 50)' },
+        page_token: { type: 'string', description: 'Pagination token from previous response for fetching next page of results' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['conversations:read'],
+    execute: async ({ filters, query, ...queryParams }) => {
+      if (filters === undefined && !query) {
+        throw new Error('Give the search as filters or a query');
+      }
+
+      const terms = filters !== undefined ? [(await searchQueryBuilder.build(filters)).query] : [];
+      if (query) {
+        terms.push(query);
+      }
+      const search = terms.join(' ');
+
+      const result = await listResults(
+        `/conversations/search/${encodeURIComponent(search)}`,
+        queryParams
+      );
+      return filters !== undefined ? { query: search, ...result } : result;
+    },
+  }),
+  defineTool({
+    name: 'build_search_query',
+    description: 'Compile typed search filters into a Front search query without running it, resolving inbox, tag and teammate names to IDs. Use it to check a search, or to get a query for tools that take one.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        filters: searchFiltersSchema,
+      },
+      required: ['filters'],
+    },
+    access: 'read',
+    scopes: ['conversations:read'],
+    execute: async ({ filters }) => {
+      return searchQueryBuilder.build(filters);
+    },
+  }),
+  defineTool({
+    name: 'update_conversation',
+    description: 'Update conversation properties like assignee, tags, status',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        assignee_id: { type: 'string', description: 'Teammate ID to assign' },
+        status: { type: 'string', enum: ['archived', 'unassigned', 'assigned'], description: 'Conversation status' },
+        tag_ids: { type: 'array', items: { type: 'string' }, description: 'Array of tag IDs' },
+      },
+      required: ['conversation_id'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const { conversation_id, ...data } = params;
+      const response = await frontappClient.patch(`/conversations/${conversation_id}`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_conversation',
+    description: 'Delete a conversation by moving it to the trash',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+      },
+      required: ['conversation_id'],
+    },
+    access: 'delete',
+    scopes: ['conversations:write'],
+    execute: async ({ conversation_id }) => {
+      const response = await frontappClient.patch(`/conversations/${conversation_id}`, {
+        status: 'deleted',
+      });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_discussion_conversation',
+    description: 'Create a new discussion conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_ids: { type: 'array', items: { type: 'string' }, description: 'Teammate IDs to include' },
+        subject: { type: 'string', description: 'Discussion subject' },
+        comment_body: { type: 'string', description: 'Initial comment body' },
+      },
+      required: ['teammate_ids', 'comment_body'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/conversations', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_conversation_assignee',
+    description: 'Update the assignee of a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        assignee_id: { type: 'string', description: 'Teammate ID to assign (null to unassign)' },
+      },
+      required: ['conversation_id', 'assignee_id'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const { conversation_id, assignee_id } = params;
+      const response = await frontappClient.put(`/conversations/${conversation_id}/assignee`, {
+        assignee_id,
+      });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_conversation_events',
+    description: 'List all events for a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['conversation_id'],
+    },
+    access: 'read',
+    scopes: ['conversations:read'],
+    execute: async (params) => {
+      const { conversation_id, ...queryParams } = params;
+      return listResults(`/conversations/${conversation_id}/events`, queryParams);
+    },
+  }),
+  defineTool({
+    name: 'list_conversation_followers',
+    description: 'List all followers of a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+      },
+      required: ['conversation_id'],
+    },
+    access: 'read',
+    scopes: ['conversations:read'],
+    execute: async ({ conversation_id }) => {
+      const response = await frontappClient.get(`/conversations/${conversation_id}/followers`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'add_conversation_followers',
+    description: 'Add followers to a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        teammate_ids: { type: 'array', items: { type: 'string' }, description: 'Teammate IDs to add as followers' },
+      },
+      required: ['conversation_id', 'teammate_ids'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const { conversation_id, teammate_ids } = params;
+      const response = await frontappClient.post(`/conversations/${conversation_id}/followers`, {
+        teammate_ids,
+      });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_conversation_followers',
+    description: 'Remove followers from a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        teammate_ids: { type: 'array', items: { type: 'string' }, description: 'Teammate IDs to remove' },
+      },
+      required: ['conversation_id', 'teammate_ids'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const { conversation_id, teammate_ids } = params;
+      const response = await frontappClient.delete(`/conversations/${conversation_id}/followers`, { teammate_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_conversation_inboxes',
+    description: 'List all inboxes associated with a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+      },
+      required: ['conversation_id'],
+    },
+    access: 'read',
+    scopes: ['conversations:read'],
+    execute: async ({ conversation_id }) => {
+      const response = await frontappClient.get(`/conversations/${conversation_id}/inboxes`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'add_conversation_link',
+    description: 'Add a link to a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        link_ids: { type: 'array', items: { type: 'string' }, description: 'Link IDs to add' },
+      },
+      required: ['conversation_id', 'link_ids'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const { conversation_id, link_ids } = params;
+      const response = await frontappClient.post(`/conversations/${conversation_id}/links`, { link_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'remove_conversation_links',
+    description: 'Remove links from a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        link_ids: { type: 'array', items: { type: 'string' }, description: 'Link IDs to remove' },
+      },
+      required: ['conversation_id', 'link_ids'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const { conversation_id, link_ids } = params;
+      const response = await frontappClient.delete(`/conversations/${conversation_id}/links`, { link_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_conversation_reminders',
+    description: 'Update reminders for a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        scheduled_at: { type: 'number', description: 'Unix timestamp for reminder' },
+      },
+      required: ['conversation_id'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const { conversation_id, ...data } = params;
+      const response = await frontappClient.patch(`/conversations/${conversation_id}/reminders`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'add_conversation_tag',
+    description: 'Add a tag to a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        tag_ids: { type: 'array', items: { type: 'string' }, description: 'Tag IDs to add' },
+      },
+      required: ['conversation_id', 'tag_ids'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const { conversation_id, tag_ids } = params;
+      const response = await frontappClient.post(`/conversations/${conversation_id}/tags`, { tag_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'remove_conversation_tag',
+    description: 'Remove a tag from a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        tag_ids: { type: 'array', items: { type: 'string' }, description: 'Tag IDs to remove' },
+      },
+      required: ['conversation_id', 'tag_ids'],
+    },
+    access: 'write',
+    scopes: ['conversations:write'],
+    execute: async (params) => {
+      const { conversation_id, tag_ids } = params;
+      const response = await frontappClient.delete(`/conversations/${conversation_id}/tags`, { tag_ids });
+      return response.data;
+    },
+  }),
+
+  // Tools backed by request handler classes
+  defineHandlerTool('get_conversations', 'read', ['conversations:read'], getConversationsHandler),
+  defineHandlerTool('archive_conversation', 'write', ['conversations:write'], archiveConversationHandler),
+  defineHandlerTool('assign_conversation', 'write', ['conversations:write'], assignConversationHandler),
+  defineHandlerTool(
+    'get_conversation_transcript',
+    'read',
+    ['conversations:read', 'messages:read', 'comments:read'],
+    getConversationTranscriptHandler
+  ),
+  defineHandlerTool(
+    'bulk_update_conversations',
+    'write',
+    ['conversations:read', 'conversations:write'],
+    bulkUpdateConversationsHandler
+  ),
+];
@@ -0,0 +1,107 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+
+/**
+ * Custom field tools
+ * Tools for listing custom field definitions
+ */
+export const customFieldTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_account_custom_fields',
+    description: 'List all custom fields for accounts',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    access: 'read',
+    scopes: ['custom_fields:read'],
+    execute: async () => {
+      const response = await frontappClient.get('/accounts/custom_fields');
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_contact_custom_fields',
+    description: 'List all custom fields for contacts',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    access: 'read',
+    scopes: ['custom_fields:read'],
+    execute: async () => {
+      const response = await frontappClient.get('/contacts/custom_fields');
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_conversation_custom_fields',
+    description: 'List all custom fields for conversations',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    access: 'read',
+    scopes: ['custom_fields:read'],
+    execute: async () => {
+      const response = await frontappClient.get('/conversations/custom_fields');
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_custom_fields',
+    description: 'List all custom fields',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    access: 'read',
+    scopes: ['custom_fields:read'],
+    execute: async () => {
+      const response = await frontappClient.get('/custom_fields');
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_inbox_custom_fields',
+    description: 'List all custom fields for inboxes',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    access: 'read',
+    scopes: ['custom_fields:read'],
+    execute: async () => {
+      const response = await frontappClient.get('/inboxes/custom_fields');
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_link_custom_fields',
+    description: 'List all custom fields for links',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    access: 'read',
+    scopes: ['custom_fields:read'],
+    execute: async () => {
+      const response = await frontappClient.get('/links/custom_fields');
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_teammate_custom_fields',
+    description: 'List all custom fields for teammates',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    access: 'read',
+    scopes: ['custom_fields:read'],
+    execute: async () => {
+      const response = await frontappClient.get('/teammates/custom_fields');
+      return response.data;
+    },
+  }),
+];
@@ -0,0 +1,77 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ToolArguments, ToolDefinition, ToolResponse } from '../../models/mcp.js';
+import { progressReporter } from '../../utils/progress.js';
+
+/**
+ * Tool dispatcher interface
+ * A dispatcher knows which tools a server exposes and how to execute them by name
+ */
+export interface ToolDispatcher {
+  /**
+   * List the tools exposed by the server
+   * @returns The tool definitions
+   */
+  listTools(): ToolDefinition[];
+
+  /**
+   * Execute a tool
+   * @param name The name of the tool
+   * @param args The arguments passed to the tool
+   * @returns The tool response
+   * @throws McpError if the tool does not exist or the arguments are invalid
+   */
+  callTool(name: string, args: ToolArguments): Promise<ToolResponse>;
+}
+
+// Dispatchers registered per MCP server instance
+const dispatchers = new WeakMap<Server, ToolDispatcher>();
+
+/**
+ * Register a tool dispatcher with an MCP server
+ * This installs the tools/list and tools/call handlers on the server and keeps a reference
+ * to the dispatcher so other transports (such as the REST API) can use the same handlers.
+ * Tool calls with a progress token send the progress tools report as progress notifications.
+ * @param server The MCP server instance
+ * @param dispatcher The tool dispatcher
+ */
+export function registerToolDispatcher(server: Server, dispatcher: ToolDispatcher): void {
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: dispatcher.listTools(),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args, _meta } = request.params;
+    const progressToken = _meta?.progressToken;
+
+    // Clients that send a progress token receive the progress tools report as notifications
+    const response =
+      progressToken === undefined
+        ? await dispatcher.callTool(name, args || {})
+        : await progressReporter.run(
+            (progress, total, message) =>
+              extra.sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress, total, message },
+              }),
+            () => dispatcher.callTool(name, args || {})
+          );
+
+    // MCP clients only understand text content, so JSON and other formats are sent as text
+    return {
+      ...response,
+      content: response.content.map((item) => ({ type: 'text', text: item.text })),
+    };
+  });
+
+  dispatchers.set(server, dispatcher);
+}
+
+/**
+ * Get the tool dispatcher registered with an MCP server
+ * @param server The MCP server instance
+ * @returns The tool dispatcher, or undefined if no tools are registered
+ */
+export function getToolDispatcher(server: Server): ToolDispatcher | undefined {
+  return dispatchers.get(server);
+}
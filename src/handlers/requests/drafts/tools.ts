@@ -0,0 +1,106 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+import { attachmentsProperty, postWithAttachments } from '../attachments.js';
+
+/**
+ * Draft tools
+ * Tools for creating, editing and deleting drafts
+ */
+export const draftTools: ToolRegistration[] = [
+  defineTool({
+    name: 'create_draft',
+    description: 'Create a new draft message',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        author_id: { type: 'string', description: 'Teammate ID creating the draft' },
+        to: { type: 'array', items: { type: 'string' }, description: 'Recipients' },
+        subject: { type: 'string', description: 'Draft subject' },
+        body: { type: 'string', description: 'Draft body' },
+        channel_id: { type: 'string', description: 'Channel ID' },
+        ...attachmentsProperty,
+      },
+      required: ['author_id', 'body'],
+    },
+    access: 'write',
+    scopes: ['drafts:write'],
+    execute: async (params) => postWithAttachments('/drafts', params),
+  }),
+  defineTool({
+    name: 'list_conversation_drafts',
+    description: 'List all drafts for a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+      },
+      required: ['conversation_id'],
+    },
+    access: 'read',
+    scopes: ['drafts:read'],
+    execute: async ({ conversation_id }) => {
+      const response = await frontappClient.get(`/conversations/${conversation_id}/drafts`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_draft_reply',
+    description: 'Create a draft reply to a conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        author_id: { type: 'string', description: 'Teammate ID' },
+        body: { type: 'string', description: 'Draft body' },
+        ...attachmentsProperty,
+      },
+      required: ['conversation_id', 'author_id', 'body'],
+    },
+    access: 'write',
+    scopes: ['drafts:write'],
+    execute: async (params) => {
+      const { conversation_id, ...data } = params;
+      return postWithAttachments(`/conversations/${conversation_id}/drafts`, data);
+    },
+  }),
+  defineTool({
+    name: 'delete_draft',
+    description: 'Delete a draft',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        draft_id: { type: 'string', description: 'Draft ID' },
+        version: { type: 'string', description: 'Draft version for conflict prevention' },
+      },
+      required: ['draft_id', 'version'],
+    },
+    access: 'delete',
+    scopes: ['drafts:write'],
+    execute: async (params) => {
+      const { draft_id, version } = params;
+      const response = await frontappClient.delete(`/drafts/${draft_id}`, { version });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'edit_draft',
+    description: 'Edit an existing draft',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        draft_id: { type: 'string', description: 'Draft ID' },
+        version: { type: 'string', description: 'Draft version for conflict prevention' },
+        body: { type: 'string', description: 'Updated draft body' },
+        subject: { type: 'string', description: 'Updated subject' },
+      },
+      required: ['draft_id', 'version'],
+    },
+    access: 'write',
+    scopes: ['drafts:write'],
+    execute: async (params) => {
+      const { draft_id, version, ...data } = params;
+      const response = await frontappClient.patch(`/drafts/${draft_id}`, { version, ...data });
+      return response.data;
+    },
+  }),
+];
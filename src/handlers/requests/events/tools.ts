@@ -0,0 +1,45 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+
+/**
+ * Event tools
+ * Tools for reading the activity event stream
+ */
+export const eventTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_events',
+    description: 'List events with optional filtering by type, date range, and inbox',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        q: { type: 'string', description: 'Query string for filtering events' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['events:read'],
+    execute: async (params) => {
+      return listResults('/events', params);
+    },
+  }),
+  defineTool({
+    name: 'get_event',
+    description: 'Get details of a specific event',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        event_id: { type: 'string', description: 'Event ID' },
+      },
+      required: ['event_id'],
+    },
+    access: 'read',
+    scopes: ['events:read'],
+    execute: async ({ event_id }) => {
+      const response = await frontappClient.get(`/events/${event_id}`);
+      return response.data;
+    },
+  }),
+];
@@ -0,0 +1,194 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineHandlerTool, defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+import { getInboxesHandler } from './getInboxes.js';
+
+/**
+ * Inbox tools
+ * Tools for managing inboxes and inbox access
+ */
+export const inboxTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_inboxes',
+    description: 'List all inboxes accessible to the API token',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['inboxes:read'],
+    execute: async (params) => {
+      return listResults('/inboxes', params);
+    },
+  }),
+  defineTool({
+    name: 'get_inbox',
+    description: 'Get details of a specific inbox by ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inbox_id: { type: 'string', description: 'Inbox ID (e.g., inb_abc123)' },
+      },
+      required: ['inbox_id'],
+    },
+    access: 'read',
+    scopes: ['inboxes:read'],
+    execute: async ({ inbox_id }) => {
+      const response = await frontappClient.get(`/inboxes/${inbox_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_inbox',
+    description: 'Create a new inbox',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Inbox name' },
+        teammate_ids: { type: 'array', items: { type: 'string' }, description: 'Teammate IDs with access' },
+      },
+      required: ['name'],
+    },
+    access: 'write',
+    scopes: ['inboxes:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/inboxes', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_inbox_channels',
+    description: 'List all channels for an inbox',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inbox_id: { type: 'string', description: 'Inbox ID' },
+      },
+      required: ['inbox_id'],
+    },
+    access: 'read',
+    scopes: ['inboxes:read'],
+    execute: async ({ inbox_id }) => {
+      const response = await frontappClient.get(`/inboxes/${inbox_id}/channels`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_inbox_conversations',
+    description: 'List all conversations in an inbox',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inbox_id: { type: 'string', description: 'Inbox ID' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['inbox_id'],
+    },
+    access: 'read',
+    scopes: ['inboxes:read'],
+    execute: async (params) => {
+      const { inbox_id, ...queryParams } = params;
+      return listResults(`/inboxes/${inbox_id}/conversations`, queryParams);
+    },
+  }),
+  defineTool({
+    name: 'list_inbox_access',
+    description: 'List all teammates with access to an inbox',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inbox_id: { type: 'string', description: 'Inbox ID' },
+      },
+      required: ['inbox_id'],
+    },
+    access: 'read',
+    scopes: ['inboxes:read'],
+    execute: async ({ inbox_id }) => {
+      const response = await frontappClient.get(`/inboxes/${inbox_id}/teammates`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'add_inbox_access',
+    description: 'Grant teammates access to an inbox',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inbox_id: { type: 'string', description: 'Inbox ID' },
+        teammate_ids: { type: 'array', items: { type: 'string' }, description: 'Teammate IDs to grant access' },
+      },
+      required: ['inbox_id', 'teammate_ids'],
+    },
+    access: 'write',
+    scopes: ['inboxes:write'],
+    execute: async (params) => {
+      const { inbox_id, teammate_ids } = params;
+      const response = await frontappClient.post(`/inboxes/${inbox_id}/teammates`, { teammate_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'remove_inbox_access',
+    description: 'Remove teammates access from an inbox',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inbox_id: { type: 'string', description: 'Inbox ID' },
+        teammate_ids: { type: 'array', items: { type: 'string' }, description: 'Teammate IDs to remove' },
+      },
+      required: ['inbox_id', 'teammate_ids'],
+    },
+    access: 'write',
+    scopes: ['inboxes:write'],
+    execute: async (params) => {
+      const { inbox_id, teammate_ids } = params;
+      const response = await frontappClient.delete(`/inboxes/${inbox_id}/teammates`, { teammate_ids });
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_team_inboxes',
+    description: 'List all inboxes for a team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+      },
+      required: ['team_id'],
+    },
+    access: 'read',
+    scopes: ['inboxes:read'],
+    execute: async ({ team_id }) => {
+      const response = await frontappClient.get(`/teams/${team_id}/inboxes`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_team_inbox',
+    description: 'Create an inbox for a team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+        name: { type: 'string', description: 'Inbox name' },
+      },
+      required: ['team_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['inboxes:write'],
+    execute: async (params) => {
+      const { team_id, ...data } = params;
+      const response = await frontappClient.post(`/teams/${team_id}/inboxes`, data);
+      return response.data;
+    },
+  }),
+
+  // Tools backed by request handler classes
+  defineHandlerTool('get_inboxes', 'read', ['inboxes:read'], getInboxesHandler),
+];
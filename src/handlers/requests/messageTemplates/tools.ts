@@ -0,0 +1,325 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+
+/**
+ * Message template tools
+ * Tools for managing message templates and template folders
+ */
+export const messageTemplateTools: ToolRegistration[] = [
+  // Message Template Folder tools
+  defineTool({
+    name: 'list_message_template_folders',
+    description: 'List all message template folders',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['message_templates:read'],
+    execute: async (params) => {
+      return listResults('/message_template_folders', params);
+    },
+  }),
+  defineTool({
+    name: 'create_message_template_folder',
+    description: 'Create a new message template folder',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Folder name' },
+        parent_folder_id: { type: 'string', description: 'Parent folder ID (optional)' },
+      },
+      required: ['name'],
+    },
+    access: 'write',
+    scopes: ['message_templates:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/message_template_folders', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'get_message_template_folder',
+    description: 'Get details of a message template folder',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder_id: { type: 'string', description: 'Folder ID' },
+      },
+      required: ['folder_id'],
+    },
+    access: 'read',
+    scopes: ['message_templates:read'],
+    execute: async ({ folder_id }) => {
+      const response = await frontappClient.get(`/message_template_folders/${folder_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_message_template_folder',
+    description: 'Update a message template folder',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder_id: { type: 'string', description: 'Folder ID' },
+        name: { type: 'string', description: 'Updated folder name' },
+      },
+      required: ['folder_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['message_templates:write'],
+    execute: async (params) => {
+      const { folder_id, ...data } = params;
+      const response = await frontappClient.patch(`/message_template_folders/${folder_id}`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_message_template_folder',
+    description: 'Delete a message template folder',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder_id: { type: 'string', description: 'Folder ID' },
+      },
+      required: ['folder_id'],
+    },
+    access: 'delete',
+    scopes: ['message_templates:write'],
+    execute: async ({ folder_id }) => {
+      const response = await frontappClient.delete(`/message_template_folders/${folder_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_child_folders',
+    description: 'List child folders of a message template folder',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder_id: { type: 'string', description: 'Folder ID' },
+      },
+      required: ['folder_id'],
+    },
+    access: 'read',
+    scopes: ['message_templates:read'],
+    execute: async ({ folder_id }) => {
+      const response = await frontappClient.get(`/message_template_folders/${folder_id}/children`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_child_folder',
+    description: 'Create a child folder within a message template folder',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder_id: { type: 'string', description: 'Parent folder ID' },
+        name: { type: 'string', description: 'Child folder name' },
+      },
+      required: ['folder_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['message_templates:write'],
+    execute: async (params) => {
+      const { folder_id, ...data } = params;
+      const response = await frontappClient.post(
+        `/message_template_folders/${folder_id}/children`,
+        data
+      );
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_teammate_folders',
+    description: 'List message template folders for a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+      },
+      required: ['teammate_id'],
+    },
+    access: 'read',
+    scopes: ['message_templates:read'],
+    execute: async ({ teammate_id }) => {
+      const response = await frontappClient.get(`/teammates/${teammate_id}/message_template_folders`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_teammate_folder',
+    description: 'Create a message template folder for a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+        name: { type: 'string', description: 'Folder name' },
+      },
+      required: ['teammate_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['message_templates:write'],
+    execute: async (params) => {
+      const { teammate_id, ...data } = params;
+      const response = await frontappClient.post(
+        `/teammates/${teammate_id}/message_template_folders`,
+        data
+      );
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_team_folders',
+    description: 'List message template folders for a team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+      },
+      required: ['team_id'],
+    },
+    access: 'read',
+    scopes: ['message_templates:read'],
+    execute: async ({ team_id }) => {
+      const response = await frontappClient.get(`/teams/${team_id}/message_template_folders`);
+      return response.data;
+    },
+  }),
+
+  // Message Template tools
+  defineTool({
+    name: 'list_message_templates',
+    description: 'List all message templates',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['message_templates:read'],
+    execute: async (params) => {
+      return listResults('/message_templates', params);
+    },
+  }),
+  defineTool({
+    name: 'create_message_template',
+    description: 'Create a new message template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Template name' },
+        subject: { type: 'string', description: 'Template subject' },
+        body: { type: 'string', description: 'Template body' },
+        folder_id: { type: 'string', description: 'Folder ID (optional)' },
+      },
+      required: ['name', 'body'],
+    },
+    access: 'write',
+    scopes: ['message_templates:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/message_templates', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'get_message_template',
+    description: 'Get details of a message template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        template_id: { type: 'string', description: 'Template ID' },
+      },
+      required: ['template_id'],
+    },
+    access: 'read',
+    scopes: ['message_templates:read'],
+    execute: async ({ template_id }) => {
+      const response = await frontappClient.get(`/message_templates/${template_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_message_template',
+    description: 'Update a message template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        template_id: { type: 'string', description: 'Template ID' },
+        name: { type: 'string', description: 'Updated name' },
+        subject: { type: 'string', description: 'Updated subject' },
+        body: { type: 'string', description: 'Updated body' },
+      },
+      required: ['template_id'],
+    },
+    access: 'write',
+    scopes: ['message_templates:write'],
+    execute: async (params) => {
+      const { template_id, ...data } = params;
+      const response = await frontappClient.patch(`/message_templates/${template_id}`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_message_template',
+    description: 'Delete a message template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        template_id: { type: 'string', description: 'Template ID' },
+      },
+      required: ['template_id'],
+    },
+    access: 'delete',
+    scopes: ['message_templates:write'],
+    execute: async ({ template_id }) => {
+      const response = await frontappClient.delete(`/message_templates/${template_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_child_templates',
+    description: 'List child templates of a message template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        template_id: { type: 'string', description: 'Template ID' },
+      },
+      required: ['template_id'],
+    },
+    access: 'read',
+    scopes: ['message_templates:read'],
+    execute: async ({ template_id }) => {
+      const response = await frontappClient.get(`/message_templates/${template_id}/children`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_child_template',
+    description: 'Create a child template within a message template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        template_id: { type: 'string', description: 'Parent template ID' },
+        name: { type: 'string', description: 'Child template name' },
+        body: { type: 'string', description: 'Template body' },
+      },
+      required: ['template_id', 'name', 'body'],
+    },
+    access: 'write',
+    scopes: ['message_templates:write'],
+    execute: async (params) => {
+      const { template_id, ...data } = params;
+      const response = await frontappClient.post(`/message_templates/${template_id}/children`, data);
+      return response.data;
+    },
+  }),
+];
@@ -0,0 +1,218 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+import { attachmentsProperty, postWithAttachments } from '../attachments.js';
+import { attachmentUtil } from '../../../utils/attachments.js';
+
+/**
+ * Message tools
+ * Tools for reading, sending and importing messages, and downloading their attachments
+ */
+export const messageTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_conversation_messages',
+    description: 'List all messages in a conversation in reverse chronological order (newest first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID' },
+        limit: { type: 'number', description: 'Number of results (max 100, default 50)' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['conversation_id'],
+    },
+    access: 'read',
+    scopes: ['messages:read'],
+    execute: async (params) => {
+      const { conversation_id, ...queryParams } = params;
+      return listResults(`/conversations/${conversation_id}/messages`, queryParams);
+    },
+  }),
+  defineTool({
+    name: 'get_message',
+    description: 'Get details of a specific message by ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message_id: { type: 'string', description: 'Message ID (e.g., msg_abc123)' },
+      },
+      required: ['message_id'],
+    },
+    access: 'read',
+    scopes: ['messages:read'],
+    execute: async ({ message_id }) => {
+      const response = await frontappClient.get(`/messages/${message_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'send_message',
+    description:
+      'Send a new message to a channel (creates a new conversation). To reply to an existing conversation, use reply_to_conversation.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel_id: { type: 'string', description: 'Channel ID to send from' },
+        to: { type: 'array', items: { type: 'string' }, description: 'Recipient email addresses or handles' },
+        subject: { type: 'string', description: 'Message subject' },
+        body: { type: 'string', description: 'Message body (text or HTML)' },
+        text: { type: 'string', description: 'Plain text version of body' },
+        cc: { type: 'array', items: { type: 'string' }, description: 'CC recipients' },
+        bcc: { type: 'array', items: { type: 'string' }, description: 'BCC recipients' },
+        tag_ids: { type: 'array', items: { type: 'string' }, description: 'Tags to apply' },
+        ...attachmentsProperty,
+      },
+      required: ['channel_id', 'to', 'body'],
+    },
+    access: 'write',
+    scopes: ['messages:write'],
+    execute: async (params) => {
+      const { channel_id, ...data } = params;
+      return postWithAttachments(`/channels/${channel_id}/messages`, data);
+    },
+  }),
+  defineTool({
+    name: 'reply_to_conversation',
+    description: 'Send a reply to an existing conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation ID to reply to' },
+        type: { type: 'string', enum: ['comment', 'reply'], description: 'Type of reply' },
+        body: { type: 'string', description: 'Reply body' },
+        text: { type: 'string', description: 'Plain text version' },
+        author_id: { type: 'string', description: 'Teammate ID sending the reply' },
+        channel_id: { type: 'string', description: 'Channel to send from (required for reply type)' },
+        ...attachmentsProperty,
+      },
+      required: ['conversation_id', 'type', 'body'],
+    },
+    access: 'write',
+    scopes: ['messages:write'],
+    execute: async (params) => {
+      const { conversation_id, type, ...data } = params;
+      const endpoint = type === 'comment' ? 'comments' : 'messages';
+      return postWithAttachments(`/conversations/${conversation_id}/${endpoint}`, data);
+    },
+  }),
+  defineTool({
+    name: 'receive_custom_message',
+    description: 'Receive a custom message on a channel',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel_id: { type: 'string', description: 'Channel ID' },
+        sender: { type: 'object', description: 'Sender information' },
+        body: { type: 'string', description: 'Message body' },
+        subject: { type: 'string', description: 'Message subject' },
+        metadata: { type: 'object', description: 'Message metadata' },
+      },
+      required: ['channel_id', 'sender', 'body'],
+    },
+    access: 'write',
+    scopes: ['messages:write'],
+    execute: async (params) => {
+      const { channel_id, ...data } = params;
+      const response = await frontappClient.post(`/channels/${channel_id}/incoming_messages`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'import_message',
+    description: 'Import a historical message to an inbox',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inbox_id: { type: 'string', description: 'Inbox ID' },
+        sender: { type: 'object', description: 'Sender information' },
+        to: { type: 'array', items: { type: 'string' }, description: 'Recipients' },
+        body: { type: 'string', description: 'Message body' },
+        subject: { type: 'string', description: 'Message subject' },
+        created_at: { type: 'number', description: 'Unix timestamp of original message' },
+        metadata: { type: 'object', description: 'Message metadata' },
+        ...attachmentsProperty,
+      },
+      required: ['inbox_id', 'sender', 'to', 'body', 'created_at'],
+    },
+    access: 'write',
+    scopes: ['messages:write'],
+    execute: async (params) => {
+      const { inbox_id, ...data } = params;
+      return postWithAttachments(`/inboxes/${inbox_id}/imported_messages`, data);
+    },
+  }),
+  defineTool({
+    name: 'download_attachment',
+    description:
+      'Download an attachment of a message. Returns its file name, type and size, and the text of text files and PDFs (e.g. invoices). Other files, such as screenshots, can be returned base64-encoded with include_content.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        attachment_id: {
+          type: 'string',
+          description:
+            'Attachment ID (e.g., fil_abc123), the url of an attachment in a message, or a frontapp://attachments/ URI',
+        },
+        include_content: {
+          type: 'boolean',
+          description: 'Also return the content of the file, base64-encoded (default: false)',
+        },
+      },
+      required: ['attachment_id'],
+    },
+    access: 'read',
+    scopes: ['messages:read'],
+    execute: async ({ attachment_id, include_content }) => {
+      const file = await attachmentUtil.download(attachment_id);
+      const extracted = attachmentUtil.extractText(file.content, file.contentType);
+
+      return {
+        attachment_id,
+        filename: file.filename,
+        content_type: file.contentType,
+        size: file.content.length,
+        ...(extracted && { text: extracted.text, text_truncated: extracted.truncated }),
+        ...(!extracted &&
+          !include_content && {
+            note: 'No text can be extracted from this file type. Set include_content to get the file.',
+          }),
+        ...(include_content && { content_base64: file.content.toString('base64') }),
+      };
+    },
+  }),
+  defineTool({
+    name: 'get_message_seen_status',
+    description: 'Get the seen status of a message',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message_id: { type: 'string', description: 'Message ID' },
+      },
+      required: ['message_id'],
+    },
+    access: 'read',
+    scopes: ['messages:read'],
+    execute: async ({ message_id }) => {
+      const response = await frontappClient.get(`/messages/${message_id}/seen`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'mark_message_seen',
+    description: 'Mark a message as seen by a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message_id: { type: 'string', description: 'Message ID' },
+      },
+      required: ['message_id'],
+    },
+    access: 'write',
+    scopes: ['messages:write'],
+    execute: async ({ message_id }) => {
+      const response = await frontappClient.post(`/messages/${message_id}/seen`);
+      return response.data;
+    },
+  }),
+];
@@ -0,0 +1,70 @@
+import { frontappClient } from '../../clients/frontapp/index.js';
+import { config } from '../../config/index.js';
+
+/**
+ * Input schema properties added to list tools to fetch several pages in one call
+ */
+export const paginationProperties = {
+  fetch_all: {
+    type: 'boolean',
+    description:
+      'Follow pagination and return the items of all pages, up to max_items. The result includes a next_page_token to continue from when there are more items.',
+  },
+  max_items: {
+    type: 'number',
+    description: `Maximum number of items to return across pages (implies fetch_all, capped at ${config.pagination.maxItems})`,
+  },
+};
+
+/**
+ * Get the page token from a Frontapp next page link
+ * @param next The next page link
+ * @returns The page token, if the link has one
+ */
+export function getPageToken(next: string): string | undefined {
+  try {
+    return new URL(next).searchParams.get('page_token') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fetch a list from the Frontapp API for a list tool
+ * Without fetch_all or max_items a single page is returned as is. Otherwise pages are followed
+ * until the list ends or max_items (capped by PAGINATION_MAX_ITEMS) is reached, and a summary
+ * with a continuation cursor is included.
+ * @param path The path of the list
+ * @param args The tool arguments, used as query parameters
+ * @returns The list data to send back to the LLM
+ */
+export async function listResults(path: string, args: Record<string, any>): Promise<any> {
+  const { fetch_all, max_items, ...params } = args;
+
+  if (!fetch_all && max_items === undefined) {
+    const response = await frontappClient.get(path, params);
+    return response.data;
+  }
+
+  if (max_items !== undefined && max_items <= 0) {
+    throw new Error('max_items must be a positive number');
+  }
+
+  const maxItems = Math.min(max_items ?? config.pagination.maxItems, config.pagination.maxItems);
+  const collection = await frontappClient.collect(path, params, maxItems);
+  const nextPageToken = collection.next ? getPageToken(collection.next) : undefined;
+
+  return {
+    _results: collection.results,
+    _pagination: { next: collection.next || null },
+    summary: {
+      items: collection.results.length,
+      pages: collection.pages,
+      complete: !collection.next,
+      ...(nextPageToken && {
+        next_page_token: nextPageToken,
+        message: `Stopped after ${collection.results.length} items. Call the tool again with page_token set to next_page_token to continue.`,
+      }),
+    },
+  };
+}
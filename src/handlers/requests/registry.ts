@@ -0,0 +1,530 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  FRONTAPP_TOOL_DEFINITIONS,
+  ToolArguments,
+  ToolDefinition,
+  ToolResponse,
+} from '../../models/mcp.js';
+import { RequestHandler } from './base.js';
+import { ToolDispatcher } from './dispatcher.js';
+import { tenantManager } from '../../utils/tenants.js';
+import { accessControl } from '../../utils/accessControl.js';
+import { approvalQueue, PendingAction } from '../../utils/approvalQueue.js';
+import { auditLog, AuditOutcome, ToolCallAudit } from '../../utils/auditLog.js';
+import { ErrorLogger } from '../../utils/errorLogger.js';
+import { idempotencyStore, IdempotencyKey } from '../../utils/idempotencyStore.js';
+import { nameResolver } from '../../utils/nameResolver.js';
+import { piiRedactor } from '../../utils/piiRedactor.js';
+import logger from '../../utils/logger.js';
+
+/**
+ * Tool access level
+ * Read tools only fetch data from Frontapp, write tools create or modify data, delete tools
+ * permanently delete or merge data, approve tools decide tool calls waiting for approval, and
+ * admin tools read the records the server keeps of its callers, such as the audit log
+ */
+export type ToolAccess = 'read' | 'write' | 'delete' | 'approve' | 'admin';
+
+/**
+ * Error code of tool calls the caller is not allowed to make
+ * In the JSON-RPC range reserved for server errors
+ */
+export const TOOL_FORBIDDEN_ERROR_CODE = -32003;
+
+// Argument added to every tool when the server serves several tenants
+const TENANT_ARGUMENT = {
+  type: 'string',
+  description:
+    'Front company (tenant) to run the tool for. Defaults to the tenant of the API key or session.',
+};
+
+// Argument added to write tools while idempotency keys are enabled
+const IDEMPOTENCY_KEY_ARGUMENT = {
+  type: 'string',
+  description:
+    'Unique key of this change. Repeating a call with the same key returns the original response instead of making the change again.',
+};
+
+/**
+ * A tool registered with the tool registry
+ */
+export interface ToolRegistration<T extends ToolArguments = ToolArguments> {
+  /** The tool definition exposed to clients */
+  definition: ToolDefinition;
+  /** Whether the tool reads or modifies data */
+  access: ToolAccess;
+  /** The scopes a caller needs to run the tool (e.g. conversations:read) */
+  scopes: string[];
+  /** The handler that executes the tool */
+  handler: RequestHandler<T>;
+}
+
+/**
+ * Options for defining a tool that executes a function against the Frontapp API
+ */
+export interface ToolOptions<T extends ToolArguments = ToolArguments> extends ToolDefinition {
+  /** Whether the tool reads or modifies data */
+  access: ToolAccess;
+  /** The scopes a caller needs to run the tool */
+  scopes: string[];
+  /**
+   * Execute the tool
+   * @param args The arguments passed to the tool
+   * @returns The data to send back to the LLM
+   */
+  execute(args: T): Promise<any>;
+}
+
+/**
+ * Get a readable error message from an error thrown while executing a tool
+ * Frontapp API errors carry their message in the response body
+ * @param error The error
+ * @returns The error message
+ */
+export function getToolErrorMessage(error: any): string {
+  return (
+    error?.response?.data?._error?.message ||
+    error?.response?.data?.message ||
+    error?.message ||
+    String(error)
+  );
+}
+
+/**
+ * Request handler that wraps an execute function
+ * Personal data is redacted from the result, which is serialized as JSON text, and from the
+ * messages of errors, which are returned as error responses
+ */
+class ExecuteRequestHandler<T extends ToolArguments> implements RequestHandler<T> {
+  constructor(private readonly execute: (args: T) => Promise<any>) {}
+
+  async handle(args: T): Promise<ToolResponse> {
+    try {
+      const data = await this.execute(args);
+
+      // Some endpoints (e.g. deletions) respond with 204 No Content
+      const result = data === undefined || data === '' ? { status: 'success' } : data;
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(piiRedactor.redact(result), null, 2) }],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          { type: 'text', text: `Error: ${piiRedactor.redact(getToolErrorMessage(error))}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+}
+
+/**
+ * Define a tool backed by an execute function
+ * @param options The tool definition, access level, scopes and execute function
+ * @returns The tool registration
+ */
+export function defineTool<T extends ToolArguments = ToolArguments>(
+  options: ToolOptions<T>
+): ToolRegistration<T> {
+  const { name, description, inputSchema, access, scopes, execute } = options;
+
+  return {
+    definition: { name, description, inputSchema },
+    access,
+    scopes,
+    handler: new ExecuteRequestHandler(execute),
+  };
+}
+
+/**
+ * Define a tool backed by a request handler class
+ * The tool definition is looked up in FRONTAPP_TOOL_DEFINITIONS
+ * @param name The name of the tool
+ * @param access Whether the tool reads or modifies data
+ * @param scopes The scopes a caller needs to run the tool
+ * @param handler The request handler
+ * @returns The tool registration
+ * @throws Error if no definition exists for the tool
+ */
+export function defineHandlerTool<T extends ToolArguments>(
+  name: string,
+  access: ToolAccess,
+  scopes: string[],
+  handler: RequestHandler<T>
+): ToolRegistration<T> {
+  const definition = FRONTAPP_TOOL_DEFINITIONS.find((tool) => tool.name === name);
+
+  if (!definition) {
+    throw new Error(`No tool definition found for ${name}`);
+  }
+
+  return { definition, access, scopes, handler };
+}
+
+/**
+ * Check whether a value matches a JSON schema type
+ * @param value The value to check
+ * @param type The JSON schema type
+ * @returns Whether the value matches the type
+ */
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+    case 'integer':
+      return typeof value === 'number' && !isNaN(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Validate tool arguments against the top level of the tool's input schema
+ * @param definition The tool definition
+ * @param args The arguments passed to the tool
+ * @returns A list of validation errors (empty if the arguments are valid)
+ */
+export function validateToolArguments(definition: ToolDefinition, args: ToolArguments): string[] {
+  const errors: string[] = [];
+  const { properties = {}, required = [] } = definition.inputSchema;
+
+  for (const field of required) {
+    if (args[field] === undefined || args[field] === null) {
+      errors.push(`${field} is required`);
+    }
+  }
+
+  for (const [field, schema] of Object.entries(properties)) {
+    const value = args[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    if (schema.type && !matchesType(value, schema.type)) {
+      errors.push(`${field} must be of type ${schema.type}`);
+    } else if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+      errors.push(`${field} must be one of: ${schema.enum.join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Tool registry
+ * Holds every tool exposed by the server together with its access level, scopes and handler.
+ * Both the MCP transports and the REST API dispatch tool calls through the registry.
+ */
+export class ToolRegistry implements ToolDispatcher {
+  private tools = new Map<string, ToolRegistration<any>>();
+
+  /**
+   * Register a tool
+   * @param tool The tool registration
+   * @throws Error if a tool with the same name is already registered
+   */
+  public register(tool: ToolRegistration<any>): void {
+    const { name } = tool.definition;
+
+    if (this.tools.has(name)) {
+      throw new Error(`Tool already registered: ${name}`);
+    }
+
+    this.tools.set(name, tool);
+  }
+
+  /**
+   * Register multiple tools
+   * @param tools The tool registrations
+   */
+  public registerAll(tools: ToolRegistration<any>[]): void {
+    for (const tool of tools) {
+      this.register(tool);
+    }
+  }
+
+  /**
+   * Get a registered tool
+   * @param name The name of the tool
+   * @returns The tool registration, or undefined if not found
+   */
+  public get(name: string): ToolRegistration | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Get all registered tools
+   * @returns The tool registrations
+   */
+  public list(): ToolRegistration[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * List the definitions of the registered tools the caller is allowed to use
+   * When the server serves several tenants, every tool takes a tenant argument, and while
+   * idempotency keys are enabled, write tools take an idempotency_key argument. The
+   * descriptions of ID arguments say which names can be given instead.
+   * @returns The tool definitions
+   */
+  public listTools(): ToolDefinition[] {
+    return this.list()
+      .filter((tool) => accessControl.isAllowed(tool))
+      .map(({ definition, access }) => {
+        const extraArguments: Record<string, any> = {};
+        if (access === 'write' && idempotencyStore.isEnabled()) {
+          extraArguments.idempotency_key = IDEMPOTENCY_KEY_ARGUMENT;
+        }
+        if (tenantManager.isMultiTenant()) {
+          extraArguments.tenant = TENANT_ARGUMENT;
+        }
+
+        return {
+          ...definition,
+          inputSchema: {
+            ...definition.inputSchema,
+            properties: {
+              ...nameResolver.describeArguments(definition.inputSchema.properties),
+              ...extraArguments,
+            },
+          },
+        };
+      });
+  }
+
+  /**
+   * Validate the arguments and execute a tool
+   * The tool runs for the tenant in the tenant argument, which is removed from the arguments,
+   * or else for the tenant of the caller. Tokens of redacted personal data in the arguments are
+   * replaced by the values they stand for, and names in ID arguments by IDs. Repeated calls to
+   * write tools with the same idempotency_key argument (or, if IDEMPOTENCY_DERIVED_TTL_MS is set,
+   * the same arguments) return the response of the first call. In approval mode, calls to tools
+   * that need approval are recorded as pending actions instead, and the response describes the
+   * pending action.
+   * @param name The name of the tool
+   * @param args The arguments passed to the tool
+   * @returns The tool response
+   * @throws McpError if the tool is unknown, the caller is not allowed to use it, the arguments
+   *   are invalid or the tenant is not allowed
+   */
+  public async callTool(name: string, args: ToolArguments): Promise<ToolResponse> {
+    const startedAt = Date.now();
+    const audit = (outcome: AuditOutcome, details: Partial<ToolCallAudit> = {}) =>
+      auditLog.recordToolCall({
+        tool: name,
+        arguments: args,
+        outcome,
+        latencyMs: Date.now() - startedAt,
+        ...details,
+      });
+
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      audit('invalid', { error: `Unknown tool: ${name}` });
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    const role = accessControl.current();
+    const denialReason = accessControl.getDenialReason(tool);
+    if (denialReason) {
+      logger.warn(`Tool call denied`, { name, role, reason: denialReason });
+      audit('denied', { access: tool.access, error: denialReason });
+      throw new McpError(TOOL_FORBIDDEN_ERROR_CODE, denialReason);
+    }
+
+    const { tenant: requestedTenant, idempotency_key: idempotencyKey, ...toolArgs } = args;
+
+    let tenant: string;
+    try {
+      tenant = tenantManager.resolve(requestedTenant);
+    } catch (error: any) {
+      audit('invalid', { access: tool.access, error: error.message });
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+
+    const errors = validateToolArguments(tool.definition, toolArgs);
+    if (idempotencyKey !== undefined && typeof idempotencyKey !== 'string') {
+      errors.push('idempotency_key must be of type string');
+    }
+    if (errors.length > 0) {
+      const message = `Invalid arguments for tool ${name}: ${errors.join(', ')}`;
+      audit('invalid', { access: tool.access, tenant, arguments: toolArgs, error: message });
+      throw new McpError(ErrorCode.InvalidParams, message);
+    }
+
+    // The model refers to redacted personal data by tokens, which stand for the real values,
+    // and may give teammates, tags, inboxes and channels by name instead of ID
+    let callArgs: ToolArguments;
+    try {
+      callArgs = await tenantManager.run(tenant, () =>
+        nameResolver.resolveArguments(piiRedactor.restore(toolArgs))
+      );
+    } catch (error: any) {
+      audit('invalid', { access: tool.access, tenant, arguments: toolArgs, error: error.message });
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+
+    let idempotency: IdempotencyKey | undefined;
+    if (tool.access === 'write') {
+      try {
+        idempotency = idempotencyStore.getKey(name, tenant, callArgs, idempotencyKey);
+      } catch (error: any) {
+        const details = { access: tool.access, tenant, arguments: callArgs, error: error.message };
+        audit('invalid', details);
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+    }
+
+    if (!idempotency) {
+      return this.dispatch(tool, callArgs, toolArgs, tenant, audit);
+    }
+
+    const { response, replayed } = await idempotencyStore.run(idempotency, () =>
+      this.dispatch(tool, callArgs, toolArgs, tenant, audit)
+    );
+
+    if (replayed) {
+      logger.info(`Returning the response of an earlier call`, { name, tenant, role });
+      audit('replayed', { access: tool.access, tenant, arguments: callArgs, result: response });
+    }
+
+    return response;
+  }
+
+  /**
+   * Execute a validated tool call, or record it as a pending action if it needs approval
+   * @param tool The tool
+   * @param callArgs The arguments with the real values of redacted personal data
+   * @param toolArgs The arguments as passed by the caller
+   * @param tenant The tenant to run the tool for
+   * @param audit Records the outcome of the call in the audit log
+   * @returns The tool response
+   */
+  private async dispatch(
+    tool: ToolRegistration,
+    callArgs: ToolArguments,
+    toolArgs: ToolArguments,
+    tenant: string,
+    audit: (outcome: AuditOutcome, details?: Partial<ToolCallAudit>) => void
+  ): Promise<ToolResponse> {
+    const { name } = tool.definition;
+
+    if (approvalQueue.requiresApproval(tool)) {
+      const action = approvalQueue.enqueue(name, callArgs, tenant);
+      const pending = {
+        status: 'pending_approval',
+        action_id: action.id,
+        tool: name,
+        arguments: toolArgs,
+        tenant,
+        expires_at: action.expiresAt,
+        message: `The ${name} call was not executed. It runs once a human approves action ${action.id}.`,
+      };
+
+      audit('pending_approval', {
+        access: tool.access,
+        tenant,
+        arguments: action.arguments,
+        actionId: action.id,
+      });
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(pending, null, 2) }],
+      };
+    }
+
+    const role = accessControl.current();
+    logger.info(`Executing tool`, { name, access: tool.access, role, tenant });
+
+    return this.execute(tool, callArgs, tenant, (outcome, details) =>
+      audit(outcome, { access: tool.access, tenant, arguments: callArgs, ...details })
+    );
+  }
+
+  /**
+   * Execute the tool call of an approved action
+   * The arguments were validated when the action was recorded, and are not validated again
+   * @param action The approved action
+   * @returns The tool response
+   * @throws Error if the tool of the action is no longer registered
+   */
+  public async executeAction(action: PendingAction): Promise<ToolResponse> {
+    const tool = this.tools.get(action.tool);
+
+    if (!tool) {
+      throw new Error(`Unknown tool: ${action.tool}`);
+    }
+
+    logger.info(`Executing approved tool call`, {
+      name: action.tool,
+      access: tool.access,
+      actionId: action.id,
+      tenant: action.tenant,
+    });
+
+    const startedAt = Date.now();
+    const args = approvalQueue.getArguments(action);
+    return this.execute(tool, args, action.tenant, (outcome, details) =>
+      auditLog.recordToolCall({
+        tool: action.tool,
+        access: tool.access,
+        tenant: action.tenant,
+        arguments: action.arguments,
+        outcome,
+        latencyMs: Date.now() - startedAt,
+        actionId: action.id,
+        ...details,
+      })
+    );
+  }
+
+  /**
+   * Execute a tool for a tenant and audit the outcome
+   * Failed tool calls are logged with the ID of the HTTP request that made them
+   * @param tool The tool
+   * @param args The validated arguments
+   * @param tenant The tenant to run the tool for
+   * @param audit Records the outcome of the call in the audit log
+   * @returns The tool response
+   */
+  private async execute(
+    tool: ToolRegistration,
+    args: ToolArguments,
+    tenant: string,
+    audit: (outcome: AuditOutcome, details: Partial<ToolCallAudit>) => void
+  ): Promise<ToolResponse> {
+    const { name } = tool.definition;
+
+    let response: ToolResponse;
+    try {
+      response = await tenantManager.run(tenant, () => tool.handler.handle(args));
+    } catch (error: any) {
+      const message = getToolErrorMessage(error);
+      ErrorLogger.logToolError(`Tool ${name} threw an error`, error, { tool: name, tenant });
+      audit('error', { error: message });
+      throw error;
+    }
+
+    if (response.isError) {
+      const message = response.content[0]?.text || 'Unknown error';
+      ErrorLogger.logToolError(`Tool ${name} failed`, message, { tool: name, tenant });
+      audit('error', { result: response, error: message });
+    } else {
+      audit('success', { result: response });
+    }
+
+    return response;
+  }
+}
+
+// Export a singleton instance
+export const toolRegistry = new ToolRegistry();
@@ -0,0 +1,84 @@
+import { defineTool, ToolRegistration } from '../registry.js';
+import { rulesEngine } from '../../../utils/rulesEngine.js';
+import { getTenantWebhookEvent } from '../webhookEvents/tools.js';
+
+/**
+ * Automation rule tools
+ * Tools for inspecting the webhook automation rules and testing them without side effects
+ */
+export const automationRuleTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_automation_rules',
+    description: 'List the webhook automation rules with their dry-run mode and how often they matched recently',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    access: 'read',
+    scopes: ['webhooks:read'],
+    execute: async () => {
+      return rulesEngine.getRules().map((rule) => {
+        const runs = rulesEngine.getRuns(rule.name, Infinity);
+        return {
+          ...rule,
+          enabled: rule.enabled !== false,
+          dry_run: rulesEngine.isDryRun(rule),
+          recent_runs: {
+            evaluated: runs.length,
+            matched: runs.filter((run) => run.matched).length,
+            failed_actions: runs
+              .flatMap((run) => run.actions)
+              .filter((action) => action.status === 'failed').length,
+            last_matched_at: runs.find((run) => run.matched)?.timestamp || null,
+          },
+        };
+      });
+    },
+  }),
+  defineTool({
+    name: 'list_automation_rule_runs',
+    description: 'List recent runs of the webhook automation rules, most recent first, with the outcome of each action',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        rule: { type: 'string', description: 'Only list the runs of the rule with this name' },
+        matched_only: { type: 'boolean', description: 'Only list runs where the rule matched' },
+        limit: { type: 'number', description: 'Maximum number of runs to return (default 50)' },
+      },
+    },
+    access: 'read',
+    scopes: ['webhooks:read'],
+    execute: async ({ rule, matched_only, limit }) => {
+      return rulesEngine
+        .getRuns(rule, Infinity)
+        .filter((run) => !matched_only || run.matched)
+        .slice(0, limit || 50);
+    },
+  }),
+  defineTool({
+    name: 'test_automation_rules',
+    description: 'Evaluate the automation rules against a webhook event in dry-run mode and show which rules match and what their actions would do. No changes are made.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        event_id: { type: 'string', description: 'ID of a stored webhook event to test against' },
+        event: {
+          type: 'object',
+          description: 'Webhook event to test against, e.g. { "type": "message.received", "payload": { "id": "msg_123", "conversation_id": "cnv_123" } }',
+        },
+        rule: { type: 'string', description: 'Only test the rule with this name' },
+      },
+    },
+    access: 'read',
+    scopes: ['webhooks:read', 'conversations:read'],
+    execute: async ({ event_id, event, rule }) => {
+      if (!event_id && !event) {
+        throw new Error('Either event_id or event is required');
+      }
+
+      const webhookEvent = event_id ? getTenantWebhookEvent(event_id).event : event;
+
+      return rulesEngine.evaluate(webhookEvent, { dryRun: true, rule });
+    },
+  }),
+];
@@ -0,0 +1,243 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineHandlerTool, defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+import { getTagsHandler } from './getTags.js';
+import { applyTagHandler } from './applyTag.js';
+import { removeTagHandler } from './removeTag.js';
+
+/**
+ * Tag tools
+ * Tools for managing tags and listing tagged conversations
+ */
+export const tagTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_tags',
+    description: 'List all tags in the Front account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['tags:read'],
+    execute: async (params) => {
+      return listResults('/tags', params);
+    },
+  }),
+  defineTool({
+    name: 'create_tag',
+    description: 'Create a new tag',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Tag name' },
+        highlight: {
+          type: 'string',
+          enum: ['grey', 'pink', 'red', 'orange', 'yellow', 'green', 'light-blue', 'blue', 'purple'],
+          description: 'Tag color',
+        },
+        is_private: { type: 'boolean', description: 'Whether tag is private' },
+      },
+      required: ['name'],
+    },
+    access: 'write',
+    scopes: ['tags:write'],
+    execute: async (params) => {
+      const response = await frontappClient.post('/tags', params);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'get_tag',
+    description: 'Get details of a specific tag',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag_id: { type: 'string', description: 'Tag ID' },
+      },
+      required: ['tag_id'],
+    },
+    access: 'read',
+    scopes: ['tags:read'],
+    execute: async ({ tag_id }) => {
+      const response = await frontappClient.get(`/tags/${tag_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_tag',
+    description: 'Update a tag',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag_id: { type: 'string', description: 'Tag ID' },
+        name: { type: 'string', description: 'Updated tag name' },
+        highlight: { type: 'string', description: 'Updated tag color' },
+      },
+      required: ['tag_id'],
+    },
+    access: 'write',
+    scopes: ['tags:write'],
+    execute: async (params) => {
+      const { tag_id, ...data } = params;
+      const response = await frontappClient.patch(`/tags/${tag_id}`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'delete_tag',
+    description: 'Delete a tag',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag_id: { type: 'string', description: 'Tag ID' },
+      },
+      required: ['tag_id'],
+    },
+    access: 'delete',
+    scopes: ['tags:write'],
+    execute: async ({ tag_id }) => {
+      const response = await frontappClient.delete(`/tags/${tag_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_tag_children',
+    description: 'List child tags of a tag',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag_id: { type: 'string', description: 'Tag ID' },
+      },
+      required: ['tag_id'],
+    },
+    access: 'read',
+    scopes: ['tags:read'],
+    execute: async ({ tag_id }) => {
+      const response = await frontappClient.get(`/tags/${tag_id}/children`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_child_tag',
+    description: 'Create a child tag',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag_id: { type: 'string', description: 'Parent tag ID' },
+        name: { type: 'string', description: 'Child tag name' },
+        highlight: { type: 'string', description: 'Tag color' },
+      },
+      required: ['tag_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['tags:write'],
+    execute: async (params) => {
+      const { tag_id, ...data } = params;
+      const response = await frontappClient.post(`/tags/${tag_id}/children`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_tagged_conversations',
+    description: 'List all conversations with a specific tag',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag_id: { type: 'string', description: 'Tag ID' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['tag_id'],
+    },
+    access: 'read',
+    scopes: ['tags:read'],
+    execute: async (params) => {
+      const { tag_id, ...queryParams } = params;
+      return listResults(`/tags/${tag_id}/conversations`, queryParams);
+    },
+  }),
+  defineTool({
+    name: 'list_teammate_tags',
+    description: 'List tags for a specific teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+      },
+      required: ['teammate_id'],
+    },
+    access: 'read',
+    scopes: ['tags:read'],
+    execute: async ({ teammate_id }) => {
+      const response = await frontappClient.get(`/teammates/${teammate_id}/tags`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_teammate_tag',
+    description: 'Create a tag for a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+        name: { type: 'string', description: 'Tag name' },
+        highlight: { type: 'string', description: 'Tag color' },
+      },
+      required: ['teammate_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['tags:write'],
+    execute: async (params) => {
+      const { teammate_id, ...data } = params;
+      const response = await frontappClient.post(`/teammates/${teammate_id}/tags`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_team_tags',
+    description: 'List tags for a specific team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+      },
+      required: ['team_id'],
+    },
+    access: 'read',
+    scopes: ['tags:read'],
+    execute: async ({ team_id }) => {
+      const response = await frontappClient.get(`/teams/${team_id}/tags`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'create_team_tag',
+    description: 'Create a tag for a team',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        team_id: { type: 'string', description: 'Team ID' },
+        name: { type: 'string', description: 'Tag name' },
+        highlight: { type: 'string', description: 'Tag color' },
+      },
+      required: ['team_id', 'name'],
+    },
+    access: 'write',
+    scopes: ['tags:write'],
+    execute: async (params) => {
+      const { team_id, ...data } = params;
+      const response = await frontappClient.post(`/teams/${team_id}/tags`, data);
+      return response.data;
+    },
+  }),
+
+  // Tools backed by request handler classes
+  defineHandlerTool('get_tags', 'read', ['tags:read'], getTagsHandler),
+  defineHandlerTool('apply_tag', 'write', ['tags:write'], applyTagHandler),
+  defineHandlerTool('remove_tag', 'write', ['tags:write'], removeTagHandler),
+];
@@ -0,0 +1,107 @@
+import { frontappClient } from '../../../clients/frontapp/index.js';
+import { defineHandlerTool, defineTool, ToolRegistration } from '../registry.js';
+import { listResults, paginationProperties } from '../pagination.js';
+import { getTeammatesHandler } from './getTeammates.js';
+
+/**
+ * Teammate tools
+ * Tools for reading and updating teammates
+ */
+export const teammateTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_teammates',
+    description: 'List all teammates in the Front account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+    },
+    access: 'read',
+    scopes: ['teammates:read'],
+    execute: async (params) => {
+      return listResults('/teammates', params);
+    },
+  }),
+  defineTool({
+    name: 'get_teammate',
+    description: 'Get details of a specific teammate by ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID (e.g., tea_abc123)' },
+      },
+      required: ['teammate_id'],
+    },
+    access: 'read',
+    scopes: ['teammates:read'],
+    execute: async ({ teammate_id }) => {
+      const response = await frontappClient.get(`/teammates/${teammate_id}`);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'update_teammate',
+    description: 'Update a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+        username: { type: 'string', description: 'Updated username' },
+        first_name: { type: 'string', description: 'Updated first name' },
+        last_name: { type: 'string', description: 'Updated last name' },
+        is_available: { type: 'boolean', description: 'Updated availability status' },
+      },
+      required: ['teammate_id'],
+    },
+    access: 'write',
+    scopes: ['teammates:write'],
+    execute: async (params) => {
+      const { teammate_id, ...data } = params;
+      const response = await frontappClient.patch(`/teammates/${teammate_id}`, data);
+      return response.data;
+    },
+  }),
+  defineTool({
+    name: 'list_teammate_conversations',
+    description: 'List conversations assigned to a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+        limit: { type: 'number', description: 'Number of results' },
+        page_token: { type: 'string', description: 'Pagination token' },
+        ...paginationProperties,
+      },
+      required: ['teammate_id'],
+    },
+    access: 'read',
+    scopes: ['teammates:read'],
+    execute: async (params) => {
+      const { teammate_id, ...queryParams } = params;
+      return listResults(`/teammates/${teammate_id}/conversations`, queryParams);
+    },
+  }),
+  defineTool({
+    name: 'list_teammate_inboxes',
+    description: 'List inboxes accessible to a teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        teammate_id: { type: 'string', description: 'Teammate ID' },
+      },
+      required: ['teammate_id'],
+    },
+    access: 'read',
+    scopes: ['teammates:read'],
+    execute: async ({ teammate_id }) => {
+      const response = await frontappClient.get(`/teammates/${teammate_id}/inboxes`);
+      return response.data;
+    },
+  }),
+
+  // Tools backed by request handler classes
+  defineHandlerTool('get_teammates', 'read', ['teammates:read'], getTeammatesHandler),
+];
@@ -0,0 +1,110 @@
+import { defineTool, ToolRegistration } from '../registry.js';
+import { StoredWebhookEvent, webhookEventStore } from '../../../utils/webhookEventStore.js';
+import { DEFAULT_TENANT, tenantManager } from '../../../utils/tenants.js';
+import { getWebhookServer, replayWebhookEvent } from '../../webhooks/index.js';
+
+/**
+ * Get a stored webhook event of the current tenant
+ * @param id The event ID
+ * @returns The stored event
+ * @throws Error if the event is not in the store or belongs to another tenant
+ */
+export function getTenantWebhookEvent(id: string): StoredWebhookEvent {
+  const event = webhookEventStore.get(id);
+  if (!event || (event.tenant || DEFAULT_TENANT) !== tenantManager.current()) {
+    throw new Error(`Webhook event not found: ${id}`);
+  }
+  return event;
+}
+
+/**
+ * Webhook event tools
+ * Tools for inspecting the webhook event store and recovering events from the dead-letter queue.
+ * The tools only see the events of the tenant they run for.
+ */
+export const webhookEventTools: ToolRegistration[] = [
+  defineTool({
+    name: 'list_webhook_events',
+    description: 'List received webhook events, most recent first. Failed events are in the dead-letter queue and can be replayed or discarded.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          description: 'Filter by processing status',
+          enum: ['received', 'processed', 'failed', 'discarded'],
+        },
+        type: { type: 'string', description: 'Filter by webhook event type (e.g., conversation.created)' },
+        limit: { type: 'number', description: 'Maximum number of events to return (default 50)' },
+      },
+    },
+    access: 'read',
+    scopes: ['webhooks:read'],
+    execute: async ({ status, type, limit }) => {
+      const tenant = tenantManager.current();
+      const events = webhookEventStore.list({ status, type, tenant, limit: limit || 50 });
+      return {
+        stats: webhookEventStore.getStats(tenant),
+        events: events.map(({ event, ...summary }) => summary),
+      };
+    },
+  }),
+  defineTool({
+    name: 'get_webhook_event',
+    description: 'Get a stored webhook event with its payload, processing status and last error',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        event_id: { type: 'string', description: 'Webhook event ID' },
+      },
+      required: ['event_id'],
+    },
+    access: 'read',
+    scopes: ['webhooks:read'],
+    execute: async ({ event_id }) => getTenantWebhookEvent(event_id),
+  }),
+  defineTool({
+    name: 'replay_webhook_event',
+    description: 'Process a stored webhook event again, e.g. to recover a failed event from the dead-letter queue. Processed and discarded events are only replayed with force, as their automation rules run again.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        event_id: { type: 'string', description: 'Webhook event ID' },
+        force: {
+          type: 'boolean',
+          description: 'Replay the event even if it was processed or discarded (default false)',
+        },
+      },
+      required: ['event_id'],
+    },
+    access: 'write',
+    scopes: ['webhooks:write'],
+    execute: async ({ event_id, force }) => {
+      getTenantWebhookEvent(event_id);
+      const { event, ...summary } = await replayWebhookEvent(
+        event_id,
+        getWebhookServer(),
+        force === true
+      );
+      return summary;
+    },
+  }),
+  defineTool({
+    name: 'discard_webhook_event',
+    description: 'Discard a failed webhook event, removing it from the dead-letter queue without processing it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        event_id: { type: 'string', description: 'Webhook event ID' },
+      },
+      required: ['event_id'],
+    },
+    access: 'write',
+    scopes: ['webhooks:write'],
+    execute: async ({ event_id }) => {
+      getTenantWebhookEvent(event_id);
+      const { event, ...summary } = webhookEventStore.markDiscarded(event_id);
+      return summary;
+    },
+  }),
+];
@@ -0,0 +1,302 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { frontappClient } from '../../clients/frontapp/index.js';
+import { config } from '../../config/index.js';
+import { transcriptUtil } from '../../utils/transcript.js';
+import { attachmentUtil } from '../../utils/attachments.js';
+import { piiRedactor } from '../../utils/piiRedactor.js';
+import { accessControl } from '../../utils/accessControl.js';
+import { toolRegistry, TOOL_FORBIDDEN_ERROR_CODE } from '../requests/registry.js';
+import { resourceSubscriptionManager } from './subscriptions.js';
+
+// Front resource IDs, e.g. cnv_123 or fil_abc123
+const RESOURCE_ID_PATTERN = /^[a-z]{2,4}_[A-Za-z0-9]+$/;
+
+/**
+ * The content of a resource returned to the client
+ * Text content is returned as text, and binary content base64-encoded as blob
+ */
+interface ResourceContent {
+  uri: string;
+  mimeType: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * A static resource exposed by the MCP server
+ */
+interface StaticResource {
+  uri: string;
+  name: string;
+  description: string;
+  /** The tool that reads the same data; callers may only read the resource if they may use it */
+  tool: string;
+  /** Fetch the resource data from Frontapp */
+  read(): Promise<any>;
+}
+
+/**
+ * A resource template exposed by the MCP server
+ */
+interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  /** The tool that reads the same data; callers may only read the resource if they may use it */
+  tool: string;
+  /** Matches URIs of the template and captures the resource ID */
+  pattern: RegExp;
+  /**
+   * Read a resource of the template
+   * @param uri The resource URI
+   * @param id The resource ID captured from the URI
+   * @returns The resource contents
+   */
+  read(uri: string, id: string): Promise<ResourceContent[]>;
+}
+
+/**
+ * Create a JSON resource content
+ * Personal data is redacted like in tool results, with the same tokens
+ * @param uri The resource URI
+ * @param data The resource data
+ * @returns The resource content
+ */
+function jsonContent(uri: string, data: any): ResourceContent {
+  return {
+    uri,
+    mimeType: 'application/json',
+    text: JSON.stringify(piiRedactor.redact(data), null, 2),
+  };
+}
+
+// Resources that are always available
+const STATIC_RESOURCES: StaticResource[] = [
+  {
+    uri: 'frontapp://conversations/recent',
+    tool: 'list_conversations',
+    name: 'Recent Conversations',
+    description: 'Most recently updated conversations',
+    read: async () => (await frontappClient.get('/conversations', { limit: 20 })).data,
+  },
+  {
+    uri: 'frontapp://teammates',
+    tool: 'list_teammates',
+    name: 'Teammates',
+    description: 'List of all teammates',
+    read: async () => (await frontappClient.getTeammates()).data,
+  },
+  {
+    uri: 'frontapp://inboxes',
+    tool: 'list_inboxes',
+    name: 'Inboxes',
+    description: 'List of all inboxes',
+    read: async () => (await frontappClient.getInboxes()).data,
+  },
+  {
+    uri: 'frontapp://tags',
+    tool: 'list_tags',
+    name: 'Tags',
+    description: 'List of all tags',
+    read: async () => (await frontappClient.getTags()).data,
+  },
+];
+
+// Resources addressed by ID
+const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'frontapp://conversations/{conversation_id}',
+    tool: 'get_conversation',
+    name: 'Conversation',
+    description:
+      'A conversation rendered as a readable transcript of its messages and comments, followed by the raw JSON',
+    mimeType: 'text/markdown',
+    pattern: /^frontapp:\/\/conversations\/([^/]+)$/,
+    read: async (uri, conversationId) => {
+      const maxItems = config.pagination.maxItems;
+
+      // Fetch the conversation with all pages of its messages and comments
+      const [conversation, messages, comments] = await Promise.all([
+        frontappClient.getConversation(conversationId),
+        frontappClient.collect(`/conversations/${conversationId}/messages`, {}, maxItems),
+        frontappClient.collect(`/conversations/${conversationId}/comments`, {}, maxItems),
+      ]);
+
+      const data = {
+        conversation: conversation.data,
+        messages: messages.results,
+        comments: comments.results,
+      };
+      const entries = transcriptUtil.buildEntries(data.messages, data.comments);
+
+      return [
+        {
+          uri,
+          mimeType: 'text/markdown',
+          text: piiRedactor.redact(transcriptUtil.renderMarkdown(data.conversation, entries)),
+        },
+        jsonContent(uri, data),
+      ];
+    },
+  },
+  {
+    uriTemplate: 'frontapp://conversations/{conversation_id}/messages',
+    tool: 'list_conversation_messages',
+    name: 'Conversation messages',
+    description: 'The messages of a conversation',
+    mimeType: 'application/json',
+    pattern: /^frontapp:\/\/conversations\/([^/]+)\/messages$/,
+    read: async (uri, conversationId) => [
+      jsonContent(uri, (await frontappClient.getConversationMessages(conversationId)).data),
+    ],
+  },
+  {
+    uriTemplate: 'frontapp://contacts/{contact_id}',
+    tool: 'get_contact',
+    name: 'Contact',
+    description: 'A contact',
+    mimeType: 'application/json',
+    pattern: /^frontapp:\/\/contacts\/([^/]+)$/,
+    read: async (uri, contactId) => [
+      jsonContent(uri, (await frontappClient.getContact(contactId)).data),
+    ],
+  },
+  {
+    uriTemplate: 'frontapp://attachments/{attachment_id}',
+    tool: 'download_attachment',
+    name: 'Attachment',
+    description:
+      'An attachment of a message, e.g. fil_abc123. Text files and PDFs also include their extracted text.',
+    mimeType: 'application/octet-stream',
+    pattern: /^frontapp:\/\/attachments\/([^/]+)$/,
+    read: async (uri, attachmentId) => {
+      const file = await attachmentUtil.download(attachmentId);
+      const blob = { uri, mimeType: file.contentType, blob: file.content.toString('base64') };
+
+      const extracted = attachmentUtil.extractText(file.content, file.contentType);
+      if (!extracted) {
+        return [blob];
+      }
+
+      // The file holds the personal data of its text, so only the redacted text is returned
+      const text = { uri, mimeType: 'text/plain', text: piiRedactor.redact(extracted.text) };
+      return piiRedactor.isEnabled() ? [text] : [blob, text];
+    },
+  },
+  {
+    uriTemplate: 'frontapp://accounts/{account_id}',
+    tool: 'get_account',
+    name: 'Account',
+    description: 'An account',
+    mimeType: 'application/json',
+    pattern: /^frontapp:\/\/accounts\/([^/]+)$/,
+    read: async (uri, accountId) => [
+      jsonContent(uri, (await frontappClient.get(`/accounts/${accountId}`)).data),
+    ],
+  },
+];
+
+/**
+ * Get the reason the current caller may not read the resources of a tool
+ * The access control of the tool applies: its access level, the caller's role and the tool
+ * allow and deny lists
+ * @param name The name of the tool
+ * @returns The reason, or undefined if the resources may be read
+ */
+function getDenialReason(name: string): string | undefined {
+  const tool = toolRegistry.get(name);
+  return tool ? accessControl.getDenialReason(tool) : `Tool ${name} is not available`;
+}
+
+/**
+ * Check that the current caller may read the resources of a tool
+ * @param name The name of the tool
+ * @throws McpError if the caller may not use the tool
+ */
+function authorize(name: string): void {
+  const reason = getDenialReason(name);
+  if (reason) {
+    throw new McpError(TOOL_FORBIDDEN_ERROR_CODE, reason);
+  }
+}
+
+/**
+ * Read a resource by URI
+ * Static resources take precedence over resource templates
+ * @param uri The resource URI
+ * @returns The resource contents
+ * @throws McpError if the resource is unknown, its ID is not a Front resource ID, or the caller
+ * may not use the tool that reads the same data
+ */
+export async function readResource(uri: string): Promise<ResourceContent[]> {
+  const resource = STATIC_RESOURCES.find((item) => item.uri === uri);
+  if (resource) {
+    authorize(resource.tool);
+    return [jsonContent(uri, await resource.read())];
+  }
+
+  for (const template of RESOURCE_TEMPLATES) {
+    const match = template.pattern.exec(uri);
+    if (match) {
+      authorize(template.tool);
+
+      // The ID is part of Front API paths, so it must not reach other endpoints
+      let id: string;
+      try {
+        id = decodeURIComponent(match[1]);
+      } catch {
+        id = '';
+      }
+      if (!RESOURCE_ID_PATTERN.test(id)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid resource ID in ${uri}`);
+      }
+      return template.read(uri, id);
+    }
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+/**
+ * Set up resource handlers for the MCP server
+ * Clients can subscribe to resources to be notified when they change. Only the resources the
+ * caller may read are listed.
+ * @param server The MCP server instance
+ */
+export function setupResourceHandlers(server: Server): void {
+  resourceSubscriptionManager.register(server);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: STATIC_RESOURCES.filter((resource) => !getDenialReason(resource.tool)).map(
+      ({ uri, name, description }) => ({
+        uri,
+        name,
+        description,
+        mimeType: 'application/json',
+      })
+    ),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES.filter((template) => !getDenialReason(template.tool)).map(
+      ({ uriTemplate, name, description, mimeType }) => ({
+        uriTemplate,
+        name,
+        description,
+        mimeType,
+      })
+    ),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: await readResource(request.params.uri.toString()),
+  }));
+}
@@ -0,0 +1,161 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { tenantManager } from '../../utils/tenants.js';
+import logger from '../../utils/logger.js';
+
+/**
+ * Get the resource URI of a conversation
+ * @param conversationId The conversation ID
+ * @returns The resource URI
+ */
+export function conversationResourceUri(conversationId: string): string {
+  return `frontapp://conversations/${conversationId}`;
+}
+
+/**
+ * Get the resource URI of a contact
+ * @param contactId The contact ID
+ * @returns The resource URI
+ */
+export function contactResourceUri(contactId: string): string {
+  return `frontapp://contacts/${contactId}`;
+}
+
+/**
+ * The resources an MCP server has subscribed to
+ */
+interface ServerSubscriptions {
+  /** The tenant of the server's session, set when it subscribes */
+  tenant?: string;
+  uris: Set<string>;
+}
+
+/**
+ * Resource subscription manager
+ * Keeps track of the resources each connected MCP server has subscribed to and sends
+ * notifications/resources/updated to the subscribers when a resource changes.
+ * With the HTTP transport every session has its own server, so a single change
+ * may be sent to several clients. Servers are only notified of changes in the tenant
+ * their session runs for.
+ */
+export class ResourceSubscriptionManager {
+  private subscriptions = new Map<Server, ServerSubscriptions>();
+
+  /**
+   * Register an MCP server
+   * Installs the resources/subscribe and resources/unsubscribe handlers on the server
+   * and forgets its subscriptions when it closes
+   * @param server The MCP server instance
+   */
+  public register(server: Server): void {
+    this.subscriptions.set(server, { uris: new Set() });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscribe(server, request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.unsubscribe(server, request.params.uri);
+      return {};
+    });
+
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      previousOnClose?.();
+      this.subscriptions.delete(server);
+    };
+  }
+
+  /**
+   * Subscribe a server to a resource of the current tenant
+   * @param server The MCP server instance
+   * @param uri The resource URI
+   */
+  public subscribe(server: Server, uri: string): void {
+    let subscriptions = this.subscriptions.get(server);
+    if (!subscriptions) {
+      subscriptions = { uris: new Set() };
+      this.subscriptions.set(server, subscriptions);
+    }
+
+    subscriptions.tenant = tenantManager.current();
+    subscriptions.uris.add(uri);
+    logger.debug('Resource subscribed', { uri, tenant: subscriptions.tenant });
+  }
+
+  /**
+   * Unsubscribe a server from a resource
+   * @param server The MCP server instance
+   * @param uri The resource URI
+   */
+  public unsubscribe(server: Server, uri: string): void {
+    this.subscriptions.get(server)?.uris.delete(uri);
+    logger.debug('Resource unsubscribed', { uri });
+  }
+
+  /**
+   * Get the servers subscribed to a resource of a tenant
+   * @param uri The resource URI
+   * @param tenant The tenant
+   * @returns The subscribed servers
+   */
+  private getSubscribers(uri: string, tenant: string): Server[] {
+    return Array.from(this.subscriptions.entries())
+      .filter(([, subscriptions]) => subscriptions.tenant === tenant && subscriptions.uris.has(uri))
+      .map(([server]) => server);
+  }
+
+  /**
+   * Check whether any server is subscribed to a resource of a tenant
+   * @param uri The resource URI
+   * @param tenant The tenant (defaults to the tenant of the code that is running)
+   * @returns Whether the resource has subscribers
+   */
+  public hasSubscribers(uri: string, tenant: string = tenantManager.current()): boolean {
+    return this.getSubscribers(uri, tenant).length > 0;
+  }
+
+  /**
+   * Notify the subscribers of a resource of a tenant that it has been updated
+   * Failures to reach a subscriber are logged and don't affect the other subscribers
+   * @param uri The resource URI
+   * @param tenant The tenant (defaults to the tenant of the code that is running)
+   * @returns The number of servers that were notified
+   */
+  public async notifyResourceUpdated(
+    uri: string,
+    tenant: string = tenantManager.current()
+  ): Promise<number> {
+    const subscribers = this.getSubscribers(uri, tenant);
+
+    await Promise.all(
+      subscribers.map(async (server) => {
+        try {
+          await server.sendResourceUpdated({ uri });
+        } catch (error: any) {
+          logger.warn('Failed to send resource updated notification', {
+            uri,
+            error: error.message,
+          });
+        }
+      })
+    );
+
+    if (subscribers.length > 0) {
+      logger.info('Resource updated notification sent', {
+        uri,
+        tenant,
+        subscribers: subscribers.length,
+      });
+    }
+
+    return subscribers.length;
+  }
+}
+
+// Export a singleton instance
+export const resourceSubscriptionManager = new ResourceSubscriptionManager();
@@ -3,12 +3,24 @@ import { WebhookPayload } from '../../models/frontapp.js';
 import logger from '../../utils/logger.js';
 import ErrorLogger from '../../utils/errorLogger.js';
 import webhookRetryManager from '../../utils/webhookRetry.js';
+import {
+  contactResourceUri,
+  conversationResourceUri,
+  resourceSubscriptionManager,
+} from '../resources/subscriptions.js';
 
 /**
  * Base interface for all webhook handlers
  * This provides a consistent structure for handling Frontapp webhooks
  */
 export interface WebhookHandler {
+  /**
+   * Validate a webhook from Frontapp without processing it
+   * @param payload The webhook payload
+   * @throws Error if the payload is invalid
+   */
+  validate(payload: any): void;
+
   /**
    * Handle a webhook from Frontapp
    * @param payload The webhook payload
@@ -36,6 +48,15 @@ export abstract class BaseWebhookHandler implements WebhookHandler {
    */
   protected abstract process(payload: any, server: Server): Promise<void>;
 
+  /**
+   * Validate a webhook from Frontapp without processing it
+   * @param payload The webhook payload
+   * @throws Error if the payload is invalid
+   */
+  validate(payload: any): void {
+    this.validatePayload(payload);
+  }
+
   /**
    * Handle a webhook from Frontapp
    * This method validates the payload and then processes it with retry logic
@@ -77,6 +98,22 @@ export abstract class BaseWebhookHandler implements WebhookHandler {
     }
   }
 
+  /**
+   * Notify MCP clients subscribed to a conversation that it has changed
+   * @param conversationId The conversation ID
+   */
+  protected async notifyConversationUpdated(conversationId: string): Promise<void> {
+    await resourceSubscriptionManager.notifyResourceUpdated(conversationResourceUri(conversationId));
+  }
+
+  /**
+   * Notify MCP clients subscribed to a contact that it has changed
+   * @param contactId The contact ID
+   */
+  protected async notifyContactUpdated(contactId: string): Promise<void> {
+    await resourceSubscriptionManager.notifyResourceUpdated(contactResourceUri(contactId));
+  }
+
   /**
    * Log a webhook event
    * @param type The type of webhook event
@@ -39,6 +39,9 @@ export class ContactUpdatedHandler extends BaseWebhookHandler {
       // Get the contact ID from the payload
       const contactId = payload.payload.id;
 
+      // Notify MCP clients subscribed to the contact
+      await this.notifyContactUpdated(contactId);
+
       // Fetch the contact details
       const contactResponse = await frontappClient.getContact(contactId);
       const contact = contactResponse.data;
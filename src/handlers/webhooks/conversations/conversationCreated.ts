@@ -2,6 +2,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BaseWebhookHandler } from '../base.js';
 import { WebhookEventType, WebhookPayload } from '../../../models/frontapp.js';
 import { frontappClient } from '../../../clients/frontapp/index.js';
+import logger from '../../../utils/logger.js';
 
 /**
  * Handler for conversation.created webhook events
@@ -38,25 +39,26 @@ export class ConversationCreatedHandler extends BaseWebhookHandler {
       // Get the conversation ID from the payload
       const conversationId = payload.payload.id;
 
+      // Notify MCP clients subscribed to the conversation
+      await this.notifyConversationUpdated(conversationId);
+
       // Fetch the full conversation details from Frontapp
       const response = await frontappClient.getConversation(conversationId);
       const conversation = response.data;
 
       // Log the conversation details
-      console.log(`[Webhook] New conversation created: ${conversation.id}`);
-      console.log(`[Webhook] Subject: ${conversation.subject || '(No subject)'}`);
-      console.log(`[Webhook] Status: ${conversation.status}`);
-
-      // Here you could implement additional logic such as:
-      // - Automatically tagging conversations based on content
-      // - Assigning conversations to teammates based on rules
-      // - Sending notifications to external systems
-      // - Updating LLM context with new conversation information
+      logger.info(`[Webhook] New conversation created`, {
+        conversationId: conversation.id,
+        subject: conversation.subject || '(No subject)',
+        status: conversation.status,
+      });
 
-      // For now, we'll just log the event
-      console.log('[Webhook] Conversation created event processed successfully');
+      logger.info('[Webhook] Conversation created event processed successfully');
     } catch (error: any) {
-      console.error(`[Webhook] Error processing conversation created event: ${error.message}`);
+      logger.error(`[Webhook] Error processing conversation created event`, {
+        error: error.message,
+        stack: error.stack,
+      });
       throw error;
     }
   }
@@ -40,6 +40,9 @@ export class ConversationUntaggedHandler extends BaseWebhookHandler {
       const conversationId = payload.payload.id;
       const tagId = payload.payload.tag_id;
 
+      // Notify MCP clients subscribed to the conversation
+      await this.notifyConversationUpdated(conversationId);
+
       // Fetch the conversation details
       const conversationResponse = await frontappClient.getConversation(conversationId);
       const conversation = conversationResponse.data;
@@ -2,6 +2,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BaseWebhookHandler } from '../base.js';
 import { WebhookEventType, WebhookPayload } from '../../../models/frontapp.js';
 import { frontappClient } from '../../../clients/frontapp/index.js';
+import logger from '../../../utils/logger.js';
 
 /**
  * Handler for conversation.updated webhook events
@@ -38,42 +39,30 @@ export class ConversationUpdatedHandler extends BaseWebhookHandler {
       // Get the conversation ID from the payload
       const conversationId = payload.payload.id;
 
+      // Notify MCP clients subscribed to the conversation
+      await this.notifyConversationUpdated(conversationId);
+
       // Fetch the full conversation details from Frontapp
       const response = await frontappClient.getConversation(conversationId);
       const conversation = response.data;
 
       // Log the conversation details
-      console.log(`[Webhook] Conversation updated: ${conversation.id}`);
-      console.log(`[Webhook] Subject: ${conversation.subject || '(No subject)'}`);
-      console.log(`[Webhook] Status: ${conversation.status}`);
-
-      // Check if the conversation has an assignee
-      if (conversation.assignee) {
-        console.log(
-          `[Webhook] Assigned to: ${conversation.assignee.first_name} ${conversation.assignee.last_name}`
-        );
-      } else {
-        console.log('[Webhook] Conversation is unassigned');
-      }
-
-      // Check if the conversation has tags
-      if (conversation.tags && conversation.tags.length > 0) {
-        console.log(
-          `[Webhook] Tags: ${conversation.tags.map((tag: { name: string }) => tag.name).join(', ')}`
-        );
-      } else {
-        console.log('[Webhook] Conversation has no tags');
-      }
-
-      // Here you could implement additional logic such as:
-      // - Triggering automated workflows based on conversation updates
-      // - Sending notifications to external systems
-      // - Updating LLM context with updated conversation information
+      logger.info(`[Webhook] Conversation updated`, {
+        conversationId: conversation.id,
+        subject: conversation.subject || '(No subject)',
+        status: conversation.status,
+        assignee: conversation.assignee
+          ? `${conversation.assignee.first_name} ${conversation.assignee.last_name}`
+          : null,
+        tags: (conversation.tags || []).map((tag: { name: string }) => tag.name),
+      });
 
-      // For now, we'll just log the event
-      console.log('[Webhook] Conversation updated event processed successfully');
+      logger.info('[Webhook] Conversation updated event processed successfully');
     } catch (error: any) {
-      console.error(`[Webhook] Error processing conversation updated event: ${error.message}`);
+      logger.error(`[Webhook] Error processing conversation updated event`, {
+        error: error.message,
+        stack: error.stack,
+      });
       throw error;
     }
   }
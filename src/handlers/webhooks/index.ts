@@ -1,9 +1,22 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import express, { Request, Response } from 'express';
 import { WebhookEventType } from '../../models/frontapp.js';
+import { WebhookHandler } from './base.js';
 import { config } from '../../config/index.js';
 import { captureRawBody, verifyWebhookSignature } from '../../middleware/webhookAuth.js';
 import { webhookSubscriptionManager } from '../../utils/webhookSubscription.js';
+import {
+  getWebhookEventId,
+  StoredWebhookEvent,
+  WebhookEventStatus,
+  webhookEventStore,
+} from '../../utils/webhookEventStore.js';
+import { webhookQueue } from '../../utils/webhookQueue.js';
+import { metricsTracker } from '../../utils/monitoring.js';
+import { rulesEngine } from '../../utils/rulesEngine.js';
+import { frontappClient } from '../../clients/frontapp/index.js';
+import { frontappRateLimiter } from '../../utils/frontappRateLimiter.js';
+import { DEFAULT_TENANT, tenantManager } from '../../utils/tenants.js';
 import logger from '../../utils/logger.js';
 import ErrorLogger from '../../utils/errorLogger.js';
 
@@ -23,6 +36,310 @@ import { messageCreatedHandler } from './messages/messageCreated.js';
 import { contactCreatedHandler } from './contacts/contactCreated.js';
 import { contactUpdatedHandler } from './contacts/contactUpdated.js';
 
+/**
+ * Webhook handlers by event type
+ */
+const WEBHOOK_HANDLERS: Record<string, WebhookHandler> = {
+  // Conversation webhook handlers
+  [WebhookEventType.CONVERSATION_CREATED]: conversationCreatedHandler,
+  'conversation.updated': conversationUpdatedHandler, // Using string as it might not be in the enum
+  [WebhookEventType.CONVERSATION_TAGGED]: conversationTaggedHandler,
+  [WebhookEventType.CONVERSATION_UNTAGGED]: conversationUntaggedHandler,
+  [WebhookEventType.CONVERSATION_ASSIGNED]: conversationAssignedHandler,
+  [WebhookEventType.CONVERSATION_UNASSIGNED]: conversationUnassignedHandler,
+
+  // Message webhook handlers
+  [WebhookEventType.MESSAGE_RECEIVED]: messageReceivedHandler,
+  'message.created': messageCreatedHandler, // Using string as it might not be in the enum
+
+  // Contact webhook handlers
+  [WebhookEventType.CONTACT_CREATED]: contactCreatedHandler,
+  [WebhookEventType.CONTACT_UPDATED]: contactUpdatedHandler,
+};
+
+// Statuses of the stored events that can be replayed without forcing it
+const REPLAYABLE_STATUSES: WebhookEventStatus[] = ['failed', 'received'];
+
+// The MCP server webhook events are handled on behalf of, once the webhook route is created
+let webhookServer: Server | undefined;
+
+/**
+ * Get the MCP server webhook events are handled on behalf of
+ * @returns The MCP server, or undefined if this process doesn't receive webhooks
+ */
+export function getWebhookServer(): Server | undefined {
+  return webhookServer;
+}
+
+/**
+ * Validate the payload of a webhook event against the webhook handler for its type
+ * Events of unhandled types are accepted and logged when they are processed
+ * @param event The webhook event
+ * @throws Error if the payload is invalid
+ */
+export function validateWebhookEvent(event: any): void {
+  const handler = WEBHOOK_HANDLERS[event.type];
+  if (handler) {
+    handler.validate(event);
+  }
+}
+
+/**
+ * Get the IDs of the Front resources a webhook event reports a change of
+ * @param event The webhook event
+ * @returns The resource IDs
+ */
+function getChangedResourceIds(event: any): string[] {
+  const payload = event.payload || {};
+  const ids = [payload.conversation_id, payload.contact_id];
+
+  if (typeof event.type === 'string' && /^(conversation|contact)\./.test(event.type)) {
+    ids.push(payload.id);
+  }
+
+  return ids.filter((id) => typeof id === 'string' && id);
+}
+
+/**
+ * Handle a webhook event from Frontapp
+ * Invalidates the cached Frontapp API responses about the resources that changed, routes the
+ * event to the webhook handler for its type, then runs the automation rules
+ * @param event The webhook event
+ * @param server The MCP server instance, if the event is handled on behalf of one
+ */
+export async function handleWebhookEvent(event: any, server?: Server): Promise<void> {
+  const { type } = event;
+  const handler = WEBHOOK_HANDLERS[type];
+
+  // Handlers and rules read the resources that changed, so stale responses go first
+  await frontappClient.invalidateCache(getChangedResourceIds(event));
+
+  if (handler) {
+    await handler.handle(event, server);
+  } else {
+    logger.warn(`Unhandled webhook event type`, { type, id: event.payload?.id });
+  }
+
+  // Failed rule actions are logged by the rules engine and don't fail the event
+  await rulesEngine.evaluate(event);
+}
+
+/**
+ * Process a received webhook event and record the outcome in the webhook event store
+ * Events that fail after all retries are moved to the dead-letter queue. Frontapp API requests
+ * of the event have background priority, so they never hold up tool calls.
+ * @param event The webhook event
+ * @param server The MCP server instance
+ * @param tenant The tenant the event was received for; Frontapp API calls use its token
+ * @throws The error that made processing fail
+ */
+export async function processWebhookEvent(
+  event: any,
+  server?: Server,
+  tenant: string = tenantManager.current()
+): Promise<void> {
+  const id = getWebhookEventId(event);
+
+  if (id && !webhookEventStore.has(id)) {
+    webhookEventStore.recordReceived(event, tenant);
+  }
+
+  try {
+    await frontappRateLimiter.run('background', () =>
+      tenantManager.run(tenant, () => handleWebhookEvent(event, server))
+    );
+  } catch (error: any) {
+    if (id) {
+      webhookEventStore.markFailed(id, error);
+    }
+    throw error;
+  }
+
+  if (id) {
+    webhookEventStore.markProcessed(id);
+  }
+}
+
+/**
+ * Process a stored webhook event again, e.g. to recover from the dead-letter queue
+ * Only failed events and events that were never processed are replayed unless forced, as
+ * replaying an event runs its automation rules again, which may e.g. send a reply twice.
+ * @param id The ID of the stored event
+ * @param server The MCP server instance
+ * @param force Replay the event even if it was processed or discarded
+ * @returns The stored event with the outcome of the replay
+ * @throws Error if the event is not in the store, or was processed or discarded and not forced
+ */
+export async function replayWebhookEvent(
+  id: string,
+  server?: Server,
+  force = false
+): Promise<StoredWebhookEvent> {
+  const stored = webhookEventStore.get(id);
+  if (!stored) {
+    throw new Error(`Webhook event not found: ${id}`);
+  }
+  if (!force && !REPLAYABLE_STATUSES.includes(stored.status)) {
+    throw new Error(
+      `Webhook event ${id} is ${stored.status}. Replaying it runs its automation rules again; force the replay to do it anyway.`
+    );
+  }
+
+  logger.info('Replaying webhook event', { id, type: stored.type, status: stored.status });
+
+  try {
+    await processWebhookEvent(stored.event, server, stored.tenant || DEFAULT_TENANT);
+  } catch (error: any) {
+    // The failure is recorded in the event store and returned to the caller
+  }
+
+  return webhookEventStore.get(id);
+}
+
+/**
+ * Get the key that orders the processing of a webhook event
+ * Events about the same conversation (or contact) are processed one at a time, in order
+ * @param event The webhook event
+ * @returns The ordering key
+ */
+function getOrderingKey(event: any): string {
+  const payload = event.payload || {};
+
+  if (payload.conversation_id) {
+    return `conversation:${payload.conversation_id}`;
+  }
+  if (typeof event.type === 'string' && event.type.startsWith('conversation.')) {
+    return `conversation:${payload.id}`;
+  }
+  if (typeof event.type === 'string' && event.type.startsWith('contact.')) {
+    return `contact:${payload.id}`;
+  }
+
+  return `event:${getWebhookEventId(event)}`;
+}
+
+/**
+ * Add a webhook event to the webhook queue to be processed in the background
+ * @param event The webhook event
+ * @param server The MCP server instance
+ * @param tenant The tenant the event was received for
+ * @throws Error if the webhook queue is full
+ */
+export function enqueueWebhookEvent(
+  event: any,
+  server?: Server,
+  tenant: string = DEFAULT_TENANT
+): void {
+  webhookQueue.enqueue(`${tenant}:${getOrderingKey(event)}`, () =>
+    processWebhookEvent(event, server, tenant)
+  );
+  metricsTracker.incrementWebhookCount();
+}
+
+/**
+ * Queue the stored webhook events that were received but never processed,
+ * e.g. because the server stopped before the webhook queue was drained
+ * @param server The MCP server instance
+ * @returns The number of events queued
+ */
+export function recoverWebhookEvents(server?: Server): number {
+  const pending = webhookEventStore.list({ status: 'received' }).reverse();
+  let queued = 0;
+
+  for (const stored of pending) {
+    if (webhookQueue.isFull()) {
+      logger.warn('Webhook queue is full, leaving remaining events for later recovery', {
+        remaining: pending.length - queued,
+      });
+      break;
+    }
+    enqueueWebhookEvent(stored.event, server, stored.tenant || DEFAULT_TENANT);
+    queued++;
+  }
+
+  if (queued > 0) {
+    logger.info('Queued unprocessed webhook events', { count: queued });
+  }
+
+  return queued;
+}
+
+/**
+ * Record a webhook event that was rejected before it was queued as failed
+ * @param event The webhook event
+ * @param error The reason the event was rejected
+ * @param tenant The tenant the event was received for
+ */
+function rejectWebhookEvent(event: any, error: any, tenant: string): void {
+  const id = getWebhookEventId(event);
+  if (!id) {
+    return;
+  }
+
+  if (!webhookEventStore.has(id)) {
+    webhookEventStore.recordReceived(event, tenant);
+  }
+  webhookEventStore.markFailed(id, error);
+}
+
+/**
+ * Create the route that receives webhooks from Frontapp
+ * Webhooks are acknowledged as soon as their payload is validated and processed in the
+ * webhook queue. Invalid payloads are rejected with 400, and webhooks are rejected with 503
+ * while the queue is full so that Frontapp delivers them again later.
+ * The webhook signature must be verified by middleware before this route, which is served on
+ * /webhooks for the default tenant and /webhooks/:tenant for named tenants.
+ * Replayed events are also handled on behalf of the server of the route.
+ * @param server The MCP server instance
+ * @returns The Express route handler
+ */
+export function createWebhookRoute(server?: Server) {
+  webhookServer = server;
+
+  return (req: Request, res: Response) => {
+    const event = req.body;
+    const tenant = req.params.tenant || DEFAULT_TENANT;
+    const context = {
+      path: req.path,
+      method: req.method,
+      tenant,
+      type: event?.type,
+      id: event?.payload?.id,
+    };
+
+    logger.info(`Received webhook event`, context);
+
+    try {
+      validateWebhookEvent(event);
+    } catch (error: any) {
+      ErrorLogger.logWebhookError('Invalid webhook payload', error, context);
+      rejectWebhookEvent(event, error, tenant);
+
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      });
+      return;
+    }
+
+    try {
+      enqueueWebhookEvent(event, server, tenant);
+    } catch (error: any) {
+      ErrorLogger.logWebhookError('Error queueing webhook', error, context);
+      rejectWebhookEvent(event, error, tenant);
+
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'The webhook queue is full, please retry later',
+      });
+      return;
+    }
+
+    // Acknowledge receipt of webhook
+    res.status(200).send('OK');
+  };
+}
+
 /**
  * Set up webhook handlers for the MCP server
  * This function sets up an Express server to handle webhooks from Frontapp
@@ -44,81 +361,8 @@ export function setupWebhookHandlers(server: Server): void {
   // Parse JSON bodies
   app.use(express.json());
 
-  // Verify webhook signatures
-  app.use('/webhooks', verifyWebhookSignature);
-
-  // Webhook route
-  app.post('/webhooks', async (req: Request, res: Response) => {
-    try {
-      const { type, payload } = req.body;
-      const webhookId = payload?.id || 'unknown';
-
-      logger.info(`Received webhook event`, {
-        type,
-        id: webhookId,
-        path: req.path,
-        method: req.method
-      });
-
-      // Route to appropriate webhook handler based on event type
-      switch (type) {
-        // Conversation webhook handlers
-        case WebhookEventType.CONVERSATION_CREATED:
-          await conversationCreatedHandler.handle(req.body, server);
-          break;
-        case 'conversation.updated': // Using string as it might not be in the enum
-          await conversationUpdatedHandler.handle(req.body, server);
-          break;
-        case WebhookEventType.CONVERSATION_TAGGED:
-          await conversationTaggedHandler.handle(req.body, server);
-          break;
-        case WebhookEventType.CONVERSATION_UNTAGGED:
-          await conversationUntaggedHandler.handle(req.body, server);
-          break;
-        case WebhookEventType.CONVERSATION_ASSIGNED:
-          await conversationAssignedHandler.handle(req.body, server);
-          break;
-        case WebhookEventType.CONVERSATION_UNASSIGNED:
-          await conversationUnassignedHandler.handle(req.body, server);
-          break;
-
-        // Message webhook handlers
-        case WebhookEventType.MESSAGE_RECEIVED:
-          await messageReceivedHandler.handle(req.body, server);
-          break;
-        case 'message.created': // Using string as it might not be in the enum
-          await messageCreatedHandler.handle(req.body, server);
-          break;
-
-        // Contact webhook handlers
-        case WebhookEventType.CONTACT_CREATED:
-          await contactCreatedHandler.handle(req.body, server);
-          break;
-        case WebhookEventType.CONTACT_UPDATED:
-          await contactUpdatedHandler.handle(req.body, server);
-          break;
-
-        default:
-          logger.warn(`Unhandled webhook event type`, { type, id: webhookId });
-      }
-
-      // Acknowledge receipt of webhook
-      res.status(200).send('OK');
-    } catch (error: any) {
-      ErrorLogger.logWebhookError('Error processing webhook', error, {
-        path: req.path,
-        method: req.method,
-        type: req.body?.type,
-        id: req.body?.payload?.id
-      });
-      
-      // Send error response
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'An error occurred while processing the webhook'
-      });
-    }
-  });
+  // Webhook route with signature verification, per tenant
+  app.post('/webhooks/:tenant?', verifyWebhookSignature, createWebhookRoute(server));
 
   // Health check route
   app.get('/health', (req: Request, res: Response) => {
@@ -134,8 +378,11 @@ export function setupWebhookHandlers(server: Server): void {
     });
   });
 
-  // Initialize webhook subscriptions
-  initializeWebhookSubscriptions().catch((error) => {
+  // Process webhooks that were received but not processed before the last shutdown
+  recoverWebhookEvents(server);
+
+  // Initialize webhook subscriptions in the background, behind tool calls
+  frontappRateLimiter.run('background', initializeWebhookSubscriptions).catch((error) => {
     logger.error('Failed to initialize webhook subscriptions', {
       error: error.message,
       stack: error.stack,
@@ -40,6 +40,9 @@ export class MessageCreatedHandler extends BaseWebhookHandler {
       const messageId = payload.payload.id as string;
       const conversationId = payload.payload.conversation_id as string;
 
+      // Notify MCP clients subscribed to the conversation
+      await this.notifyConversationUpdated(conversationId);
+
       // Fetch the conversation details
       const conversationResponse = await frontappClient.getConversation(conversationId);
       const conversation = conversationResponse.data;
@@ -2,6 +2,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BaseWebhookHandler } from '../base.js';
 import { WebhookEventType, WebhookPayload } from '../../../models/frontapp.js';
 import { frontappClient } from '../../../clients/frontapp/index.js';
+import logger from '../../../utils/logger.js';
 
 /**
  * Handler for message.received webhook events
@@ -39,14 +40,13 @@ export class MessageReceivedHandler extends BaseWebhookHandler {
       const messageId = payload.payload.id as string;
       const conversationId = payload.payload.conversation_id as string;
 
+      // Notify MCP clients subscribed to the conversation
+      await this.notifyConversationUpdated(conversationId);
+
       // Fetch the conversation details from Frontapp
       const conversationResponse = await frontappClient.getConversation(conversationId);
       const conversation = conversationResponse.data;
 
-      // Log the conversation details
-      console.log(`[Webhook] New message received in conversation: ${conversation.id}`);
-      console.log(`[Webhook] Conversation subject: ${conversation.subject || '(No subject)'}`);
-
       // Fetch the message details
       // Note: Frontapp doesn't have a direct endpoint to get a single message by ID,
       // so we need to get all messages in the conversation and find the one we want
@@ -58,29 +58,25 @@ export class MessageReceivedHandler extends BaseWebhookHandler {
 
       if (message) {
         // Log the message details
-        console.log(`[Webhook] Message ID: ${message.id}`);
-        console.log(`[Webhook] Message type: ${message.type}`);
-        console.log(`[Webhook] Is inbound: ${message.is_inbound}`);
-        console.log(
-          `[Webhook] Author: ${message.author?.first_name || ''} ${message.author?.last_name || ''}`
-        );
-        console.log(`[Webhook] Message blurb: ${message.blurb}`);
-
-        // Here you could implement additional logic such as:
-        // - Automatically responding to messages based on content
-        // - Analyzing message content for sentiment or intent
-        // - Triggering workflows based on message content
-        // - Updating LLM context with new message information
+        logger.info(`[Webhook] New message received`, {
+          messageId: message.id,
+          conversationId: conversation.id,
+          conversationSubject: conversation.subject || '(No subject)',
+          type: message.type,
+          isInbound: message.is_inbound,
+          authorName: `${message.author?.first_name || ''} ${message.author?.last_name || ''}`.trim(),
+          messageBlurb: message.blurb,
+        });
 
-        // For now, we'll just log the event
-        console.log('[Webhook] Message received event processed successfully');
+        logger.info('[Webhook] Message received event processed successfully');
       } else {
-        console.error(
-          `[Webhook] Message with ID ${messageId} not found in conversation ${conversationId}`
-        );
+        logger.warn(`[Webhook] Message not found in conversation`, { messageId, conversationId });
       }
     } catch (error: any) {
-      console.error(`[Webhook] Error processing message received event: ${error.message}`);
+      logger.error(`[Webhook] Error processing message received event`, {
+        error: error.message,
+        stack: error.stack,
+      });
       throw error;
     }
   }
@@ -3,6 +3,8 @@ import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { logStream, createRequestLogger } from '../utils/logger.js';
 import { metricsTracker } from '../utils/monitoring.js';
+import { Role } from '../utils/accessControl.js';
+import { requestContext } from '../utils/requestContext.js';
 
 // Create a custom token for request ID
 morgan.token('request-id', (req: Request) => {
@@ -28,7 +30,8 @@ export function requestIdMiddleware(req: Request, res: Response, next: NextFunct
   // Create a request-specific logger
   req.logger = createRequestLogger(req.id);
   
-  next();
+  // Make the request ID available to the tool calls the request makes
+  requestContext.run({ requestId: req.id }, next);
 }
 
 // Middleware to log HTTP requests using Morgan
@@ -72,6 +75,8 @@ declare global {
     interface Request {
       id?: string;
       logger?: ReturnType<typeof createRequestLogger>;
+      tenant?: string;
+      role?: Role;
     }
   }
 }
@@ -4,13 +4,24 @@ import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import { config } from '../config/index.js';
 import logger from '../utils/logger.js';
+import { tenantManager } from '../utils/tenants.js';
+import { accessControl, Role } from '../utils/accessControl.js';
+import { getApiKeyId, requestContext } from '../utils/requestContext.js';
 
 // Configure CORS options
 const corsOptions = {
   origin: config.api.corsOrigins || '*',
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
-  exposedHeaders: ['X-Request-ID'],
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'X-API-Key',
+    'X-Frontapp-Tenant',
+    'Mcp-Session-Id',
+    'Mcp-Protocol-Version',
+    'Last-Event-ID',
+  ],
+  exposedHeaders: ['X-Request-ID', 'Mcp-Session-Id'],
   credentials: true,
   maxAge: 86400, // 24 hours
 };
@@ -37,6 +48,7 @@ const apiLimiter = rateLimit({
 });
 
 // API key authentication middleware
+// The rest of the request runs with the role of the API key, which decides the tools it can use
 export function apiKeyAuth(req: Request, res: Response, next: NextFunction): void {
   const apiKey = req.headers['x-api-key'] as string;
   
@@ -46,8 +58,15 @@ export function apiKeyAuth(req: Request, res: Response, next: NextFunction): voi
     return;
   }
   
-  // Validate API key
-  if (!apiKey || apiKey !== config.api.apiKey) {
+  // Validate API key: either a gateway API key or a key bound to a tenant
+  const tenant = apiKey ? tenantManager.findByApiKey(apiKey) : undefined;
+  let role: Role | undefined;
+  if (tenant) {
+    role = tenant.apiKeys.find((entry) => entry.key === apiKey).role;
+  } else if (apiKey) {
+    role = accessControl.getRole(apiKey);
+  }
+  if (!role) {
     req.logger?.warn('Invalid API key', { ip: req.ip, path: req.path });
     
     res.status(401).json({
@@ -57,7 +76,19 @@ export function apiKeyAuth(req: Request, res: Response, next: NextFunction): voi
     return;
   }
   
-  next();
+  // Requests made with a tenant's API key can only access that tenant
+  if (tenant) {
+    req.tenant = tenant.name;
+  }
+  
+  req.role = role;
+
+  const context = requestContext.current();
+  if (context) {
+    context.apiKeyId = getApiKeyId(apiKey);
+  }
+
+  accessControl.run(role, next);
 }
 
 // Configure Helmet options with HSTS
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { tenantManager } from '../utils/tenants.js';
+
+/**
+ * Middleware to run the rest of the request for its tenant
+ *
+ * Requests made with an API key bound to a tenant run for that tenant, and tool calls can't
+ * select another one. Requests made with the gateway API key can select a tenant with the
+ * X-Frontapp-Tenant header, and tool calls can override it with the tenant argument.
+ * Must be applied after apiKeyAuth.
+ *
+ * @param req Express request object
+ * @param res Express response object
+ * @param next Express next function
+ */
+export function tenantContext(req: Request, res: Response, next: NextFunction): void {
+  if (req.tenant) {
+    tenantManager.run(req.tenant, next, true);
+    return;
+  }
+
+  const header = req.headers['x-frontapp-tenant'];
+  if (typeof header === 'string' && header) {
+    if (!tenantManager.has(header)) {
+      req.logger?.warn('Unknown tenant', { tenant: header, path: req.path });
+      res.status(404).json({
+        status: 'error',
+        message: `Unknown tenant: ${header}`,
+      });
+      return;
+    }
+
+    tenantManager.run(header, next);
+    return;
+  }
+
+  next();
+}
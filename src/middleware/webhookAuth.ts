@@ -1,34 +1,26 @@
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
-import { config } from '../config/index.js';
 import logger from '../utils/logger.js';
 import ErrorLogger from '../utils/errorLogger.js';
+import { getWebhookEventId, webhookEventStore } from '../utils/webhookEventStore.js';
+import { DEFAULT_TENANT, tenantManager } from '../utils/tenants.js';
 
 // Maximum age of a webhook in milliseconds (5 minutes)
 const MAX_WEBHOOK_AGE_MS = 5 * 60 * 1000;
 
-// Store of processed webhook IDs to prevent replay attacks
-// In a production environment, this should be stored in a distributed cache or database
-const processedWebhookIds = new Set<string>();
-
-// Cleanup old webhook IDs periodically (every hour)
-setInterval(() => {
-  const now = Date.now();
-  // In a real implementation, we would remove entries older than a certain time
-  // For this simple in-memory implementation, we just clear the set if it gets too large
-  if (processedWebhookIds.size > 10000) {
-    logger.info(`Clearing webhook ID cache (size: ${processedWebhookIds.size})`);
-    processedWebhookIds.clear();
-  }
-}, 60 * 60 * 1000);
-
 /**
  * Middleware to verify Frontapp webhook signatures and prevent replay attacks
  *
  * Frontapp signs webhooks with a shared secret using HMAC-SHA256
  * The signature is sent in the X-Front-Signature header
  *
- * This middleware also validates the timestamp in the webhook payload to prevent replay attacks
+ * Webhooks of a named tenant are received on /webhooks/:tenant and signed with the secret of
+ * the tenant. Webhooks received on /webhooks belong to the default tenant.
+ *
+ * This middleware also validates the timestamp in the webhook payload to prevent replay attacks.
+ * Accepted webhooks are recorded in the webhook event store, which persists the IDs of received
+ * webhooks across restarts so duplicates are rejected. Webhooks are identified by the Frontapp
+ * event ID in their _links.self link, or else by a hash of the signed body.
  *
  * @param req Express request object
  * @param res Express response object
@@ -39,6 +31,30 @@ export function verifyWebhookSignature(
   res: Response,
   next: NextFunction
 ): void | Response {
+  const tenantName = req.params.tenant || DEFAULT_TENANT;
+
+  if (!tenantManager.has(tenantName)) {
+    ErrorLogger.logSecurityError('Webhook received for an unknown tenant', 'Authentication failed', {
+      tenant: tenantName,
+      path: req.path,
+      method: req.method,
+      ip: req.ip
+    });
+    return res.status(404).json({ error: 'Unknown tenant' });
+  }
+
+  const { webhookSecret } = tenantManager.get(tenantName);
+
+  if (!webhookSecret) {
+    ErrorLogger.logSecurityError('Webhook received for a tenant without a webhook secret', 'Authentication failed', {
+      tenant: tenantName,
+      path: req.path,
+      method: req.method,
+      ip: req.ip
+    });
+    return res.status(401).json({ error: 'Webhooks are not configured' });
+  }
+
   const signature = req.headers['x-front-signature'] as string;
 
   if (!signature) {
@@ -54,7 +70,7 @@ export function verifyWebhookSignature(
   const rawBody = JSON.stringify(req.body);
 
   // Create an HMAC-SHA256 hash using the webhook secret
-  const hmac = crypto.createHmac('sha256', config.webhook.secret);
+  const hmac = crypto.createHmac('sha256', webhookSecret);
   hmac.update(rawBody);
   const calculatedSignature = hmac.digest('hex');
 
@@ -82,20 +98,13 @@ export function verifyWebhookSignature(
     return res.status(400).json({ error: 'Missing payload' });
   }
   
-  const webhookId = payload.id;
-  
-  if (!webhookId) {
-    ErrorLogger.logWebhookError('Missing ID in webhook payload', 'Validation failed', {
-      path: req.path,
-      method: req.method,
-      type,
-      payload
-    });
-    return res.status(400).json({ error: 'Missing webhook ID' });
-  }
+  // Identify the webhook by the Frontapp event ID in its _links.self link, or else by sha256:
+  // and a hash of the body; duplicates are detected by this ID
+  const webhookId = getWebhookEventId(req.body) as string;
   
-  // Check if this webhook has already been processed (prevent replay)
-  if (processedWebhookIds.has(webhookId)) {
+  // Check if this webhook has already been received (prevent replay)
+  // Webhooks that could not be accepted for processing are failed and may be delivered again
+  if (webhookEventStore.has(webhookId) && webhookEventStore.get(webhookId).status !== 'failed') {
     ErrorLogger.logSecurityError('Duplicate webhook received', 'Potential replay attack', {
       webhookId,
       type,
@@ -159,8 +168,8 @@ export function verifyWebhookSignature(
     // Continue processing even without a timestamp, as some webhook types might not include it
   }
   
-  // Mark this webhook as processed
-  processedWebhookIds.add(webhookId);
+  // Record the webhook in the event store
+  webhookEventStore.recordReceived(req.body, tenantName);
   
   // If all checks pass, proceed to the next middleware
   next();
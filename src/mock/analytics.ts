@@ -0,0 +1,241 @@
+import { MockFrontappData } from './fixtures.js';
+
+/**
+ * Analytics of the mock Frontapp API
+ * Computes the metrics of analytics reports from the conversations and messages of the mock,
+ * in the shape of the Frontapp Analytics API. Conversations are counted in a report when they
+ * were created in its date range.
+ */
+
+/**
+ * The body of a request that creates a report
+ */
+export interface MockAnalyticsRequest {
+  start: number;
+  end: number;
+  metrics: string[];
+  filters?: {
+    inbox_ids?: string[];
+    tag_ids?: string[];
+    teammate_ids?: string[];
+    channel_ids?: string[];
+  };
+}
+
+/**
+ * The response times of a conversation
+ */
+interface ConversationTimes {
+  conversation: any;
+  received: number;
+  sent: number;
+  /** Seconds from the first inbound message to the first reply */
+  firstResponse?: number;
+  /** Seconds from each inbound message to the reply to it */
+  responses: number[];
+  /** Seconds from creation to the last message, for archived conversations */
+  resolution?: number;
+  /** Seconds the first reply was, or still is, later than the SLA */
+  breach?: number;
+}
+
+// The first response time of the SLA of every conversation of the mock
+export const MOCK_SLA_SECONDS = 2 * 60 * 60;
+
+/**
+ * A metric with a single value
+ */
+interface ScalarMetric {
+  type: string;
+  compute(times: ConversationTimes[]): number | null;
+}
+
+// The metrics the mock computes, by ID
+const SCALAR_METRICS: Record<string, ScalarMetric> = {
+  new_segments_count: { type: 'number', compute: (times) => times.length },
+  num_messages_received: { type: 'number', compute: (times) => sum(times, 'received') },
+  num_messages_sent: { type: 'number', compute: (times) => sum(times, 'sent') },
+  avg_first_response_time: {
+    type: 'duration',
+    compute: (times) => average(times.map(({ firstResponse }) => firstResponse)),
+  },
+  avg_response_time: {
+    type: 'duration',
+    compute: (times) => average(times.flatMap(({ responses }) => responses)),
+  },
+  avg_resolution_time: {
+    type: 'duration',
+    compute: (times) => average(times.map(({ resolution }) => resolution)),
+  },
+  num_archived_segments: {
+    type: 'number',
+    compute: (times) => times.filter(({ resolution }) => resolution !== undefined).length,
+  },
+  num_sla_goal_met: {
+    type: 'number',
+    compute: (times) =>
+      times.filter(({ firstResponse, breach }) => firstResponse !== undefined && !breach).length,
+  },
+  num_sla_goal_breached: {
+    type: 'number',
+    compute: (times) => times.filter(({ breach }) => breach).length,
+  },
+  avg_sla_breach_time: {
+    type: 'duration',
+    compute: (times) => average(times.map(({ breach }) => breach || undefined)),
+  },
+};
+
+// The table metrics the mock computes: the resources of each row, and how they are listed
+const TABLE_METRICS: Record<
+  string,
+  { column: string; collection: keyof MockFrontappData; getIds(conversation: any): string[] }
+> = {
+  tags_table: { column: 'tag', collection: 'tags', getIds: (conversation) => conversation.tag_ids },
+  inboxes_table: {
+    column: 'inbox',
+    collection: 'inboxes',
+    getIds: (conversation) => conversation.inbox_ids,
+  },
+  teammates_table: {
+    column: 'teammate',
+    collection: 'teammates',
+    getIds: (conversation) => (conversation.assignee ? [conversation.assignee] : []),
+  },
+};
+
+export const MOCK_ANALYTICS_METRICS = [
+  ...Object.keys(SCALAR_METRICS),
+  ...Object.keys(TABLE_METRICS),
+];
+
+/**
+ * Add up a count of conversations
+ * @param times The conversations
+ * @param field The count
+ * @returns The total
+ */
+function sum(times: ConversationTimes[], field: 'received' | 'sent'): number {
+  return times.reduce((total, time) => total + time[field], 0);
+}
+
+/**
+ * Average durations
+ * @param values The durations; undefined values are skipped
+ * @returns The average, rounded to seconds, or null if there are no durations
+ */
+function average(values: Array<number | undefined>): number | null {
+  const durations = values.filter((value): value is number => value !== undefined);
+  if (durations.length === 0) {
+    return null;
+  }
+  return Math.round(durations.reduce((total, value) => total + value, 0) / durations.length);
+}
+
+/**
+ * Get the response times of a conversation
+ * @param data The data of the mock
+ * @param conversation The conversation
+ * @param now The current time, as a Unix timestamp
+ * @returns The response times
+ */
+function getTimes(data: MockFrontappData, conversation: any, now: number): ConversationTimes {
+  const messages = (data.messages.get(conversation.id) ?? []).filter(
+    (message) => !message.is_draft
+  );
+  const responses: number[] = [];
+  let waitingSince: number | undefined;
+  let firstInbound: number | undefined;
+  let firstResponse: number | undefined;
+
+  for (const message of messages) {
+    if (message.is_inbound) {
+      waitingSince ??= message.created_at;
+      firstInbound ??= message.created_at;
+    } else if (waitingSince !== undefined) {
+      responses.push(message.created_at - waitingSince);
+      firstResponse ??= message.created_at - (firstInbound as number);
+      waitingSince = undefined;
+    }
+  }
+
+  const lastMessage = messages[messages.length - 1];
+  const unanswered = firstInbound !== undefined ? now - firstInbound : 0;
+  const late = (firstResponse ?? unanswered) - MOCK_SLA_SECONDS;
+
+  return {
+    conversation,
+    received: messages.filter((message) => message.is_inbound).length,
+    sent: messages.filter((message) => !message.is_inbound).length,
+    firstResponse,
+    responses,
+    resolution:
+      conversation.status === 'archived' && lastMessage
+        ? lastMessage.created_at - conversation.created_at
+        : undefined,
+    breach: late > 0 ? late : undefined,
+  };
+}
+
+/**
+ * Compute the metrics of a report
+ * @param data The data of the mock
+ * @param request The body of the request that created the report
+ * @returns The metrics, in the order they were requested
+ */
+export function computeAnalyticsMetrics(
+  data: MockFrontappData,
+  request: MockAnalyticsRequest
+): any[] {
+  const { inbox_ids, tag_ids, teammate_ids, channel_ids } = request.filters ?? {};
+  const channelInboxes = channel_ids?.map((id) => data.channels.get(id)?.inbox_id);
+  const matches = (ids: string[], filter?: Array<string | undefined>) =>
+    !filter || filter.length === 0 || ids.some((id) => filter.includes(id));
+
+  const now = Math.floor(Date.now() / 1000);
+  const times = [...data.conversations.values()]
+    .filter(
+      (conversation) =>
+        conversation.created_at >= request.start &&
+        conversation.created_at < request.end &&
+        matches(conversation.inbox_ids, inbox_ids) &&
+        matches(conversation.inbox_ids, channelInboxes) &&
+        matches(conversation.tag_ids, tag_ids) &&
+        matches(conversation.assignee ? [conversation.assignee] : [], teammate_ids)
+    )
+    .map((conversation) => getTimes(data, conversation, now));
+
+  return request.metrics.map((id) => {
+    const table = TABLE_METRICS[id];
+    if (!table) {
+      const { type, compute } = SCALAR_METRICS[id];
+      return { id, type, value: compute(times) };
+    }
+
+    // A row per resource, with its conversations and their first response time
+    const groups = new Map<string, ConversationTimes[]>();
+    for (const time of times) {
+      for (const resourceId of table.getIds(time.conversation)) {
+        groups.set(resourceId, [...(groups.get(resourceId) ?? []), time]);
+      }
+    }
+    const resources = data[table.collection] as Map<string, any>;
+    const rows = [...groups.entries()]
+      .sort(([, a], [, b]) => b.length - a.length)
+      .map(([resourceId, group]) => [
+        {
+          id: table.column,
+          type: 'resource',
+          value: resourceId,
+          resource: resources.get(resourceId) ?? { id: resourceId },
+        },
+        { id: 'new_segments_count', type: 'number', value: group.length },
+        {
+          id: 'avg_first_response_time',
+          type: 'duration',
+          value: SCALAR_METRICS.avg_first_response_time.compute(group),
+        },
+      ]);
+    return { id, type: 'table', value: rows };
+  });
+}
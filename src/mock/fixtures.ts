@@ -0,0 +1,338 @@
+import zlib from 'zlib';
+
+/**
+ * Seed data of the mock Frontapp API
+ * A small Front company with teammates, inboxes, channels, tags, contacts and conversations
+ * with messages, so that every tool and resource has something to return
+ */
+
+/**
+ * The in-memory data of the mock Frontapp API
+ * Resources are stored in the shape the Frontapp API returns them, without their _links, which
+ * are added when they are returned
+ */
+export interface MockFrontappData {
+  teammates: Map<string, any>;
+  inboxes: Map<string, any>;
+  channels: Map<string, any>;
+  tags: Map<string, any>;
+  contacts: Map<string, any>;
+  conversations: Map<string, any>;
+  /** Messages by conversation ID, oldest first */
+  messages: Map<string, any[]>;
+  /** Comments by conversation ID, oldest first */
+  comments: Map<string, any[]>;
+  /** Events by conversation ID, oldest first */
+  events: Map<string, any[]>;
+  /** Teammate IDs of the followers by conversation ID */
+  followers: Map<string, string[]>;
+  webhooks: Map<string, any>;
+  /** The files of attachments by attachment ID; messages and comments hold attachment IDs */
+  files: Map<string, MockFile>;
+  /** Analytics reports by report ID, with the time they are done at */
+  analyticsReports: Map<string, any>;
+}
+
+/**
+ * The file of an attachment
+ */
+export interface MockFile {
+  filename: string;
+  content_type: string;
+  content: Buffer;
+}
+
+/**
+ * Create a map of resources by ID
+ * @param resources The resources
+ * @returns The map
+ */
+function byId(resources: any[]): Map<string, any> {
+  return new Map(resources.map((resource) => [resource.id, resource]));
+}
+
+/**
+ * Create a PDF document with lines of text, e.g. an invoice attached to a message
+ * The page content is compressed, as in most generated PDFs
+ * @param lines The lines of text
+ * @returns The PDF file
+ */
+export function createPdf(lines: string[]): Buffer {
+  const escape = (line: string) => line.replace(/[\\()]/g, (char) => `\\${char}`);
+  const content = zlib.deflateSync(
+    `BT /F1 12 Tf 72 720 Td 16 TL ${lines.map((line) => `(${escape(line)}) '`).join(' ')} ET`
+  );
+
+  const stream = `stream\n${content.toString('latin1')}\nendstream`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R ' +
+      '/Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${content.length} /Filter /FlateDecode >>\n${stream}`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Create the seed data
+ * Timestamps are relative to now, so that the data looks recent whenever the mock starts
+ * @returns A fresh copy of the seed data
+ */
+export function createFixtures(): MockFrontappData {
+  const now = Math.floor(Date.now() / 1000);
+  const hoursAgo = (hours: number) => now - hours * 3600;
+
+  const teammates = [
+    {
+      id: 'tea_alice',
+      email: 'alice@example.com',
+      username: 'alice',
+      first_name: 'Alice',
+      last_name: 'Martin',
+      is_admin: true,
+      is_available: true,
+      is_blocked: false,
+    },
+    {
+      id: 'tea_bob',
+      email: 'bob@example.com',
+      username: 'bob',
+      first_name: 'Bob',
+      last_name: 'Nguyen',
+      is_admin: false,
+      is_available: true,
+      is_blocked: false,
+    },
+  ];
+
+  const inboxes = [
+    { id: 'inb_support', name: 'Support', is_private: false, is_public: true },
+    { id: 'inb_billing', name: 'Billing', is_private: false, is_public: true },
+  ];
+
+  const channels = [
+    {
+      id: 'cha_support',
+      address: 'support@example.com',
+      type: 'smtp',
+      send_as: 'support@example.com',
+      settings: {},
+      inbox_id: 'inb_support',
+    },
+    {
+      id: 'cha_billing',
+      address: 'billing@example.com',
+      type: 'smtp',
+      send_as: 'billing@example.com',
+      settings: {},
+      inbox_id: 'inb_billing',
+    },
+  ];
+
+  const tags = [
+    { id: 'tag_urgent', name: 'Urgent', highlight: 'red', is_private: false },
+    { id: 'tag_refund', name: 'Refund', highlight: 'orange', is_private: false },
+    { id: 'tag_bug', name: 'Bug', highlight: 'purple', is_private: false },
+    // A child tag: the ID of the parent is only stored, and returned as a link
+    {
+      id: 'tag_bug_mobile',
+      name: 'Mobile',
+      highlight: 'purple',
+      is_private: false,
+      parent_tag_id: 'tag_bug',
+    },
+  ].map((tag) => ({ ...tag, created_at: hoursAgo(24 * 30), updated_at: hoursAgo(24 * 30) }));
+
+  const contacts = [
+    {
+      id: 'crd_jane',
+      name: 'Jane Customer',
+      description: 'Premium plan since 2021',
+      handles: [{ handle: 'jane@customer.example', source: 'email' }],
+      groups: [],
+      custom_fields: { plan: 'premium' },
+      is_spammer: false,
+      links: [],
+    },
+    {
+      id: 'crd_john',
+      name: 'John Buyer',
+      description: '',
+      handles: [
+        { handle: 'john@buyer.example', source: 'email' },
+        { handle: '+15555550123', source: 'phone' },
+      ],
+      groups: [],
+      custom_fields: {},
+      is_spammer: false,
+      links: [],
+    },
+  ].map((contact) => ({ ...contact, updated_at: hoursAgo(24 * 7) }));
+
+  const conversations = [
+    {
+      id: 'cnv_refund',
+      subject: 'Refund for order #1042',
+      status: 'assigned',
+      assignee: 'tea_alice',
+      recipient: { handle: 'jane@customer.example', role: 'from' },
+      tag_ids: ['tag_refund'],
+      inbox_ids: ['inb_billing'],
+      created_at: hoursAgo(30),
+    },
+    {
+      id: 'cnv_login',
+      subject: 'Cannot log in after password reset',
+      status: 'unassigned',
+      assignee: null,
+      recipient: { handle: 'john@buyer.example', role: 'from' },
+      tag_ids: ['tag_urgent', 'tag_bug'],
+      inbox_ids: ['inb_support'],
+      created_at: hoursAgo(3),
+    },
+    {
+      id: 'cnv_thanks',
+      subject: 'Thanks for the quick help',
+      status: 'archived',
+      assignee: 'tea_bob',
+      recipient: { handle: 'jane@customer.example', role: 'from' },
+      tag_ids: [],
+      inbox_ids: ['inb_support'],
+      created_at: hoursAgo(72),
+    },
+  ];
+
+  const message = (
+    id: string,
+    conversationId: string,
+    text: string,
+    createdAt: number,
+    author: string | null,
+    handle: string
+  ) => ({
+    id,
+    conversation_id: conversationId,
+    type: 'email',
+    is_inbound: author === null,
+    is_draft: false,
+    created_at: createdAt,
+    blurb: text.slice(0, 100),
+    body: `<p>${text}</p>`,
+    text,
+    author,
+    recipients: [{ handle, role: author === null ? 'from' : 'to' }],
+    attachments: [],
+  });
+
+  const messages = new Map<string, any[]>([
+    [
+      'cnv_refund',
+      [
+        message(
+          'msg_refund1',
+          'cnv_refund',
+          'Hi, I returned order #1042 two weeks ago and have not received my refund yet.',
+          hoursAgo(30),
+          null,
+          'jane@customer.example'
+        ),
+        message(
+          'msg_refund2',
+          'cnv_refund',
+          'Sorry for the wait, Jane. I have asked our billing team to check your refund.',
+          hoursAgo(26),
+          'tea_alice',
+          'jane@customer.example'
+        ),
+      ],
+    ],
+    [
+      'cnv_login',
+      [
+        message(
+          'msg_login1',
+          'cnv_login',
+          'I reset my password but the login page still says my password is wrong.',
+          hoursAgo(3),
+          null,
+          'john@buyer.example'
+        ),
+      ],
+    ],
+    [
+      'cnv_thanks',
+      [
+        message(
+          'msg_thanks1',
+          'cnv_thanks',
+          'Thanks for the quick help, everything works now!',
+          hoursAgo(72),
+          null,
+          'jane@customer.example'
+        ),
+      ],
+    ],
+  ]);
+
+  // Jane attached the invoice of her order to her refund request
+  messages.get('cnv_refund')[0].attachments = ['fil_invoice'];
+  const files = new Map<string, MockFile>([
+    [
+      'fil_invoice',
+      {
+        filename: 'invoice-1042.pdf',
+        content_type: 'application/pdf',
+        content: createPdf([
+          'Invoice #1042',
+          'Customer: Jane Customer',
+          'Wireless headphones    1 x 89.00 EUR',
+          'Total: 89.00 EUR',
+        ]),
+      },
+    ],
+  ]);
+
+  const comments = new Map<string, any[]>([
+    [
+      'cnv_refund',
+      [
+        {
+          id: 'com_refund1',
+          author: 'tea_alice',
+          body: '@bob can you check the refund status in the billing system?',
+          posted_at: hoursAgo(25),
+        },
+      ],
+    ],
+  ]);
+
+  return {
+    teammates: byId(teammates),
+    inboxes: byId(inboxes),
+    channels: byId(channels),
+    tags: byId(tags),
+    contacts: byId(contacts),
+    conversations: byId(conversations),
+    messages,
+    comments,
+    events: new Map(),
+    followers: new Map([['cnv_refund', ['tea_bob']]]),
+    webhooks: new Map(),
+    files,
+    analyticsReports: new Map(),
+  };
+}
@@ -0,0 +1,1402 @@
+import express, { Express, NextFunction, Request, Response } from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import crypto from 'crypto';
+import { createFixtures, MockFile, MockFrontappData } from './fixtures.js';
+import { computeAnalyticsMetrics, MOCK_ANALYTICS_METRICS } from './analytics.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Options of the mock Frontapp API server
+ */
+export interface MockFrontappServerOptions {
+  /** The API token requests must carry; any token is accepted when unset */
+  apiKey?: string;
+  /** The URL webhooks are sent to, in addition to the URLs subscribed through POST /webhooks */
+  webhookUrl?: string;
+  /** The secret webhooks are signed with; webhooks are not sent when unset */
+  webhookSecret?: string;
+  /** The requests accepted per minute before responding with 429 (default: 50) */
+  rateLimitPerMinute?: number;
+  /** How long analytics reports take to be done, in milliseconds (default: 1000) */
+  analyticsDelayMs?: number;
+}
+
+// Page size of lists when the request has no limit, and the largest accepted
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Error responded in the shape of Frontapp API errors
+ */
+class MockFrontappError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MockFrontappError';
+  }
+}
+
+/**
+ * Create a resource ID with the prefix of its type, e.g. cnv_k3j2h1
+ * @param prefix The prefix
+ * @returns The ID
+ */
+function createId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(5).toString('hex')}`;
+}
+
+/**
+ * Get the current time as a Unix timestamp, the way Front represents times
+ * @returns The timestamp in seconds
+ */
+function timestamp(): number {
+  return Date.now() / 1000;
+}
+
+/**
+ * Wrap a route handler, so that its errors, also asynchronous ones, reach the error handler
+ * @param handler The route handler
+ * @returns The Express route handler
+ */
+function route(handler: (req: Request, res: Response) => unknown) {
+  return (req: Request, res: Response, next: NextFunction) =>
+    Promise.resolve()
+      .then(() => handler(req, res))
+      .catch(next);
+}
+
+/**
+ * Mock Frontapp API server
+ * An in-memory stand-in for the Frontapp API, for demos, integration tests and developing
+ * automation rules without a Front account. Point the MCP server at it with FRONTAPP_BASE_URL.
+ * It serves the conversations, messages, comments, contacts, tags, inboxes, channels, teammates
+ * and webhooks endpoints the tools use, with Front's pagination and rate limit headers, and
+ * sends signed webhooks for the changes made through it. Data starts from the seed data in
+ * fixtures.ts and is lost when the server stops.
+ */
+export class MockFrontappServer {
+  public readonly app: Express;
+  public data: MockFrontappData = createFixtures();
+  private server?: http.Server;
+  private baseUrl = '';
+  private rateLimitWindow = { startedAt: 0, requests: 0 };
+  private deliveries = new Set<Promise<void>>();
+
+  /**
+   * Create a new mock Frontapp API server
+   * @param options The options of the server
+   */
+  constructor(private readonly options: MockFrontappServerOptions = {}) {
+    this.app = express();
+    this.app.use(express.json());
+    // Messages with attachments are sent as multipart/form-data
+    this.app.use(express.raw({ type: 'multipart/form-data', limit: '50mb' }));
+    this.app.use((req, res, next) => this.parseMultipart(req, next));
+    this.app.use((req, res, next) => this.authenticate(req, next));
+    this.app.use((req, res, next) => this.rateLimit(req, res, next));
+    this.registerRoutes();
+
+    // Unknown endpoints and errors are answered in the shape of Frontapp API errors
+    this.app.use((req, res, next) => {
+      next(new MockFrontappError(404, `${req.method} ${req.path} is not supported by the mock`));
+    });
+    this.app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+      const status = error instanceof MockFrontappError ? error.status : 500;
+      res.status(status).json({
+        _error: { status, title: http.STATUS_CODES[status], message: error.message },
+      });
+    });
+  }
+
+  /**
+   * Start listening for requests
+   * @param port The port, or 0 for any free port
+   * @returns The base URL of the server, to use as FRONTAPP_BASE_URL
+   */
+  public async start(port = 0): Promise<string> {
+    await new Promise<void>((resolve) => {
+      this.server = this.app.listen(port, resolve);
+    });
+
+    const address = this.server!.address() as AddressInfo;
+    this.baseUrl = `http://localhost:${address.port}`;
+    logger.info('Mock Frontapp API server started', { url: this.baseUrl });
+
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening for requests, once the webhooks being sent are delivered
+   */
+  public async stop(): Promise<void> {
+    await this.flushWebhooks();
+
+    if (this.server) {
+      await new Promise<void>((resolve, reject) =>
+        this.server!.close((error) => (error ? reject(error) : resolve()))
+      );
+      this.server = undefined;
+    }
+  }
+
+  /**
+   * Replace the data with a fresh copy of the seed data, and reset the rate limit
+   */
+  public reset(): void {
+    this.data = createFixtures();
+    this.rateLimitWindow = { startedAt: 0, requests: 0 };
+  }
+
+  /**
+   * Send a signed webhook to the webhook URL and the subscribed URLs
+   * Webhooks are signed like Frontapp's, with an HMAC-SHA256 of the body in X-Front-Signature.
+   * Each webhook gets a new event ID in its _links.self link, which identifies the event.
+   * Failed deliveries are logged, not retried.
+   * @param type The event type, e.g. conversation.tagged
+   * @param payload The payload, whose id is the ID of the changed conversation or contact
+   */
+  public async emitWebhook(type: string, payload: Record<string, any>): Promise<void> {
+    const { webhookSecret, webhookUrl } = this.options;
+    if (!webhookSecret) {
+      return;
+    }
+
+    const urls = new Set<string>(webhookUrl ? [webhookUrl] : []);
+    for (const webhook of this.data.webhooks.values()) {
+      if (webhook.events.length === 0 || webhook.events.includes(type)) {
+        urls.add(webhook.url);
+      }
+    }
+
+    const body = JSON.stringify({
+      type,
+      payload: { ...payload, timestamp: Math.floor(timestamp()) },
+      _links: { self: `${this.baseUrl}/events/${createId('evt')}` },
+    });
+    const signature = crypto.createHmac('sha256', webhookSecret).update(body).digest('hex');
+
+    const delivery = Promise.all(
+      [...urls].map(async (url) => {
+        try {
+          const response = await axios.post(url, body, {
+            headers: { 'Content-Type': 'application/json', 'X-Front-Signature': signature },
+            validateStatus: () => true,
+          });
+          logger.debug('Mock Frontapp webhook sent', { type, url, status: response.status });
+        } catch (error: any) {
+          logger.warn('Failed to send mock Frontapp webhook', { type, url, error: error.message });
+        }
+      })
+    ).then(() => undefined);
+
+    this.deliveries.add(delivery);
+    try {
+      await delivery;
+    } finally {
+      this.deliveries.delete(delivery);
+    }
+  }
+
+  /**
+   * Wait until the webhooks being sent are delivered
+   */
+  public async flushWebhooks(): Promise<void> {
+    while (this.deliveries.size > 0) {
+      await Promise.all(this.deliveries);
+    }
+  }
+
+  /**
+   * Check the API token of a request
+   * @param req The request
+   * @param next Continues with the next handler
+   */
+  private authenticate(req: Request, next: NextFunction): void {
+    if (req.path.startsWith('/_mock/')) {
+      return next();
+    }
+
+    const token = req.headers.authorization?.replace(/^Bearer /, '');
+    if (!token || (this.options.apiKey && token !== this.options.apiKey)) {
+      return next(new MockFrontappError(401, 'Invalid API token'));
+    }
+
+    next();
+  }
+
+  /**
+   * Count a request against the rate limit of the current minute, and set the rate limit headers
+   * Requests over the limit are refused with 429 and a retry-after header
+   * @param req The request
+   * @param res The response
+   * @param next Continues with the next handler
+   */
+  private rateLimit(req: Request, res: Response, next: NextFunction): void {
+    if (req.path.startsWith('/_mock/')) {
+      return next();
+    }
+
+    const limit = this.options.rateLimitPerMinute ?? 50;
+    const now = Date.now();
+
+    if (now - this.rateLimitWindow.startedAt >= 60000) {
+      this.rateLimitWindow = { startedAt: now, requests: 0 };
+    }
+    this.rateLimitWindow.requests++;
+
+    const resetAt = this.rateLimitWindow.startedAt + 60000;
+    const remaining = Math.max(limit - this.rateLimitWindow.requests, 0);
+    res.setHeader('x-ratelimit-limit', String(limit));
+    res.setHeader('x-ratelimit-remaining', String(remaining));
+    res.setHeader('x-ratelimit-reset', String(Math.ceil(resetAt / 1000)));
+
+    if (this.rateLimitWindow.requests > limit) {
+      res.setHeader('retry-after', String(Math.ceil((resetAt - now) / 1000)));
+      return next(new MockFrontappError(429, 'Rate limit exceeded'));
+    }
+
+    next();
+  }
+
+  /**
+   * Parse a multipart/form-data body, as sent for messages with attachments
+   * Fields named like to[0] or sender[handle] are parsed into arrays and objects, and files
+   * into req.body.attachments
+   * @param req The request, whose raw body is replaced by the parsed fields
+   * @param next Continues with the next handler
+   */
+  private parseMultipart(req: Request, next: NextFunction): void {
+    const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(req.get('content-type') || '');
+    if (!Buffer.isBuffer(req.body) || !boundary) {
+      return next();
+    }
+
+    const body: Record<string, any> = {};
+    const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+    let start = req.body.indexOf(delimiter);
+    while (start !== -1) {
+      const end = req.body.indexOf(delimiter, start + delimiter.length);
+      if (end === -1) {
+        break;
+      }
+
+      // Each part is: CRLF, headers, CRLF CRLF, content, CRLF
+      const part = req.body.subarray(start + delimiter.length + 2, end - 2);
+      const headerEnd = part.indexOf('\r\n\r\n');
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      const content = part.subarray(headerEnd + 4);
+      const name = /name="([^"]*)"/i.exec(headers)?.[1];
+      const filename = /filename="([^"]*)"/i.exec(headers)?.[1];
+
+      if (name) {
+        const value: MockFile | string =
+          filename !== undefined
+            ? {
+                filename,
+                content_type: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1] || 'text/plain',
+                content: Buffer.from(content),
+              }
+            : content.toString('utf8');
+
+        // attachments[0] => ['attachments', '0']
+        const keys = name.replace(/\]/g, '').split('[');
+        let target = body;
+        keys.slice(0, -1).forEach((key, index) => {
+          target[key] ??= /^\d+$/.test(keys[index + 1]) ? [] : {};
+          target = target[key];
+        });
+        target[keys[keys.length - 1]] = value;
+      }
+
+      start = end;
+    }
+
+    req.body = body;
+    next();
+  }
+
+  /**
+   * Store the files attached to a message or comment
+   * @param files The files parsed from a multipart/form-data body, if any
+   * @returns The attachment IDs
+   */
+  private storeFiles(files: MockFile[] | undefined): string[] {
+    const uploads = (files || []).filter((file) => Buffer.isBuffer(file?.content));
+    return uploads.map((file) => {
+      const id = createId('fil');
+      this.data.files.set(id, file);
+      return id;
+    });
+  }
+
+  /**
+   * Register the routes of the Frontapp API endpoints and of the mock's own endpoints
+   */
+  private registerRoutes(): void {
+    this.registerDirectoryRoutes();
+    this.registerTagRoutes();
+    this.registerContactRoutes();
+    this.registerConversationRoutes();
+    this.registerWebhookRoutes();
+    this.registerAnalyticsRoutes();
+    this.registerMockRoutes();
+  }
+
+  /**
+   * Register the routes of teammates, inboxes and channels, and of the messages they receive
+   */
+  private registerDirectoryRoutes(): void {
+    const { app } = this;
+
+    app.get(
+      '/teammates',
+      route((req, res) => this.sendList(req, res, [...this.data.teammates.values()], 'teammate'))
+    );
+    app.get('/teammates/:id', route((req, res) => res.json(this.teammate(req, req.params.id))));
+    app.get(
+      '/inboxes',
+      route((req, res) => this.sendList(req, res, [...this.data.inboxes.values()], 'inbox'))
+    );
+    app.get('/inboxes/:id', route((req, res) => res.json(this.inbox(req, req.params.id))));
+    app.get(
+      '/inboxes/:id/conversations',
+      route((req, res) => {
+        this.find(this.data.inboxes, req.params.id, 'inbox');
+        const conversations = this.listConversations(req.query.q).filter(
+          (conversation) => conversation.inbox_ids.includes(req.params.id)
+        );
+        this.sendList(req, res, conversations, 'conversation');
+      })
+    );
+    app.post(
+      '/inboxes/:id/imported_messages',
+      route(async (req, res) => {
+        const inbox = this.find(this.data.inboxes, req.params.id, 'inbox');
+        const inbound = req.body.metadata?.is_inbound ?? true;
+        const message = await this.receiveMessage(req, inbox.id, { ...req.body, inbound });
+        res.status(202).json({ status: 'accepted', message_uid: message.id });
+      })
+    );
+    app.get(
+      '/channels',
+      route((req, res) => this.sendList(req, res, [...this.data.channels.values()], 'channel'))
+    );
+    app.get('/channels/:id', route((req, res) => res.json(this.channel(req, req.params.id))));
+    app.post(
+      '/channels/:id/messages',
+      route(async (req, res) => {
+        const channel = this.find(this.data.channels, req.params.id, 'channel');
+        const conversation = this.createConversation({
+          subject: req.body.subject || '',
+          recipient: { handle: req.body.to?.[0] || '', role: 'to' },
+          inboxId: channel.inbox_id,
+          assignee: req.body.author_id || null,
+          tagIds: req.body.tag_ids || [],
+        });
+        const message = this.addMessage(conversation.id, req.body, {
+          inbound: false,
+          handle: req.body.to?.[0] || '',
+        });
+        res.status(202).json(this.message(req, message));
+        await this.emitWebhook('conversation.created', { id: conversation.id });
+        await this.emitWebhook('message.created', {
+          id: message.id,
+          conversation_id: conversation.id,
+        });
+      })
+    );
+    // Front answers messages of custom channels asynchronously, like an inbound email
+    app.post(
+      '/channels/:id/incoming_messages',
+      route(async (req, res) => {
+        const channel = this.find(this.data.channels, req.params.id, 'channel');
+        const message = await this.receiveMessage(req, channel.inbox_id, {
+          ...req.body,
+          inbound: true,
+        });
+        res.status(202).json({ status: 'accepted', message_uid: message.id });
+      })
+    );
+  }
+
+  /**
+   * Register the routes of tags
+   */
+  private registerTagRoutes(): void {
+    const { app } = this;
+
+    app.get(
+      '/tags',
+      route((req, res) => this.sendList(req, res, [...this.data.tags.values()], 'tag'))
+    );
+    app.get('/tags/:id', route((req, res) => res.json(this.tag(req, req.params.id))));
+    app.get(
+      '/tags/:id/children',
+      route((req, res) => {
+        this.find(this.data.tags, req.params.id, 'tag');
+        const children = [...this.data.tags.values()].filter(
+          (tag) => tag.parent_tag_id === req.params.id
+        );
+        this.sendList(req, res, children, 'tag');
+      })
+    );
+    app.post(
+      '/tags/:id/children',
+      route((req, res) => {
+        this.find(this.data.tags, req.params.id, 'tag');
+        res.status(201).json(this.tag(req, this.createTag(req.body, req.params.id).id));
+      })
+    );
+    app.get(
+      '/tags/:id/conversations',
+      route((req, res) => {
+        this.find(this.data.tags, req.params.id, 'tag');
+        const conversations = [...this.data.conversations.values()].filter((conversation) =>
+          conversation.tag_ids.includes(req.params.id)
+        );
+        this.sendList(req, res, conversations, 'conversation');
+      })
+    );
+    app.post(
+      '/tags',
+      route((req, res) => res.status(201).json(this.tag(req, this.createTag(req.body).id)))
+    );
+  }
+
+  /**
+   * Register the routes of contacts
+   */
+  private registerContactRoutes(): void {
+    const { app } = this;
+
+    app.get(
+      '/contacts',
+      route((req, res) => {
+        const query = typeof req.query.q === 'string' ? req.query.q.toLowerCase() : '';
+        const contacts = [...this.data.contacts.values()].filter(
+          (contact) =>
+            !query ||
+            contact.name.toLowerCase().includes(query) ||
+            contact.handles.some((handle: any) => handle.handle.toLowerCase().includes(query))
+        );
+        this.sendList(req, res, contacts, 'contact');
+      })
+    );
+    app.get('/contacts/:id', route((req, res) => res.json(this.contact(req, req.params.id))));
+    app.post(
+      '/contacts',
+      route(async (req, res) => {
+        if (!Array.isArray(req.body.handles) || req.body.handles.length === 0) {
+          throw new MockFrontappError(400, 'handles is required');
+        }
+        const contact = {
+          id: createId('crd'),
+          name: req.body.name || '',
+          description: req.body.description || '',
+          handles: req.body.handles,
+          groups: [],
+          custom_fields: req.body.custom_fields || {},
+          is_spammer: Boolean(req.body.is_spammer),
+          links: req.body.links || [],
+          updated_at: timestamp(),
+        };
+        this.data.contacts.set(contact.id, contact);
+        res.status(201).json(this.contact(req, contact.id));
+        await this.emitWebhook('contact.created', { id: contact.id });
+      })
+    );
+    app.patch(
+      '/contacts/:id',
+      route(async (req, res) => {
+        const contact = this.find(this.data.contacts, req.params.id, 'contact');
+        for (const field of ['name', 'description', 'custom_fields', 'is_spammer', 'links']) {
+          if (req.body[field] !== undefined) {
+            contact[field] = req.body[field];
+          }
+        }
+        contact.updated_at = timestamp();
+        res.status(204).end();
+        await this.emitWebhook('contact.updated', { id: contact.id });
+      })
+    );
+    app.delete(
+      '/contacts/:id',
+      route((req, res) => {
+        this.find(this.data.contacts, req.params.id, 'contact');
+        this.data.contacts.delete(req.params.id);
+        res.status(204).end();
+      })
+    );
+  }
+
+  /**
+   * Register the routes of conversations, and of their tags, followers, messages, comments and
+   * events
+   */
+  private registerConversationRoutes(): void {
+    const { app } = this;
+
+    app.get(
+      '/conversations',
+      route((req, res) => {
+        this.sendList(req, res, this.listConversations(req.query.q), 'conversation');
+      })
+    );
+    app.get(
+      '/conversations/search/:query',
+      route((req, res) => {
+        const conversations = this.searchConversations(req.params.query);
+        this.sendList(req, res, conversations, 'conversation', { total: conversations.length });
+      })
+    );
+    app.get(
+      '/conversations/:id',
+      route((req, res) => res.json(this.conversation(req, req.params.id)))
+    );
+    app.patch(
+      '/conversations/:id',
+      route(async (req, res) => {
+        const conversation = this.find(this.data.conversations, req.params.id, 'conversation');
+        const { assignee_id, status, tag_ids, inbox_id } = req.body;
+
+        if (inbox_id !== undefined) {
+          this.find(this.data.inboxes, inbox_id, 'inbox');
+          conversation.inbox_ids = [inbox_id];
+        }
+        if (assignee_id !== undefined) {
+          await this.assign(conversation, assignee_id);
+        }
+        if (tag_ids !== undefined) {
+          const removed = conversation.tag_ids.filter((id: string) => !tag_ids.includes(id));
+          await this.changeTags(conversation, tag_ids, 'add');
+          await this.changeTags(conversation, removed, 'remove');
+        }
+        if (status !== undefined) {
+          await this.setStatus(conversation, status);
+        }
+
+        res.status(204).end();
+      })
+    );
+    app.put(
+      '/conversations/:id/assignee',
+      route(async (req, res) => {
+        const conversation = this.find(this.data.conversations, req.params.id, 'conversation');
+        await this.assign(conversation, req.body.assignee_id ?? null);
+        res.status(204).end();
+      })
+    );
+    app.post(
+      '/conversations/:id/tags',
+      route(async (req, res) => {
+        const conversation = this.find(this.data.conversations, req.params.id, 'conversation');
+        await this.changeTags(conversation, req.body.tag_ids || [], 'add');
+        res.status(204).end();
+      })
+    );
+    app.delete(
+      '/conversations/:id/tags',
+      route(async (req, res) => {
+        const conversation = this.find(this.data.conversations, req.params.id, 'conversation');
+        await this.changeTags(conversation, req.body.tag_ids || [], 'remove');
+        res.status(204).end();
+      })
+    );
+    app.get(
+      '/conversations/:id/followers',
+      route((req, res) => {
+        this.find(this.data.conversations, req.params.id, 'conversation');
+        const followers = (this.data.followers.get(req.params.id) || []).map((id) =>
+          this.data.teammates.get(id)
+        );
+        this.sendList(req, res, followers, 'teammate');
+      })
+    );
+    app.post(
+      '/conversations/:id/followers',
+      route((req, res) => {
+        this.find(this.data.conversations, req.params.id, 'conversation');
+        const teammateIds: string[] = req.body.teammate_ids || [];
+        teammateIds.forEach((id) => this.find(this.data.teammates, id, 'teammate'));
+        const followers = this.data.followers.get(req.params.id) || [];
+        this.data.followers.set(req.params.id, [...new Set([...followers, ...teammateIds])]);
+        res.status(204).end();
+      })
+    );
+    app.delete(
+      '/conversations/:id/followers',
+      route((req, res) => {
+        this.find(this.data.conversations, req.params.id, 'conversation');
+        const teammateIds: string[] = req.body.teammate_ids || [];
+        const followers = this.data.followers.get(req.params.id) || [];
+        this.data.followers.set(
+          req.params.id,
+          followers.filter((id) => !teammateIds.includes(id))
+        );
+        res.status(204).end();
+      })
+    );
+    app.get(
+      '/conversations/:id/inboxes',
+      route((req, res) => {
+        const conversation = this.find(this.data.conversations, req.params.id, 'conversation');
+        const inboxes = conversation.inbox_ids.map((id: string) => this.data.inboxes.get(id));
+        this.sendList(req, res, inboxes, 'inbox');
+      })
+    );
+    app.get(
+      '/conversations/:id/messages',
+      route((req, res) => {
+        this.find(this.data.conversations, req.params.id, 'conversation');
+        // Front lists the messages of a conversation newest first
+        const messages = [...(this.data.messages.get(req.params.id) || [])].reverse();
+        this.sendList(req, res, messages, 'message');
+      })
+    );
+    app.post(
+      '/conversations/:id/messages',
+      route(async (req, res) => {
+        const conversation = this.find(this.data.conversations, req.params.id, 'conversation');
+        if (!req.body.body) {
+          throw new MockFrontappError(400, 'body is required');
+        }
+        const message = this.addMessage(conversation.id, req.body, {
+          inbound: false,
+          handle: conversation.recipient.handle,
+        });
+        res.status(202).json(this.message(req, message));
+        await this.emitWebhook('message.created', {
+          id: message.id,
+          conversation_id: conversation.id,
+        });
+      })
+    );
+    app.get(
+      '/conversations/:id/comments',
+      route((req, res) => {
+        this.find(this.data.conversations, req.params.id, 'conversation');
+        this.sendList(req, res, this.data.comments.get(req.params.id) || [], 'comment');
+      })
+    );
+    app.post(
+      '/conversations/:id/comments',
+      route((req, res) => {
+        this.find(this.data.conversations, req.params.id, 'conversation');
+        if (!req.body.body) {
+          throw new MockFrontappError(400, 'body is required');
+        }
+        const comment = {
+          id: createId('com'),
+          author: req.body.author_id || null,
+          body: req.body.body,
+          posted_at: timestamp(),
+          attachments: this.storeFiles(req.body.attachments),
+        };
+        const comments = this.data.comments.get(req.params.id) || [];
+        this.data.comments.set(req.params.id, [...comments, comment]);
+        res.status(201).json(this.comment(req, comment));
+      })
+    );
+    app.get(
+      '/conversations/:id/events',
+      route((req, res) => {
+        this.find(this.data.conversations, req.params.id, 'conversation');
+        const events = [...(this.data.events.get(req.params.id) || [])].reverse();
+        this.sendList(req, res, events, 'event');
+      })
+    );
+    app.get(
+      '/messages/:id',
+      route((req, res) => {
+        for (const messages of this.data.messages.values()) {
+          const message = messages.find((item) => item.id === req.params.id);
+          if (message) {
+            return res.json(this.message(req, message));
+          }
+        }
+        throw new MockFrontappError(404, `Unknown message ${req.params.id}`);
+      })
+    );
+    app.get(
+      '/download/:id',
+      route((req, res) => {
+        const file: MockFile = this.find(this.data.files, req.params.id, 'attachment');
+        res
+          .type(file.content_type)
+          .set('Content-Disposition', `attachment; filename="${file.filename}"`)
+          .send(file.content);
+      })
+    );
+  }
+
+  /**
+   * Register the routes of webhook subscriptions
+   */
+  private registerWebhookRoutes(): void {
+    const { app } = this;
+
+    app.get(
+      '/webhooks',
+      route((req, res) => this.sendList(req, res, [...this.data.webhooks.values()], 'webhook'))
+    );
+    app.post(
+      '/webhooks',
+      route((req, res) => {
+        if (!req.body.url) {
+          throw new MockFrontappError(400, 'url is required');
+        }
+        const webhook = { id: createId('whk'), url: req.body.url, events: req.body.events || [] };
+        this.data.webhooks.set(webhook.id, webhook);
+        res.status(201).json(this.withLinks(req, webhook, 'webhooks'));
+      })
+    );
+    app.delete(
+      '/webhooks/:id',
+      route((req, res) => {
+        this.find(this.data.webhooks, req.params.id, 'webhook');
+        this.data.webhooks.delete(req.params.id);
+        res.status(204).end();
+      })
+    );
+  }
+
+  /**
+   * Register the routes of analytics reports
+   * Reports are computed when they are created, and are running until analyticsDelayMs later
+   */
+  private registerAnalyticsRoutes(): void {
+    const { app } = this;
+
+    app.post(
+      '/analytics/reports',
+      route((req, res) => {
+        const { start, end, metrics } = req.body;
+        if (typeof start !== 'number' || typeof end !== 'number' || start >= end) {
+          throw new MockFrontappError(400, 'start and end must be timestamps, start before end');
+        }
+        if (!Array.isArray(metrics) || metrics.length === 0) {
+          throw new MockFrontappError(400, 'metrics is required');
+        }
+        const unknown = metrics.filter((id: string) => !MOCK_ANALYTICS_METRICS.includes(id));
+        if (unknown.length > 0) {
+          throw new MockFrontappError(400, `Unknown metrics: ${unknown.join(', ')}`);
+        }
+
+        const report = {
+          id: createId('rpt'),
+          created_at: Date.now(),
+          done_at: Date.now() + (this.options.analyticsDelayMs ?? 1000),
+          metrics: computeAnalyticsMetrics(this.data, req.body),
+        };
+        this.data.analyticsReports.set(report.id, report);
+        res.status(201).json(this.analyticsReport(req, report.id));
+      })
+    );
+    app.get(
+      '/analytics/reports/:id',
+      route((req, res) => res.json(this.analyticsReport(req, req.params.id)))
+    );
+  }
+
+  /**
+   * Register the endpoints of the mock itself, which the Frontapp API doesn't have
+   */
+  private registerMockRoutes(): void {
+    const { app } = this;
+
+    app.post(
+      '/_mock/reset',
+      route((req, res) => {
+        this.reset();
+        res.status(204).end();
+      })
+    );
+  }
+
+  /**
+   * Find a resource by ID
+   * @param resources The resources of its type
+   * @param id The ID
+   * @param type The name of the type, for the error message
+   * @returns The resource
+   * @throws MockFrontappError with status 404 if there is no resource with the ID
+   */
+  private find(resources: Map<string, any>, id: string, type: string): any {
+    const resource = resources.get(id);
+    if (!resource) {
+      throw new MockFrontappError(404, `Unknown ${type} ${id}`);
+    }
+    return resource;
+  }
+
+  /**
+   * Respond with a page of a list
+   * Pages are selected by the limit and page_token query parameters, like Front's, and link to
+   * the next page with a full URL
+   * @param req The request
+   * @param res The response
+   * @param items The items of the list, in stored form
+   * @param type The type of the items, whose serializer is used
+   * @param extra Extra fields of the response, e.g. the total of a search
+   */
+  private sendList(
+    req: Request,
+    res: Response,
+    items: any[],
+    type: string,
+    extra: Record<string, any> = {}
+  ): void {
+    const limit = Math.min(Number(req.query.limit) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const pageToken = typeof req.query.page_token === 'string' ? req.query.page_token : '';
+    const offset = pageToken ? Number(Buffer.from(pageToken, 'base64url').toString()) || 0 : 0;
+
+    const page = items.slice(offset, offset + limit);
+    let next: string | null = null;
+    if (offset + limit < items.length) {
+      const url = new URL(req.originalUrl, this.getOrigin(req));
+      url.searchParams.set('limit', String(limit));
+      url.searchParams.set('page_token', Buffer.from(String(offset + limit)).toString('base64url'));
+      next = url.toString();
+    }
+
+    res.json({
+      _links: { self: new URL(req.originalUrl, this.getOrigin(req)).toString() },
+      _pagination: { next },
+      ...extra,
+      _results: page.map((item) => this.serialize(req, item, type)),
+    });
+  }
+
+  /**
+   * Get the origin the request was sent to, for links
+   * @param req The request
+   * @returns The origin, e.g. http://localhost:4010
+   */
+  private getOrigin(req: Request): string {
+    return `${req.protocol}://${req.get('host')}`;
+  }
+
+  /**
+   * Add the _links of a resource
+   * @param req The request
+   * @param resource The resource
+   * @param path The path of the resources of its type, e.g. conversations
+   * @returns The resource with its links
+   */
+  private withLinks(req: Request, resource: any, path: string): any {
+    return { _links: { self: `${this.getOrigin(req)}/${path}/${resource.id}` }, ...resource };
+  }
+
+  /**
+   * Serialize a stored item of a list
+   * @param req The request
+   * @param item The item
+   * @param type The type of the item
+   * @returns The item as the Frontapp API returns it
+   */
+  private serialize(req: Request, item: any, type: string): any {
+    switch (type) {
+      case 'conversation':
+        return this.conversation(req, item.id);
+      case 'message':
+        return this.message(req, item);
+      case 'comment':
+        return this.comment(req, item);
+      case 'contact':
+        return this.contact(req, item.id);
+      case 'tag':
+        return this.tag(req, item.id);
+      case 'teammate':
+        return this.teammate(req, item.id);
+      case 'inbox':
+        return this.inbox(req, item.id);
+      case 'channel':
+        return this.channel(req, item.id);
+      case 'webhook':
+        return this.withLinks(req, item, 'webhooks');
+      default:
+        return item;
+    }
+  }
+
+  /**
+   * Serialize a teammate
+   * @param req The request
+   * @param id The ID of the teammate
+   * @returns The teammate as the Frontapp API returns it
+   */
+  private teammate(req: Request, id: string): any {
+    return this.withLinks(req, this.find(this.data.teammates, id, 'teammate'), 'teammates');
+  }
+
+  /**
+   * Serialize an inbox
+   * @param req The request
+   * @param id The ID of the inbox
+   * @returns The inbox as the Frontapp API returns it
+   */
+  private inbox(req: Request, id: string): any {
+    return this.withLinks(req, this.find(this.data.inboxes, id, 'inbox'), 'inboxes');
+  }
+
+  /**
+   * Serialize a channel
+   * @param req The request
+   * @param id The ID of the channel
+   * @returns The channel as the Frontapp API returns it
+   */
+  private channel(req: Request, id: string): any {
+    return this.withLinks(req, this.find(this.data.channels, id, 'channel'), 'channels');
+  }
+
+  /**
+   * Serialize a tag
+   * @param req The request
+   * @param id The ID of the tag
+   * @returns The tag as the Frontapp API returns it
+   */
+  private tag(req: Request, id: string): any {
+    const { parent_tag_id, ...tag } = this.find(this.data.tags, id, 'tag');
+    const resource = this.withLinks(req, tag, 'tags');
+    if (parent_tag_id) {
+      resource._links.related = { parent_tag: `${this.getOrigin(req)}/tags/${parent_tag_id}` };
+    }
+    return resource;
+  }
+
+  /**
+   * Serialize an analytics report
+   * Running reports have their progress and no metrics yet
+   * @param req The request
+   * @param id The ID of the report
+   * @returns The report as the Frontapp API returns it
+   */
+  private analyticsReport(req: Request, id: string): any {
+    const report = this.find(this.data.analyticsReports, id, 'analytics report');
+    const done = Date.now() >= report.done_at;
+    const elapsed = (Date.now() - report.created_at) / (report.done_at - report.created_at);
+    return {
+      _links: { self: `${this.getOrigin(req)}/analytics/reports/${id}` },
+      status: done ? 'done' : 'running',
+      progress: done ? 100 : Math.min(Math.floor(elapsed * 100), 99),
+      metrics: done ? report.metrics : [],
+    };
+  }
+
+  /**
+   * Serialize a contact
+   * @param req The request
+   * @param id The ID of the contact
+   * @returns The contact as the Frontapp API returns it
+   */
+  private contact(req: Request, id: string): any {
+    return this.withLinks(req, this.find(this.data.contacts, id, 'contact'), 'contacts');
+  }
+
+  /**
+   * Serialize a conversation, with its assignee and tags in full
+   * @param req The request
+   * @param id The ID of the conversation
+   * @returns The conversation as the Frontapp API returns it
+   */
+  private conversation(req: Request, id: string): any {
+    const { assignee, tag_ids, inbox_ids, ...conversation } = this.find(
+      this.data.conversations,
+      id,
+      'conversation'
+    );
+    const lastMessage = this.data.messages.get(id)?.slice(-1)[0];
+
+    return this.withLinks(
+      req,
+      {
+        ...conversation,
+        assignee: assignee ? this.teammate(req, assignee) : null,
+        tags: tag_ids.map((tagId: string) => this.tag(req, tagId)),
+        links: [],
+        is_private: false,
+        scheduled_reminders: [],
+        metadata: {},
+        ...(lastMessage && { last_message: this.message(req, lastMessage) }),
+      },
+      'conversations'
+    );
+  }
+
+  /**
+   * Serialize a message, with its author in full
+   * @param req The request
+   * @param message The stored message
+   * @returns The message as the Frontapp API returns it
+   */
+  private message(req: Request, message: any): any {
+    const { conversation_id, ...rest } = message;
+    return this.withLinks(
+      req,
+      {
+        ...rest,
+        author: message.author ? this.teammate(req, message.author) : null,
+        attachments: message.attachments.map((id: string) => this.attachment(req, id)),
+      },
+      'messages'
+    );
+  }
+
+  /**
+   * Serialize a comment, with its author in full
+   * @param req The request
+   * @param comment The stored comment
+   * @returns The comment as the Frontapp API returns it
+   */
+  private comment(req: Request, comment: any): any {
+    return this.withLinks(
+      req,
+      {
+        ...comment,
+        author: comment.author ? this.teammate(req, comment.author) : null,
+        attachments: (comment.attachments || []).map((id: string) => this.attachment(req, id)),
+      },
+      'comments'
+    );
+  }
+
+  /**
+   * Serialize an attachment, with the URL its file is downloaded from
+   * @param req The request
+   * @param id The attachment ID
+   * @returns The attachment as the Frontapp API returns it
+   */
+  private attachment(req: Request, id: string): any {
+    const file: MockFile = this.find(this.data.files, id, 'attachment');
+    return {
+      id,
+      filename: file.filename,
+      url: `${this.getOrigin(req)}/download/${id}`,
+      content_type: file.content_type,
+      size: file.content.length,
+      metadata: { is_inline: false },
+    };
+  }
+
+  /**
+   * List the conversations, most recently created first
+   * @param query The q query parameter, whose statuses filter the conversations
+   * @returns The stored conversations
+   */
+  private listConversations(query: any): any[] {
+    const statuses: string[] = query?.statuses || [];
+    return [...this.data.conversations.values()]
+      .filter((conversation) => statuses.length === 0 || statuses.includes(conversation.status))
+      .sort((a, b) => b.created_at - a.created_at);
+  }
+
+  /**
+   * Search conversations with a subset of Front's search syntax
+   * Supported: is:open, is:archived, is:assigned, is:unassigned, is:spam, is:deleted,
+   * tag:<name or ID>, assignee:<teammate ID, username or email>, inbox:<inbox name or ID>,
+   * after:<timestamp>, before:<timestamp>, and words, which must all appear in the subject or a
+   * message. Values with spaces can be quoted, e.g. inbox:"Tier 2".
+   * @param query The search query
+   * @returns The matching stored conversations, most recently created first
+   */
+  private searchConversations(query: string): any[] {
+    const matches = (value: string | undefined, term: string) =>
+      value !== undefined && value.toLowerCase() === term.toLowerCase();
+    const filters = (query.match(/(?:[^\s"]+|"[^"]*")+/g) || []).map((term) => {
+      const [, key, rawValue] = term.match(/^(\w+):(.+)$/) || [];
+      const value = rawValue?.replace(/^"|"$/g, '');
+      switch (key) {
+        case 'is':
+          return (conversation: any) =>
+            value === 'open'
+              ? ['assigned', 'unassigned'].includes(conversation.status)
+              : conversation.status === value;
+        case 'tag':
+          return (conversation: any) =>
+            conversation.tag_ids.some(
+              (id: string) => id === value || matches(this.data.tags.get(id)?.name, value)
+            );
+        case 'assignee':
+          return (conversation: any) => {
+            const teammate = this.data.teammates.get(conversation.assignee);
+            const fields = teammate ? [teammate.id, teammate.username, teammate.email] : [];
+            return fields.some((field) => matches(field, value));
+          };
+        case 'inbox':
+          return (conversation: any) =>
+            conversation.inbox_ids.some(
+              (id: string) => id === value || matches(this.data.inboxes.get(id)?.name, value)
+            );
+        case 'after':
+          return (conversation: any) => conversation.created_at > Number(value);
+        case 'before':
+          return (conversation: any) => conversation.created_at < Number(value);
+        default:
+          return (conversation: any) => {
+            const texts = [
+              conversation.subject,
+              ...(this.data.messages.get(conversation.id) || []).map((message) => message.text),
+            ];
+            const word = term.replace(/^"|"$/g, '').toLowerCase();
+            return texts.some((text) => text?.toLowerCase().includes(word));
+          };
+      }
+    });
+
+    return this.listConversations(undefined).filter((conversation) =>
+      filters.every((filter) => filter(conversation))
+    );
+  }
+
+  /**
+   * Store a new tag
+   * @param body The request body, with the name and highlight of the tag
+   * @param parentTagId The ID of the parent of a child tag
+   * @returns The stored tag
+   * @throws MockFrontappError if the name is missing
+   */
+  private createTag(body: any, parentTagId?: string): any {
+    if (!body.name) {
+      throw new MockFrontappError(400, 'name is required');
+    }
+    const tag = {
+      id: createId('tag'),
+      name: body.name,
+      highlight: body.highlight || null,
+      is_private: false,
+      ...(parentTagId && { parent_tag_id: parentTagId }),
+      created_at: timestamp(),
+      updated_at: timestamp(),
+    };
+    this.data.tags.set(tag.id, tag);
+    return tag;
+  }
+
+  /**
+   * Store a new conversation
+   * @param options The subject, recipient, inbox, assignee and tags of the conversation
+   * @returns The stored conversation
+   */
+  private createConversation(options: {
+    subject: string;
+    recipient: { handle: string; role: string };
+    inboxId: string;
+    assignee: string | null;
+    tagIds: string[];
+  }): any {
+    const conversation = {
+      id: createId('cnv'),
+      subject: options.subject,
+      status: options.assignee ? 'assigned' : 'unassigned',
+      assignee: options.assignee,
+      recipient: options.recipient,
+      tag_ids: options.tagIds.filter((id) => this.data.tags.has(id)),
+      inbox_ids: [options.inboxId],
+      created_at: timestamp(),
+    };
+
+    this.data.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  /**
+   * Store a message of a conversation
+   * @param conversationId The ID of the conversation
+   * @param data The body, text and author_id of the message
+   * @param options Whether the message is inbound, and the handle of the other party
+   * @returns The stored message
+   */
+  private addMessage(
+    conversationId: string,
+    data: any,
+    options: { inbound: boolean; handle: string }
+  ): any {
+    const text = data.text || String(data.body).replace(/<[^>]+>/g, '');
+    const message = {
+      id: createId('msg'),
+      conversation_id: conversationId,
+      type: 'email',
+      is_inbound: options.inbound,
+      is_draft: false,
+      created_at: data.created_at !== undefined ? Number(data.created_at) : timestamp(),
+      blurb: text.slice(0, 100),
+      body: data.body,
+      text,
+      author: options.inbound ? null : data.author_id || null,
+      recipients: [{ handle: options.handle, role: options.inbound ? 'from' : 'to' }],
+      attachments: this.storeFiles(data.attachments),
+    };
+
+    const messages = this.data.messages.get(conversationId) || [];
+    this.data.messages.set(conversationId, [...messages, message]);
+    return message;
+  }
+
+  /**
+   * Receive a message from a customer, in a new conversation unless the thread reference of
+   * its metadata matches a conversation
+   * Archived conversations are reopened by inbound messages, as in Front
+   * @param req The request
+   * @param inboxId The inbox receiving the message
+   * @param data The sender, subject, body and metadata of the message
+   * @returns The stored message
+   */
+  private async receiveMessage(req: Request, inboxId: string, data: any): Promise<any> {
+    if (!data.body) {
+      throw new MockFrontappError(400, 'body is required');
+    }
+
+    const handle = data.sender?.handle || data.sender?.email || 'unknown@example.com';
+    const threadRef = data.metadata?.thread_ref;
+    let conversation = threadRef ? this.data.conversations.get(threadRef) : undefined;
+    const created = !conversation;
+
+    if (!conversation) {
+      conversation = this.createConversation({
+        subject: data.subject || '',
+        recipient: { handle, role: data.inbound ? 'from' : 'to' },
+        inboxId,
+        assignee: null,
+        tagIds: data.tag_ids || [],
+      });
+    }
+
+    const message = this.addMessage(conversation.id, data, { inbound: data.inbound, handle });
+
+    if (created) {
+      await this.emitWebhook('conversation.created', { id: conversation.id });
+    } else if (data.inbound && conversation.status === 'archived') {
+      await this.setStatus(conversation, 'open');
+    }
+    await this.emitWebhook(data.inbound ? 'message.received' : 'message.created', {
+      id: message.id,
+      conversation_id: conversation.id,
+    });
+
+    return message;
+  }
+
+  /**
+   * Add or remove tags of a conversation
+   * Tags the conversation already has, or doesn't have, are left alone
+   * @param conversation The stored conversation
+   * @param tagIds The IDs of the tags
+   * @param change Whether the tags are added or removed
+   */
+  private async changeTags(
+    conversation: any,
+    tagIds: string[],
+    change: 'add' | 'remove'
+  ): Promise<void> {
+    tagIds.forEach((tagId) => this.find(this.data.tags, tagId, 'tag'));
+
+    const changed = tagIds.filter(
+      (tagId) => conversation.tag_ids.includes(tagId) === (change === 'remove')
+    );
+    conversation.tag_ids =
+      change === 'add'
+        ? [...conversation.tag_ids, ...changed]
+        : conversation.tag_ids.filter((tagId: string) => !changed.includes(tagId));
+
+    for (const tagId of changed) {
+      const tag = this.data.tags.get(tagId);
+      this.recordEvent(conversation.id, change === 'add' ? 'tag' : 'untag', {
+        type: 'tag',
+        data: tag,
+      });
+      await this.emitWebhook(change === 'add' ? 'conversation.tagged' : 'conversation.untagged', {
+        id: conversation.id,
+        tag_id: tagId,
+      });
+    }
+  }
+
+  /**
+   * Assign or unassign a conversation
+   * @param conversation The stored conversation
+   * @param assigneeId The ID of the teammate to assign, or null to unassign
+   */
+  private async assign(conversation: any, assigneeId: string | null): Promise<void> {
+    const previous = conversation.assignee;
+    if (assigneeId) {
+      this.find(this.data.teammates, assigneeId, 'teammate');
+    }
+    if (previous === assigneeId) {
+      return;
+    }
+
+    conversation.assignee = assigneeId;
+    if (conversation.status !== 'archived') {
+      conversation.status = assigneeId ? 'assigned' : 'unassigned';
+    }
+
+    if (assigneeId) {
+      const teammate = this.data.teammates.get(assigneeId);
+      this.recordEvent(conversation.id, 'assign', { type: 'teammate', data: teammate });
+      await this.emitWebhook('conversation.assigned', {
+        id: conversation.id,
+        assignee_id: assigneeId,
+      });
+    } else {
+      this.recordEvent(conversation.id, 'unassign');
+      await this.emitWebhook('conversation.unassigned', {
+        id: conversation.id,
+        prev_assignee_id: previous,
+      });
+    }
+  }
+
+  /**
+   * Change the status of a conversation
+   * Front's status open means assigned or unassigned, depending on the assignee
+   * @param conversation The stored conversation
+   * @param status The status: open, archived, spam or deleted
+   * @throws MockFrontappError with status 400 for other statuses
+   */
+  private async setStatus(conversation: any, status: string): Promise<void> {
+    if (!['open', 'archived', 'spam', 'deleted'].includes(status)) {
+      throw new MockFrontappError(400, `Invalid status ${status}`);
+    }
+
+    const next = status === 'open' ? (conversation.assignee ? 'assigned' : 'unassigned') : status;
+    if (conversation.status === next) {
+      return;
+    }
+
+    conversation.status = next;
+    const eventTypes: Record<string, string> = {
+      archived: 'archive',
+      spam: 'trash',
+      deleted: 'trash',
+    };
+    this.recordEvent(conversation.id, eventTypes[next] || 'reopen');
+    await this.emitWebhook('conversation.updated', { id: conversation.id, status: next });
+  }
+
+  /**
+   * Record an event of a conversation, as listed by GET /conversations/:id/events
+   * @param conversationId The ID of the conversation
+   * @param type The event type, e.g. tag or archive
+   * @param target The target of the event, e.g. the tag
+   */
+  private recordEvent(
+    conversationId: string,
+    type: string,
+    target?: { type: string; data: any }
+  ): void {
+    const event = {
+      id: createId('evt'),
+      type,
+      emitted_at: timestamp(),
+      source: { _meta: { type: 'api' }, data: null },
+      ...(target && { target: { _meta: { type: target.type }, data: target.data } }),
+    };
+
+    const events = this.data.events.get(conversationId) || [];
+    this.data.events.set(conversationId, [...events, event]);
+  }
+}
@@ -42,6 +42,7 @@ export interface Conversation {
   last_message?: Message;
   created_at: number;
   is_private: boolean;
+  custom_fields?: CustomFields;
   metadata?: MetadataFields;
   _links: {
     self: string;
@@ -107,8 +108,9 @@ export interface Recipient {
       contact?: string;
     };
   };
+  name?: string;
   handle: string;
-  role: 'to' | 'cc' | 'bcc';
+  role: 'from' | 'to' | 'cc' | 'bcc' | 'reply-to';
 }
 
 // Attachment interface
@@ -224,6 +226,21 @@ export interface Webhook {
   };
 }
 
+// Conversation event interface
+export interface ConversationEvent {
+  id: string;
+  type: string;
+  emitted_at: number;
+  source?: {
+    _meta: { type: string };
+    data?: any;
+  };
+  target?: {
+    _meta: { type: string };
+    data?: any;
+  };
+}
+
 // Webhook event types
 export enum WebhookEventType {
   CONVERSATION_ASSIGNED = 'conversation.assigned',
@@ -34,35 +34,35 @@ export interface GetConversationsArguments extends ToolArguments {
   page_token?: string;
 }
 
-export interface GetConversationArguments extends ToolArguments {
-  conversation_id: string;
-}
-
-export interface SendMessageArguments extends ToolArguments {
+export interface ArchiveConversationArguments extends ToolArguments {
   conversation_id: string;
-  content: string;
-  author_id?: string;
-  subject?: string;
-  options?: {
-    tags?: string[];
-    archive?: boolean;
-    draft?: boolean;
-  };
 }
 
-export interface AddCommentArguments extends ToolArguments {
+export interface AssignConversationArguments extends ToolArguments {
   conversation_id: string;
-  body: string;
-  author_id: string;
+  assignee_id: string;
 }
 
-export interface ArchiveConversationArguments extends ToolArguments {
+export interface GetConversationTranscriptArguments extends ToolArguments {
   conversation_id: string;
+  format?: 'markdown' | 'text';
+  max_tokens?: number;
+  include_events?: boolean;
+  include_quoted?: boolean;
 }
 
-export interface AssignConversationArguments extends ToolArguments {
-  conversation_id: string;
-  assignee_id: string;
+export interface BulkUpdateConversationsArguments extends ToolArguments {
+  conversation_ids?: string[];
+  query?: string;
+  add_tag_ids?: string[];
+  remove_tag_ids?: string[];
+  assignee_id?: string;
+  unassign?: boolean;
+  status?: 'open' | 'archived' | 'spam';
+  add_follower_ids?: string[];
+  remove_follower_ids?: string[];
+  dry_run?: boolean;
+  page_token?: string;
 }
 
 // Contact tool arguments
@@ -72,39 +72,6 @@ export interface GetContactsArguments extends ToolArguments {
   page_token?: string;
 }
 
-export interface GetContactArguments extends ToolArguments {
-  contact_id: string;
-}
-
-export interface CreateContactArguments extends ToolArguments {
-  name?: string;
-  description?: string;
-  handles: {
-    handle: string;
-    source: string;
-  }[];
-  links?: {
-    name: string;
-    url: string;
-  }[];
-  custom_fields?: Record<string, any>;
-}
-
-export interface UpdateContactArguments extends ToolArguments {
-  contact_id: string;
-  name?: string;
-  description?: string;
-  handles?: {
-    handle: string;
-    source: string;
-  }[];
-  links?: {
-    name: string;
-    url: string;
-  }[];
-  custom_fields?: Record<string, any>;
-}
-
 // Tag tool arguments
 export interface GetTagsArguments extends ToolArguments {
   limit?: number;
@@ -127,20 +94,12 @@ export interface GetInboxesArguments extends ToolArguments {
   page_token?: string;
 }
 
-export interface GetInboxArguments extends ToolArguments {
-  inbox_id: string;
-}
-
 // User tool arguments
 export interface GetTeammatesArguments extends ToolArguments {
   limit?: number;
   page_token?: string;
 }
 
-export interface GetTeammateArguments extends ToolArguments {
-  teammate_id: string;
-}
-
 // Account tool arguments
 export interface GetAccountsArguments extends ToolArguments {
   q?: string;
@@ -148,27 +107,6 @@ export interface GetAccountsArguments extends ToolArguments {
   page_token?: string;
 }
 
-export interface GetAccountArguments extends ToolArguments {
-  account_id: string;
-}
-
-export interface CreateAccountArguments extends ToolArguments {
-  name: string;
-  description?: string;
-  domains: string[];
-  external_id?: string;
-  custom_fields?: Record<string, any>;
-}
-
-export interface UpdateAccountArguments extends ToolArguments {
-  account_id: string;
-  name?: string;
-  description?: string;
-  domains?: string[];
-  external_id?: string;
-  custom_fields?: Record<string, any>;
-}
-
 // Webhook tool arguments
 export interface SubscribeWebhookArguments extends ToolArguments {
   events: string[];
@@ -218,60 +156,6 @@ export const FRONTAPP_TOOL_DEFINITIONS: ToolDefinition[] = [
       },
     },
   },
-  {
-    name: 'get_conversation',
-    description: 'Get details of a specific conversation',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        conversation_id: { type: 'string', description: 'ID of the conversation' },
-      },
-      required: ['conversation_id'],
-    },
-  },
-  {
-    name: 'send_message',
-    description: 'Send a message to a conversation',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        conversation_id: { type: 'string', description: 'ID of the conversation' },
-        content: { type: 'string', description: 'Message content' },
-        author_id: { type: 'string', description: 'ID of the message author' },
-        subject: { type: 'string', description: 'Message subject' },
-        options: {
-          type: 'object',
-          description: 'Additional options',
-          properties: {
-            tags: {
-              type: 'array',
-              description: 'Tags to apply to the conversation',
-              items: { type: 'string' },
-            },
-            archive: {
-              type: 'boolean',
-              description: 'Whether to archive the conversation after sending',
-            },
-            draft: { type: 'boolean', description: 'Whether to create a draft instead of sending' },
-          },
-        },
-      },
-      required: ['conversation_id', 'content'],
-    },
-  },
-  {
-    name: 'add_comment',
-    description: 'Add a comment to a conversation',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        conversation_id: { type: 'string', description: 'ID of the conversation' },
-        body: { type: 'string', description: 'Comment body' },
-        author_id: { type: 'string', description: 'ID of the comment author' },
-      },
-      required: ['conversation_id', 'body', 'author_id'],
-    },
-  },
   {
     name: 'archive_conversation',
     description: 'Archive a conversation',
@@ -298,101 +182,96 @@ export const FRONTAPP_TOOL_DEFINITIONS: ToolDefinition[] = [
       required: ['conversation_id', 'assignee_id'],
     },
   },
-
-  // Contact tools
   {
-    name: 'get_contact',
-    description: 'Get details of a specific contact',
+    name: 'get_conversation_transcript',
+    description:
+      'Get a conversation as a compact, chronological transcript of its messages, internal comments and events. Quoted replies and HTML are stripped and authors are named. Prefer this over listing messages, comments and events separately.',
     inputSchema: {
       type: 'object',
       properties: {
-        contact_id: { type: 'string', description: 'ID of the contact' },
+        conversation_id: { type: 'string', description: 'ID of the conversation' },
+        format: {
+          type: 'string',
+          description: 'Output format (default: markdown)',
+          enum: ['markdown', 'text'],
+        },
+        max_tokens: {
+          type: 'number',
+          description:
+            'Approximate maximum size of the transcript in tokens (default: 8000). The oldest entries are omitted to fit.',
+        },
+        include_events: {
+          type: 'boolean',
+          description: 'Include events such as assignments, tags and archiving (default: true)',
+        },
+        include_quoted: {
+          type: 'boolean',
+          description: 'Keep quoted replies in message bodies (default: false)',
+        },
       },
-      required: ['contact_id'],
+      required: ['conversation_id'],
     },
   },
   {
-    name: 'create_contact',
-    description: 'Create a new contact in Frontapp',
+    name: 'bulk_update_conversations',
+    description:
+      'Apply the same changes (tags, assignee, status, followers) to many conversations in one call, given by ID or by a Front search query. Returns a report of the conversations that were updated and those that failed. Use dry_run first to check which conversations a query matches.',
     inputSchema: {
       type: 'object',
       properties: {
-        name: { type: 'string', description: 'Name of the contact' },
-        description: { type: 'string', description: 'Description of the contact' },
-        handles: {
+        conversation_ids: {
           type: 'array',
-          description: 'Contact handles (email, phone, etc.)',
-          items: {
-            type: 'object',
-            properties: {
-              handle: { type: 'string', description: 'Handle value (e.g., email address)' },
-              source: { type: 'string', description: 'Handle source (e.g., email)' },
-            },
-            required: ['handle', 'source'],
-          },
+          items: { type: 'string' },
+          description: 'IDs of the conversations to update. Give either this or query.',
+        },
+        query: {
+          type: 'string',
+          description:
+            'Front search query selecting the conversations to update (e.g., "tag:urgent is:open"). Give either this or conversation_ids.',
+        },
+        page_token: {
+          type: 'string',
+          description:
+            'next_page_token of a previous call with the same query, to update the conversations after the ones it updated',
         },
-        links: {
+        add_tag_ids: {
           type: 'array',
-          description: 'Links associated with the contact',
-          items: {
-            type: 'object',
-            properties: {
-              name: { type: 'string', description: 'Link name' },
-              url: { type: 'string', description: 'Link URL' },
-            },
-            required: ['name', 'url'],
-          },
+          items: { type: 'string' },
+          description: 'IDs of the tags to add',
         },
-        custom_fields: {
-          type: 'object',
-          description: 'Custom fields for the contact',
+        remove_tag_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the tags to remove',
         },
-      },
-      required: ['handles'],
-    },
-  },
-  {
-    name: 'update_contact',
-    description: 'Update an existing contact in Frontapp',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        contact_id: { type: 'string', description: 'ID of the contact to update' },
-        name: { type: 'string', description: 'Name of the contact' },
-        description: { type: 'string', description: 'Description of the contact' },
-        handles: {
+        assignee_id: { type: 'string', description: 'ID of the teammate to assign' },
+        unassign: { type: 'boolean', description: 'Unassign the conversations' },
+        status: {
+          type: 'string',
+          description: 'New status of the conversations',
+          enum: ['open', 'archived', 'spam'],
+        },
+        add_follower_ids: {
           type: 'array',
-          description: 'Contact handles (email, phone, etc.)',
-          items: {
-            type: 'object',
-            properties: {
-              handle: { type: 'string', description: 'Handle value (e.g., email address)' },
-              source: { type: 'string', description: 'Handle source (e.g., email)' },
-            },
-            required: ['handle', 'source'],
-          },
+          items: { type: 'string' },
+          description: 'IDs of the teammates to add as followers',
         },
-        links: {
+        remove_follower_ids: {
           type: 'array',
-          description: 'Links associated with the contact',
-          items: {
-            type: 'object',
-            properties: {
-              name: { type: 'string', description: 'Link name' },
-              url: { type: 'string', description: 'Link URL' },
-            },
-            required: ['name', 'url'],
-          },
+          items: { type: 'string' },
+          description: 'IDs of the teammates to remove as followers',
         },
-        custom_fields: {
-          type: 'object',
-          description: 'Custom fields for the contact',
+        dry_run: {
+          type: 'boolean',
+          description:
+            'List the conversations that would be updated and the changes, without changing anything (default: false)',
         },
       },
-      required: ['contact_id'],
     },
   },
 
+  // Contact tools
+
   // Teammate tools
   {
     name: 'get_teammates',
@@ -405,17 +284,6 @@ export const FRONTAPP_TOOL_DEFINITIONS: ToolDefinition[] = [
       },
     },
   },
-  {
-    name: 'get_teammate',
-    description: 'Get details of a specific teammate',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        teammate_id: { type: 'string', description: 'ID of the teammate' },
-      },
-      required: ['teammate_id'],
-    },
-  },
 
   // Account tools
   {
@@ -430,62 +298,6 @@ export const FRONTAPP_TOOL_DEFINITIONS: ToolDefinition[] = [
       },
     },
   },
-  {
-    name: 'get_account',
-    description: 'Get details of a specific account',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        account_id: { type: 'string', description: 'ID of the account' },
-      },
-      required: ['account_id'],
-    },
-  },
-  {
-    name: 'create_account',
-    description: 'Create a new account in Frontapp',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string', description: 'Name of the account' },
-        description: { type: 'string', description: 'Description of the account' },
-        domains: {
-          type: 'array',
-          description: 'Domains associated with the account',
-          items: { type: 'string' },
-        },
-        external_id: { type: 'string', description: 'External ID for the account' },
-        custom_fields: {
-          type: 'object',
-          description: 'Custom fields for the account',
-        },
-      },
-      required: ['name', 'domains'],
-    },
-  },
-  {
-    name: 'update_account',
-    description: 'Update an existing account in Frontapp',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        account_id: { type: 'string', description: 'ID of the account to update' },
-        name: { type: 'string', description: 'Name of the account' },
-        description: { type: 'string', description: 'Description of the account' },
-        domains: {
-          type: 'array',
-          description: 'Domains associated with the account',
-          items: { type: 'string' },
-        },
-        external_id: { type: 'string', description: 'External ID for the account' },
-        custom_fields: {
-          type: 'object',
-          description: 'Custom fields for the account',
-        },
-      },
-      required: ['account_id'],
-    },
-  },
 
   // Tag tools
   {
@@ -536,15 +348,4 @@ export const FRONTAPP_TOOL_DEFINITIONS: ToolDefinition[] = [
       },
     },
   },
-  {
-    name: 'get_inbox',
-    description: 'Get details of a specific inbox',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        inbox_id: { type: 'string', description: 'ID of the inbox' },
-      },
-      required: ['inbox_id'],
-    },
-  },
 ];
@@ -0,0 +1,28 @@
+/**
+ * Prompt models
+ * These interfaces describe the prompts served by the MCP prompts capability, which are built
+ * in or read from the prompt files of PROMPTS_DIR
+ */
+
+// An argument of a prompt, filled in by the user when they pick the prompt
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  /** Whether the prompt can't be used without the argument (default false) */
+  required?: boolean;
+  /** Value used when an optional argument isn't given (default empty) */
+  default?: string;
+}
+
+// A parameterised prompt
+export interface PromptDefinition {
+  /** Unique name of the prompt, e.g. triage_inbox */
+  name: string;
+  /** Short description, shown when the user picks a prompt */
+  description?: string;
+  arguments?: PromptArgument[];
+  /** The prompt text with {{argument}} placeholders */
+  template: string;
+  /** The file the prompt was read from, or undefined for built-in prompts */
+  file?: string;
+}
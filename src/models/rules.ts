@@ -0,0 +1,100 @@
+/**
+ * Automation rule models
+ * These interfaces describe the rules file read by the rules engine
+ */
+
+// Actions a rule can run on the conversation of a webhook event
+export type RuleActionType = 'add_tag' | 'remove_tag' | 'assign' | 'comment' | 'reply' | 'archive';
+
+// Conditions a webhook event must meet for a rule to run. All conditions must match.
+export interface RuleConditions {
+  /** Inbox IDs or names; the conversation must be in one of them */
+  inboxes?: string[];
+  /** Tag IDs or names; the conversation must have all of them */
+  tags?: string[];
+  /** Tag IDs or names; the conversation must have none of them */
+  exclude_tags?: string[];
+  /** Email domains; the message must be sent from one of them */
+  sender_domains?: string[];
+  /** Regular expression (case-insensitive) the conversation subject must match */
+  subject?: string;
+  /** Regular expression (case-insensitive) the message text must match */
+  body?: string;
+  /** Custom field values (case-insensitive) of the conversation, or of the contact */
+  custom_fields?: Record<string, string | number | boolean>;
+}
+
+// An action of a rule
+export interface RuleAction {
+  type: RuleActionType;
+  /** Tag ID or name (add_tag, remove_tag) */
+  tag?: string;
+  /** Teammate ID, email or username (assign) */
+  teammate?: string;
+  /** Body with {{placeholders}} (comment, reply) */
+  body?: string;
+  /** Name of a template in the rules file (comment, reply) */
+  template?: string;
+  /** Teammate ID the comment or reply is sent as; defaults to author_id of the rules file */
+  author_id?: string;
+  /** Channel the reply is sent from (reply) */
+  channel_id?: string;
+}
+
+// An automation rule
+export interface AutomationRule {
+  /** Unique name of the rule, used in logs */
+  name: string;
+  description?: string;
+  /** Disabled rules are never evaluated (default true) */
+  enabled?: boolean;
+  /** Log the actions of the rule instead of running them (default false) */
+  dry_run?: boolean;
+  /** Webhook event types the rule runs on (e.g. message.received) */
+  events: string[];
+  /** Tenants the rule runs for (default all tenants) */
+  tenants?: string[];
+  conditions?: RuleConditions;
+  actions: RuleAction[];
+  /** Skip the remaining rules when this rule matches (default false) */
+  stop?: boolean;
+}
+
+// The rules file
+export interface RulesFile {
+  /** Log the actions of all rules instead of running them */
+  dry_run?: boolean;
+  /** Default teammate ID comments and replies are sent as */
+  author_id?: string;
+  /** Named bodies with {{placeholders}}, used by comment and reply actions */
+  templates?: Record<string, string>;
+  rules: AutomationRule[];
+}
+
+// Outcome of an action of a rule
+export interface RuleActionResult {
+  type: RuleActionType;
+  status: 'applied' | 'dry_run' | 'pending_approval' | 'failed';
+  /** What the action did, or would have done */
+  detail: string;
+  error?: string;
+  /** The pending action of actions waiting for approval */
+  actionId?: string;
+}
+
+// Outcome of a rule for a webhook event
+export interface RuleRun {
+  rule: string;
+  /** The tenant the webhook event was received for */
+  tenant: string;
+  eventId?: string;
+  eventType: string;
+  conversationId?: string;
+  matched: boolean;
+  /** The condition that did not match, or cooldown if the rule ran on the conversation recently */
+  reason?: string;
+  dryRun: boolean;
+  actions: RuleActionResult[];
+  /** When the rule was evaluated (ISO 8601) */
+  timestamp: string;
+}
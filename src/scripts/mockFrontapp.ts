@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+/**
+ * Mock Frontapp API server script
+ * This script runs an in-memory stand-in for the Frontapp API, for demos, CI and developing
+ * automation rules without a Front account. Start the MCP server with FRONTAPP_BASE_URL set to
+ * the URL the script prints. Changes made through the mock are sent as signed webhooks to the
+ * webhook server, signed with WEBHOOK_SECRET.
+ *
+ * Usage:
+ *   npm run mock-frontapp -- [options]
+ *
+ * Options:
+ *   --port         The port to listen on (default: 4010)
+ *   --webhook-url  The URL webhooks are sent to (default: http://localhost:<PORT>/webhooks,
+ *                  with the PORT of the webhook server)
+ *   --token        The API token requests must carry (default: any token)
+ *   --rate-limit   The requests accepted per minute before responding with 429 (default: 50)
+ *
+ * Examples:
+ *   npm run mock-frontapp
+ *   npm run mock-frontapp -- --port 5000 --rate-limit 10
+ */
+
+import dotenv from 'dotenv';
+import { config } from '../config/index.js';
+import { MockFrontappServer } from '../mock/frontappServer.js';
+import logger from '../utils/logger.js';
+
+// Load environment variables
+dotenv.config();
+
+// Parse options
+const args = process.argv.slice(2);
+const options: Record<string, string> = {};
+for (let i = 0; i < args.length; i++) {
+  if (args[i].startsWith('--')) {
+    options[args[i].slice(2)] = args[i + 1];
+    i++;
+  }
+}
+
+// Main function
+async function main() {
+  const port = Number(options.port || 4010);
+  const webhookUrl = options['webhook-url'] || `http://localhost:${config.server.port}/webhooks`;
+
+  const server = new MockFrontappServer({
+    apiKey: options.token,
+    webhookUrl,
+    webhookSecret: config.webhook.secret || undefined,
+    rateLimitPerMinute: options['rate-limit'] ? Number(options['rate-limit']) : undefined,
+  });
+  const url = await server.start(port);
+
+  console.log(`Mock Frontapp API listening on ${url}`);
+  console.log(`Start the MCP server with FRONTAPP_BASE_URL=${url}`);
+  if (config.webhook.secret) {
+    console.log(`Sending webhooks to ${webhookUrl}`);
+  } else {
+    console.log('WEBHOOK_SECRET is not set, so no webhooks are sent');
+  }
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+// Run the main function
+main().catch((error) => {
+  logger.error('Failed to start the mock Frontapp API server', {
+    error: error.message,
+    stack: error.stack,
+  });
+  process.exit(1);
+});
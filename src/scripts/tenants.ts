@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+
+/**
+ * Tenant management script
+ * This script provides a command-line interface for managing the Front companies (tenants)
+ * served by this server. Tenants are stored encrypted with the credential manager, so
+ * ENCRYPTION_KEY must be set. Running servers load the tenants when they start.
+ *
+ * Usage:
+ *   npm run tenants -- [command] [tenant] [options]
+ *
+ * Commands:
+ *   list      List the tenants
+ *   add       Add a tenant, or update the options of an existing tenant
+ *   remove    Remove a tenant
+ *   api-key   Generate an API gateway key bound to a tenant
+ *
+ * Options:
+ *   --token           The Frontapp API token of the tenant (for add)
+ *   --webhook-secret  The secret Frontapp signs the webhooks of the tenant with (for add)
+ *   --role            The role of the API key: read-only, agent, admin or approver (for
+ *                     api-key, default: agent)
+ *
+ * Examples:
+ *   npm run tenants -- list
+ *   npm run tenants -- add acme --token <frontapp-token> --webhook-secret <secret>
+ *   npm run tenants -- api-key acme --role read-only
+ *   npm run tenants -- remove acme
+ */
+
+import dotenv from 'dotenv';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { DEFAULT_TENANT, tenantManager } from '../utils/tenants.js';
+import { isRole } from '../utils/accessControl.js';
+import logger from '../utils/logger.js';
+
+// Load environment variables
+dotenv.config();
+
+// Parse command-line arguments
+const args = process.argv.slice(2);
+const command = args[0];
+const tenantName = args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+
+// Define available commands
+const commands = ['list', 'add', 'remove', 'api-key'];
+
+// Check if command is valid
+if (!command || !commands.includes(command)) {
+  console.error(`Invalid command: ${command}`);
+  console.error(`Available commands: ${commands.join(', ')}`);
+  process.exit(1);
+}
+
+// Parse options
+const options: Record<string, string> = {};
+for (let i = 1; i < args.length; i++) {
+  if (args[i].startsWith('--')) {
+    options[args[i].slice(2)] = args[i + 1];
+    i++;
+  }
+}
+
+// Main function
+async function main() {
+  try {
+    await tenantManager.load();
+
+    switch (command) {
+      case 'list':
+        listTenants();
+        break;
+      case 'add':
+        await addTenant(requireTenantName());
+        break;
+      case 'remove':
+        await removeTenant(requireTenantName());
+        break;
+      case 'api-key':
+        await generateApiKey(requireTenantName());
+        break;
+    }
+  } catch (error: any) {
+    logger.error('Error executing command', {
+      command,
+      error: error.message,
+      stack: error.stack,
+    });
+    process.exit(1);
+  }
+}
+
+// Get the tenant argument of a command
+function requireTenantName(): string {
+  if (!tenantName) {
+    console.error(`Missing tenant name: npm run tenants -- ${command} <tenant>`);
+    process.exit(1);
+  }
+  return tenantName;
+}
+
+// List the tenants
+function listTenants() {
+  tenantManager.list().forEach((name) => {
+    const tenant = tenantManager.get(name);
+    const webhookPath = name === DEFAULT_TENANT ? '/webhooks' : `/webhooks/${name}`;
+    const webhooks = tenant.webhookSecret ? webhookPath : 'webhooks disabled';
+    console.log(`${name}  ${webhooks}  ${tenant.apiKeys.length} API keys`);
+  });
+}
+
+// Add or update a tenant
+async function addTenant(name: string) {
+  const existing = tenantManager.has(name) ? tenantManager.get(name) : undefined;
+  const apiKey = options.token || existing?.apiKey;
+  if (!apiKey) {
+    console.error('Missing Frontapp API token: --token <frontapp-token>');
+    process.exit(1);
+  }
+
+  await tenantManager.save({
+    ...existing,
+    name,
+    apiKey,
+    webhookSecret: options['webhook-secret'] ?? existing?.webhookSecret,
+  });
+
+  console.log(`${existing ? 'Updated' : 'Added'} tenant ${name}`);
+  console.log(`Webhook URL: ${config.webhook.baseUrl}/webhooks/${name}`);
+}
+
+// Remove a tenant
+async function removeTenant(name: string) {
+  if (!tenantManager.has(name)) {
+    console.error(`Unknown tenant: ${name}`);
+    process.exit(1);
+  }
+
+  await tenantManager.remove(name);
+  console.log(`Removed tenant ${name}`);
+}
+
+// Generate an API gateway key bound to a tenant
+async function generateApiKey(name: string) {
+  const role = options.role || 'agent';
+  if (!isRole(role)) {
+    console.error(`Invalid role: ${role} (use read-only, agent, admin or approver)`);
+    process.exit(1);
+  }
+
+  const tenant = tenantManager.get(name);
+  const apiKey = crypto.randomBytes(32).toString('hex');
+
+  await tenantManager.save({ ...tenant, apiKeys: [...tenant.apiKeys, { key: apiKey, role }] });
+
+  console.log(`API key for tenant ${name} with role ${role}:`);
+  console.log(apiKey);
+}
+
+// Run the main function
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
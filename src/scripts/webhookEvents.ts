@@ -0,0 +1,184 @@
+#!/usr/bin/env node
+
+/**
+ * Webhook event store script
+ * This script provides a command-line interface for inspecting the webhook event store and
+ * recovering events from the dead-letter queue
+ *
+ * Usage:
+ *   npm run webhook-events -- [command] [event-id] [options]
+ *
+ * Commands:
+ *   list      List stored webhook events
+ *   stats     Count stored webhook events by status
+ *   show      Show a stored webhook event with its payload
+ *   replay    Process a stored webhook event again
+ *   discard   Discard a failed webhook event
+ *   compact   Remove expired events from the event store file
+ *
+ * Options:
+ *   --status  Filter by status: received, processed, failed or discarded (for list)
+ *   --type    Filter by webhook event type (for list)
+ *   --tenant  Filter by tenant (for list)
+ *   --limit   Maximum number of events to list (default: 50)
+ *   --force   Replay an event even if it was processed or discarded (for replay)
+ *
+ * Examples:
+ *   npm run webhook-events -- list --status failed
+ *   npm run webhook-events -- list --tenant acme
+ *   npm run webhook-events -- show evt_123
+ *   npm run webhook-events -- replay evt_123
+ *   npm run webhook-events -- discard evt_123
+ */
+
+import dotenv from 'dotenv';
+import { WebhookEventStatus, webhookEventStore } from '../utils/webhookEventStore.js';
+import { replayWebhookEvent } from '../handlers/webhooks/index.js';
+import { DEFAULT_TENANT, tenantManager } from '../utils/tenants.js';
+import logger from '../utils/logger.js';
+
+// Load environment variables
+dotenv.config();
+
+// Parse command-line arguments
+const args = process.argv.slice(2);
+const command = args[0];
+const eventId = args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+
+// Define available commands
+const commands = ['list', 'stats', 'show', 'replay', 'discard', 'compact'];
+
+// Check if command is valid
+if (!command || !commands.includes(command)) {
+  console.error(`Invalid command: ${command}`);
+  console.error(`Available commands: ${commands.join(', ')}`);
+  process.exit(1);
+}
+
+// Parse options
+const options: Record<string, string> = {};
+for (let i = 1; i < args.length; i++) {
+  if (args[i].startsWith('--')) {
+    options[args[i].slice(2)] = args[i + 1];
+    i++;
+  }
+}
+
+// Main function
+async function main() {
+  try {
+    switch (command) {
+      case 'list':
+        listEvents();
+        break;
+      case 'stats':
+        showStats();
+        break;
+      case 'show':
+        showEvent(requireEventId());
+        break;
+      case 'replay':
+        await tenantManager.load();
+        await replayEvent(requireEventId());
+        break;
+      case 'discard':
+        discardEvent(requireEventId());
+        break;
+      case 'compact':
+        compactStore();
+        break;
+    }
+  } catch (error: any) {
+    logger.error('Error executing command', {
+      command,
+      error: error.message,
+      stack: error.stack,
+    });
+    process.exit(1);
+  }
+}
+
+// Get the event ID argument of a command
+function requireEventId(): string {
+  if (!eventId) {
+    console.error(`Missing event ID: npm run webhook-events -- ${command} <event-id>`);
+    process.exit(1);
+  }
+  return eventId;
+}
+
+// List stored webhook events
+function listEvents() {
+  const events = webhookEventStore.list({
+    status: options.status as WebhookEventStatus,
+    type: options.type,
+    tenant: options.tenant,
+    limit: options.limit ? parseInt(options.limit) : 50,
+  });
+
+  if (events.length === 0) {
+    console.log('No webhook events found');
+    return;
+  }
+
+  events.forEach((event) => {
+    const error = event.error ? ` - ${event.error}` : '';
+    const tenant = event.tenant || DEFAULT_TENANT;
+    console.log(
+      `${event.receivedAt}  ${tenant}  ${event.id}  ${event.type}  ${event.status} (${event.attempts} attempts)${error}`
+    );
+  });
+}
+
+// Count stored webhook events by status
+function showStats() {
+  const stats = webhookEventStore.getStats();
+
+  console.log('Webhook events:');
+  Object.entries(stats).forEach(([status, count]) => {
+    console.log(`  ${status}: ${count}`);
+  });
+}
+
+// Show a stored webhook event
+function showEvent(id: string) {
+  const event = webhookEventStore.get(id);
+  if (!event) {
+    console.error(`Webhook event not found: ${id}`);
+    process.exit(1);
+  }
+
+  console.log(JSON.stringify(event, null, 2));
+}
+
+// Process a stored webhook event again
+async function replayEvent(id: string) {
+  console.log(`Replaying webhook event ${id}`);
+  const event = await replayWebhookEvent(id, undefined, 'force' in options);
+
+  if (event.status === 'failed') {
+    console.error(`Replay failed: ${event.error}`);
+    process.exit(1);
+  }
+  console.log('Replay successful');
+}
+
+// Discard a failed webhook event
+function discardEvent(id: string) {
+  webhookEventStore.markDiscarded(id);
+  console.log(`Discarded webhook event ${id}`);
+}
+
+// Remove expired events from the event store file
+function compactStore() {
+  const removed = webhookEventStore.compact();
+  console.log(`Removed ${removed} expired webhook events`);
+}
+
+// Run the main function
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,37 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { setupRequestHandlers } from './handlers/requests/index.js';
+import { setupResourceHandlers } from './handlers/resources/index.js';
+import { setupPromptHandlers } from './handlers/prompts/index.js';
+import logger from './utils/logger.js';
+
+/**
+ * Create the Frontapp MCP server
+ * Both the stdio entrypoint and the HTTP gateway are built from this server,
+ * so every transport exposes the same tools, resources and prompts
+ * @returns The MCP server instance
+ */
+export function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: 'frontapp-mcp-server',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  );
+
+  setupRequestHandlers(server);
+  setupResourceHandlers(server);
+  setupPromptHandlers(server);
+
+  server.onerror = (error) => {
+    logger.error('[MCP Error]', error);
+  };
+
+  return server;
+}
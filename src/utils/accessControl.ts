@@ -0,0 +1,167 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../config/index.js';
+import { ToolAccess, ToolRegistration } from '../handlers/requests/registry.js';
+
+/**
+ * Role of a caller
+ * The role decides which tool access levels the caller can use. Approvers decide the tool calls
+ * waiting for human approval, and can't make any other change themselves.
+ */
+export type Role = 'read-only' | 'agent' | 'admin' | 'approver';
+
+// Tool access levels of each role
+const ROLE_ACCESS: Record<Role, ToolAccess[]> = {
+  'read-only': ['read'],
+  agent: ['read', 'write'],
+  admin: ['read', 'write', 'delete', 'admin'],
+  approver: ['read', 'approve'],
+};
+
+/**
+ * Check whether a value is a role
+ * @param value The value to check
+ * @returns Whether the value is a role
+ */
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && value in ROLE_ACCESS;
+}
+
+/**
+ * Split a comma-separated list
+ * @param value The list
+ * @returns The trimmed, non-empty entries
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check whether a tool matches an entry of a tool list, such as the allow and deny lists
+ * Entries are tool names (delete_contact), categories (contacts), scopes (contacts:write)
+ * or access levels (delete)
+ * @param tool The tool
+ * @param entry The list entry
+ * @returns Whether the tool matches
+ */
+export function matchesToolEntry(tool: ToolRegistration, entry: string): boolean {
+  return (
+    tool.definition.name === entry ||
+    tool.access === entry ||
+    tool.scopes.some((scope) => scope === entry || scope.split(':')[0] === entry)
+  );
+}
+
+/**
+ * Access control
+ * Decides which tools a caller can see and run, based on the role of the caller's API key,
+ * the tool allow and deny lists, and the read-only mode. The role of the code that is running
+ * is set per request; callers without a role (e.g. the stdio server) are admins. Only API keys
+ * configured with the approver role may approve, so no default caller can approve its own calls.
+ */
+export class AccessControl {
+  private context = new AsyncLocalStorage<Role>();
+
+  /**
+   * Get the role of an API gateway key configured by the environment
+   * @param apiKey The API gateway key
+   * @returns The role, or undefined if the key isn't configured
+   */
+  public getRole(apiKey: string): Role | undefined {
+    if (config.api.apiKey && apiKey === config.api.apiKey) {
+      return config.access.apiKeyRole;
+    }
+
+    for (const entry of parseList(config.access.apiKeys)) {
+      const separator = entry.lastIndexOf(':');
+      const role = entry.slice(separator + 1);
+      if (separator > 0 && entry.slice(0, separator) === apiKey && isRole(role)) {
+        return role;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Run a function for a role
+   * Tools listed and called by the function, including asynchronously, are authorized for the role
+   * @param role The role
+   * @param fn The function
+   * @returns The result of the function
+   */
+  public run<T>(role: Role, fn: () => T): T {
+    return this.context.run(role, fn);
+  }
+
+  /**
+   * Get the role of the code that is running
+   * @returns The role
+   */
+  public current(): Role {
+    return this.context.getStore() || 'admin';
+  }
+
+  /**
+   * Check whether the role of the current caller grants an access level
+   * @param access The access level
+   * @returns Whether the caller has the access level
+   */
+  public hasAccess(access: ToolAccess): boolean {
+    return ROLE_ACCESS[this.current()].includes(access);
+  }
+
+  /**
+   * Check whether the server only allows read tools
+   * @returns Whether the server is in read-only mode
+   */
+  public isReadOnly(): boolean {
+    return config.access.readOnly;
+  }
+
+  /**
+   * Get the reason a tool may not be used by the current caller
+   * @param tool The tool
+   * @returns The reason, or undefined if the tool may be used
+   */
+  public getDenialReason(tool: ToolRegistration): string | undefined {
+    const { name } = tool.definition;
+    const role = this.current();
+
+    if (this.isReadOnly() && tool.access !== 'read' && tool.access !== 'admin') {
+      return `Tool ${name} modifies data and the server is in read-only mode`;
+    }
+    if (!this.hasAccess(tool.access)) {
+      return `Role ${role} is not allowed to run ${tool.access} tools such as ${name}`;
+    }
+
+    const deny = parseList(config.access.denyTools);
+    if (deny.some((entry) => matchesToolEntry(tool, entry))) {
+      return `Tool ${name} is denied by the server configuration`;
+    }
+
+    const allow = parseList(config.access.allowTools);
+    if (allow.length > 0 && !allow.some((entry) => matchesToolEntry(tool, entry))) {
+      return `Tool ${name} is not allowed by the server configuration`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check whether the current caller may use a tool
+   * @param tool The tool
+   * @returns Whether the tool may be used
+   */
+  public isAllowed(tool: ToolRegistration): boolean {
+    return this.getDenialReason(tool) === undefined;
+  }
+}
+
+// Export a singleton instance
+export const accessControl = new AccessControl();
+
+// Export default
+export default accessControl;
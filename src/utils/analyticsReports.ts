@@ -0,0 +1,615 @@
+import crypto from 'crypto';
+import { frontappClient } from '../clients/frontapp/index.js';
+import { config } from '../config/index.js';
+import { cacheManager } from './cache.js';
+import { progressReporter } from './progress.js';
+import { tenantManager } from './tenants.js';
+import logger from './logger.js';
+
+/**
+ * A named set of metrics of the Frontapp Analytics API
+ */
+export interface AnalyticsPreset {
+  description: string;
+  metrics: string[];
+}
+
+/**
+ * A report to run, as given in tool arguments
+ * The date range is given as a named range, or as a start and an end
+ */
+export interface AnalyticsReportRequest {
+  /** Presets whose metrics the report computes */
+  presets?: string[];
+  /** Metric IDs the report computes besides those of the presets */
+  metrics?: string[];
+  /** A named date range, e.g. last_week */
+  range?: string;
+  /** ISO 8601 date or Unix timestamp the report starts at */
+  start?: string | number;
+  /** ISO 8601 date or Unix timestamp the report ends at; a date ends after that day */
+  end?: string | number;
+  /** IANA timezone of the date range and the report (default: ANALYTICS_TIMEZONE) */
+  timezone?: string;
+  inbox_ids?: string[];
+  tag_ids?: string[];
+  teammate_ids?: string[];
+  channel_ids?: string[];
+}
+
+/**
+ * The date range of a report
+ */
+export interface DateRange {
+  /** The named range it was resolved from, if any */
+  name?: string;
+  /** Unix timestamp of the start, included */
+  start: number;
+  /** Unix timestamp of the end, excluded */
+  end: number;
+  timezone: string;
+  /** The range in the timezone, e.g. Last week (2024-01-08 00:00 to 2024-01-15 00:00, UTC) */
+  label: string;
+}
+
+/**
+ * A metric of a report, as the Frontapp API returns it
+ * Table metrics hold rows of cells, which are metrics themselves
+ */
+export interface AnalyticsMetric {
+  id: string;
+  type: string;
+  value: any;
+  [key: string]: any;
+}
+
+/**
+ * A report and what it was run with
+ */
+export interface AnalyticsReport {
+  report_id: string;
+  status: 'running' | 'done' | 'failed';
+  /** How much of the report is computed, from 0 to 100 */
+  progress: number;
+  presets: string[];
+  /** The IDs of the metrics the report computes */
+  metric_ids: string[];
+  /** The date range; unknown for reports that were not run by this server */
+  range?: DateRange;
+  filters: Record<string, string[]>;
+  metrics: AnalyticsMetric[];
+  /** Whether the report was served from the cache */
+  cached?: boolean;
+}
+
+/**
+ * How long to wait for a report
+ */
+export interface WaitOptions {
+  /** Seconds to wait for the report to be done, polling it every second */
+  waitSeconds?: number;
+  /** Whether to run a new report, even if the same report is cached */
+  refresh?: boolean;
+}
+
+// The presets, by name
+export const ANALYTICS_PRESETS: Record<string, AnalyticsPreset> = {
+  first_response_time: {
+    description: 'Average time to the first reply, and between replies',
+    metrics: ['avg_first_response_time', 'avg_response_time'],
+  },
+  resolution_time: {
+    description: 'Average time to archive conversations, and the number archived',
+    metrics: ['avg_resolution_time', 'num_archived_segments'],
+  },
+  volume: {
+    description: 'New conversations, and messages received and sent',
+    metrics: ['new_segments_count', 'num_messages_received', 'num_messages_sent'],
+  },
+  volume_by_tag: {
+    description: 'Conversations and first response time per tag',
+    metrics: ['tags_table'],
+  },
+  volume_by_inbox: {
+    description: 'Conversations and first response time per inbox',
+    metrics: ['inboxes_table'],
+  },
+  volume_by_teammate: {
+    description: 'Conversations and first response time per teammate',
+    metrics: ['teammates_table'],
+  },
+  sla_breaches: {
+    description: 'Conversations that met or breached their SLA, and how late breaches were',
+    metrics: ['num_sla_goal_met', 'num_sla_goal_breached', 'avg_sla_breach_time'],
+  },
+};
+
+// The named date ranges. Weeks start on Monday; last_N_days are the N days before today
+export const DATE_RANGES = [
+  'today',
+  'yesterday',
+  'this_week',
+  'last_week',
+  'last_7_days',
+  'last_30_days',
+  'this_month',
+  'last_month',
+];
+
+// The filters of a report, which take IDs
+const FILTER_NAMES = ['inbox_ids', 'tag_ids', 'teammate_ids', 'channel_ids'] as const;
+
+// How often a running report is fetched while waiting for it
+const POLL_INTERVAL_MS = 1000;
+
+// The longest a tool call waits for a report
+export const MAX_WAIT_SECONDS = 60;
+
+/**
+ * Get the date and time of a moment in a timezone
+ * @param time The moment, in milliseconds
+ * @param timezone The IANA timezone
+ * @returns The date and time parts; month is 1-based and weekday 0 is Sunday
+ */
+function getLocalTime(
+  time: number,
+  timezone: string
+): { year: number; month: number; day: number; hour: number; minute: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  const year = get('year');
+  const month = get('month');
+  const day = get('day');
+  return {
+    year,
+    month,
+    day,
+    hour: get('hour'),
+    minute: get('minute'),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/**
+ * Get the moment midnight of a day starts in a timezone
+ * Days and months out of range roll over, e.g. day 0 is the last day of the previous month
+ * @param timezone The IANA timezone
+ * @param year The year
+ * @param month The month, 1-based
+ * @param day The day of the month
+ * @returns The moment, as a Unix timestamp in seconds
+ */
+function getMidnight(timezone: string, year: number, month: number, day: number): number {
+  const wallTime = Date.UTC(year, month - 1, day);
+  const getOffset = (time: number) => {
+    const local = getLocalTime(time, timezone);
+    const localTime = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    return localTime - Math.floor(time / 60000) * 60000;
+  };
+
+  // The offset of the guess is the offset at midnight, unless a DST change is in between
+  const guess = wallTime - getOffset(wallTime);
+  return Math.floor((wallTime - getOffset(guess)) / 1000);
+}
+
+/**
+ * Format a moment in a timezone, e.g. 2024-01-08 00:00
+ * @param time The moment, as a Unix timestamp in seconds
+ * @param timezone The IANA timezone
+ * @returns The date and time
+ */
+function formatLocalTime(time: number, timezone: string): string {
+  const local = getLocalTime(time * 1000, timezone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${local.year}-${pad(local.month)}-${pad(local.day)} ` +
+    `${pad(local.hour)}:${pad(local.minute)}`
+  );
+}
+
+/**
+ * Check that a timezone is an IANA timezone
+ * @param timezone The timezone
+ * @throws Error if the timezone isn't known
+ */
+function checkTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new Error(`Invalid timezone: ${timezone}. Use an IANA timezone such as Europe/Paris.`);
+  }
+}
+
+/**
+ * Convert the start or end of a date range to a Unix timestamp
+ * @param value An ISO 8601 date or date and time, or a Unix timestamp in seconds
+ * @param name start or end, for errors; the end of a date is the midnight after it
+ * @param timezone The timezone of dates without a time
+ * @returns The timestamp in seconds
+ * @throws Error if the value isn't a date
+ */
+function toTimestamp(value: string | number, name: 'start' | 'end', timezone: string): number {
+  if (typeof value === 'number' || /^\d+$/.test(String(value).trim())) {
+    return Number(value);
+  }
+
+  const date = String(value)
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (date) {
+    const day = Number(date[3]) + (name === 'end' ? 1 : 0);
+    return getMidnight(timezone, Number(date[1]), Number(date[2]), day);
+  }
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(
+      `Invalid ${name}: ${value}. Use a date range such as last_week, an ISO 8601 date such as ` +
+        '2024-01-31, or a Unix timestamp.'
+    );
+  }
+  return Math.floor(time / 1000);
+}
+
+/**
+ * Resolve the date range of a report
+ * Named ranges are computed in the timezone, from the current day; without a range, start or
+ * end the range is last_7_days
+ * @param request The range, or the start and end, of the report
+ * @param timezone The IANA timezone
+ * @param now The current time, in milliseconds
+ * @returns The date range
+ * @throws Error if the range is unknown, or the start or end aren't dates
+ */
+export function resolveDateRange(
+  request: Pick<AnalyticsReportRequest, 'range' | 'start' | 'end'>,
+  timezone: string,
+  now: number = Date.now()
+): DateRange {
+  checkTimezone(timezone);
+  const hasBounds = request.start !== undefined || request.end !== undefined;
+  if (request.range !== undefined && hasBounds) {
+    throw new Error('Give either a range, or a start and an end, not both');
+  }
+
+  let start: number;
+  let end: number;
+  let name: string | undefined;
+  if (hasBounds) {
+    if (request.start === undefined) {
+      throw new Error('Give the start of the date range with its end');
+    }
+    start = toTimestamp(request.start, 'start', timezone);
+    end =
+      request.end === undefined
+        ? Math.floor(now / 1000)
+        : toTimestamp(request.end, 'end', timezone);
+  } else {
+    name = request.range ?? 'last_7_days';
+    ({ start, end } = getNamedRange(name, timezone, now));
+  }
+
+  if (start >= end) {
+    throw new Error('The start of the date range must be earlier than its end');
+  }
+
+  const bounds = `${formatLocalTime(start, timezone)} to ${formatLocalTime(end, timezone)}`;
+  const title = name ? name.charAt(0).toUpperCase() + name.slice(1).replace(/_/g, ' ') : '';
+  return {
+    ...(name ? { name } : {}),
+    start,
+    end,
+    timezone,
+    label: title ? `${title} (${bounds}, ${timezone})` : `${bounds} (${timezone})`,
+  };
+}
+
+/**
+ * Get the start and end of a named date range
+ * @param name The name of the range
+ * @param timezone The IANA timezone
+ * @param now The current time, in milliseconds
+ * @returns The Unix timestamps of the start and end
+ * @throws Error if the range is unknown
+ */
+function getNamedRange(
+  name: string,
+  timezone: string,
+  now: number
+): { start: number; end: number } {
+  const { year, month, day, weekday } = getLocalTime(now, timezone);
+  const midnight = (days: number) => getMidnight(timezone, year, month, day + days);
+  const monday = -((weekday + 6) % 7);
+  const current = Math.floor(now / 1000);
+
+  switch (name) {
+    case 'today':
+      return { start: midnight(0), end: current };
+    case 'yesterday':
+      return { start: midnight(-1), end: midnight(0) };
+    case 'this_week':
+      return { start: midnight(monday), end: current };
+    case 'last_week':
+      return { start: midnight(monday - 7), end: midnight(monday) };
+    case 'last_7_days':
+      return { start: midnight(-7), end: midnight(0) };
+    case 'last_30_days':
+      return { start: midnight(-30), end: midnight(0) };
+    case 'this_month':
+      return { start: getMidnight(timezone, year, month, 1), end: current };
+    case 'last_month':
+      return {
+        start: getMidnight(timezone, year, month - 1, 1),
+        end: getMidnight(timezone, year, month, 1),
+      };
+    default:
+      throw new Error(`Unknown date range: ${name}. Use ${DATE_RANGES.join(', ')}.`);
+  }
+}
+
+/**
+ * Get the ID of a report from the response that created it
+ * @param data The response data
+ * @returns The report ID
+ * @throws Error if the response has no report ID
+ */
+function getReportId(data: any): string {
+  const reportId = data?._links?.self?.match(/reports\/([^/?]+)/)?.[1] || data?.report_uid;
+  if (!reportId) {
+    throw new Error('The Frontapp API did not return the ID of the analytics report');
+  }
+  return reportId;
+}
+
+/**
+ * Analytics reports
+ * Runs reports of the Frontapp Analytics API, which are computed asynchronously: a report is
+ * created, then fetched until it is done. Reports are started with named metric presets and
+ * date ranges, waited for up to a given time, and can be fetched again later by report ID, so
+ * that a slow report doesn't fail the tool call. Reports are kept in the cache for
+ * ANALYTICS_REPORT_TTL_MS, and running the same report again returns the cached one.
+ */
+export class AnalyticsReports {
+  /**
+   * Run a report
+   * @param request The report to run
+   * @param options How long to wait for the report, and whether to skip the cache
+   * @returns The report, which is still running if it wasn't done in time
+   * @throws Error if the request is invalid, or the report fails
+   */
+  public async run(
+    request: AnalyticsReportRequest,
+    options: WaitOptions = {}
+  ): Promise<AnalyticsReport> {
+    const { presets, metrics } = this.resolveMetrics(request);
+    const timezone = request.timezone || config.analytics.timezone;
+    const range = resolveDateRange(request, timezone);
+    const filters: Record<string, string[]> = {};
+    for (const name of FILTER_NAMES) {
+      const ids = request[name];
+      if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string'))) {
+        throw new Error(`${name} must be a list of IDs`);
+      }
+      if (ids && ids.length > 0) {
+        filters[name] = ids;
+      }
+    }
+
+    const body = { start: range.start, end: range.end, timezone, metrics, filters };
+    const hash = crypto.createHash('sha256').update(JSON.stringify(body)).digest('hex');
+    const requestKey = this.getCacheKey(`request:${hash.slice(0, 32)}`);
+
+    if (!options.refresh) {
+      const reportId = await cacheManager.get<string>(requestKey);
+      const cached = reportId ? await this.getCachedReport(reportId) : undefined;
+      if (cached && cached.status !== 'failed') {
+        logger.debug('Analytics report served from cache', { reportId });
+        return cached.status === 'done'
+          ? { ...cached, cached: true }
+          : this.wait(await this.fetch(cached), options.waitSeconds);
+      }
+    }
+
+    const response = await frontappClient.post('/analytics/reports', body);
+    const report = this.update(
+      {
+        report_id: getReportId(response.data),
+        status: 'running',
+        progress: 0,
+        presets,
+        metric_ids: metrics,
+        range,
+        filters,
+        metrics: [],
+      },
+      response.data
+    );
+    logger.info('Analytics report started', { reportId: report.report_id, metrics });
+
+    await this.save(report);
+    await cacheManager.set(requestKey, report.report_id, config.analytics.reportTtlMs, [
+      this.getCacheKey(''),
+    ]);
+
+    return this.wait(report, options.waitSeconds);
+  }
+
+  /**
+   * Get a report by ID
+   * Done reports are served from the cache; running reports are fetched from the Frontapp API
+   * @param reportId The report ID
+   * @param options How long to wait for the report to be done
+   * @returns The report
+   * @throws Error if the report fails, or doesn't exist
+   */
+  public async get(reportId: string, options: WaitOptions = {}): Promise<AnalyticsReport> {
+    const cached = await this.getCachedReport(reportId);
+    if (cached?.status === 'done' && !options.refresh) {
+      return { ...cached, cached: true };
+    }
+
+    // Reports that were not run by this server, or no longer cached, have no presets or range
+    const report: AnalyticsReport = cached ?? {
+      report_id: reportId,
+      status: 'running',
+      progress: 0,
+      presets: [],
+      metric_ids: [],
+      filters: {},
+      metrics: [],
+    };
+    return this.wait(await this.fetch(report), options.waitSeconds);
+  }
+
+  /**
+   * Get the presets and metric IDs of a report
+   * @param request The report to run
+   * @returns The presets, and the metric IDs of the presets and the request without duplicates
+   * @throws Error if a preset is unknown, a metric ID is invalid, or there are no metrics
+   */
+  public resolveMetrics(request: Pick<AnalyticsReportRequest, 'presets' | 'metrics'>): {
+    presets: string[];
+    metrics: string[];
+  } {
+    const presets = request.presets ?? [];
+    const metrics: string[] = [];
+
+    for (const preset of presets) {
+      if (!ANALYTICS_PRESETS[preset]) {
+        throw new Error(
+          `Unknown analytics preset: ${preset}. Use ${Object.keys(ANALYTICS_PRESETS).join(', ')}.`
+        );
+      }
+      metrics.push(...ANALYTICS_PRESETS[preset].metrics);
+    }
+    for (const metric of request.metrics ?? []) {
+      if (typeof metric !== 'string' || !/^[a-z0-9_]+$/.test(metric)) {
+        throw new Error(`Invalid metric ID: ${metric}`);
+      }
+      metrics.push(metric);
+    }
+
+    if (metrics.length === 0) {
+      throw new Error('Give at least one analytics preset or metric');
+    }
+    return { presets, metrics: [...new Set(metrics)] };
+  }
+
+  /**
+   * Wait for a report to be done, fetching it every second
+   * The progress of the report is reported to the client
+   * @param report The report
+   * @param waitSeconds The longest to wait, in seconds (default: ANALYTICS_WAIT_SECONDS)
+   * @returns The report, which is still running if it wasn't done in time
+   * @throws Error if the report fails
+   */
+  private async wait(report: AnalyticsReport, waitSeconds?: number): Promise<AnalyticsReport> {
+    const seconds = Math.min(
+      Math.max(waitSeconds ?? config.analytics.waitSeconds, 0),
+      MAX_WAIT_SECONDS
+    );
+    const deadline = Date.now() + seconds * 1000;
+
+    while (report.status === 'running' && Date.now() < deadline) {
+      await progressReporter.report(
+        report.progress,
+        100,
+        `Analytics report ${report.report_id} is ${report.progress}% done`
+      );
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(POLL_INTERVAL_MS, deadline - Date.now()))
+      );
+      report = await this.fetch(report);
+    }
+
+    if (report.status === 'failed') {
+      throw new Error(`Analytics report ${report.report_id} failed`);
+    }
+    return report;
+  }
+
+  /**
+   * Fetch a report from the Frontapp API and cache it
+   * @param report The report as it was last fetched
+   * @returns The updated report
+   */
+  private async fetch(report: AnalyticsReport): Promise<AnalyticsReport> {
+    const response = await frontappClient.get(`/analytics/reports/${report.report_id}`);
+    const updated = this.update(report, response.data);
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Update a report with a response of the Frontapp API
+   * @param report The report
+   * @param data The response data
+   * @returns The updated report
+   */
+  private update(report: AnalyticsReport, data: any): AnalyticsReport {
+    const metrics: AnalyticsMetric[] = Array.isArray(data?.metrics) ? data.metrics : report.metrics;
+    let status: AnalyticsReport['status'] = 'running';
+    if (data?.status === 'done' || data?.status === 'failed') {
+      status = data.status;
+    } else if (data?.status === undefined && metrics.length > 0) {
+      status = 'done';
+    }
+
+    const { cached, ...rest } = report;
+    return {
+      ...rest,
+      status,
+      progress: status === 'done' ? 100 : Number(data?.progress) || 0,
+      metric_ids: report.metric_ids.length > 0 ? report.metric_ids : metrics.map(({ id }) => id),
+      metrics,
+    };
+  }
+
+  /**
+   * Cache a report
+   * @param report The report
+   */
+  private async save(report: AnalyticsReport): Promise<void> {
+    await cacheManager.set(
+      this.getCacheKey(`report:${report.report_id}`),
+      report,
+      config.analytics.reportTtlMs,
+      [this.getCacheKey('')]
+    );
+  }
+
+  /**
+   * Get a cached report of the tenant of the code that is running
+   * @param reportId The report ID
+   * @returns The report, or undefined if it isn't cached
+   */
+  private async getCachedReport(reportId: string): Promise<AnalyticsReport | undefined> {
+    return cacheManager.get<AnalyticsReport>(this.getCacheKey(`report:${reportId}`));
+  }
+
+  /**
+   * Get a cache key of the tenant of the code that is running
+   * @param suffix The suffix of the key; an empty suffix gives the tag of all analytics entries
+   * @returns The cache key
+   */
+  private getCacheKey(suffix: string): string {
+    const { cacheNamespace } = tenantManager.get(tenantManager.current());
+    return suffix ? `${cacheNamespace}:analytics:${suffix}` : `${cacheNamespace}:analytics`;
+  }
+}
+
+// Export a singleton instance
+export const analyticsReports = new AnalyticsReports();
+
+// Export default
+export default analyticsReports;
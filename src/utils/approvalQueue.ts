@@ -0,0 +1,439 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import { ToolResponse } from '../models/mcp.js';
+import { ToolRegistration } from '../handlers/requests/registry.js';
+import { accessControl, matchesToolEntry } from './accessControl.js';
+import { redactArguments } from './auditLog.js';
+import { piiRedactor } from './piiRedactor.js';
+import logger from './logger.js';
+
+/**
+ * Status of a pending action
+ * Approved actions are executing; executed and failed actions have been approved
+ */
+export type PendingActionStatus =
+  | 'pending'
+  | 'approved'
+  | 'executed'
+  | 'failed'
+  | 'rejected'
+  | 'expired';
+
+/**
+ * A tool call waiting for, or decided by, a human approver
+ */
+export interface PendingAction {
+  /** The action ID */
+  id: string;
+  /** The name of the tool */
+  tool: string;
+  /** The exact arguments the tool runs with once approved, with personal data sealed */
+  arguments: Record<string, any>;
+  /** The encrypted personal data of the arguments, while PII redaction is enabled */
+  sealedValues?: string;
+  /** The tenant the tool runs for */
+  tenant: string;
+  status: PendingActionStatus;
+  /** When the tool call was made (ISO 8601) */
+  requestedAt: string;
+  /** When the action expires unless it is decided (ISO 8601) */
+  expiresAt: string;
+  /** When the action was approved, rejected or expired (ISO 8601) */
+  decidedAt?: string;
+  /** The ID of the API key that approved or rejected the action (see getApiKeyId) */
+  decidedBy?: string;
+  /** The note the approver gave with the decision, e.g. their name; it is not verified */
+  decisionNote?: string;
+  /** Why the action was rejected */
+  reason?: string;
+  /** The response of the tool, once executed */
+  result?: ToolResponse;
+}
+
+/**
+ * Who decides a pending action
+ */
+export interface Decider {
+  /** The ID of the API key that decides (see getApiKeyId) */
+  apiKeyId: string;
+  /** A note given with the decision, e.g. the name of the person deciding */
+  note?: string;
+}
+
+// Tools that manage the approval queue never require approval themselves
+const APPROVAL_SCOPE_PREFIX = 'approvals:';
+
+/**
+ * Approval queue
+ * In approval mode, calls to the configured tools (by default outbound messages and delete tools)
+ * are recorded as pending actions instead of running. An action runs once a human approves it,
+ * and expires when it isn't decided within the TTL. Every decision is logged.
+ * Actions are stored in an append-only JSON Lines file, so that they survive restarts and can be
+ * decided from another process sharing the file, e.g. the API gateway for the stdio server.
+ * Each change appends the full action, and the last line for an action wins when the file is read.
+ * While PII redaction is enabled, personal data in the arguments is stored encrypted.
+ */
+export class ApprovalQueue {
+  private actions = new Map<string, PendingAction>();
+  private fileSize = -1;
+
+  /**
+   * Create a new approval queue
+   * @param filePath The path of the JSON Lines file
+   */
+  constructor(private readonly filePath: string = config.approvals.path) {}
+
+  /**
+   * Load the actions from the file if it changed since it was last read
+   * Actions decided more than a TTL ago are compacted away the first time the file is loaded
+   */
+  private sync(): void {
+    const size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+    if (size === this.fileSize) {
+      return;
+    }
+
+    const isFirstLoad = this.fileSize === -1;
+    this.actions.clear();
+
+    if (size > 0) {
+      const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const action = JSON.parse(line) as PendingAction;
+          this.actions.set(action.id, action);
+        } catch (error: any) {
+          logger.warn('[Approvals] Skipping invalid line in approval queue', {
+            file: this.filePath,
+            error: error.message,
+          });
+        }
+      }
+    }
+
+    this.fileSize = size;
+
+    if (isFirstLoad && size > 0) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Append an action to the file
+   * @param action The action to store
+   * @returns The stored action
+   */
+  private write(action: PendingAction): PendingAction {
+    const line = `${JSON.stringify(action)}\n`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, line);
+
+    this.fileSize += Buffer.byteLength(line);
+    this.actions.set(action.id, action);
+
+    return action;
+  }
+
+  /**
+   * Rewrite the file with one line per action, dropping the actions decided more than a TTL ago
+   */
+  private compact(): void {
+    const forgetBefore = new Date(Date.now() - config.approvals.ttlMs).toISOString();
+    const kept = [...this.actions.values()].filter(
+      (action) =>
+        action.status === 'pending' || !action.decidedAt || action.decidedAt >= forgetBefore
+    );
+
+    const content = kept.map((action) => `${JSON.stringify(action)}\n`).join('');
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, this.filePath);
+
+    this.actions = new Map(kept.map((action) => [action.id, action]));
+    this.fileSize = Buffer.byteLength(content);
+  }
+
+  /**
+   * Check whether calls to a tool must be approved
+   * @param tool The tool
+   * @returns Whether the tool call must be approved
+   */
+  public requiresApproval(tool: ToolRegistration): boolean {
+    if (!config.approvals.enabled) {
+      return false;
+    }
+    if (tool.scopes.some((scope) => scope.startsWith(APPROVAL_SCOPE_PREFIX))) {
+      return false;
+    }
+
+    return config.approvals.tools
+      .split(',')
+      .map((entry) => entry.trim())
+      .some((entry) => entry && matchesToolEntry(tool, entry));
+  }
+
+  /**
+   * Record a tool call as a pending action
+   * @param tool The name of the tool
+   * @param args The arguments of the tool call, with the real values of personal data
+   * @param tenant The tenant the tool runs for
+   * @returns The pending action
+   */
+  public enqueue(tool: string, args: Record<string, any>, tenant: string): PendingAction {
+    this.sync();
+    const now = Date.now();
+    const action: PendingAction = {
+      id: `act_${crypto.randomUUID()}`,
+      tool,
+      ...piiRedactor.seal(args),
+      tenant,
+      status: 'pending',
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + config.approvals.ttlMs).toISOString(),
+    };
+
+    this.write(action);
+    logger.info('[Approvals] Action pending approval', {
+      id: action.id,
+      tool,
+      tenant,
+      expiresAt: action.expiresAt,
+    });
+
+    return action;
+  }
+
+  /**
+   * Get an action
+   * @param id The action ID
+   * @returns The action, or undefined if it doesn't exist
+   */
+  public get(id: string): PendingAction | undefined {
+    this.expire();
+    return this.actions.get(id);
+  }
+
+  /**
+   * List actions, most recent first
+   * @param filter Only list the actions with this status or of this tenant
+   * @returns The actions
+   */
+  public list(filter: { status?: PendingActionStatus; tenant?: string } = {}): PendingAction[] {
+    this.expire();
+
+    return [...this.actions.values()]
+      .filter((action) => !filter.status || action.status === filter.status)
+      .filter((action) => !filter.tenant || action.tenant === filter.tenant)
+      .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+  }
+
+  /**
+   * Approve a pending action and execute its tool call
+   * @param id The action ID
+   * @param decider Who approved the action
+   * @param execute Executes the tool call of the action
+   * @returns The action with the response of the tool
+   * @throws Error if the action doesn't exist or is not pending
+   */
+  public async approve(
+    id: string,
+    decider: Decider,
+    execute: (action: PendingAction) => Promise<ToolResponse>
+  ): Promise<PendingAction> {
+    const approved = this.decide(id, 'approved', decider);
+    logger.info('[Approvals] Action approved', this.describe(approved));
+
+    let result: ToolResponse;
+    try {
+      result = await execute(approved);
+    } catch (error: any) {
+      result = {
+        content: [{ type: 'text', text: `Error: ${error.message}` }],
+        isError: true,
+      };
+    }
+
+    const action = this.write({
+      ...approved,
+      status: result.isError ? 'failed' : 'executed',
+      result,
+    });
+
+    if (result.isError) {
+      logger.error('[Approvals] Approved action failed', {
+        ...this.describe(action),
+        error: result.content[0]?.text,
+      });
+    } else {
+      logger.info('[Approvals] Approved action executed', this.describe(action));
+    }
+
+    return action;
+  }
+
+  /**
+   * Get the arguments an action's tool runs with
+   * @param action The action
+   * @returns The arguments with the real values of personal data
+   * @throws Error if the personal data can't be decrypted
+   */
+  public getArguments(action: PendingAction): Record<string, any> {
+    return piiRedactor.open(action);
+  }
+
+  /**
+   * Get an action as shown to approvers, with the real values of personal data
+   * Actions whose personal data can't be decrypted are shown sealed
+   * @param action The action
+   * @returns The action without its sealed values
+   */
+  public reveal(action: PendingAction): PendingAction {
+    const { sealedValues, ...revealed } = action;
+    if (!sealedValues) {
+      return revealed;
+    }
+
+    try {
+      return { ...revealed, arguments: this.getArguments(action) };
+    } catch (error: any) {
+      logger.warn('[Approvals] Failed to decrypt the arguments of an action', {
+        id: action.id,
+        error: error.message,
+      });
+      return revealed;
+    }
+  }
+
+  /**
+   * Get an action as shown to the current caller
+   * Approvers see the real values of personal data; other callers, who may check on the calls
+   * they made, see it masked in the arguments and the tool response
+   * @param action The action
+   * @returns The action without its sealed values
+   */
+  public present(action: PendingAction): PendingAction {
+    if (accessControl.hasAccess('approve')) {
+      return this.reveal(action);
+    }
+
+    const { sealedValues, ...concealed } = action;
+    return {
+      ...concealed,
+      arguments: piiRedactor.conceal(action),
+      ...(action.result && { result: piiRedactor.mask(action.result) }),
+    };
+  }
+
+  /**
+   * Reject a pending action
+   * @param id The action ID
+   * @param decider Who rejected the action
+   * @param reason Why the action was rejected
+   * @returns The rejected action
+   * @throws Error if the action doesn't exist or is not pending
+   */
+  public reject(id: string, decider: Decider, reason?: string): PendingAction {
+    const action = this.decide(id, 'rejected', decider, reason);
+
+    logger.info('[Approvals] Action rejected', { ...this.describe(action), reason });
+
+    return action;
+  }
+
+  /**
+   * Expire the pending actions whose TTL has passed, and forget decided actions after another TTL
+   * Forgotten actions are removed from the file when it is next compacted
+   */
+  public expire(): void {
+    this.sync();
+    const now = new Date().toISOString();
+    const forgetBefore = new Date(Date.now() - config.approvals.ttlMs).toISOString();
+
+    for (const action of [...this.actions.values()]) {
+      if (action.status === 'pending' && action.expiresAt <= now) {
+        const expired = this.write({ ...action, status: 'expired', decidedAt: now });
+        logger.info('[Approvals] Action expired', this.describe(expired));
+      } else if (
+        action.status !== 'pending' &&
+        action.decidedAt &&
+        action.decidedAt < forgetBefore
+      ) {
+        this.actions.delete(action.id);
+      }
+    }
+  }
+
+  /**
+   * Start expiring pending actions in the background
+   * @returns The interval, to be cleared on shutdown
+   */
+  public startExpiry(): NodeJS.Timeout {
+    const interval = setInterval(() => this.expire(), Math.min(config.approvals.ttlMs, 60000));
+
+    // Don't keep the process alive just for the expiry
+    interval.unref();
+
+    return interval;
+  }
+
+  /**
+   * Record the decision about a pending action
+   * @param id The action ID
+   * @param status The decision
+   * @param decider Who decided
+   * @param reason Why the action was rejected
+   * @returns The action
+   * @throws Error if the action doesn't exist or is not pending
+   */
+  private decide(
+    id: string,
+    status: PendingActionStatus,
+    decider: Decider,
+    reason?: string
+  ): PendingAction {
+    const action = this.get(id);
+    if (!action) {
+      throw new Error(`Pending action not found: ${id}`);
+    }
+    if (action.status !== 'pending') {
+      throw new Error(`Action ${id} is ${action.status}, only pending actions can be decided`);
+    }
+
+    return this.write({
+      ...action,
+      status,
+      decidedAt: new Date().toISOString(),
+      decidedBy: decider.apiKeyId,
+      decisionNote: decider.note,
+      reason,
+    });
+  }
+
+  /**
+   * Describe an action for the logs
+   * @param action The action
+   * @returns The log fields
+   */
+  private describe(action: PendingAction): Record<string, any> {
+    return {
+      id: action.id,
+      tool: action.tool,
+      tenant: action.tenant,
+      arguments: redactArguments(action.arguments),
+      decidedBy: action.decidedBy,
+      decisionNote: action.decisionNote,
+    };
+  }
+}
+
+// Export a singleton instance
+export const approvalQueue = new ApprovalQueue();
+
+// Export default
+export default approvalQueue;
@@ -0,0 +1,447 @@
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import { frontappClient, DownloadedFile } from '../clients/frontapp/index.js';
+import { config } from '../config/index.js';
+import { transcriptUtil } from './transcript.js';
+
+/**
+ * A file to attach to a message, as given in tool arguments
+ * Exactly one of path, content_base64 and attachment_id gives the content of the file
+ */
+export interface AttachmentInput {
+  /** Path of a local file, in one of the directories of ATTACHMENT_ALLOWED_DIRS */
+  path?: string;
+  /** The content of the file, base64-encoded */
+  content_base64?: string;
+  /** An attachment of an earlier message: its ID, URL or frontapp://attachments/ URI */
+  attachment_id?: string;
+  /** The file name (defaults to the name of the file or attachment) */
+  filename?: string;
+  /** The content type (defaults to the type of the file name's extension) */
+  content_type?: string;
+}
+
+/**
+ * A file resolved from an attachment input, ready to be uploaded
+ */
+export interface AttachmentFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * The text extracted from a file
+ */
+export interface ExtractedText {
+  text: string;
+  /** Whether the text was cut at ATTACHMENT_TEXT_MAX_CHARS */
+  truncated: boolean;
+}
+
+// URI prefix of attachment resources
+export const ATTACHMENT_URI_PREFIX = 'frontapp://attachments/';
+
+// Content types by file extension, for files attached without a content type
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.log': 'text/plain',
+  '.ics': 'text/calendar',
+  '.zip': 'application/zip',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Content types, besides text/*, whose files are text
+const TEXT_CONTENT_TYPE =
+  /^(text\/|application\/(json|xml|yaml|x-yaml|javascript|csv)\b|.+\+(json|xml)\b)/i;
+
+/**
+ * Attachment utility
+ * Resolves the files attached to messages from local paths, base64 content and earlier
+ * attachments, encodes requests with attachments as multipart/form-data, and extracts the text
+ * of downloaded text files and PDFs
+ */
+export class AttachmentUtil {
+  /**
+   * Get the download path of an attachment reference
+   * @param reference An attachment ID, download URL or frontapp://attachments/ URI
+   * @returns The download path of the attachment ID, or the URL as is
+   */
+  public getAttachmentPath(reference: string): string {
+    if (reference.startsWith(ATTACHMENT_URI_PREFIX)) {
+      return `/download/${encodeURIComponent(reference.slice(ATTACHMENT_URI_PREFIX.length))}`;
+    }
+    if (/^https?:\/\//i.test(reference)) {
+      return reference;
+    }
+    return `/download/${encodeURIComponent(reference)}`;
+  }
+
+  /**
+   * Download an attachment
+   * @param reference An attachment ID, download URL or frontapp://attachments/ URI
+   * @returns The file
+   * @throws Error if the attachment is larger than ATTACHMENT_MAX_SIZE_BYTES
+   */
+  public async download(reference: string): Promise<DownloadedFile> {
+    return frontappClient.download(
+      this.getAttachmentPath(reference),
+      config.attachments.maxSizeBytes
+    );
+  }
+
+  /**
+   * Resolve the files of attachment inputs
+   * @param inputs The attachment inputs
+   * @returns The files, in the same order
+   * @throws Error if an input is invalid, a path is not allowed, or the files are too large
+   */
+  public async resolve(inputs: AttachmentInput[]): Promise<AttachmentFile[]> {
+    if (!Array.isArray(inputs)) {
+      throw new Error('attachments must be an array');
+    }
+
+    const files: AttachmentFile[] = [];
+    for (const [index, input] of inputs.entries()) {
+      files.push(await this.resolveOne(input, `attachments[${index}]`));
+    }
+
+    const size = files.reduce((total, file) => total + file.content.length, 0);
+    const { maxSizeBytes } = config.attachments;
+    if (size > maxSizeBytes) {
+      throw new Error(`Attachments are ${size} bytes, more than the ${maxSizeBytes} bytes allowed`);
+    }
+
+    return files;
+  }
+
+  /**
+   * Build a multipart/form-data request body
+   * Fields are encoded like Front expects them, e.g. to[0] for arrays and sender[handle] for
+   * objects, and the files are added as attachments[0], attachments[1], ...
+   * @param data The fields of the request
+   * @param files The files to attach
+   * @returns The form
+   */
+  public toFormData(data: Record<string, any>, files: AttachmentFile[]): FormData {
+    const form = new FormData();
+
+    const append = (name: string, value: any) => {
+      if (value === undefined || value === null) {
+        return;
+      }
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => append(`${name}[${index}]`, item));
+      } else if (typeof value === 'object') {
+        for (const [key, item] of Object.entries(value)) {
+          append(`${name}[${key}]`, item);
+        }
+      } else {
+        form.append(name, String(value));
+      }
+    };
+
+    for (const [key, value] of Object.entries(data)) {
+      append(key, value);
+    }
+    files.forEach((file, index) => {
+      form.append(
+        `attachments[${index}]`,
+        new Blob([file.content], { type: file.contentType }),
+        file.filename
+      );
+    });
+
+    return form;
+  }
+
+  /**
+   * Extract the text of a text file or PDF
+   * HTML is converted to plain text. PDFs are read without rendering them: the text of their
+   * content streams is extracted in order, which works for most generated documents such as
+   * invoices, but not for scanned documents or text in fonts without a standard encoding.
+   * @param content The content of the file
+   * @param contentType The content type of the file
+   * @returns The text, cut at ATTACHMENT_TEXT_MAX_CHARS, or undefined if the file has no text
+   */
+  public extractText(content: Buffer, contentType: string): ExtractedText | undefined {
+    let text: string;
+    if (/^application\/pdf\b/i.test(contentType)) {
+      text = extractPdfText(content);
+    } else if (TEXT_CONTENT_TYPE.test(contentType)) {
+      text = content.toString('utf8');
+      if (/^text\/html\b/i.test(contentType)) {
+        text = transcriptUtil.htmlToText(text);
+      }
+    } else {
+      return undefined;
+    }
+
+    const maxChars = config.attachments.textMaxChars;
+    return { text: text.slice(0, maxChars), truncated: text.length > maxChars };
+  }
+
+  /**
+   * Guess the content type of a file from its name
+   * @param filename The file name
+   * @returns The content type
+   */
+  public getContentType(filename: string): string {
+    return CONTENT_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+  }
+
+  /**
+   * Resolve the file of an attachment input
+   * @param input The attachment input
+   * @param name The name of the input in error messages
+   * @returns The file
+   * @throws Error if the input is invalid or its path is not allowed
+   */
+  private async resolveOne(input: AttachmentInput, name: string): Promise<AttachmentFile> {
+    const sources = ['path', 'content_base64', 'attachment_id'].filter(
+      (source) => typeof input?.[source] === 'string'
+    );
+    if (sources.length !== 1) {
+      throw new Error(`${name} needs exactly one of path, content_base64 or attachment_id`);
+    }
+
+    let filename = input.filename;
+    let contentType = input.content_type;
+    let content: Buffer;
+
+    if (input.path !== undefined) {
+      const filePath = await this.checkPath(input.path, name);
+      content = await fs.readFile(filePath);
+      filename ??= path.basename(filePath);
+    } else if (input.content_base64 !== undefined) {
+      if (!filename) {
+        throw new Error(`${name} needs a filename with content_base64`);
+      }
+      content = Buffer.from(input.content_base64, 'base64');
+    } else {
+      const file = await this.download(input.attachment_id);
+      content = file.content;
+      filename ??= file.filename || 'attachment';
+      contentType ??= file.contentType;
+    }
+
+    return { filename, contentType: contentType || this.getContentType(filename), content };
+  }
+
+  /**
+   * Check that a local file can be attached
+   * Only files in the directories of ATTACHMENT_ALLOWED_DIRS can be attached, so that the model
+   * can't send e.g. credentials of the server to a customer
+   * @param filePath The path of the file
+   * @param name The name of the input in error messages
+   * @returns The real path of the file
+   * @throws Error if the file is not in an allowed directory or doesn't exist
+   */
+  private async checkPath(filePath: string, name: string): Promise<string> {
+    const allowedDirs = config.attachments.allowedDirs
+      .split(',')
+      .map((dir) => dir.trim())
+      .filter(Boolean);
+    if (allowedDirs.length === 0) {
+      throw new Error(
+        `${name}: attaching local files is disabled. Set ATTACHMENT_ALLOWED_DIRS to enable it.`
+      );
+    }
+
+    let realPath: string;
+    try {
+      // Symbolic links are resolved, so that they can't point out of the allowed directories
+      realPath = await fs.realpath(filePath);
+    } catch {
+      throw new Error(`${name}: file not found: ${filePath}`);
+    }
+
+    for (const dir of allowedDirs) {
+      const realDir = await fs.realpath(dir).catch(() => path.resolve(dir));
+      if (realPath.startsWith(realDir + path.sep)) {
+        return realPath;
+      }
+    }
+    throw new Error(`${name}: ${filePath} is not in a directory of ATTACHMENT_ALLOWED_DIRS`);
+  }
+}
+
+/**
+ * Decode a PDF string literal, e.g. (Total \(EUR\))
+ * @param literal The literal, without the enclosing parentheses
+ * @returns The string
+ */
+function decodePdfLiteral(literal: string): string {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+  return literal.replace(/\\(?:([0-7]{1,3})|(\r?\n)|(.))/g, (_, octal, newline, char) => {
+    if (octal) {
+      return String.fromCharCode(parseInt(octal, 8));
+    }
+    if (newline) {
+      return '';
+    }
+    return escapes[char] ?? char;
+  });
+}
+
+/**
+ * Decode a PDF hex string, e.g. <48656C6C6F>
+ * Two-byte strings starting with a byte order mark, or with only Latin-1 characters, are decoded
+ * as UTF-16
+ * @param hex The hex digits
+ * @returns The string
+ */
+function decodePdfHex(hex: string): string {
+  const digits = hex.replace(/\s/g, '');
+  const bytes = Buffer.from(digits.length % 2 ? `${digits}0` : digits, 'hex');
+  if (bytes.length >= 2 && bytes.length % 2 === 0) {
+    const isUtf16 =
+      (bytes[0] === 0xfe && bytes[1] === 0xff) ||
+      bytes.every((byte, index) => index % 2 === 1 || byte === 0);
+    if (isUtf16) {
+      const swapped = Buffer.from(bytes).swap16();
+      return swapped.toString('utf16le').replace(/^\uFEFF/, '');
+    }
+  }
+  return bytes.toString('latin1');
+}
+
+/**
+ * Extract the text of a PDF content stream
+ * Strings shown by the Tj, TJ, ' and " operators are collected; line moves start a new line
+ * and large TJ offsets a new word
+ * @param stream The decoded content stream
+ * @returns The text
+ */
+function extractStreamText(stream: string): string {
+  // Strings with up to one level of nested parentheses, hex strings, arrays, numbers, names
+  // and operators
+  const token = new RegExp(
+    [
+      /\((?:\\.|[^\\()]|\((?:\\.|[^\\()])*\))*\)/.source,
+      /<[0-9A-Fa-f\s]*>/.source,
+      /\[|\]/.source,
+      /-?\d*\.?\d+/.source,
+      /\/[^\s/[\]()<>]+/.source,
+      /[A-Za-z'"*]+/.source,
+    ].join('|'),
+    'g'
+  );
+  let text = '';
+  let inText = false;
+  let pending: Array<string | number> = [];
+  let array: Array<string | number> | undefined;
+
+  for (const [value] of stream.matchAll(token)) {
+    if (value.startsWith('(')) {
+      (array ?? pending).push(decodePdfLiteral(value.slice(1, -1)));
+    } else if (value.startsWith('<')) {
+      (array ?? pending).push(decodePdfHex(value.slice(1, -1)));
+    } else if (value === '[') {
+      array = [];
+    } else if (value === ']') {
+      pending.push(...(array ?? []));
+      array = undefined;
+    } else if (/^-?\d*\.?\d+$/.test(value)) {
+      (array ?? pending).push(Number(value));
+    } else if (value.startsWith('/')) {
+      continue;
+    } else {
+      if (value === 'BT') {
+        inText = true;
+      } else if (value === 'ET') {
+        inText = false;
+        text += '\n';
+      } else if (inText && ['Td', 'TD', 'T*', "'", '"'].includes(value)) {
+        text += '\n';
+      }
+
+      if (inText && ['Tj', 'TJ', "'", '"'].includes(value)) {
+        for (const item of pending) {
+          if (typeof item === 'string') {
+            text += item;
+          } else if (value === 'TJ' && item < -200) {
+            // Offsets are in thousandths of the font size; large ones separate words
+            text += ' ';
+          }
+        }
+      }
+      pending = [];
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Extract the text of a PDF
+ * @param content The PDF file
+ * @returns The text, with runs of blank lines collapsed
+ */
+function extractPdfText(content: Buffer): string {
+  const pdf = content.toString('latin1');
+  const parts: string[] = [];
+
+  for (const match of pdf.matchAll(/>>\s*stream\r?\n/g)) {
+    // The stream dictionary is between the object header and the stream keyword
+    const dictionary = pdf.slice(pdf.lastIndexOf('obj', match.index), match.index);
+    // Images, fonts and other binary streams hold no page text
+    if (/\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(dictionary)) {
+      continue;
+    }
+
+    const start = match.index + match[0].length;
+    const end = pdf.indexOf('endstream', start);
+    if (end === -1) {
+      break;
+    }
+
+    let data = content.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        data = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      // Other filters (e.g. DCTDecode for JPEG images) are not text
+      continue;
+    }
+
+    const text = extractStreamText(data.toString('latin1'));
+    if (text.trim()) {
+      parts.push(text);
+    }
+  }
+
+  return parts
+    .join('\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Export a singleton instance
+export const attachmentUtil = new AttachmentUtil();
+
+// Export default
+export default attachmentUtil;
@@ -0,0 +1,343 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { ToolResponse } from '../models/mcp.js';
+import { ToolAccess } from '../handlers/requests/registry.js';
+import { accessControl, Role } from './accessControl.js';
+import { requestContext } from './requestContext.js';
+import { tenantManager } from './tenants.js';
+import { piiRedactor } from './piiRedactor.js';
+import { ErrorLogger } from './errorLogger.js';
+import logger from './logger.js';
+
+/**
+ * Outcome of an audited tool call
+ * Denied calls were refused by access control, invalid calls were refused before running,
+ * pending calls are waiting for human approval, and replayed calls repeated an earlier call
+ * and got its response without running
+ */
+export type AuditOutcome =
+  | 'success'
+  | 'error'
+  | 'denied'
+  | 'invalid'
+  | 'pending_approval'
+  | 'replayed';
+
+/**
+ * The caller of an audited tool call
+ */
+export interface AuditActor {
+  /** Whether the call was made over HTTP with an API key, or over stdio */
+  type: 'api_key' | 'stdio';
+  /** The ID of the API key (see getApiKeyId) */
+  apiKeyId?: string;
+  /** The MCP session of the call */
+  sessionId?: string;
+  /** The role of the caller */
+  role: Role;
+}
+
+/**
+ * An entry of the audit log
+ */
+export interface AuditEntry {
+  /** The entry ID */
+  id: string;
+  /** When the tool call was made (ISO 8601) */
+  timestamp: string;
+  /** The ID of the HTTP request that made the call */
+  requestId?: string;
+  actor: AuditActor;
+  /** The tenant the tool ran for */
+  tenant: string;
+  /** The name of the tool */
+  tool: string;
+  /** The access level of the tool, unless the tool is unknown */
+  access?: ToolAccess;
+  /** The arguments of the call, with credentials and message content redacted */
+  arguments: Record<string, any>;
+  /** The IDs of the Front resources the call touched */
+  resourceIds: string[];
+  outcome: AuditOutcome;
+  /** The error message of calls that didn't succeed */
+  error?: string;
+  /** The time the call took in milliseconds */
+  latencyMs: number;
+  /** The pending action of calls that need, or ran after, human approval */
+  actionId?: string;
+}
+
+/**
+ * A tool call to audit
+ */
+export interface ToolCallAudit {
+  tool: string;
+  access?: ToolAccess;
+  /** The tenant the tool ran for; the tenant of the caller when not set */
+  tenant?: string;
+  arguments: Record<string, any>;
+  outcome: AuditOutcome;
+  error?: string;
+  /** The tool response, to find the IDs of the resources created by the call */
+  result?: ToolResponse;
+  latencyMs: number;
+  actionId?: string;
+}
+
+/**
+ * Filters for querying the audit log
+ */
+export interface AuditFilter {
+  /** Only entries that touched this Front resource (e.g. a conversation ID) */
+  resourceId?: string;
+  /** Only entries of this API key ID, MCP session ID or actor type */
+  actor?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  tenant?: string;
+  /** Only entries made at or after this time (ISO 8601) */
+  since?: string;
+  /** Only entries made before this time (ISO 8601) */
+  until?: string;
+  limit?: number;
+}
+
+// Arguments holding credentials, which are never logged
+const CREDENTIAL_ARGUMENT = /password|secret|api_?key|authorization|access_token/i;
+
+// Arguments holding message content and file content, of which only the length is logged
+const CONTENT_ARGUMENTS = ['body', 'text', 'content_base64'];
+
+// Number of bytes read at a time when reading the audit log from its end
+const READ_CHUNK_SIZE = 64 * 1024;
+
+// Front resource IDs: a lowercase prefix, an underscore and an alphanumeric ID (e.g. cnv_55c8c149)
+const RESOURCE_ID = /^[a-z]{2,5}_[0-9a-z]+$/;
+
+/**
+ * Redact the arguments of a tool call for logging
+ * Credentials are replaced, message content is reduced to its length and, while PII redaction
+ * is enabled, personal data is masked
+ * @param args The arguments
+ * @returns The redacted arguments
+ */
+export function redactArguments(args: Record<string, any>): Record<string, any> {
+  const redact = (key: string, value: any): any => {
+    if (CREDENTIAL_ARGUMENT.test(key)) {
+      return '[REDACTED]';
+    }
+    if (CONTENT_ARGUMENTS.includes(key) && typeof value === 'string') {
+      return `[${value.length} characters]`;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redact('', item));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return redactArguments(value);
+    }
+    return value;
+  };
+
+  return piiRedactor.mask(
+    Object.fromEntries(Object.entries(args).map(([key, value]) => [key, redact(key, value)]))
+  );
+}
+
+/**
+ * Find the IDs of the Front resources a tool call touched
+ * These are the resource IDs in the arguments, and the ID of the resource the tool returned
+ * @param args The arguments of the call
+ * @param result The tool response
+ * @returns The resource IDs
+ */
+export function findResourceIds(args: Record<string, any>, result?: ToolResponse): string[] {
+  const ids = new Set<string>();
+
+  const collect = (value: any): void => {
+    if (typeof value === 'string') {
+      if (RESOURCE_ID.test(value)) {
+        ids.add(value);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (typeof value === 'object' && value !== null) {
+      Object.values(value).forEach(collect);
+    }
+  };
+
+  collect(args);
+
+  if (result && !result.isError) {
+    try {
+      const data = JSON.parse(result.content[0]?.text || '');
+      collect(data?.id);
+    } catch {
+      // Not a JSON response
+    }
+  }
+
+  return [...ids];
+}
+
+/**
+ * Read the lines of a file from the last to the first, a chunk at a time
+ * @param filePath The path of the file
+ * @returns The lines, last first
+ */
+async function* readLinesBackward(filePath: string): AsyncGenerator<string> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    let position = (await handle.stat()).size;
+    let rest = Buffer.alloc(0);
+
+    while (position > 0) {
+      const length = Math.min(READ_CHUNK_SIZE, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+      rest = Buffer.concat([chunk, rest]);
+
+      // Newlines never occur inside multi-byte UTF-8 characters, so lines can be split as bytes
+      let index: number;
+      while ((index = rest.lastIndexOf(0x0a)) !== -1) {
+        yield rest.subarray(index + 1).toString('utf8');
+        rest = rest.subarray(0, index);
+      }
+    }
+
+    yield rest.toString('utf8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Check whether an audit entry matches a filter, apart from its limit
+ * @param entry The audit entry
+ * @param filter The filter
+ * @returns Whether the entry matches
+ */
+function matchesFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  const { actor } = filter;
+  return (
+    (!filter.resourceId || entry.resourceIds.includes(filter.resourceId)) &&
+    (!actor ||
+      entry.actor.apiKeyId === actor ||
+      entry.actor.sessionId === actor ||
+      entry.actor.type === actor) &&
+    (!filter.tool || entry.tool === filter.tool) &&
+    (!filter.outcome || entry.outcome === filter.outcome) &&
+    (!filter.tenant || entry.tenant === filter.tenant) &&
+    (!filter.since || entry.timestamp >= filter.since) &&
+    (!filter.until || entry.timestamp < filter.until)
+  );
+}
+
+/**
+ * Audit log
+ * Records every tool call in an append-only JSON Lines file: who made it, with which (redacted)
+ * arguments, the Front resources it touched, its outcome and how long it took. Entries carry
+ * the ID of the HTTP request that made the call, as sent in the X-Request-ID response header.
+ */
+export class AuditLog {
+  /**
+   * Create a new audit log
+   * @param filePath The path of the JSON Lines file
+   */
+  constructor(private readonly filePath: string = config.audit.path) {}
+
+  /**
+   * Record a tool call
+   * Failing to write the audit log is logged but doesn't fail the tool call
+   * @param call The tool call
+   * @returns The audit entry, or undefined if the audit log is disabled
+   */
+  public recordToolCall(call: ToolCallAudit): AuditEntry | undefined {
+    if (!config.audit.enabled) {
+      return undefined;
+    }
+
+    const context = requestContext.current();
+    const entry: AuditEntry = {
+      id: `aud_${crypto.randomUUID()}`,
+      timestamp: new Date(Date.now() - call.latencyMs).toISOString(),
+      requestId: context?.requestId,
+      actor: {
+        type: context ? 'api_key' : 'stdio',
+        apiKeyId: context?.apiKeyId,
+        sessionId: context?.sessionId,
+        role: accessControl.current(),
+      },
+      tenant: call.tenant || tenantManager.current(),
+      tool: call.tool,
+      access: call.access,
+      arguments: redactArguments(call.arguments),
+      resourceIds: findResourceIds(call.arguments, call.result),
+      outcome: call.outcome,
+      error: call.error,
+      latencyMs: call.latencyMs,
+      actionId: call.actionId,
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+    } catch (error: any) {
+      ErrorLogger.logSystemError('Failed to write the audit log', error, {
+        file: this.filePath,
+        tool: call.tool,
+      });
+    }
+
+    return entry;
+  }
+
+  /**
+   * Query the audit log, most recent entries first
+   * The file is read from its end, and reading stops once the limit is reached
+   * @param filter The filter
+   * @returns The matching entries (at most 100 unless the filter sets a limit)
+   */
+  public async query(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const limit = filter.limit || 100;
+    const entries: AuditEntry[] = [];
+
+    for await (const line of readLinesBackward(this.filePath)) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error: any) {
+        logger.warn('Skipping invalid line in audit log', {
+          file: this.filePath,
+          error: error.message,
+        });
+        continue;
+      }
+
+      if (matchesFilter(entry, filter)) {
+        entries.push(entry);
+        if (entries.length >= limit) {
+          break;
+        }
+      }
+    }
+
+    return entries;
+  }
+}
+
+// Export a singleton instance
+export const auditLog = new AuditLog();
+
+// Export default
+export default auditLog;
@@ -1,59 +1,417 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
 import logger from './logger.js';
+import { piiRedactor } from './piiRedactor.js';
 
 /**
  * Cache entry interface
  */
-interface CacheEntry<T> {
-  /** The cached data */
+export interface CacheEntry<T = any> {
+  /** The cached data, which must be serializable to JSON */
   data: T;
-  /** The timestamp when the data was cached */
-  timestamp: number;
-  /** The expiration time in milliseconds */
-  expiresIn: number;
+  /** The timestamp when the entry expires */
+  expiresAt: number;
+  /** The invalidation tags of the entry, e.g. the IDs of the Front resources in the data */
+  tags: string[];
 }
 
+/**
+ * Storage backend of the cache
+ * Backends evict the least recently used entries when they hold more than their maximum
+ */
+export interface CacheBackend {
+  /** The backend name */
+  readonly name: string;
+  /** Get an entry, or undefined if not found or expired */
+  get(key: string): Promise<CacheEntry | undefined>;
+  /** Set an entry */
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /** Delete an entry and return whether it was found */
+  delete(key: string): Promise<boolean>;
+  /** Delete the entries with any of the tags and return their keys */
+  deleteTagged(tags: string[]): Promise<string[]>;
+  /** Delete the expired entries and return how many were deleted */
+  deleteExpired(): Promise<number>;
+  /** Delete all entries */
+  clear(): Promise<void>;
+  /** Get the number of entries */
+  size(): Promise<number>;
+}
+
+/**
+ * Name of a cache backend
+ */
+export type CacheBackendName = 'memory' | 'file';
+
 /**
  * Cache options interface
  */
 export interface CacheOptions {
-  /** The default expiration time in milliseconds */
-  defaultExpiresIn: number;
+  /** The storage backend */
+  backend: CacheBackendName;
+  /** The directory of the file backend */
+  directory: string;
   /** The maximum number of entries in the cache */
   maxEntries: number;
+  /** Per-type TTLs in milliseconds, as a comma-separated list of type=ms pairs */
+  ttls: string;
   /** Whether to enable debug logging */
   debug: boolean;
 }
 
 /**
- * Default cache options
+ * Default TTLs in milliseconds of the types of cached Front resources
+ * A TTL of 0 disables caching of the type
  */
-const DEFAULT_CACHE_OPTIONS: CacheOptions = {
-  defaultExpiresIn: 5 * 60 * 1000, // 5 minutes
-  maxEntries: 100,
-  debug: false,
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  teammates: 60 * 60 * 1000, // 1 hour
+  inboxes: 60 * 60 * 1000,
+  tags: 60 * 60 * 1000,
+  custom_fields: 60 * 60 * 1000,
+  accounts: 60 * 60 * 1000,
+  webhooks: 60 * 60 * 1000,
+  contacts: 5 * 60 * 1000, // 5 minutes
+  conversations: 30 * 1000, // 30 seconds
 };
 
+/**
+ * Check whether a cache entry has expired
+ * @param entry The cache entry
+ * @returns Whether the entry has expired
+ */
+function isExpired(entry: { expiresAt: number }): boolean {
+  return Date.now() > entry.expiresAt;
+}
+
+/**
+ * In-memory cache backend
+ * Entries are kept in a Map in least recently used order
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  public readonly name = 'memory';
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * Create a new in-memory cache backend
+   * @param maxEntries The maximum number of entries
+   */
+  constructor(private readonly maxEntries: number) {}
+
+  public async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (isExpired(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move the entry to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Callers get a copy, like from the file backend, so they can't change the cached data
+    return structuredClone(entry);
+  }
+
+  public async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(entry));
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  public async deleteTagged(tags: string[]): Promise<string[]> {
+    const deleted: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some((tag) => tags.includes(tag))) {
+        this.entries.delete(key);
+        deleted.push(key);
+      }
+    }
+    return deleted;
+  }
+
+  public async deleteExpired(): Promise<number> {
+    let count = 0;
+    for (const [key, entry] of this.entries) {
+      if (isExpired(entry)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  public async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Index entry of the file backend
+ */
+interface CacheFileIndexEntry {
+  file: string;
+  expiresAt: number;
+  tags: string[];
+}
+
+/**
+ * File cache backend
+ * Every entry is stored in a JSON file of the cache directory, so the cache survives restarts.
+ * The key and data of the entries are encrypted with the encryption key of sealed values.
+ * An index of the entries is kept in memory in least recently used order and rebuilt from the
+ * directory on first use. The directory must not be shared by several server processes.
+ */
+export class FileCacheBackend implements CacheBackend {
+  public readonly name = 'file';
+  private index: Map<string, CacheFileIndexEntry> | undefined;
+
+  /**
+   * Create a new file cache backend
+   * @param directory The cache directory
+   * @param maxEntries The maximum number of entries
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly maxEntries: number
+  ) {}
+
+  public async get(key: string): Promise<CacheEntry | undefined> {
+    const index = await this.load();
+    const indexed = index.get(key);
+    if (!indexed) {
+      return undefined;
+    }
+    if (isExpired(indexed)) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    try {
+      const stored = JSON.parse(await fs.promises.readFile(indexed.file, 'utf8'));
+      const { data } = JSON.parse(piiRedactor.decrypt(stored.sealed));
+
+      index.delete(key);
+      index.set(key, indexed);
+
+      return { data, expiresAt: stored.expiresAt, tags: stored.tags };
+    } catch (error: any) {
+      logger.warn('Dropping unreadable cache file', { file: indexed.file, error: error.message });
+      await this.delete(key);
+      return undefined;
+    }
+  }
+
+  public async set(key: string, entry: CacheEntry): Promise<void> {
+    const index = await this.load();
+    const file = this.getFile(key);
+
+    // Write to a temporary file first so a crash never leaves a partial entry
+    const temporary = `${file}.${crypto.randomUUID()}.tmp`;
+    // The key and data are encrypted, since Front responses contain personal data
+    const sealed = piiRedactor.encrypt(JSON.stringify({ key, data: entry.data }));
+    await fs.promises.writeFile(
+      temporary,
+      JSON.stringify({ expiresAt: entry.expiresAt, tags: entry.tags, sealed })
+    );
+    await fs.promises.rename(temporary, file);
+
+    index.delete(key);
+    index.set(key, { file, expiresAt: entry.expiresAt, tags: entry.tags });
+
+    for (const oldest of index.keys()) {
+      if (index.size <= this.maxEntries) {
+        break;
+      }
+      await this.delete(oldest);
+    }
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    const index = await this.load();
+    const indexed = index.get(key);
+    if (!indexed) {
+      return false;
+    }
+
+    index.delete(key);
+    await fs.promises.rm(indexed.file, { force: true });
+    return true;
+  }
+
+  public async deleteTagged(tags: string[]): Promise<string[]> {
+    const index = await this.load();
+    const keys = [...index]
+      .filter(([, indexed]) => indexed.tags.some((tag) => tags.includes(tag)))
+      .map(([key]) => key);
+
+    for (const key of keys) {
+      await this.delete(key);
+    }
+    return keys;
+  }
+
+  public async deleteExpired(): Promise<number> {
+    const index = await this.load();
+    const keys = [...index].filter(([, indexed]) => isExpired(indexed)).map(([key]) => key);
+
+    for (const key of keys) {
+      await this.delete(key);
+    }
+    return keys.length;
+  }
+
+  public async clear(): Promise<void> {
+    const index = await this.load();
+    for (const key of [...index.keys()]) {
+      await this.delete(key);
+    }
+  }
+
+  public async size(): Promise<number> {
+    return (await this.load()).size;
+  }
+
+  /**
+   * Get the file of an entry
+   * @param key The cache key
+   * @returns The path of the file
+   */
+  private getFile(key: string): string {
+    const hash = crypto.createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  /**
+   * Load the index from the cache directory, the first time it is needed
+   * Expired and unreadable entries are deleted, including entries encrypted with another key,
+   * and entries are ordered by last write
+   * @returns The index
+   */
+  private async load(): Promise<Map<string, CacheFileIndexEntry>> {
+    if (this.index) {
+      return this.index;
+    }
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const loaded: Array<[string, CacheFileIndexEntry, number]> = [];
+    for (const name of await fs.promises.readdir(this.directory)) {
+      const file = path.join(this.directory, name);
+      try {
+        if (!name.endsWith('.json')) {
+          // Temporary files of interrupted writes
+          await fs.promises.rm(file, { force: true });
+          continue;
+        }
+
+        const stored = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+        if (isExpired(stored)) {
+          await fs.promises.rm(file, { force: true });
+          continue;
+        }
+
+        const { key } = JSON.parse(piiRedactor.decrypt(stored.sealed));
+        const { mtimeMs } = await fs.promises.stat(file);
+        const indexed = { file, expiresAt: stored.expiresAt, tags: stored.tags };
+        loaded.push([key, indexed, mtimeMs]);
+      } catch (error: any) {
+        logger.warn('Dropping unreadable cache file', { file, error: error.message });
+        await fs.promises.rm(file, { force: true });
+      }
+    }
+
+    // Another load may have completed while this one was reading the directory
+    if (!this.index) {
+      loaded.sort((a, b) => a[2] - b[2]);
+      this.index = new Map(loaded.map(([key, indexed]) => [key, indexed]));
+    }
+
+    return this.index;
+  }
+}
+
+/**
+ * Create the cache backend configured by the cache options
+ * @param options Cache options
+ * @returns The cache backend
+ */
+function createCacheBackend(options: CacheOptions): CacheBackend {
+  if (options.backend === 'file') {
+    return new FileCacheBackend(options.directory, options.maxEntries);
+  }
+  return new MemoryCacheBackend(options.maxEntries);
+}
+
 /**
  * Cache manager
- * This utility provides caching functionality for API responses and other data
+ * This utility provides caching functionality for API responses and other data. Entries are
+ * stored in a pluggable backend (in memory, or on disk to survive restarts), expire after the
+ * TTL of their type, and carry tags so that every entry about a resource can be invalidated at
+ * once, e.g. when a webhook reports that the resource changed. Backend errors are logged and
+ * treated as cache misses, so the cache never fails a request.
  */
 export class CacheManager {
-  private cache: Map<string, CacheEntry<any>>;
+  private backend: CacheBackend;
   private options: CacheOptions;
+  private ttls: Record<string, number>;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
 
   /**
    * Create a new cache manager
-   * @param options Cache options
+   * @param options Cache options (defaults to the configured options)
+   * @param backend The storage backend (defaults to the backend of the options)
    */
-  constructor(options: Partial<CacheOptions> = {}) {
+  constructor(options: Partial<CacheOptions> = {}, backend?: CacheBackend) {
     this.options = {
-      ...DEFAULT_CACHE_OPTIONS,
+      backend: config.cache.backend,
+      directory: config.cache.directory,
+      maxEntries: config.cache.maxEntries,
+      ttls: config.cache.ttls,
+      debug: false,
       ...options,
     };
-    this.cache = new Map<string, CacheEntry<any>>();
+    this.backend = backend || createCacheBackend(this.options);
+    this.ttls = { ...DEFAULT_CACHE_TTLS };
 
-    // Start the cleanup interval
-    setInterval(() => this.cleanup(), 60 * 1000); // Run cleanup every minute
+    for (const entry of this.options.ttls.split(',')) {
+      const [type, ttl] = entry.split('=').map((part) => part.trim());
+      if (type && ttl) {
+        this.ttls[type] = Number(ttl);
+      }
+    }
+
+    // Run cleanup every minute, without keeping the process alive just for it
+    setInterval(() => this.cleanup(), 60 * 1000).unref();
+  }
+
+  /**
+   * Get the TTL of a type of cached data
+   * @param type The type, e.g. teammates
+   * @returns The TTL in milliseconds, or 0 if the type is not cached
+   */
+  public getTtl(type: string): number {
+    return this.ttls[type] || 0;
   }
 
   /**
@@ -61,27 +419,26 @@ export class CacheManager {
    * @param key The cache key
    * @returns The cached value, or undefined if not found or expired
    */
-  public get<T>(key: string): T | undefined {
-    const entry = this.cache.get(key);
+  public async get<T>(key: string): Promise<T | undefined> {
+    let entry: CacheEntry<T> | undefined;
+    try {
+      entry = await this.backend.get(key);
+    } catch (error: any) {
+      logger.warn(`Cache read failed: ${key}`, {
+        backend: this.backend.name,
+        error: error.message,
+      });
+    }
 
-    // If the entry doesn't exist, return undefined
     if (!entry) {
+      this.misses++;
       if (this.options.debug) {
         logger.debug(`Cache miss: ${key}`);
       }
       return undefined;
     }
 
-    // If the entry has expired, delete it and return undefined
-    if (this.isExpired(entry)) {
-      this.cache.delete(key);
-      if (this.options.debug) {
-        logger.debug(`Cache expired: ${key}`);
-      }
-      return undefined;
-    }
-
-    // Return the cached data
+    this.hits++;
     if (this.options.debug) {
       logger.debug(`Cache hit: ${key}`);
     }
@@ -91,27 +448,27 @@ export class CacheManager {
   /**
    * Set a value in the cache
    * @param key The cache key
-   * @param data The data to cache
-   * @param expiresIn The expiration time in milliseconds (optional, defaults to defaultExpiresIn)
+   * @param data The data to cache, which must be serializable to JSON
+   * @param expiresIn The expiration time in milliseconds; values of 0 are not cached
+   * @param tags The invalidation tags of the entry
    */
-  public set<T>(key: string, data: T, expiresIn?: number): void {
-    // If the cache is full, remove the oldest entry
-    if (this.cache.size >= this.options.maxEntries) {
-      this.removeOldest();
+  public async set<T>(key: string, data: T, expiresIn: number, tags: string[] = []): Promise<void> {
+    if (expiresIn <= 0) {
+      return;
     }
 
-    // Set the cache entry
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      expiresIn: expiresIn || this.options.defaultExpiresIn,
-    });
+    try {
+      await this.backend.set(key, { data, expiresAt: Date.now() + expiresIn, tags });
+    } catch (error: any) {
+      logger.warn(`Cache write failed: ${key}`, {
+        backend: this.backend.name,
+        error: error.message,
+      });
+      return;
+    }
 
     if (this.options.debug) {
-      logger.debug(`Cache set: ${key}`, {
-        expiresIn: expiresIn || this.options.defaultExpiresIn,
-        size: this.cache.size,
-      });
+      logger.debug(`Cache set: ${key}`, { expiresIn, tags });
     }
   }
 
@@ -120,19 +477,52 @@ export class CacheManager {
    * @param key The cache key
    * @returns Whether the key was found and deleted
    */
-  public delete(key: string): boolean {
-    const result = this.cache.delete(key);
-    if (this.options.debug && result) {
-      logger.debug(`Cache delete: ${key}`);
+  public async delete(key: string): Promise<boolean> {
+    try {
+      return await this.backend.delete(key);
+    } catch (error: any) {
+      logger.warn(`Cache delete failed: ${key}`, {
+        backend: this.backend.name,
+        error: error.message,
+      });
+      return false;
     }
-    return result;
+  }
+
+  /**
+   * Invalidate the entries with any of the tags
+   * @param tags The invalidation tags, e.g. the IDs of the Front resources that changed
+   * @returns The keys of the invalidated entries
+   */
+  public async invalidate(tags: string[]): Promise<string[]> {
+    if (tags.length === 0) {
+      return [];
+    }
+
+    let keys: string[] = [];
+    try {
+      keys = await this.backend.deleteTagged(tags);
+    } catch (error: any) {
+      logger.warn('Cache invalidation failed', {
+        backend: this.backend.name,
+        tags,
+        error: error.message,
+      });
+    }
+
+    this.invalidations += keys.length;
+    if (keys.length > 0) {
+      logger.debug('Cache invalidated', { tags, keys });
+    }
+
+    return keys;
   }
 
   /**
    * Clear the entire cache
    */
-  public clear(): void {
-    this.cache.clear();
+  public async clear(): Promise<void> {
+    await this.backend.clear();
     if (this.options.debug) {
       logger.debug('Cache cleared');
     }
@@ -142,109 +532,43 @@ export class CacheManager {
    * Get the number of entries in the cache
    * @returns The number of entries
    */
-  public size(): number {
-    return this.cache.size;
-  }
-
-  /**
-   * Get all cache keys
-   * @returns An array of cache keys
-   */
-  public keys(): string[] {
-    return Array.from(this.cache.keys());
+  public async size(): Promise<number> {
+    return this.backend.size();
   }
 
   /**
    * Get cache statistics
    * @returns Cache statistics
    */
-  public stats(): {
+  public async stats(): Promise<{
+    backend: string;
     size: number;
     maxEntries: number;
-    oldestEntry: { key: string; age: number } | null;
-    newestEntry: { key: string; age: number } | null;
-  } {
-    let oldestKey: string | null = null;
-    let oldestTimestamp = Infinity;
-    let newestKey: string | null = null;
-    let newestTimestamp = 0;
-
-    // Find the oldest and newest entries
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.timestamp < oldestTimestamp) {
-        oldestKey = key;
-        oldestTimestamp = entry.timestamp;
-      }
-      if (entry.timestamp > newestTimestamp) {
-        newestKey = key;
-        newestTimestamp = entry.timestamp;
-      }
-    }
-
-    const now = Date.now();
-
+    hits: number;
+    misses: number;
+    invalidations: number;
+  }> {
     return {
-      size: this.cache.size,
+      backend: this.backend.name,
+      size: await this.backend.size(),
       maxEntries: this.options.maxEntries,
-      oldestEntry: oldestKey
-        ? { key: oldestKey, age: now - oldestTimestamp }
-        : null,
-      newestEntry: newestKey
-        ? { key: newestKey, age: now - newestTimestamp }
-        : null,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
     };
   }
 
-  /**
-   * Check if a cache entry has expired
-   * @param entry The cache entry
-   * @returns Whether the entry has expired
-   */
-  private isExpired(entry: CacheEntry<any>): boolean {
-    return Date.now() > entry.timestamp + entry.expiresIn;
-  }
-
-  /**
-   * Remove the oldest entry from the cache
-   */
-  private removeOldest(): void {
-    let oldestKey: string | null = null;
-    let oldestTimestamp = Infinity;
-
-    // Find the oldest entry
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.timestamp < oldestTimestamp) {
-        oldestKey = key;
-        oldestTimestamp = entry.timestamp;
-      }
-    }
-
-    // Delete the oldest entry
-    if (oldestKey) {
-      this.cache.delete(oldestKey);
-      if (this.options.debug) {
-        logger.debug(`Cache evicted oldest entry: ${oldestKey}`);
-      }
-    }
-  }
-
   /**
    * Clean up expired entries
    */
-  private cleanup(): void {
-    const now = Date.now();
-    let expiredCount = 0;
-
-    // Delete expired entries
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.timestamp + entry.expiresIn) {
-        this.cache.delete(key);
-        expiredCount++;
+  private async cleanup(): Promise<void> {
+    try {
+      const expiredCount = await this.backend.deleteExpired();
+      if (this.options.debug && expiredCount > 0) {
+        logger.debug(`Cache cleanup: removed ${expiredCount} expired entries`);
       }
-    }
-
-    if (this.options.debug && expiredCount > 0) {
-      logger.debug(`Cache cleanup: removed ${expiredCount} expired entries`);
+    } catch (error: any) {
+      logger.warn('Cache cleanup failed', { backend: this.backend.name, error: error.message });
     }
   }
 
@@ -252,16 +576,18 @@ export class CacheManager {
    * Get or set a value in the cache with a callback function
    * @param key The cache key
    * @param callback The callback function to get the data if not cached
-   * @param expiresIn The expiration time in milliseconds (optional)
+   * @param expiresIn The expiration time in milliseconds
+   * @param tags The invalidation tags of the entry
    * @returns The cached or fetched data
    */
   public async getOrSet<T>(
     key: string,
     callback: () => Promise<T>,
-    expiresIn?: number
+    expiresIn: number,
+    tags: string[] = []
   ): Promise<T> {
     // Try to get the value from the cache
-    const cachedValue = this.get<T>(key);
+    const cachedValue = await this.get<T>(key);
     if (cachedValue !== undefined) {
       return cachedValue;
     }
@@ -270,7 +596,7 @@ export class CacheManager {
     try {
       const data = await callback();
       // Cache the data
-      this.set(key, data, expiresIn);
+      await this.set(key, data, expiresIn, tags);
       return data;
     } catch (error) {
       // If the callback fails, log the error and rethrow
@@ -282,7 +608,7 @@ export class CacheManager {
   }
 }
 
-// Export a singleton instance with default options
+// Export a singleton instance with the configured options
 export const cacheManager = new CacheManager();
 
 // Export default
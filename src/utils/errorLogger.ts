@@ -1,4 +1,5 @@
 import logger from './logger.js';
+import { requestContext } from './requestContext.js';
 
 /**
  * Error logging utility
@@ -56,6 +57,25 @@ export class ErrorLogger {
     });
   }
 
+  /**
+   * Log a tool error
+   * The ID of the HTTP request that made the tool call is added to the context
+   * @param message Error message
+   * @param error Error object or message
+   * @param context Additional context information
+   */
+  public static logToolError(message: string, error: Error | string, context?: Record<string, any>): void {
+    const errorMessage = typeof error === 'string' ? error : error.message;
+    const errorStack = error instanceof Error ? error.stack : undefined;
+    
+    logger.error(`Tool Error: ${message}`, {
+      error: errorMessage,
+      stack: errorStack,
+      requestId: requestContext.current()?.requestId,
+      ...context,
+    });
+  }
+
   /**
    * Log a validation error
    * @param message Error message
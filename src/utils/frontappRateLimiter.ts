@@ -0,0 +1,263 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../config/index.js';
+import { metricsTracker } from './monitoring.js';
+import logger from './logger.js';
+
+/**
+ * Priority of a Frontapp API request
+ * Interactive requests are sent before background requests when both wait for the rate limit
+ */
+export type FrontappRequestPriority = 'interactive' | 'background';
+
+/**
+ * A request waiting for a token
+ */
+interface QueuedRequest {
+  /** Lets the request be sent */
+  start: () => void;
+}
+
+/**
+ * The token bucket of a Front company
+ */
+interface TokenBucket {
+  key: string;
+  /** The tokens available, each letting one request be sent */
+  tokens: number;
+  /** The maximum number of tokens, i.e. of requests sent at once */
+  capacity: number;
+  /** The number of tokens added per minute */
+  perMinute: number;
+  /** When tokens were last added */
+  refilledAt: number;
+  /** When requests may be sent again after Front refused one with 429 */
+  pausedUntil: number;
+  queues: Record<FrontappRequestPriority, QueuedRequest[]>;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Statistics of the token bucket of a Front company
+ */
+export interface TokenBucketStats {
+  tokens: number;
+  perMinute: number;
+  queued: Record<FrontappRequestPriority, number>;
+  /** When requests may be sent again, while the bucket is paused (ISO 8601) */
+  pausedUntil?: string;
+}
+
+// Pause after a 429 response without retry-after or x-ratelimit-reset header
+const DEFAULT_THROTTLE_DELAY = 1000;
+
+/**
+ * Frontapp rate limiter
+ * Schedules every Frontapp API request through a token bucket per Front company (tenant), as
+ * Front limits requests per company. Buckets start from the configured requests per minute and
+ * follow the x-ratelimit-* headers of responses; a 429 response pauses the bucket of the company
+ * until Front accepts requests again. Waiting requests are sent in priority order: interactive
+ * requests, such as those of tool calls, before background requests, such as those of webhook
+ * processing. The time requests wait is published in the application metrics.
+ */
+export class FrontappRateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+  private context = new AsyncLocalStorage<FrontappRequestPriority>();
+
+  /**
+   * Run a function with a request priority
+   * Frontapp API requests made by the function, including asynchronously, have the priority
+   * @param priority The priority
+   * @param fn The function
+   * @returns The result of the function
+   */
+  public run<T>(priority: FrontappRequestPriority, fn: () => T): T {
+    return this.context.run(priority, fn);
+  }
+
+  /**
+   * Get the request priority of the code that is running
+   * @returns The priority
+   */
+  public current(): FrontappRequestPriority {
+    return this.context.getStore() || 'interactive';
+  }
+
+  /**
+   * Send a request once the token bucket of its Front company allows it
+   * @param key The Front company, e.g. the tenant name
+   * @param requestFn Function that makes the actual request
+   * @returns The response from the request
+   */
+  public async schedule<T>(key: string, requestFn: () => Promise<T>): Promise<T> {
+    const bucket = this.getBucket(key);
+    const priority = this.current();
+    const enqueuedAt = Date.now();
+
+    await new Promise<void>((resolve) => {
+      bucket.queues[priority].push({ start: resolve });
+      this.dispatch(bucket);
+    });
+
+    const wait = Date.now() - enqueuedAt;
+    metricsTracker.addFrontappWaitTime(priority, wait);
+    if (wait > 1000) {
+      logger.debug('Frontapp API request waited for the rate limit', { key, priority, wait });
+    }
+
+    return requestFn();
+  }
+
+  /**
+   * Update the token bucket of a Front company from the rate limit headers of a response
+   * @param key The Front company
+   * @param headers The response headers
+   */
+  public update(key: string, headers: Record<string, any>): void {
+    const bucket = this.getBucket(key);
+    const limit = parseInt(headers['x-ratelimit-limit']);
+    const remaining = parseInt(headers['x-ratelimit-remaining']);
+    const reset = parseInt(headers['x-ratelimit-reset']) * 1000;
+
+    this.refill(bucket);
+
+    if (limit > 0 && limit !== bucket.perMinute) {
+      logger.info('Frontapp API rate limit updated', { key, perMinute: limit });
+      bucket.perMinute = limit;
+    }
+
+    // Front knows about requests of other clients of the company, so it has the last word
+    if (remaining >= 0) {
+      bucket.tokens = Math.min(bucket.tokens, remaining);
+      if (remaining === 0 && reset > Date.now()) {
+        bucket.pausedUntil = Math.max(bucket.pausedUntil, reset);
+      }
+    }
+
+    this.dispatch(bucket);
+  }
+
+  /**
+   * Pause the token bucket of a Front company after Front refused a request with 429
+   * The pause lasts until the retry-after or x-ratelimit-reset time of the response
+   * @param key The Front company
+   * @param headers The response headers
+   * @returns The delay in milliseconds before requests are sent again
+   */
+  public throttle(key: string, headers: Record<string, any>): number {
+    const bucket = this.getBucket(key);
+    const retryAfter = parseInt(headers['retry-after']) * 1000;
+    const reset = parseInt(headers['x-ratelimit-reset']) * 1000 - Date.now();
+    const delay = retryAfter >= 0 ? retryAfter : reset > 0 ? reset : DEFAULT_THROTTLE_DELAY;
+
+    bucket.tokens = 0;
+    bucket.refilledAt = Date.now();
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + delay);
+    metricsTracker.incrementFrontappThrottledCount();
+
+    logger.info('Frontapp API rate limit reached, pausing requests', { key, delayMs: delay });
+    this.dispatch(bucket);
+
+    return delay;
+  }
+
+  /**
+   * Get the statistics of the token buckets
+   * @returns The statistics by Front company
+   */
+  public getStats(): Record<string, TokenBucketStats> {
+    const stats: Record<string, TokenBucketStats> = {};
+
+    for (const bucket of this.buckets.values()) {
+      this.refill(bucket);
+      stats[bucket.key] = {
+        tokens: Math.floor(bucket.tokens),
+        perMinute: bucket.perMinute,
+        queued: {
+          interactive: bucket.queues.interactive.length,
+          background: bucket.queues.background.length,
+        },
+        pausedUntil:
+          bucket.pausedUntil > Date.now() ? new Date(bucket.pausedUntil).toISOString() : undefined,
+      };
+    }
+
+    return stats;
+  }
+
+  /**
+   * Get the token bucket of a Front company, creating it if needed
+   * @param key The Front company
+   * @returns The token bucket
+   */
+  private getBucket(key: string): TokenBucket {
+    let bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      const { perMinute, burst } = config.frontapp.rateLimit;
+      bucket = {
+        key,
+        tokens: burst,
+        capacity: burst,
+        perMinute,
+        refilledAt: Date.now(),
+        pausedUntil: 0,
+        queues: { interactive: [], background: [] },
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Add the tokens earned since the last refill
+   * @param bucket The token bucket
+   */
+  private refill(bucket: TokenBucket): void {
+    const now = Date.now();
+    const earned = ((now - bucket.refilledAt) * bucket.perMinute) / 60000;
+
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + earned);
+    bucket.refilledAt = now;
+  }
+
+  /**
+   * Send the waiting requests the token bucket allows, highest priority first
+   * When requests are left waiting, dispatching resumes once the next token is earned
+   * @param bucket The token bucket
+   */
+  private dispatch(bucket: TokenBucket): void {
+    clearTimeout(bucket.timer);
+    bucket.timer = undefined;
+    this.refill(bucket);
+
+    const { interactive, background } = bucket.queues;
+    while (interactive.length + background.length > 0) {
+      const now = Date.now();
+      if (bucket.pausedUntil > now) {
+        bucket.timer = setTimeout(() => this.dispatch(bucket), bucket.pausedUntil - now);
+        break;
+      }
+      if (bucket.tokens < 1) {
+        const delay = Math.ceil(((1 - bucket.tokens) * 60000) / bucket.perMinute);
+        bucket.timer = setTimeout(() => this.dispatch(bucket), delay);
+        break;
+      }
+
+      bucket.tokens--;
+      (interactive.shift() || background.shift()).start();
+    }
+
+    let queued = 0;
+    for (const { queues } of this.buckets.values()) {
+      queued += queues.interactive.length + queues.background.length;
+    }
+    metricsTracker.setFrontappQueueDepth(queued);
+  }
+}
+
+// Export a singleton instance
+export const frontappRateLimiter = new FrontappRateLimiter();
+
+// Export default
+export default frontappRateLimiter;
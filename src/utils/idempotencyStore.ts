@@ -0,0 +1,255 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { ToolResponse } from '../models/mcp.js';
+import logger from './logger.js';
+import { requestContext } from './requestContext.js';
+
+/**
+ * The idempotency key of a tool call
+ */
+export interface IdempotencyKey {
+  /** The key, scoped to the tenant, the caller and the tool */
+  key: string;
+  /** The hash of the arguments of the call */
+  argumentsHash: string;
+  /** Whether the caller gave the key, rather than it being derived from the arguments */
+  explicit: boolean;
+  /** The response of an earlier call with the key, if any */
+  response?: ToolResponse;
+}
+
+/**
+ * The response of a tool call stored under its idempotency key
+ */
+interface IdempotencyRecord {
+  key: string;
+  argumentsHash: string;
+  response: ToolResponse;
+  /** When the call was made (ISO 8601) */
+  createdAt: string;
+  /** When the key is forgotten (ISO 8601) */
+  expiresAt: string;
+}
+
+// Minimum number of lines in the file before writes compact it
+const COMPACT_MIN_LINES = 1000;
+
+/**
+ * Serialize a value as JSON with sorted object keys, so equal arguments always hash the same
+ * @param value The value
+ * @returns The JSON text
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Idempotency store
+ * Remembers the responses of write tool calls by idempotency key, so that a repeated call (e.g.
+ * a retry by the model) gets the original response instead of e.g. sending a message twice.
+ * Keys are given by the caller. Keys derived from the arguments are only used when
+ * IDEMPOTENCY_DERIVED_TTL_MS is set, as they also catch calls that are repeated on purpose.
+ * Keys are scoped to the tenant and the caller: the API key, or else the MCP session.
+ * Responses are stored in an append-only JSON Lines file; error responses are not stored, so
+ * failed calls can be retried. Calls with a key that is still running are awaited, not repeated.
+ * The file is compacted once it holds twice as many lines as unexpired keys.
+ */
+export class IdempotencyStore {
+  private records: Map<string, IdempotencyRecord> | undefined;
+  private lineCount = 0;
+  private running = new Map<string, { argumentsHash: string; response: Promise<ToolResponse> }>();
+
+  /**
+   * Create a new idempotency store
+   * @param filePath The path of the JSON Lines file
+   */
+  constructor(private readonly filePath: string = config.idempotency.path) {}
+
+  /**
+   * Check whether write tool calls are deduplicated
+   * @returns Whether idempotency keys are enabled
+   */
+  public isEnabled(): boolean {
+    return config.idempotency.enabled;
+  }
+
+  /**
+   * Get the idempotency key of a tool call
+   * @param tool The name of the tool
+   * @param tenant The tenant the tool runs for
+   * @param args The arguments of the call
+   * @param idempotencyKey The key given by the caller, if any
+   * @returns The key with the response of an earlier call, or undefined if the call isn't
+   *   deduplicated
+   * @throws Error if the key was used for a call with other arguments
+   */
+  public getKey(
+    tool: string,
+    tenant: string,
+    args: Record<string, any>,
+    idempotencyKey?: string
+  ): IdempotencyKey | undefined {
+    const explicit = idempotencyKey !== undefined;
+    if (!this.isEnabled() || (!explicit && config.idempotency.derivedTtlMs === 0)) {
+      return undefined;
+    }
+
+    // Retries after reconnecting get a new session, so the API key scopes keys when there is one
+    const context = requestContext.current();
+    const caller = context?.apiKeyId || context?.sessionId || 'stdio';
+    const scope = `${tenant}:${caller}:${tool}`;
+
+    const argumentsHash = crypto.createHash('sha256').update(stableStringify(args)).digest('hex');
+    const key = explicit ? `${scope}:key:${idempotencyKey}` : `${scope}:arguments:${argumentsHash}`;
+
+    const previous = this.load().get(key) || this.running.get(key);
+    if (previous && previous.argumentsHash !== argumentsHash) {
+      throw new Error(
+        `Idempotency key ${idempotencyKey} was already used for a ${tool} call with other arguments`
+      );
+    }
+
+    return { key, argumentsHash, explicit, response: this.load().get(key)?.response };
+  }
+
+  /**
+   * Run a tool call once per idempotency key
+   * @param idempotencyKey The idempotency key of the call
+   * @param execute Executes the tool call
+   * @returns The response, and whether it is the response of an earlier call
+   */
+  public async run(
+    idempotencyKey: IdempotencyKey,
+    execute: () => Promise<ToolResponse>
+  ): Promise<{ response: ToolResponse; replayed: boolean }> {
+    const { key, argumentsHash, explicit } = idempotencyKey;
+
+    if (idempotencyKey.response) {
+      return { response: idempotencyKey.response, replayed: true };
+    }
+
+    const running = this.running.get(key);
+    if (running) {
+      return { response: await running.response, replayed: true };
+    }
+
+    const response = execute();
+    this.running.set(key, { argumentsHash, response });
+
+    try {
+      const result = await response;
+      if (!result.isError) {
+        const ttl = explicit ? config.idempotency.ttlMs : config.idempotency.derivedTtlMs;
+        this.write({
+          key,
+          argumentsHash,
+          response: result,
+          createdAt: new Date().toISOString(),
+          expiresAt: new Date(Date.now() + ttl).toISOString(),
+        });
+      }
+      return { response: result, replayed: false };
+    } finally {
+      this.running.delete(key);
+    }
+  }
+
+  /**
+   * Load the stored responses from the file, the first time they are needed
+   * Expired keys are dropped, and compacted away from the file
+   * @returns The unexpired records by key
+   */
+  private load(): Map<string, IdempotencyRecord> {
+    const now = new Date().toISOString();
+
+    if (!this.records) {
+      this.records = new Map();
+
+      if (fs.existsSync(this.filePath)) {
+        for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+          if (!line.trim()) {
+            continue;
+          }
+          try {
+            const record = JSON.parse(line) as IdempotencyRecord;
+            if (record.expiresAt > now) {
+              this.records.set(record.key, record);
+            }
+          } catch (error: any) {
+            logger.warn('Skipping invalid line in idempotency store', {
+              file: this.filePath,
+              error: error.message,
+            });
+          }
+        }
+
+        this.compact();
+      }
+    }
+
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+
+    return this.records;
+  }
+
+  /**
+   * Store the response of a tool call
+   * The file is compacted when most of its lines are expired keys. Failing to write the file is
+   * logged; the response is still remembered until restart.
+   * @param record The record to store
+   */
+  private write(record: IdempotencyRecord): void {
+    const records = this.load();
+    records.set(record.key, record);
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`);
+      this.lineCount++;
+
+      if (this.lineCount >= Math.max(COMPACT_MIN_LINES, records.size * 2)) {
+        this.compact();
+      }
+    } catch (error: any) {
+      logger.error('Failed to write the idempotency store', {
+        file: this.filePath,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Rewrite the file with one line per unexpired key
+   */
+  private compact(): void {
+    const records = [...this.load().values()];
+    const content = records.map((record) => `${JSON.stringify(record)}\n`).join('');
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, this.filePath);
+
+    this.lineCount = records.length;
+  }
+}
+
+// Export a singleton instance
+export const idempotencyStore = new IdempotencyStore();
+
+// Export default
+export default idempotencyStore;
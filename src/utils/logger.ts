@@ -1,5 +1,4 @@
 import winston from 'winston';
-import { config } from '../config/index.js';
 import path from 'path';
 import fs from 'fs';
 
@@ -28,8 +27,9 @@ const consoleFormat = winston.format.combine(
 );
 
 // Create the logger
+// The level is updated from the validated configuration once it has been loaded
 const logger = winston.createLogger({
-  level: config.logging.level || 'info',
+  level: process.env.LOG_LEVEL || 'info',
   format: logFormat,
   defaultMeta: { service: 'frontapp-mcp' },
   transports: [
@@ -53,6 +53,8 @@ if (process.env.NODE_ENV !== 'production') {
   logger.add(
     new winston.transports.Console({
       format: consoleFormat,
+      // Write to stderr so stdout stays reserved for the MCP stdio transport
+      stderrLevels: Object.keys(winston.config.npm.levels),
     })
   );
 }
@@ -1,5 +1,6 @@
 import os from 'os';
 import logger from './logger.js';
+import { FrontappRequestPriority } from './frontappRateLimiter.js';
 
 // Interface for system metrics
 interface SystemMetrics {
@@ -135,6 +136,18 @@ interface ExtendedApplicationMetrics extends ApplicationMetrics {
     stdDev: number;
     count: number;
   };
+  webhookQueue: {
+    depth: number;
+    active: number;
+    averageLag: number;
+    maxLag: number;
+  };
+  frontappRateLimit: {
+    queued: number;
+    throttled: number;
+    averageWait: Record<FrontappRequestPriority, number>;
+    maxWait: Record<FrontappRequestPriority, number>;
+  };
 }
 
 /**
@@ -145,10 +158,21 @@ class MetricsTracker {
   private requestCount = 0;
   private errorCount = 0;
   private webhookCount = 0;
+  private webhookQueueDepth = 0;
+  private webhookQueueActive = 0;
+  private frontappQueueDepth = 0;
+  private frontappThrottledCount = 0;
   private responseTimeStats: RollingStats;
+  private webhookQueueLagStats: RollingStats;
+  private frontappWaitStats: Record<FrontappRequestPriority, RollingStats>;
   
   constructor() {
     this.responseTimeStats = new RollingStats(1000); // Track ~1000 most recent requests
+    this.webhookQueueLagStats = new RollingStats(1000); // Track ~1000 most recent webhooks
+    this.frontappWaitStats = {
+      interactive: new RollingStats(1000), // Track ~1000 most recent Frontapp API requests
+      background: new RollingStats(1000),
+    };
   }
 
   /**
@@ -172,6 +196,48 @@ class MetricsTracker {
     this.webhookCount++;
   }
 
+  /**
+   * Set the webhook queue depth
+   * @param depth The number of webhooks waiting to be processed
+   * @param active The number of webhooks being processed
+   */
+  public setWebhookQueueDepth(depth: number, active: number): void {
+    this.webhookQueueDepth = depth;
+    this.webhookQueueActive = active;
+  }
+
+  /**
+   * Add webhook queue lag
+   * @param lag Time in milliseconds a webhook waited in the queue before processing started
+   */
+  public addWebhookQueueLag(lag: number): void {
+    this.webhookQueueLagStats.add(lag);
+  }
+
+  /**
+   * Set the number of Frontapp API requests waiting in the rate limiter queue
+   * @param depth The number of waiting requests
+   */
+  public setFrontappQueueDepth(depth: number): void {
+    this.frontappQueueDepth = depth;
+  }
+
+  /**
+   * Add the time a Frontapp API request waited in the rate limiter queue
+   * @param priority The priority of the request
+   * @param wait Time in milliseconds the request waited before it was sent
+   */
+  public addFrontappWaitTime(priority: FrontappRequestPriority, wait: number): void {
+    this.frontappWaitStats[priority].add(wait);
+  }
+
+  /**
+   * Increment the count of Frontapp API requests refused with 429 Too Many Requests
+   */
+  public incrementFrontappThrottledCount(): void {
+    this.frontappThrottledCount++;
+  }
+
   /**
    * Add response time
    * @param time Response time in milliseconds
@@ -203,7 +269,25 @@ class MetricsTracker {
         max: this.responseTimeStats.getMax(),
         stdDev: this.responseTimeStats.stdDev(),
         count: this.responseTimeStats.getCount()
-      }
+      },
+      webhookQueue: {
+        depth: this.webhookQueueDepth,
+        active: this.webhookQueueActive,
+        averageLag: this.webhookQueueLagStats.mean(),
+        maxLag: this.webhookQueueLagStats.getCount() > 0 ? this.webhookQueueLagStats.getMax() : 0
+      },
+      frontappRateLimit: {
+        queued: this.frontappQueueDepth,
+        throttled: this.frontappThrottledCount,
+        averageWait: {
+          interactive: this.frontappWaitStats.interactive.mean(),
+          background: this.frontappWaitStats.background.mean(),
+        },
+        maxWait: {
+          interactive: this.frontappWaitStats.interactive.getMax(),
+          background: this.frontappWaitStats.background.getMax(),
+        },
+      },
     };
   }
 
@@ -214,7 +298,14 @@ class MetricsTracker {
     this.requestCount = 0;
     this.errorCount = 0;
     this.webhookCount = 0;
+    this.webhookQueueDepth = 0;
+    this.webhookQueueActive = 0;
+    this.frontappQueueDepth = 0;
+    this.frontappThrottledCount = 0;
     this.responseTimeStats.reset();
+    this.webhookQueueLagStats.reset();
+    this.frontappWaitStats.interactive.reset();
+    this.frontappWaitStats.background.reset();
   }
 }
 
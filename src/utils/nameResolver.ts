@@ -0,0 +1,340 @@
+import { frontappClient } from '../clients/frontapp/index.js';
+import { config } from '../config/index.js';
+import { ToolArguments } from '../models/mcp.js';
+import { cacheManager } from './cache.js';
+import { tenantManager } from './tenants.js';
+import logger from './logger.js';
+
+/**
+ * A directory of Front resources whose names can be used instead of their IDs
+ */
+export type DirectoryType = 'teammates' | 'tags' | 'inboxes' | 'channels';
+
+/**
+ * A resource of a directory with the names it can be referred to by
+ */
+interface DirectoryEntry {
+  id: string;
+  /** How the resource is shown in errors, e.g. the path of a tag */
+  label: string;
+  /** The names of the resource, in lower case */
+  names: string[];
+}
+
+/**
+ * How the resources of a directory are listed and named
+ */
+interface DirectoryOptions {
+  /** The path of the list in the Frontapp API */
+  path: string;
+  /** The prefix of the IDs of the resources */
+  prefix: string;
+  /** The name of a resource of the directory, for errors */
+  label: string;
+  /** The tool that lists the resources */
+  tool: string;
+  /** How to make a name that matches more than one resource specific */
+  disambiguation: string;
+  /** Added to the description of the arguments that take the resources */
+  hint: string;
+  /** Get the entries of the listed resources */
+  toEntries(resources: any[]): DirectoryEntry[];
+}
+
+// Tool arguments that take IDs, by the directory their names are resolved with
+export const RESOLVED_ARGUMENTS: Record<string, DirectoryType> = {
+  assignee_id: 'teammates',
+  author_id: 'teammates',
+  teammate_id: 'teammates',
+  teammate_ids: 'teammates',
+  add_follower_ids: 'teammates',
+  remove_follower_ids: 'teammates',
+  tag_id: 'tags',
+  tag_ids: 'tags',
+  add_tag_ids: 'tags',
+  remove_tag_ids: 'tags',
+  inbox_id: 'inboxes',
+  inbox_ids: 'inboxes',
+  channel_id: 'channels',
+  channel_ids: 'channels',
+};
+
+/**
+ * Get the entries of names that are each a single value
+ * @param resources The listed resources
+ * @param getLabel Gets the label of a resource
+ * @param getNames Gets the names of a resource
+ * @returns The entries
+ */
+function toNamedEntries(
+  resources: any[],
+  getLabel: (resource: any) => string,
+  getNames: (resource: any) => Array<string | undefined>
+): DirectoryEntry[] {
+  return resources.map((resource) => ({
+    id: resource.id,
+    label: getLabel(resource),
+    names: getNames(resource)
+      .filter((name): name is string => typeof name === 'string' && name.trim() !== '')
+      .map((name) => name.trim().toLowerCase()),
+  }));
+}
+
+/**
+ * Get the ID of the parent of a tag
+ * The Frontapp API links child tags to their parent
+ * @param tag The tag
+ * @returns The ID of the parent tag, or undefined for top-level tags
+ */
+function getParentTagId(tag: any): string | undefined {
+  const link = tag._links?.related?.parent_tag;
+  return typeof link === 'string' && link ? link.split('/').pop() : undefined;
+}
+
+/**
+ * Get the entries of tags, which are named by their name and by their path, e.g. Billing/Refund
+ * @param tags The listed tags
+ * @returns The entries
+ */
+function toTagEntries(tags: any[]): DirectoryEntry[] {
+  const byId = new Map(tags.map((tag) => [tag.id, tag]));
+  const getPath = (tag: any): string => {
+    const names = [tag.name];
+    const seen = new Set([tag.id]);
+    let parent = byId.get(getParentTagId(tag));
+    while (parent && !seen.has(parent.id)) {
+      names.unshift(parent.name);
+      seen.add(parent.id);
+      parent = byId.get(getParentTagId(parent));
+    }
+    return names.join('/');
+  };
+
+  return toNamedEntries(tags, getPath, (tag) => [tag.name, getPath(tag)]);
+}
+
+// The directories
+const DIRECTORIES: Record<DirectoryType, DirectoryOptions> = {
+  teammates: {
+    path: '/teammates',
+    prefix: 'tea_',
+    label: 'teammate',
+    tool: 'list_teammates',
+    disambiguation: 'Give the ID or the email address instead.',
+    hint: 'Teammates can also be given by email, username or full name.',
+    toEntries: (teammates) =>
+      toNamedEntries(
+        teammates,
+        (teammate) => teammate.email || teammate.username || teammate.id,
+        (teammate) => [
+          teammate.email,
+          teammate.username,
+          [teammate.first_name, teammate.last_name].filter(Boolean).join(' '),
+        ]
+      ),
+  },
+  tags: {
+    path: '/tags',
+    prefix: 'tag_',
+    label: 'tag',
+    tool: 'list_tags',
+    disambiguation: 'Give the ID or the parent/child path instead.',
+    hint: 'Tags can also be given by name, or by parent/child path for nested tags.',
+    toEntries: toTagEntries,
+  },
+  inboxes: {
+    path: '/inboxes',
+    prefix: 'inb_',
+    label: 'inbox',
+    tool: 'list_inboxes',
+    disambiguation: 'Give the ID instead.',
+    hint: 'Inboxes can also be given by name.',
+    toEntries: (inboxes) =>
+      toNamedEntries(inboxes, (inbox) => inbox.name, (inbox) => [inbox.name]),
+  },
+  channels: {
+    path: '/channels',
+    prefix: 'cha_',
+    label: 'channel',
+    tool: 'list_channels',
+    disambiguation: 'Give the ID or the address instead.',
+    hint: 'Channels can also be given by name or address.',
+    toEntries: (channels) =>
+      toNamedEntries(
+        channels,
+        (channel) => channel.address || channel.name,
+        (channel) => [channel.name, channel.address]
+      ),
+  },
+};
+
+/**
+ * Name resolver
+ * Lets tools take teammates, tags, inboxes and channels by name where the Frontapp API needs
+ * their IDs, so that the model doesn't have to list them first. Names are looked up in
+ * directories of the tenant's teammates, tags, inboxes and channels. Directories are kept in
+ * the cache for NAME_RESOLUTION_TTL_MS, tagged like the lists they are built from so that
+ * writes and webhooks invalidate them, and are listed again when a name isn't found. A name
+ * that matches nothing, or more than one resource, is an error that lists the candidates.
+ */
+export class NameResolver {
+  /**
+   * Replace the names in the ID arguments of a tool call with IDs
+   * Arguments are recognized by name (see RESOLVED_ARGUMENTS); values that are IDs, or
+   * alt: references that the Frontapp API resolves itself, are kept as they are
+   * @param args The tool arguments
+   * @returns The arguments with IDs
+   * @throws Error if a name can't be resolved
+   */
+  public async resolveArguments(args: ToolArguments): Promise<ToolArguments> {
+    const resolved: ToolArguments = { ...args };
+
+    for (const [name, value] of Object.entries(args)) {
+      const type = RESOLVED_ARGUMENTS[name];
+      if (!type) {
+        continue;
+      }
+
+      if (typeof value === 'string') {
+        resolved[name] = await this.resolve(type, value);
+      } else if (Array.isArray(value)) {
+        resolved[name] = await this.resolveAll(type, value);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Resolve a name to an ID
+   * @param type The directory to look the name up in
+   * @param value An ID or a name
+   * @returns The ID
+   * @throws Error if the name matches nothing or more than one resource
+   */
+  public async resolve(type: DirectoryType, value: string): Promise<string> {
+    const options = DIRECTORIES[type];
+    const name = value.trim().toLowerCase();
+    if (!name || value.startsWith(options.prefix) || value.startsWith('alt:')) {
+      return value;
+    }
+
+    const find = (entries: DirectoryEntry[]) =>
+      entries.filter((entry) => entry.names.includes(name));
+
+    const cached = (await this.getCachedDirectory(type)) !== undefined;
+    let matches = find(await this.getDirectory(type));
+    if (matches.length === 0 && cached) {
+      // The resource may have been created since the directory was listed
+      matches = find(await this.getDirectory(type, true));
+    }
+
+    if (matches.length === 0) {
+      throw new Error(
+        `No ${options.label} matches "${value}". Use ${options.tool} to find the ${options.label}.`
+      );
+    }
+    if (matches.length > 1) {
+      const candidates = matches.map((entry) => `${entry.label} (${entry.id})`).join(', ');
+      throw new Error(
+        `"${value}" matches more than one ${options.label}: ${candidates}. ${options.disambiguation}`
+      );
+    }
+
+    logger.debug('Resolved name', { type, name: value, id: matches[0].id });
+    return matches[0].id;
+  }
+
+  /**
+   * Resolve names to IDs
+   * @param type The directory to look the names up in
+   * @param values IDs or names
+   * @returns The IDs, in the order of the values
+   * @throws Error if a name matches nothing or more than one resource
+   */
+  public async resolveAll(type: DirectoryType, values: unknown[]): Promise<unknown[]> {
+    const ids: unknown[] = [];
+    for (const value of values) {
+      ids.push(typeof value === 'string' ? await this.resolve(type, value) : value);
+    }
+    return ids;
+  }
+
+  /**
+   * Add to the descriptions of the ID arguments of a tool that names can be given instead
+   * @param properties The properties of the input schema of the tool
+   * @returns The properties with the descriptions of the ID arguments extended
+   */
+  public describeArguments(properties: Record<string, any>): Record<string, any> {
+    const described = { ...properties };
+
+    for (const [name, schema] of Object.entries(properties)) {
+      const type = RESOLVED_ARGUMENTS[name];
+      if (type && schema) {
+        const { hint } = DIRECTORIES[type];
+        const description = schema.description?.replace(/\.$/, '');
+        described[name] = {
+          ...schema,
+          description: description ? `${description}. ${hint}` : hint,
+        };
+      }
+    }
+
+    return described;
+  }
+
+  /**
+   * Get the cache key and namespace of a directory of the tenant of the code that is running
+   * @param type The directory
+   * @returns The cache key and the namespace of the tenant's cache tags
+   */
+  private getCacheKey(type: DirectoryType): { key: string; namespace: string } {
+    const { cacheNamespace } = tenantManager.get(tenantManager.current());
+    return { key: `${cacheNamespace}:directory:${type}`, namespace: cacheNamespace };
+  }
+
+  /**
+   * Get the cached directory of the tenant of the code that is running
+   * @param type The directory
+   * @returns The entries of the directory, or undefined if it isn't cached
+   */
+  private async getCachedDirectory(type: DirectoryType): Promise<DirectoryEntry[] | undefined> {
+    return cacheManager.get<DirectoryEntry[]>(this.getCacheKey(type).key);
+  }
+
+  /**
+   * Get the directory of the tenant of the code that is running
+   * @param type The directory
+   * @param refresh Whether to list the resources again, even if the directory is cached
+   * @returns The entries of the directory
+   * @throws Error if the resources can't be listed
+   */
+  private async getDirectory(type: DirectoryType, refresh = false): Promise<DirectoryEntry[]> {
+    const cached = refresh ? undefined : await this.getCachedDirectory(type);
+    if (cached) {
+      return cached;
+    }
+
+    const { path, toEntries } = DIRECTORIES[type];
+    let entries: DirectoryEntry[];
+    try {
+      const collection = await frontappClient.collect(path, {}, config.pagination.maxItems);
+      entries = toEntries(collection.results);
+    } catch (error: any) {
+      throw new Error(`Failed to list ${type} to resolve names: ${error.message}`);
+    }
+
+    // Invalidated when a resource of the directory changes, or one is created
+    const { key, namespace } = this.getCacheKey(type);
+    const tags = [`${namespace}:${type}`, ...entries.map(({ id }) => `${namespace}:${id}`)];
+    await cacheManager.set(key, entries, config.nameResolution.ttlMs, tags);
+
+    return entries;
+  }
+}
+
+// Export a singleton instance
+export const nameResolver = new NameResolver();
+
+// Export default
+export default nameResolver;
@@ -0,0 +1,442 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { requestContext } from './requestContext.js';
+import { tenantManager } from './tenants.js';
+
+/**
+ * Type of personal data the redactor detects
+ */
+export type PiiType = 'email' | 'phone' | 'card' | 'iban';
+
+/**
+ * A detector of personal data in text
+ */
+interface PiiDetector {
+  type: PiiType;
+  /** Finds candidates in text */
+  pattern: RegExp;
+  /** Confirms a candidate, to avoid redacting e.g. IDs or dates that look like numbers */
+  confirm?: (match: string) => boolean;
+}
+
+/**
+ * Tool arguments whose personal data is sealed for storage
+ */
+export interface SealedArguments {
+  /** The arguments, with tokens in place of the personal data */
+  arguments: Record<string, any>;
+  /** The values of the tokens, encrypted with ENCRYPTION_KEY, if there are any */
+  sealedValues?: string;
+}
+
+/**
+ * The tokens of a token scope and the values they stand for
+ */
+interface TokenVault {
+  values: Map<string, string>;
+  tokens: Map<string, string>;
+  counters: Map<PiiType, number>;
+  lastUsed: number;
+}
+
+/**
+ * Check a card number with the Luhn algorithm
+ * @param match The candidate card number
+ * @returns Whether the card number is valid
+ */
+function isCardNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Check an IBAN with its ISO 7064 mod 97 check digits
+ * @param match The candidate IBAN
+ * @returns Whether the IBAN is valid
+ */
+function isIban(match: string): boolean {
+  const iban = match.replace(/\s/g, '').toUpperCase();
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  const numeric = rearranged.replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+
+  let remainder = 0;
+  for (const digit of numeric) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Check that a candidate phone number is not a date, an IP address or a plain number
+ * @param match The candidate phone number
+ * @returns Whether the candidate is a phone number
+ */
+function isPhoneNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 9 || digits.length > 15) {
+    return false;
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(match) || /^\d{1,3}(\.\d{1,3}){3}$/.test(match)) {
+    return false;
+  }
+  return match.startsWith('+') || /[\s().-]/.test(match);
+}
+
+// Detectors, in the order they run: card numbers and IBANs before the looser phone numbers
+const DETECTORS: PiiDetector[] = [
+  { type: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { type: 'card', pattern: /(?<![\w+])\d(?:[ -]?\d){12,18}(?!\w)/g, confirm: isCardNumber },
+  { type: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, confirm: isIban },
+  { type: 'phone', pattern: /(?<![\w+])\+?\(?\d[\d\s().-]{6,}\d(?!\w)/g, confirm: isPhoneNumber },
+];
+
+// Reversible tokens, e.g. <EMAIL_1>
+const TOKEN = /<(EMAIL|PHONE|CARD|IBAN)_(\d+)>/g;
+
+/**
+ * Split a comma-separated list
+ * @param value The list
+ * @returns The trimmed, non-empty entries
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Get the mask of a value that can't be restored
+ * @param type The type of the value
+ * @returns The mask, e.g. [REDACTED_EMAIL]
+ */
+function mask(type: PiiType): string {
+  return `[REDACTED_${type.toUpperCase()}]`;
+}
+
+/**
+ * Replace the reversible tokens in a value
+ * @param value The value (any JSON value)
+ * @param replacement Returns the replacement of a token
+ * @returns The value with the replacements
+ */
+function replaceTokens(value: any, replacement: (token: string, type: PiiType) => string): any {
+  if (typeof value === 'string') {
+    return value.replace(TOKEN, (token, type: string) =>
+      replacement(token, type.toLowerCase() as PiiType)
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceTokens(item, replacement));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, replaceTokens(field, replacement)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Get the key sealed values are encrypted with
+ * @returns The AES-256 key
+ */
+function getSealKey(): Buffer {
+  return crypto.createHash('sha256').update(config.security.encryptionKey).digest();
+}
+
+/**
+ * Encrypt text with AES-256-GCM
+ * @param text The text
+ * @returns The IV, authentication tag and ciphertext, base64-encoded
+ */
+function encrypt(text: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getSealKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+}
+
+/**
+ * Decrypt text encrypted with encrypt
+ * @param data The encrypted text
+ * @returns The text
+ */
+function decrypt(data: string): string {
+  const buffer = Buffer.from(data, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getSealKey(), buffer.subarray(0, 12));
+  decipher.setAuthTag(buffer.subarray(12, 28));
+  return Buffer.concat([decipher.update(buffer.subarray(28)), decipher.final()]).toString('utf8');
+}
+
+/**
+ * PII redactor
+ * Masks email addresses, phone numbers, card numbers and IBANs in tool results before they are
+ * sent to the model. With reversible tokens, each value is replaced by a token such as <EMAIL_1>
+ * that the model can pass back to tools: the tokens in tool arguments are replaced by the
+ * values they stand for. Tokens are scoped to the MCP session, or else the API key, and the
+ * tenant of the tool call, and are forgotten once unused for the token TTL.
+ */
+export class PiiRedactor {
+  private vaults = new Map<string, TokenVault>();
+
+  /**
+   * Check whether tool results are redacted
+   * @returns Whether redaction is enabled
+   */
+  public isEnabled(): boolean {
+    return config.pii.enabled;
+  }
+
+  /**
+   * Redact the personal data in a tool result
+   * Values of allowed fields, and of fields outside the enabled types, are kept
+   * @param data The tool result (any JSON value)
+   * @returns The redacted tool result
+   */
+  public redact<T>(data: T): T {
+    return this.replace(data, (match, type) =>
+      config.pii.reversible ? this.tokenize(match, type) : mask(type)
+    );
+  }
+
+  /**
+   * Mask the personal data in a value without creating tokens, e.g. to log it
+   * @param data The value (any JSON value)
+   * @returns The masked value
+   */
+  public mask<T>(data: T): T {
+    return this.replace(data, (_match, type) => mask(type));
+  }
+
+  /**
+   * Seal the personal data in tool arguments, e.g. to store them until a call is approved
+   * Values are replaced by tokens numbered for these arguments only, and the values of the
+   * tokens are encrypted, so that any process with the same ENCRYPTION_KEY can open them
+   * @param args The tool arguments, with the real values
+   * @returns The sealed arguments
+   */
+  public seal(args: Record<string, any>): SealedArguments {
+    const tokens = new Map<string, string>();
+    const counters = new Map<PiiType, number>();
+
+    const sealed = this.replace(args, (match, type) => {
+      let token = tokens.get(match);
+      if (!token) {
+        const count = (counters.get(type) || 0) + 1;
+        counters.set(type, count);
+        token = `<${type.toUpperCase()}_${count}>`;
+        tokens.set(match, token);
+      }
+      return token;
+    });
+
+    if (tokens.size === 0) {
+      return { arguments: args };
+    }
+
+    const values = Object.fromEntries([...tokens].map(([value, token]) => [token, value]));
+    return { arguments: sealed, sealedValues: encrypt(JSON.stringify(values)) };
+  }
+
+  /**
+   * Open sealed tool arguments
+   * @param sealed The sealed arguments
+   * @returns The arguments with the real values
+   * @throws Error if the values can't be decrypted, e.g. because ENCRYPTION_KEY changed
+   */
+  public open(sealed: SealedArguments): Record<string, any> {
+    if (!sealed.sealedValues) {
+      return sealed.arguments;
+    }
+
+    const values: Record<string, string> = JSON.parse(decrypt(sealed.sealedValues));
+    return replaceTokens(sealed.arguments, (token) => values[token] ?? token);
+  }
+
+  /**
+   * Encrypt text with the key sealed values are encrypted with, e.g. to store Front data on disk
+   * @param text The text
+   * @returns The encrypted text
+   */
+  public encrypt(text: string): string {
+    return encrypt(text);
+  }
+
+  /**
+   * Decrypt text encrypted with encrypt
+   * @param data The encrypted text
+   * @returns The text
+   * @throws Error if the text was not encrypted with the current key
+   */
+  public decrypt(data: string): string {
+    return decrypt(data);
+  }
+
+  /**
+   * Mask the sealed values of sealed tool arguments, e.g. to show them to callers who may not
+   * see the real values. The tokens are masked too, since they are only valid in the sealed
+   * arguments.
+   * @param sealed The sealed arguments
+   * @returns The arguments with their personal data masked
+   */
+  public conceal(sealed: SealedArguments): Record<string, any> {
+    return this.mask(replaceTokens(sealed.arguments, (_token, type) => mask(type)));
+  }
+
+  /**
+   * Replace the personal data in a value
+   * Values of allowed fields, and of fields outside the enabled types, are kept
+   * @param data The value (any JSON value)
+   * @param replacement Returns the replacement of a detected value
+   * @returns The value with the replacements
+   */
+  private replace<T>(data: T, replacement: (match: string, type: PiiType) => string): T {
+    if (!this.isEnabled()) {
+      return data;
+    }
+
+    const types = parseList(config.pii.types);
+    const detectors = DETECTORS.filter((detector) => types.includes(detector.type));
+    const allowFields = parseList(config.pii.allowFields);
+
+    const replaceValue = (value: any): any => {
+      if (typeof value === 'string') {
+        return detectors.reduce(
+          (text, detector) =>
+            text.replace(detector.pattern, (match) =>
+              detector.confirm && !detector.confirm(match)
+                ? match
+                : replacement(match, detector.type)
+            ),
+          value
+        );
+      }
+      if (Array.isArray(value)) {
+        return value.map(replaceValue);
+      }
+      if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, field]) => [
+            key,
+            allowFields.includes(key) ? field : replaceValue(field),
+          ])
+        );
+      }
+      return value;
+    };
+
+    return replaceValue(data);
+  }
+
+  /**
+   * Replace the reversible tokens in tool arguments by the values they stand for
+   * @param args The tool arguments
+   * @returns The arguments with the real values
+   * @throws Error if an argument contains a token that is unknown in the current token scope
+   */
+  public restore<T>(args: T): T {
+    if (!this.isEnabled() || !config.pii.reversible) {
+      return args;
+    }
+
+    const vault = this.getVault(false);
+
+    const restoreValue = (value: any): any => {
+      if (typeof value === 'string') {
+        return value.replace(TOKEN, (token) => {
+          const original = vault?.values.get(token);
+          if (original === undefined) {
+            throw new Error(
+              `Unknown PII token ${token}; tokens are only valid in the session that received them`
+            );
+          }
+          return original;
+        });
+      }
+      if (Array.isArray(value)) {
+        return value.map(restoreValue);
+      }
+      if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, field]) => [key, restoreValue(field)])
+        );
+      }
+      return value;
+    };
+
+    return restoreValue(args);
+  }
+
+  /**
+   * Get the token of a value in the current token scope, creating it if needed
+   * @param value The value
+   * @param type The type of the value
+   * @returns The token
+   */
+  private tokenize(value: string, type: PiiType): string {
+    const vault = this.getVault(true) as TokenVault;
+
+    let token = vault.tokens.get(value);
+    if (!token) {
+      const count = (vault.counters.get(type) || 0) + 1;
+      vault.counters.set(type, count);
+      token = `<${type.toUpperCase()}_${count}>`;
+      vault.tokens.set(value, token);
+      vault.values.set(token, value);
+    }
+
+    return token;
+  }
+
+  /**
+   * Get the token vault of the current token scope
+   * Vaults unused for longer than the token TTL are forgotten first
+   * @param create Whether to create the vault if it doesn't exist
+   * @returns The vault, or undefined if it doesn't exist and isn't created
+   */
+  private getVault(create: boolean): TokenVault | undefined {
+    const now = Date.now();
+    for (const [scope, vault] of this.vaults) {
+      if (now - vault.lastUsed > config.pii.tokenTtlMs) {
+        this.vaults.delete(scope);
+      }
+    }
+
+    const context = requestContext.current();
+    const caller = context?.sessionId || context?.apiKeyId || 'stdio';
+    const scope = `${tenantManager.current()}:${caller}`;
+
+    let vault = this.vaults.get(scope);
+    if (!vault && create) {
+      vault = { values: new Map(), tokens: new Map(), counters: new Map(), lastUsed: now };
+      this.vaults.set(scope, vault);
+    }
+    if (vault) {
+      vault.lastUsed = now;
+    }
+
+    return vault;
+  }
+}
+
+// Export a singleton instance
+export const piiRedactor = new PiiRedactor();
+
+// Export default
+export default piiRedactor;
@@ -0,0 +1,62 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import logger from './logger.js';
+
+/**
+ * Receives the progress of a long-running tool call
+ * @param progress The work done so far, e.g. the number of items processed
+ * @param total The total amount of work, if known
+ * @param message A description of the progress
+ */
+export type ProgressListener = (
+  progress: number,
+  total?: number,
+  message?: string
+) => Promise<void> | void;
+
+/**
+ * Progress reporter
+ * Lets long-running tools report their progress to the client that called them, without knowing
+ * how the client is notified. The MCP transports run tool calls that asked for progress (with a
+ * progressToken) with a listener that sends MCP progress notifications; elsewhere, such as in
+ * the REST API, reports are ignored.
+ */
+export class ProgressReporter {
+  private storage = new AsyncLocalStorage<ProgressListener>();
+
+  /**
+   * Run a function with a progress listener
+   * Progress reported by the function, including asynchronously, is passed to the listener
+   * @param listener The progress listener
+   * @param fn The function
+   * @returns The result of the function
+   */
+  public run<T>(listener: ProgressListener, fn: () => T): T {
+    return this.storage.run(listener, fn);
+  }
+
+  /**
+   * Report the progress of the code that is running
+   * Failing to deliver the report is logged; it never fails the tool call
+   * @param progress The work done so far
+   * @param total The total amount of work, if known
+   * @param message A description of the progress
+   */
+  public async report(progress: number, total?: number, message?: string): Promise<void> {
+    const listener = this.storage.getStore();
+    if (!listener) {
+      return;
+    }
+
+    try {
+      await listener(progress, total, message);
+    } catch (error: any) {
+      logger.warn('Failed to report progress', { progress, total, error: error.message });
+    }
+  }
+}
+
+// Export a singleton instance
+export const progressReporter = new ProgressReporter();
+
+// Export default
+export default progressReporter;
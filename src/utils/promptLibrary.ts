@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { config } from '../config/index.js';
+import { PromptDefinition } from '../models/prompts.js';
+import { BUILTIN_PROMPTS } from '../handlers/prompts/builtin.js';
+import logger from './logger.js';
+
+// Extensions of prompt files; Markdown files have YAML front matter, the others are YAML or JSON
+const PROMPT_FILE_EXTENSIONS = ['.md', '.yaml', '.yml', '.json'];
+
+// Front matter at the start of a Markdown prompt file
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/;
+
+// Valid prompt and argument names
+const NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * A prompt file read from the prompts directory
+ */
+interface PromptFile {
+  modifiedAt: number;
+  prompt: PromptDefinition;
+}
+
+/**
+ * A prompt rendered with its arguments
+ */
+export interface RenderedPrompt {
+  description?: string;
+  text: string;
+}
+
+/**
+ * Prompt library
+ * Serves the built-in prompts and the prompts of the files in PROMPTS_DIR, so that teams can
+ * ship their own playbooks without changing the code. A prompt file replaces the built-in
+ * prompt with the same name. Files are read again when they change; when a changed file is
+ * invalid, the error is logged and the previous version of its prompt stays available.
+ */
+export class PromptLibrary {
+  private files = new Map<string, PromptFile>();
+
+  /**
+   * Create a new prompt library
+   * @param dir The directory of the prompt files
+   * @param builtins The built-in prompts
+   */
+  constructor(
+    private readonly dir: string = config.prompts.dir,
+    private readonly builtins: PromptDefinition[] = BUILTIN_PROMPTS
+  ) {}
+
+  /**
+   * Get the prompts, sorted by name
+   * @returns The built-in prompts and the prompts of the prompt files
+   */
+  public list(): PromptDefinition[] {
+    this.sync();
+
+    const prompts = new Map(this.builtins.map((prompt) => [prompt.name, prompt]));
+    const files = [...this.files.values()].sort((a, b) =>
+      a.prompt.file!.localeCompare(b.prompt.file!)
+    );
+    for (const { prompt } of files) {
+      if (prompts.get(prompt.name)?.file) {
+        logger.warn('Prompt is defined in more than one file, using the first', {
+          prompt: prompt.name,
+          file: prompt.file,
+        });
+        continue;
+      }
+      prompts.set(prompt.name, prompt);
+    }
+
+    return [...prompts.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Render a prompt with its arguments
+   * Placeholders such as {{inbox_id}} are replaced with the arguments; optional arguments that
+   * aren't given are replaced with their default, or an empty string
+   * @param name The name of the prompt
+   * @param args The arguments
+   * @returns The rendered prompt
+   * @throws Error if the prompt is unknown or a required argument is missing
+   */
+  public render(name: string, args: Record<string, string> = {}): RenderedPrompt {
+    const prompt = this.list().find((item) => item.name === name);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const values: Record<string, string> = {};
+    for (const argument of prompt.arguments || []) {
+      const value = args[argument.name];
+      if (value === undefined || value === '') {
+        if (argument.required) {
+          throw new Error(`Missing required argument of prompt ${name}: ${argument.name}`);
+        }
+        values[argument.name] = argument.default ?? '';
+      } else {
+        values[argument.name] = String(value);
+      }
+    }
+
+    const text = prompt.template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_placeholder, key) =>
+      Object.prototype.hasOwnProperty.call(values, key) ? values[key] : ''
+    );
+
+    return { description: prompt.description, text };
+  }
+
+  /**
+   * Read the prompt files that changed since they were last read
+   */
+  private sync(): void {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(this.dir);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error('Failed to read the prompts directory', {
+          dir: this.dir,
+          error: error.message,
+        });
+      }
+      this.files.clear();
+      return;
+    }
+
+    const present = new Set<string>();
+    for (const entry of entries) {
+      if (!PROMPT_FILE_EXTENSIONS.includes(path.extname(entry).toLowerCase())) {
+        continue;
+      }
+
+      const filePath = path.join(this.dir, entry);
+      let modifiedAt: number;
+      try {
+        const stat = fs.statSync(filePath);
+        if (!stat.isFile()) {
+          continue;
+        }
+        modifiedAt = stat.mtimeMs;
+      } catch {
+        continue;
+      }
+
+      present.add(filePath);
+      if (this.files.get(filePath)?.modifiedAt === modifiedAt) {
+        continue;
+      }
+
+      try {
+        const prompt = parsePromptFile(fs.readFileSync(filePath, 'utf8'), filePath);
+        this.files.set(filePath, { modifiedAt, prompt });
+        logger.info('Loaded prompt', { prompt: prompt.name, file: filePath });
+      } catch (error: any) {
+        logger.error('Invalid prompt file, keeping the previous version', {
+          file: filePath,
+          error: error.message,
+        });
+        // Don't report the same error on every request
+        const previous = this.files.get(filePath);
+        if (previous) {
+          previous.modifiedAt = modifiedAt;
+        }
+      }
+    }
+
+    for (const filePath of this.files.keys()) {
+      if (!present.has(filePath)) {
+        this.files.delete(filePath);
+      }
+    }
+  }
+}
+
+/**
+ * Parse and validate a prompt file
+ * Markdown files hold the name, description and arguments in YAML front matter, followed by
+ * the template. YAML and JSON files hold them as fields, with the template in a template field.
+ * The name defaults to the file name without its extension.
+ * @param content The content of the file
+ * @param filePath The path of the file
+ * @returns The prompt
+ * @throws Error if the file is invalid
+ */
+export function parsePromptFile(content: string, filePath: string): PromptDefinition {
+  let fields: any;
+  if (path.extname(filePath).toLowerCase() === '.md') {
+    const match = FRONT_MATTER.exec(content);
+    fields = match ? { ...(parseYaml(match[1]) || {}), template: match[2] } : { template: content };
+  } else {
+    fields = parseYaml(content);
+  }
+
+  if (!fields || typeof fields !== 'object') {
+    throw new Error('The prompt file must define a prompt');
+  }
+
+  const name = fields.name ?? path.basename(filePath, path.extname(filePath));
+  if (typeof name !== 'string' || !NAME.test(name)) {
+    throw new Error(`Invalid prompt name: ${name}. Use letters, digits, _ and - only.`);
+  }
+  if (typeof fields.template !== 'string' || !fields.template.trim()) {
+    throw new Error(`Prompt ${name} must have a template`);
+  }
+  if (fields.description !== undefined && typeof fields.description !== 'string') {
+    throw new Error(`The description of prompt ${name} must be a string`);
+  }
+
+  const args = fields.arguments ?? [];
+  if (!Array.isArray(args)) {
+    throw new Error(`The arguments of prompt ${name} must be a list`);
+  }
+  const names = new Set<string>();
+  for (const argument of args) {
+    if (typeof argument?.name !== 'string' || !NAME.test(argument.name)) {
+      throw new Error(`Prompt ${name} has an argument without a valid name`);
+    }
+    if (names.has(argument.name)) {
+      throw new Error(`Prompt ${name} has the argument ${argument.name} more than once`);
+    }
+    names.add(argument.name);
+  }
+
+  return {
+    name,
+    description: fields.description,
+    arguments: args.map((argument: any) => ({
+      name: argument.name,
+      description: argument.description,
+      required: Boolean(argument.required),
+      ...(argument.default !== undefined && { default: String(argument.default) }),
+    })),
+    template: fields.template.trim(),
+    file: filePath,
+  };
+}
+
+// Export a singleton instance
+export const promptLibrary = new PromptLibrary();
+
+// Export default
+export default promptLibrary;
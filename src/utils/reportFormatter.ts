@@ -0,0 +1,261 @@
+import { AnalyticsMetric, AnalyticsReport } from './analyticsReports.js';
+
+/**
+ * The formats reports are rendered in
+ * table is a plain text table; csv gives one CSV document per table
+ */
+export type ReportFormat = 'json' | 'table' | 'csv' | 'markdown';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'table', 'csv', 'markdown'];
+
+/**
+ * A cell of a report table, with its value for CSV and its text for people
+ */
+export interface ReportCell {
+  value: string | number | null;
+  text: string;
+}
+
+/**
+ * A table of a report
+ * Scalar metrics are gathered in a summary table; table metrics are tables of their own
+ */
+export interface ReportTable {
+  id: string;
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+// Names of the metrics and table columns of the presets
+const LABELS: Record<string, string> = {
+  avg_first_response_time: 'Average first response time',
+  avg_response_time: 'Average response time',
+  avg_resolution_time: 'Average resolution time',
+  num_archived_segments: 'Archived conversations',
+  new_segments_count: 'New conversations',
+  num_messages_received: 'Messages received',
+  num_messages_sent: 'Messages sent',
+  num_sla_goal_met: 'SLA met',
+  num_sla_goal_breached: 'SLA breached',
+  avg_sla_breach_time: 'Average SLA breach time',
+  tags_table: 'Volume by tag',
+  inboxes_table: 'Volume by inbox',
+  teammates_table: 'Volume by teammate',
+};
+
+/**
+ * Get the name of a metric or column, e.g. num_messages_sent gives Messages sent
+ * @param id The metric ID
+ * @returns The name
+ */
+function getLabel(id: string): string {
+  const label = LABELS[id] ?? id.replace(/^num_/, '').replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Format a duration, e.g. 7530 seconds gives 2h 5m
+ * @param seconds The duration, in seconds
+ * @returns The duration
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  if (total < 60) {
+    return `${total}s`;
+  }
+  if (total < 3600) {
+    return `${Math.floor(total / 60)}m ${total % 60}s`;
+  }
+  if (total < 86400) {
+    return `${Math.floor(total / 3600)}h ${Math.floor((total % 3600) / 60)}m`;
+  }
+  return `${Math.floor(total / 86400)}d ${Math.floor((total % 86400) / 3600)}h`;
+}
+
+/**
+ * Get the cell of a metric value
+ * Resources are shown by name; durations are in seconds in CSV
+ * @param metric The metric, or a cell of a table metric
+ * @returns The cell
+ */
+function toCell(metric: AnalyticsMetric): ReportCell {
+  const { type, value } = metric;
+  if (value === null || value === undefined) {
+    return { value: null, text: 'n/a' };
+  }
+
+  if (type === 'resource') {
+    const resource = metric.resource ?? (typeof value === 'object' ? value : {});
+    const name =
+      resource.name ||
+      [resource.first_name, resource.last_name].filter(Boolean).join(' ') ||
+      resource.email ||
+      resource.address ||
+      resource.id ||
+      String(value);
+    return { value: name, text: name };
+  }
+
+  if (typeof value !== 'number') {
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return { value: text, text };
+  }
+
+  const rounded = Math.round(value * 100) / 100;
+  switch (type) {
+    case 'duration':
+      return { value: rounded, text: formatDuration(value) };
+    case 'percentage':
+      return { value: rounded, text: `${Math.round(value * 10) / 10}%` };
+    default:
+      return { value: rounded, text: String(rounded) };
+  }
+}
+
+/**
+ * Escape a CSV field
+ * Text starting like a spreadsheet formula is prefixed with a quote, as names come from Front
+ * @param value The value
+ * @returns The field
+ */
+function toCsvField(value: string | number | null): string {
+  if (value === null) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escape the text of a Markdown table cell
+ * @param text The text
+ * @returns The escaped text
+ */
+function toMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Report formatter
+ * Renders analytics reports as tables for people: a plain text table, CSV for spreadsheets,
+ * or Markdown for documents such as the weekly support review. Values are shown in units
+ * people read, e.g. durations as 2h 5m; CSV keeps the raw values, e.g. durations in seconds.
+ */
+export class ReportFormatter {
+  /**
+   * Get the tables of a report
+   * @param report The report
+   * @returns The summary table of the scalar metrics, if any, then a table per table metric
+   */
+  public toTables(report: AnalyticsReport): ReportTable[] {
+    const tables: ReportTable[] = [];
+    const summary: ReportCell[][] = [];
+
+    for (const metric of report.metrics) {
+      if (metric.type !== 'table') {
+        summary.push([{ value: metric.id, text: getLabel(metric.id) }, toCell(metric)]);
+        continue;
+      }
+
+      const rows: AnalyticsMetric[][] = Array.isArray(metric.value) ? metric.value : [];
+      tables.push({
+        id: metric.id,
+        title: getLabel(metric.id),
+        columns: (rows[0] ?? []).map((cell) => getLabel(cell.id)),
+        rows: rows.map((row) => row.map(toCell)),
+      });
+    }
+
+    if (summary.length > 0) {
+      tables.unshift({
+        id: 'summary',
+        title: 'Summary',
+        columns: ['Metric', 'Value'],
+        rows: summary,
+      });
+    }
+    return tables;
+  }
+
+  /**
+   * Render a report as plain text tables with aligned columns
+   * @param report The report
+   * @returns The text
+   */
+  public toText(report: AnalyticsReport): string {
+    const sections = this.toTables(report).map((table) => {
+      const lines = [table.columns, ...table.rows.map((row) => row.map(({ text }) => text))];
+      const widths = table.columns.map((_, index) =>
+        Math.max(...lines.map((line) => (line[index] ?? '').length))
+      );
+      const format = (line: string[]) =>
+        widths.map((width, index) => (line[index] ?? '').padEnd(width)).join(' | ').trimEnd();
+
+      return [
+        table.title,
+        format(table.columns),
+        widths.map((width) => '-'.repeat(width)).join('-+-'),
+        ...lines.slice(1).map(format),
+      ].join('\n');
+    });
+
+    return [this.getHeading(report), ...sections].join('\n\n');
+  }
+
+  /**
+   * Render a report as Markdown, with a heading and a table per table of the report
+   * @param report The report
+   * @returns The Markdown
+   */
+  public toMarkdown(report: AnalyticsReport): string {
+    const sections = this.toTables(report).map((table) => {
+      const row = (cells: string[]) => `| ${cells.map(toMarkdownCell).join(' | ')} |`;
+      return [
+        `### ${table.title}`,
+        '',
+        row(table.columns),
+        row(table.columns.map(() => '---')),
+        ...table.rows.map((cells) => row(cells.map(({ text }) => text))),
+      ].join('\n');
+    });
+
+    return [`## ${this.getHeading(report)}`, ...sections].join('\n\n');
+  }
+
+  /**
+   * Render a report as CSV
+   * @param report The report
+   * @returns A CSV document per table, by table ID
+   */
+  public toCsv(report: AnalyticsReport): Record<string, string> {
+    const documents: Record<string, string> = {};
+    for (const table of this.toTables(report)) {
+      const lines = [
+        table.columns.map(toCsvField),
+        ...table.rows.map((row) => row.map(({ value }) => toCsvField(value))),
+      ];
+      documents[table.id] = lines.map((line) => line.join(',')).join('\r\n') + '\r\n';
+    }
+    return documents;
+  }
+
+  /**
+   * Get the heading of a report, e.g. Analytics report: Last week (2024-01-08 00:00 to ...)
+   * @param report The report
+   * @returns The heading
+   */
+  private getHeading(report: AnalyticsReport): string {
+    return report.range ? `Analytics report: ${report.range.label}` : 'Analytics report';
+  }
+}
+
+// Export a singleton instance
+export const reportFormatter = new ReportFormatter();
+
+// Export default
+export default reportFormatter;
@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+/**
+ * Context of the HTTP request the code that is running serves
+ */
+export interface RequestContextData {
+  /** The request ID, also sent in the X-Request-ID response header */
+  requestId: string;
+  /** The ID of the API key the request was made with */
+  apiKeyId?: string;
+  /** The MCP session the request belongs to */
+  sessionId?: string;
+}
+
+/**
+ * Get the ID of an API key
+ * The ID identifies the key in logs without revealing it
+ * @param apiKey The API key
+ * @returns The API key ID (key_ followed by the first 12 hex digits of the key's SHA-256 hash)
+ */
+export function getApiKeyId(apiKey: string): string {
+  return `key_${crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Request context
+ * Makes the context of an HTTP request available to the code serving it, including tool calls
+ * made through the MCP transport, so that logs and audit entries can be correlated with the
+ * request. Code that doesn't serve an HTTP request (e.g. the stdio server) has no context.
+ */
+export class RequestContext {
+  private storage = new AsyncLocalStorage<RequestContextData>();
+
+  /**
+   * Run a function for a request
+   * @param context The context of the request
+   * @param fn The function
+   * @returns The result of the function
+   */
+  public run<T>(context: RequestContextData, fn: () => T): T {
+    return this.storage.run(context, fn);
+  }
+
+  /**
+   * Get the context of the request the code that is running serves
+   * The context can be completed as the request is authenticated
+   * @returns The context, or undefined outside of a request
+   */
+  public current(): RequestContextData | undefined {
+    return this.storage.getStore();
+  }
+}
+
+// Export a singleton instance
+export const requestContext = new RequestContext();
+
+// Export default
+export default requestContext;
@@ -0,0 +1,709 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { config } from '../config/index.js';
+import { frontappClient } from '../clients/frontapp/index.js';
+import {
+  AutomationRule,
+  RuleAction,
+  RuleActionResult,
+  RuleActionType,
+  RuleConditions,
+  RuleRun,
+  RulesFile,
+} from '../models/rules.js';
+import { toolRegistry } from '../handlers/requests/registry.js';
+import { approvalQueue } from './approvalQueue.js';
+import { nameResolver } from './nameResolver.js';
+import { transcriptUtil } from './transcript.js';
+import { tenantManager } from './tenants.js';
+import { getWebhookEventId } from './webhookEventStore.js';
+import logger from './logger.js';
+
+// Action types and the fields they require
+const ACTION_FIELDS: Record<RuleActionType, string[]> = {
+  add_tag: ['tag'],
+  remove_tag: ['tag'],
+  assign: ['teammate'],
+  comment: [],
+  reply: [],
+  archive: [],
+};
+
+// Tools that make the same change as the comment and reply actions, for approval mode
+const ACTION_TOOLS: Partial<Record<RuleActionType, string>> = {
+  comment: 'add_comment',
+  reply: 'reply_to_conversation',
+};
+
+// Number of runs kept in memory for each rule
+const MAX_RUNS_PER_RULE = 100;
+
+/**
+ * Options for evaluating the rules
+ */
+export interface RuleEvaluationOptions {
+  /** Log the actions instead of running them, whatever the rules file says */
+  dryRun?: boolean;
+  /** Only evaluate the rule with this name */
+  rule?: string;
+}
+
+/**
+ * Data about a webhook event that rules are matched against
+ * Each piece of data is fetched from Frontapp the first time a rule needs it
+ */
+class RuleContext {
+  private cache = new Map<string, Promise<any>>();
+
+  /**
+   * Create a new rule context
+   * @param event The webhook event
+   */
+  constructor(public readonly event: any) {}
+
+  /**
+   * Get the ID of the conversation the event is about, if any
+   */
+  get conversationId(): string | undefined {
+    const payload = this.event.payload || {};
+    if (payload.conversation_id) {
+      return payload.conversation_id;
+    }
+    return String(this.event.type).startsWith('conversation.') ? payload.id : undefined;
+  }
+
+  /**
+   * Fetch a piece of data once
+   * @param key The cache key
+   * @param fetch Fetches the data
+   * @returns The data
+   */
+  private once<T>(key: string, fetch: () => Promise<T>): Promise<T> {
+    if (!this.cache.has(key)) {
+      this.cache.set(key, fetch());
+    }
+    return this.cache.get(key);
+  }
+
+  /**
+   * Get the conversation the event is about
+   * @returns The conversation, or undefined for events that are not about a conversation
+   */
+  conversation(): Promise<any> {
+    return this.once('conversation', async () => {
+      if (!this.conversationId) {
+        return undefined;
+      }
+      return (await frontappClient.getConversation(this.conversationId)).data;
+    });
+  }
+
+  /**
+   * Get the message of a message event, or else the last message of the conversation
+   * @returns The message, if any
+   */
+  message(): Promise<any> {
+    return this.once('message', async () => {
+      const conversation = await this.conversation();
+      if (!conversation) {
+        return undefined;
+      }
+      if (!String(this.event.type).startsWith('message.')) {
+        return conversation.last_message;
+      }
+
+      const path = `/conversations/${conversation.id}/messages`;
+      for await (const page of frontappClient.paginate(path)) {
+        const message = page._results.find((message: any) => message.id === this.event.payload.id);
+        if (message) {
+          return message;
+        }
+      }
+      return undefined;
+    });
+  }
+
+  /**
+   * Get the inboxes of the conversation
+   * @returns The inboxes
+   */
+  inboxes(): Promise<any[]> {
+    return this.once('inboxes', async () => {
+      if (!this.conversationId) {
+        return [];
+      }
+      return (await frontappClient.get(`/conversations/${this.conversationId}/inboxes`)).data
+        ._results;
+    });
+  }
+
+  /**
+   * Get the contact of a contact event
+   * @returns The contact, or undefined for events that are not about a contact
+   */
+  contact(): Promise<any> {
+    return this.once('contact', async () => {
+      if (!String(this.event.type).startsWith('contact.')) {
+        return undefined;
+      }
+      return (await frontappClient.getContact(this.event.payload.id)).data;
+    });
+  }
+
+  /**
+   * Get the sender of the message
+   * @returns The name and handle of the sender, if any
+   */
+  async sender(): Promise<{ name?: string; handle?: string } | undefined> {
+    const message = await this.message();
+    const from = message?.recipients?.find((recipient: any) => recipient.role === 'from');
+    if (from) {
+      return { name: from.name, handle: from.handle };
+    }
+    if (message?.author) {
+      return { name: transcriptUtil.formatAuthor(message.author), handle: message.author.email };
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Rules engine
+ * Runs declarative automation rules on webhook events. Rules are read from a YAML or JSON file,
+ * which is read again when it changes. Each rule matches webhook events on their type and
+ * conditions on the conversation, and runs actions on the conversation through the Frontapp
+ * client. Rules in dry-run mode log their actions instead of running them. In approval mode,
+ * comments and replies wait for approval like the tool calls that make the same change.
+ * The changes made by actions come back as webhook events, so a rule that ran its actions on a
+ * conversation doesn't run on it again during a cooldown; otherwise it could trigger itself
+ * forever, e.g. by replying to its own replies.
+ */
+export class RulesEngine {
+  private rulesFile: RulesFile = { rules: [] };
+  private modifiedAt = -1;
+  private runs = new Map<string, RuleRun[]>();
+  /** When each rule last ran its actions on a conversation, by tenant, rule and conversation */
+  private lastApplied = new Map<string, number>();
+
+  /**
+   * Create a new rules engine
+   * @param filePath The path of the YAML or JSON rules file
+   * @param dryRun Log the actions of all rules instead of running them
+   * @param cooldownMs Time after a rule ran its actions on a conversation during which it
+   * doesn't run on that conversation again
+   */
+  constructor(
+    private readonly filePath: string = config.rules.file,
+    private readonly dryRun: boolean = config.rules.dryRun,
+    private readonly cooldownMs: number = config.rules.cooldownMs
+  ) {}
+
+  /**
+   * Read the rules file if it changed since it was last read
+   * An invalid file is logged and the previous rules are kept
+   */
+  private sync(): void {
+    const modifiedAt = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).mtimeMs : 0;
+    if (modifiedAt === this.modifiedAt) {
+      return;
+    }
+    this.modifiedAt = modifiedAt;
+
+    if (!modifiedAt) {
+      this.rulesFile = { rules: [] };
+      return;
+    }
+
+    try {
+      const content = fs.readFileSync(this.filePath, 'utf8');
+      const parsed =
+        path.extname(this.filePath) === '.json' ? JSON.parse(content) : parseYaml(content);
+      this.rulesFile = validateRulesFile(parsed);
+      logger.info('Loaded automation rules', {
+        file: this.filePath,
+        rules: this.rulesFile.rules.length,
+      });
+    } catch (error: any) {
+      logger.error('Invalid automation rules file, keeping the previous rules', {
+        file: this.filePath,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Get the automation rules
+   * @returns The rules
+   */
+  public getRules(): AutomationRule[] {
+    this.sync();
+    return this.rulesFile.rules;
+  }
+
+  /**
+   * Check whether a rule runs in dry-run mode
+   * @param rule The rule
+   * @returns Whether the actions of the rule are only logged
+   */
+  public isDryRun(rule: AutomationRule): boolean {
+    return this.dryRun || !!this.rulesFile.dry_run || !!rule.dry_run;
+  }
+
+  /**
+   * Get the most recent runs of the rules for the current tenant
+   * @param rule Only return the runs of the rule with this name
+   * @param limit Maximum number of runs to return
+   * @returns The runs, most recent first
+   */
+  public getRuns(rule?: string, limit = 50): RuleRun[] {
+    const tenant = tenantManager.current();
+    const runs = rule ? this.runs.get(rule) || [] : [...this.runs.values()].flat();
+    return runs
+      .filter((run) => run.tenant === tenant)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, limit);
+  }
+
+  /**
+   * Run the rules for a webhook event of the current tenant
+   * Rules are evaluated in the order of the rules file. Failed actions are logged and recorded
+   * in the run of the rule; they don't stop the other actions and rules.
+   * @param event The webhook event
+   * @param options Evaluation options
+   * @returns The runs of the rules that were evaluated
+   */
+  public async evaluate(event: any, options: RuleEvaluationOptions = {}): Promise<RuleRun[]> {
+    const tenant = tenantManager.current();
+    const rules = this.getRules().filter(
+      (rule) =>
+        rule.enabled !== false &&
+        rule.events.includes(event.type) &&
+        (!rule.tenants || rule.tenants.includes(tenant)) &&
+        (!options.rule || rule.name === options.rule)
+    );
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const context = new RuleContext(event);
+    const runs: RuleRun[] = [];
+
+    for (const rule of rules) {
+      const run = await this.runRule(rule, context, options.dryRun || this.isDryRun(rule));
+      runs.push(run);
+
+      if (!options.dryRun) {
+        this.recordRun(run);
+      }
+      if (run.matched && rule.stop) {
+        break;
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Match a rule against a webhook event and run its actions
+   * @param rule The rule
+   * @param context The webhook event data
+   * @param dryRun Log the actions instead of running them
+   * @returns The run of the rule
+   */
+  private async runRule(
+    rule: AutomationRule,
+    context: RuleContext,
+    dryRun: boolean
+  ): Promise<RuleRun> {
+    const ruleLogger = logger.child({ rule: rule.name });
+    const run: RuleRun = {
+      rule: rule.name,
+      tenant: tenantManager.current(),
+      eventId: getWebhookEventId(context.event),
+      eventType: context.event.type,
+      conversationId: context.conversationId,
+      matched: false,
+      dryRun,
+      actions: [],
+      timestamp: new Date().toISOString(),
+    };
+
+    const cooldownKey = `${run.tenant}:${rule.name}:${run.conversationId}`;
+    if (!dryRun && run.conversationId && this.isCoolingDown(cooldownKey)) {
+      ruleLogger.info('[Rules] Rule ran on the conversation recently, skipping it', {
+        eventId: run.eventId,
+        eventType: run.eventType,
+        conversationId: run.conversationId,
+      });
+      run.reason = 'cooldown';
+      return run;
+    }
+
+    try {
+      run.reason = await this.match(rule.conditions || {}, context);
+    } catch (error: any) {
+      run.reason = `Error evaluating conditions: ${error.message}`;
+    }
+
+    if (run.reason) {
+      ruleLogger.debug('[Rules] Rule did not match', { eventId: run.eventId, reason: run.reason });
+      return run;
+    }
+
+    run.matched = true;
+    ruleLogger.info('[Rules] Rule matched', {
+      eventId: run.eventId,
+      eventType: run.eventType,
+      conversationId: run.conversationId,
+      dryRun,
+    });
+
+    if (!dryRun && run.conversationId) {
+      this.startCooldown(cooldownKey);
+    }
+
+    for (const action of rule.actions) {
+      const result = await this.runAction(action, context, dryRun);
+      run.actions.push(result);
+
+      if (result.status === 'failed') {
+        ruleLogger.error('[Rules] Action failed', {
+          action: action.type,
+          conversationId: run.conversationId,
+          error: result.error,
+        });
+      } else if (result.status === 'pending_approval') {
+        ruleLogger.info('[Rules] Action pending approval', {
+          action: action.type,
+          conversationId: run.conversationId,
+          actionId: result.actionId,
+        });
+      } else {
+        ruleLogger.info(`[Rules] ${dryRun ? 'Dry run: would run' : 'Ran'} action`, {
+          action: action.type,
+          conversationId: run.conversationId,
+          detail: result.detail,
+        });
+      }
+    }
+
+    return run;
+  }
+
+  /**
+   * Match the conditions of a rule against a webhook event
+   * @param conditions The conditions
+   * @param context The webhook event data
+   * @returns The condition that did not match, or undefined if all conditions match
+   */
+  private async match(
+    conditions: RuleConditions,
+    context: RuleContext
+  ): Promise<string | undefined> {
+    if (conditions.inboxes) {
+      const inboxes = await context.inboxes();
+      if (!inboxes.some((inbox) => matchesAny(conditions.inboxes, [inbox.id, inbox.name]))) {
+        return 'inboxes';
+      }
+    }
+
+    if (conditions.tags || conditions.exclude_tags) {
+      const tags: any[] = (await context.conversation())?.tags || [];
+      const hasTag = (tag: string) => tags.some((t) => matchesAny([tag], [t.id, t.name]));
+
+      if (conditions.tags && !conditions.tags.every(hasTag)) {
+        return 'tags';
+      }
+      if (conditions.exclude_tags && conditions.exclude_tags.some(hasTag)) {
+        return 'exclude_tags';
+      }
+    }
+
+    if (conditions.sender_domains) {
+      const handle = (await context.sender())?.handle || '';
+      const domain = handle.includes('@') ? handle.split('@').pop() : '';
+      if (!matchesAny(conditions.sender_domains, [domain])) {
+        return 'sender_domains';
+      }
+    }
+
+    if (conditions.subject) {
+      const subject = (await context.conversation())?.subject || '';
+      if (!new RegExp(conditions.subject, 'i').test(subject)) {
+        return 'subject';
+      }
+    }
+
+    if (conditions.body) {
+      const message = await context.message();
+      const text = message?.text || transcriptUtil.htmlToText(message?.body || '');
+      if (!new RegExp(conditions.body, 'i').test(text)) {
+        return 'body';
+      }
+    }
+
+    if (conditions.custom_fields) {
+      const record = (await context.conversation()) || (await context.contact());
+      const customFields = record?.custom_fields || {};
+      for (const [name, value] of Object.entries(conditions.custom_fields)) {
+        const actual = customFields[name];
+        if (!matchesAny([String(value)], [actual == null ? undefined : String(actual)])) {
+          return `custom_fields.${name}`;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Run an action of a rule
+   * @param action The action
+   * @param context The webhook event data
+   * @param dryRun Describe the action instead of running it
+   * @returns The outcome of the action
+   */
+  private async runAction(
+    action: RuleAction,
+    context: RuleContext,
+    dryRun: boolean
+  ): Promise<RuleActionResult> {
+    const conversationId = context.conversationId;
+    const status = dryRun ? 'dry_run' : 'applied';
+
+    try {
+      if (!conversationId) {
+        throw new Error(`The ${action.type} action requires a conversation event`);
+      }
+
+      switch (action.type) {
+        case 'add_tag':
+        case 'remove_tag': {
+          const tagId = await nameResolver.resolve('tags', action.tag);
+          if (!dryRun) {
+            if (action.type === 'add_tag') {
+              await frontappClient.applyTag(conversationId, tagId);
+            } else {
+              await frontappClient.removeTag(conversationId, tagId);
+            }
+          }
+          const verb = action.type === 'add_tag' ? 'Tag' : 'Untag';
+          return { type: action.type, status, detail: `${verb} ${conversationId} with ${tagId}` };
+        }
+
+        case 'assign': {
+          const teammateId = await nameResolver.resolve('teammates', action.teammate);
+          if (!dryRun) {
+            await frontappClient.assignConversation(conversationId, teammateId);
+          }
+          return { type: action.type, status, detail: `Assign ${conversationId} to ${teammateId}` };
+        }
+
+        case 'comment':
+        case 'reply': {
+          const body = await this.renderBody(action, context);
+          const authorId = action.author_id || this.rulesFile.author_id;
+          const noun = action.type === 'comment' ? 'Comment on' : 'Reply to';
+          const detail = `${noun} ${conversationId}: ${body}`;
+
+          const tool = toolRegistry.get(ACTION_TOOLS[action.type]!);
+          if (!dryRun && tool && approvalQueue.requiresApproval(tool)) {
+            const args: Record<string, any> = { conversation_id: conversationId, body };
+            if (action.type === 'reply') {
+              args.type = 'reply';
+            }
+            if (authorId) {
+              args.author_id = authorId;
+            }
+            if (action.type === 'reply' && action.channel_id) {
+              args.channel_id = action.channel_id;
+            }
+            const pending = approvalQueue.enqueue(
+              tool.definition.name,
+              args,
+              tenantManager.current()
+            );
+            return { type: action.type, status: 'pending_approval', detail, actionId: pending.id };
+          }
+
+          if (!dryRun) {
+            if (action.type === 'comment') {
+              await frontappClient.addComment(conversationId, { author_id: authorId, body });
+            } else {
+              await frontappClient.sendMessage(conversationId, {
+                body,
+                author_id: authorId,
+                channel_id: action.channel_id,
+              });
+            }
+          }
+          return { type: action.type, status, detail };
+        }
+
+        case 'archive':
+          if (!dryRun) {
+            await frontappClient.archiveConversation(conversationId);
+          }
+          return { type: action.type, status, detail: `Archive ${conversationId}` };
+      }
+    } catch (error: any) {
+      return {
+        type: action.type,
+        status: 'failed',
+        detail: `${action.type} ${conversationId || ''}`.trim(),
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Render the body of a comment or reply action
+   * Placeholders such as {{conversation.subject}} or {{sender.name}} are replaced with data
+   * about the webhook event; unknown placeholders are replaced with an empty string.
+   * @param action The action
+   * @param context The webhook event data
+   * @returns The body
+   */
+  private async renderBody(action: RuleAction, context: RuleContext): Promise<string> {
+    const template = action.template ? this.rulesFile.templates?.[action.template] : action.body;
+    if (template === undefined) {
+      throw new Error(`Unknown template: ${action.template}`);
+    }
+
+    const data: Record<string, any> = {
+      event: context.event,
+      conversation: await context.conversation(),
+      message: await context.message(),
+      sender: await context.sender(),
+    };
+
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_placeholder, key: string) => {
+      const value = key.split('.').reduce((object, part) => object?.[part], data);
+      return value == null ? '' : String(value);
+    });
+  }
+
+  /**
+   * Check whether a rule ran its actions on a conversation less than the cooldown ago
+   * @param key The tenant, rule and conversation
+   * @returns Whether the rule must not run on the conversation
+   */
+  private isCoolingDown(key: string): boolean {
+    const appliedAt = this.lastApplied.get(key);
+    return appliedAt !== undefined && Date.now() - appliedAt < this.cooldownMs;
+  }
+
+  /**
+   * Start the cooldown of a rule on a conversation, forgetting cooldowns that have passed
+   * @param key The tenant, rule and conversation
+   */
+  private startCooldown(key: string): void {
+    const now = Date.now();
+    for (const [other, appliedAt] of this.lastApplied) {
+      if (now - appliedAt >= this.cooldownMs) {
+        this.lastApplied.delete(other);
+      }
+    }
+    this.lastApplied.set(key, now);
+  }
+
+  /**
+   * Record the run of a rule
+   * @param run The run
+   */
+  private recordRun(run: RuleRun): void {
+    const runs = this.runs.get(run.rule) || [];
+    runs.push(run);
+    this.runs.set(run.rule, runs.slice(-MAX_RUNS_PER_RULE));
+  }
+}
+
+/**
+ * Check whether any of the expected values equals any of the actual values, ignoring case
+ * @param expected The expected values
+ * @param actual The actual values
+ * @returns Whether a value matches
+ */
+function matchesAny(expected: string[], actual: Array<string | undefined>): boolean {
+  const values = actual.filter((value) => value != null).map((value) => value.toLowerCase());
+  return expected.some((value) => values.includes(String(value).toLowerCase()));
+}
+
+/**
+ * Validate the content of a rules file
+ * @param content The parsed rules file
+ * @returns The rules file
+ * @throws Error if the rules file is invalid
+ */
+export function validateRulesFile(content: any): RulesFile {
+  if (!content || !Array.isArray(content.rules)) {
+    throw new Error('The rules file must have a list of rules');
+  }
+
+  const names = new Set<string>();
+  content.rules.forEach((rule: any, index: number) => {
+    const label = rule?.name ? `Rule "${rule.name}"` : `Rule ${index + 1}`;
+
+    if (!rule?.name || typeof rule.name !== 'string') {
+      throw new Error(`${label} must have a name`);
+    }
+    if (names.has(rule.name)) {
+      throw new Error(`${label} is defined more than once`);
+    }
+    names.add(rule.name);
+
+    if (!Array.isArray(rule.events) || rule.events.length === 0) {
+      throw new Error(`${label} must list the webhook events it runs on`);
+    }
+    if (rule.tenants !== undefined && !Array.isArray(rule.tenants)) {
+      throw new Error(`${label} must list the tenants it runs for`);
+    }
+    if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+      throw new Error(`${label} must have at least one action`);
+    }
+
+    for (const pattern of [rule.conditions?.subject, rule.conditions?.body]) {
+      if (pattern !== undefined) {
+        try {
+          new RegExp(pattern);
+        } catch (error: any) {
+          throw new Error(`${label} has an invalid regular expression: ${error.message}`);
+        }
+      }
+    }
+
+    rule.actions.forEach((action: any) => {
+      const fields = ACTION_FIELDS[action?.type as RuleActionType];
+      if (!fields) {
+        throw new Error(`${label} has an unknown action: ${action?.type}`);
+      }
+
+      const missing = fields.find((field) => !action[field]);
+      if (missing) {
+        throw new Error(`${label} has a ${action.type} action without ${missing}`);
+      }
+
+      if (action.type === 'comment' || action.type === 'reply') {
+        if (!action.body && !action.template) {
+          throw new Error(`${label} has a ${action.type} action without body or template`);
+        }
+        if (action.template && content.templates?.[action.template] === undefined) {
+          throw new Error(`${label} uses an unknown template: ${action.template}`);
+        }
+      }
+
+      if (action.type === 'comment' && !action.author_id && !content.author_id) {
+        throw new Error(`${label} has a comment action without author_id`);
+      }
+    });
+  });
+
+  return content as RulesFile;
+}
+
+// Export a singleton instance
+export const rulesEngine = new RulesEngine();
+
+// Export default
+export default rulesEngine;
@@ -0,0 +1,226 @@
+import { DirectoryType, nameResolver } from './nameResolver.js';
+
+/**
+ * Typed filters of a conversation search, as given in tool arguments
+ * All filters must match; a filter with several values adds one term per value
+ */
+export interface SearchFilters {
+  /** Words the subject or messages must contain */
+  text?: string;
+  /** Statuses, e.g. open or unassigned */
+  status?: string | string[];
+  /** Inbox IDs or names */
+  inbox?: string | string[];
+  /** Tag IDs, names or parent/child paths */
+  tag?: string | string[];
+  /** Teammate ID, email, username or full name */
+  assignee?: string;
+  /** Handle of the sender, e.g. an email address */
+  from?: string;
+  /** Handle of a recipient, e.g. an email address */
+  to?: string;
+  /** ISO 8601 date or Unix timestamp the conversations were created after */
+  after?: string | number;
+  /** ISO 8601 date or Unix timestamp the conversations were created before */
+  before?: string | number;
+  /** Values of conversation custom fields, by field name */
+  custom_fields?: Record<string, string | number | boolean>;
+}
+
+/**
+ * A name given in the filters and the ID it was resolved to
+ */
+export interface ResolvedName {
+  filter: 'inbox' | 'tag' | 'assignee';
+  value: string;
+  id: string;
+}
+
+/**
+ * A search query compiled from filters
+ */
+export interface BuiltSearchQuery {
+  query: string;
+  resolved: ResolvedName[];
+}
+
+// Statuses of the is: filter
+export const SEARCH_STATUSES = [
+  'open',
+  'archived',
+  'snoozed',
+  'trashed',
+  'assigned',
+  'unassigned',
+  'unreplied',
+  'waiting',
+];
+
+// The filters compiled by the builder
+const FILTER_NAMES = [
+  'text',
+  'status',
+  'inbox',
+  'tag',
+  'assignee',
+  'from',
+  'to',
+  'after',
+  'before',
+  'custom_fields',
+];
+
+// The directories the names of the inbox, tag and assignee filters are resolved with
+const NAME_FILTERS: Record<ResolvedName['filter'], DirectoryType> = {
+  inbox: 'inboxes',
+  tag: 'tags',
+  assignee: 'teammates',
+};
+
+/**
+ * Search query builder
+ * Compiles typed filters into Front search syntax, so that models don't have to write the
+ * syntax themselves. Inbox, tag and teammate names are resolved to IDs with the name resolver;
+ * names that match nothing, or more than one item, are reported as errors.
+ */
+export class SearchQueryBuilder {
+  /**
+   * Compile filters into a search query
+   * @param filters The filters
+   * @returns The query and the names resolved to IDs
+   * @throws Error if a filter is invalid or a name can't be resolved
+   */
+  public async build(filters: SearchFilters): Promise<BuiltSearchQuery> {
+    if (!filters || typeof filters !== 'object' || Array.isArray(filters)) {
+      throw new Error('filters must be an object');
+    }
+
+    const unknown = Object.keys(filters).filter((name) => !FILTER_NAMES.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown search filters: ${unknown.join(', ')}. Use ${FILTER_NAMES.join(', ')}.`
+      );
+    }
+
+    const terms: string[] = [];
+    const resolved: ResolvedName[] = [];
+
+    if (filters.text !== undefined) {
+      const words = String(filters.text).trim().split(/\s+/).filter(Boolean);
+      terms.push(...words.map((word) => quote(word, 'text')));
+    }
+
+    for (const status of toList(filters.status)) {
+      if (!SEARCH_STATUSES.includes(status)) {
+        throw new Error(`Invalid status: ${status}. Use ${SEARCH_STATUSES.join(', ')}.`);
+      }
+      terms.push(`is:${status}`);
+    }
+
+    for (const filter of ['inbox', 'tag', 'assignee'] as const) {
+      for (const value of toList(filters[filter])) {
+        if (!value) {
+          throw new Error(`The ${filter} filter can't be empty`);
+        }
+        const id = await nameResolver.resolve(NAME_FILTERS[filter], value);
+        terms.push(`${filter}:${id}`);
+        if (id !== value) {
+          resolved.push({ filter, value, id });
+        }
+      }
+    }
+
+    for (const filter of ['from', 'to'] as const) {
+      if (filters[filter] !== undefined) {
+        terms.push(`${filter}:${quote(String(filters[filter]).trim(), filter)}`);
+      }
+    }
+
+    const after = filters.after !== undefined ? toTimestamp(filters.after, 'after') : undefined;
+    const before = filters.before !== undefined ? toTimestamp(filters.before, 'before') : undefined;
+    if (after !== undefined && before !== undefined && after >= before) {
+      throw new Error('The after date must be earlier than the before date');
+    }
+    if (after !== undefined) {
+      terms.push(`after:${after}`);
+    }
+    if (before !== undefined) {
+      terms.push(`before:${before}`);
+    }
+
+    if (filters.custom_fields !== undefined) {
+      if (typeof filters.custom_fields !== 'object' || Array.isArray(filters.custom_fields)) {
+        throw new Error('custom_fields must be an object of field names and values');
+      }
+      for (const [name, value] of Object.entries(filters.custom_fields)) {
+        if (!name.trim() || name.includes('=')) {
+          throw new Error(`Invalid custom field name: "${name}"`);
+        }
+        terms.push(`custom_field:${quote(`${name}=${value}`, 'custom_fields', true)}`);
+      }
+    }
+
+    if (terms.length === 0) {
+      throw new Error('Give at least one search filter');
+    }
+
+    return { query: terms.join(' '), resolved };
+  }
+}
+
+/**
+ * Get the values of a filter that takes one value or a list
+ * @param value The value or values of the filter
+ * @returns The values
+ */
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map((item) => String(item).trim());
+}
+
+/**
+ * Quote a value of a search term when it holds spaces or a colon
+ * @param value The value
+ * @param filter The filter of the value, for errors
+ * @param always Whether to quote the value even without spaces or colons
+ * @returns The value, quoted if needed
+ * @throws Error if the value is empty or holds a double quote, which can't be escaped
+ */
+function quote(value: string, filter: string, always: boolean = false): string {
+  if (!value) {
+    throw new Error(`The ${filter} filter can't be empty`);
+  }
+  if (value.includes('"')) {
+    throw new Error(`The ${filter} filter can't contain double quotes: ${value}`);
+  }
+  return always || /[\s:]/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Convert a date filter to a Unix timestamp in seconds
+ * @param value An ISO 8601 date or a Unix timestamp in seconds
+ * @param filter The filter of the value, for errors
+ * @returns The timestamp
+ * @throws Error if the value isn't a date
+ */
+function toTimestamp(value: string | number, filter: string): number {
+  if (typeof value === 'number' || /^\d+$/.test(String(value).trim())) {
+    return Number(value);
+  }
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(
+      `Invalid ${filter} date: ${value}. Use an ISO 8601 date such as 2024-01-31 or a Unix timestamp.`
+    );
+  }
+  return Math.floor(time / 1000);
+}
+
+// Export a singleton instance
+export const searchQueryBuilder = new SearchQueryBuilder();
+
+// Export default
+export default searchQueryBuilder;
@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../config/index.js';
+import logger from './logger.js';
+import { Role } from './accessControl.js';
+
+// Name of the tenant configured by the environment (FRONTAPP_API_KEY, WEBHOOK_SECRET)
+export const DEFAULT_TENANT = 'default';
+
+// Prefix of the credential keys that hold the tenants
+const CREDENTIAL_PREFIX = 'tenant:';
+
+// Allowed tenant names, safe to use in URLs and cache keys
+const TENANT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+/**
+ * An API gateway key bound to a tenant
+ */
+export interface TenantApiKey {
+  key: string;
+  /** The role of callers using the key */
+  role: Role;
+}
+
+/**
+ * A Front company served by this server
+ */
+export interface Tenant {
+  /** The name of the tenant, used in tool arguments and webhook URLs */
+  name: string;
+  /** The Frontapp API token */
+  apiKey: string;
+  /** The secret Frontapp signs the webhooks of the tenant with */
+  webhookSecret: string;
+  /** The prefix of the cache keys of the tenant */
+  cacheNamespace: string;
+  /** API gateway keys that are bound to the tenant */
+  apiKeys: TenantApiKey[];
+}
+
+/**
+ * The tenant of the code that is running
+ */
+interface TenantContext {
+  tenant: string;
+  /** Whether the tenant was set by the caller's credentials and can't be changed by arguments */
+  bound: boolean;
+}
+
+/**
+ * Tenant manager
+ * Holds the Front companies (tenants) served by this server and the tenant of the code that is
+ * running. The default tenant is configured by the environment; named tenants are stored with
+ * the credential manager, so their tokens are encrypted at rest.
+ */
+export class TenantManager {
+  private tenants = new Map<string, Tenant>();
+  private context = new AsyncLocalStorage<TenantContext>();
+
+  /**
+   * Get the default tenant
+   * It is built from the configuration each time, so configuration changes apply to it
+   * @returns The default tenant
+   */
+  private getDefault(): Tenant {
+    return {
+      name: DEFAULT_TENANT,
+      apiKey: config.frontapp.apiKey,
+      webhookSecret: config.webhook.secret,
+      cacheNamespace: 'frontapp',
+      apiKeys: [],
+    };
+  }
+
+  /**
+   * Load the named tenants from the credential manager
+   * Nothing is loaded when no credentials have been stored
+   */
+  public async load(): Promise<void> {
+    const credentialsPath = path.join(config.security.credentialsDir, 'credentials.enc');
+    if (!fs.existsSync(credentialsPath)) {
+      return;
+    }
+
+    try {
+      // Imported on demand: the credential manager requires an encryption key
+      const { credentialManager } = await import('./credentialManager.js');
+
+      const keys = await credentialManager.listCredentialKeys();
+      for (const key of keys.filter((key) => key.startsWith(CREDENTIAL_PREFIX))) {
+        const stored = JSON.parse(await credentialManager.getCredential(key));
+        this.register({ ...stored, name: key.slice(CREDENTIAL_PREFIX.length) });
+      }
+
+      logger.info('Loaded tenants', { tenants: this.list() });
+    } catch (error: any) {
+      logger.error('Failed to load tenants', { error: error.message });
+    }
+  }
+
+  /**
+   * Add or replace a named tenant in memory
+   * @param tenant The tenant
+   * @throws Error if the tenant is the default tenant or its name is invalid
+   */
+  public register(tenant: Partial<Tenant> & Pick<Tenant, 'name' | 'apiKey'>): void {
+    if (tenant.name === DEFAULT_TENANT) {
+      throw new Error('The default tenant is configured by the environment');
+    }
+    if (!TENANT_NAME_PATTERN.test(tenant.name)) {
+      throw new Error(
+        `Invalid tenant name: ${tenant.name} (use lowercase letters, digits, - and _)`
+      );
+    }
+
+    this.tenants.set(tenant.name, {
+      webhookSecret: '',
+      cacheNamespace: `frontapp:${tenant.name}`,
+      apiKeys: [],
+      ...tenant,
+    });
+  }
+
+  /**
+   * Store a named tenant with the credential manager
+   * The tenant is available to running servers after they restart
+   * @param tenant The tenant
+   * @throws Error if the tenant is the default tenant or its name is invalid
+   */
+  public async save(tenant: Partial<Tenant> & Pick<Tenant, 'name' | 'apiKey'>): Promise<void> {
+    this.register(tenant);
+
+    const { credentialManager } = await import('./credentialManager.js');
+    const { name, ...stored } = this.get(tenant.name);
+    await credentialManager.setCredential(`${CREDENTIAL_PREFIX}${name}`, JSON.stringify(stored));
+  }
+
+  /**
+   * Remove a named tenant from the credential manager
+   * @param name The tenant name
+   * @throws Error if the tenant is the default tenant
+   */
+  public async remove(name: string): Promise<void> {
+    if (name === DEFAULT_TENANT) {
+      throw new Error('The default tenant is configured by the environment');
+    }
+
+    const { credentialManager } = await import('./credentialManager.js');
+    await credentialManager.deleteCredential(`${CREDENTIAL_PREFIX}${name}`);
+    this.tenants.delete(name);
+  }
+
+  /**
+   * Check whether a tenant exists
+   * @param name The tenant name
+   * @returns Whether the tenant exists
+   */
+  public has(name: string): boolean {
+    return name === DEFAULT_TENANT || this.tenants.has(name);
+  }
+
+  /**
+   * Get a tenant
+   * @param name The tenant name
+   * @returns The tenant
+   * @throws Error if the tenant doesn't exist
+   */
+  public get(name: string): Tenant {
+    const tenant = name === DEFAULT_TENANT ? this.getDefault() : this.tenants.get(name);
+    if (!tenant) {
+      throw new Error(`Unknown tenant: ${name}`);
+    }
+    return tenant;
+  }
+
+  /**
+   * List the tenant names
+   * @returns The names of all tenants, starting with the default tenant
+   */
+  public list(): string[] {
+    return [DEFAULT_TENANT, ...this.tenants.keys()];
+  }
+
+  /**
+   * Check whether named tenants are configured besides the default tenant
+   * @returns Whether the server serves more than one tenant
+   */
+  public isMultiTenant(): boolean {
+    return this.tenants.size > 0;
+  }
+
+  /**
+   * Find the named tenant an API gateway key is bound to
+   * @param apiKey The API gateway key
+   * @returns The tenant, or undefined if the key isn't bound to a tenant
+   */
+  public findByApiKey(apiKey: string): Tenant | undefined {
+    return Array.from(this.tenants.values()).find((tenant) =>
+      tenant.apiKeys.some((entry) => entry.key === apiKey)
+    );
+  }
+
+  /**
+   * Run a function for a tenant
+   * Frontapp API calls made by the function, including asynchronous ones, use the tenant
+   * @param name The tenant name
+   * @param fn The function
+   * @param bound Whether the tenant was set by the caller's credentials
+   * @returns The result of the function
+   */
+  public run<T>(name: string, fn: () => T, bound = false): T {
+    return this.context.run({ tenant: name, bound }, fn);
+  }
+
+  /**
+   * Get the tenant of the code that is running
+   * @returns The tenant name
+   */
+  public current(): string {
+    return this.context.getStore()?.tenant || DEFAULT_TENANT;
+  }
+
+  /**
+   * Resolve the tenant a tool call runs for
+   * @param requested The tenant requested in the tool arguments, if any
+   * @returns The tenant name
+   * @throws Error if the tenant doesn't exist, or the caller is bound to another tenant
+   */
+  public resolve(requested?: string): string {
+    const context = this.context.getStore();
+
+    if (requested && context?.bound && requested !== context.tenant) {
+      throw new Error(`Not authorized for tenant: ${requested}`);
+    }
+
+    const name = requested || this.current();
+    this.get(name);
+
+    return name;
+  }
+}
+
+// Export a singleton instance
+export const tenantManager = new TenantManager();
+
+// Export default
+export default tenantManager;
@@ -0,0 +1,447 @@
+import { Author, ConversationEvent } from '../models/frontapp.js';
+
+/**
+ * An entry in a conversation transcript
+ */
+export interface TranscriptEntry {
+  /** Whether the entry is a message, an internal comment or a conversation event */
+  kind: 'message' | 'comment' | 'event';
+  /** The ID of the message, comment or event */
+  id: string;
+  /** The display name of the author */
+  author: string;
+  /** When the entry was created (milliseconds since epoch) */
+  timestamp: number;
+  /** Whether the message was received from outside the organization */
+  isInbound?: boolean;
+  /** The plain text of the entry */
+  text: string;
+}
+
+/**
+ * Transcript output format
+ */
+export type TranscriptFormat = 'markdown' | 'text';
+
+/**
+ * Options for building transcript entries
+ */
+export interface TranscriptBuildOptions {
+  /** Keep quoted replies in message bodies (defaults to false) */
+  includeQuoted?: boolean;
+}
+
+/**
+ * Options for rendering a transcript
+ */
+export interface TranscriptRenderOptions {
+  /** The output format (defaults to markdown) */
+  format?: TranscriptFormat;
+  /** Approximate maximum number of tokens; the oldest entries are omitted to fit */
+  maxTokens?: number;
+}
+
+// HTML entities decoded when converting message bodies to text
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&apos;': "'",
+};
+
+// Elements that start the quoted previous messages of a reply, e.g. Gmail and Outlook quotes
+const HTML_QUOTE_MARKERS = [
+  /<div[^>]+class="[^"]*gmail_quote[^"]*"/i,
+  /<div[^>]+id="(divRplyFwdMsg|appendonsend)"/i,
+  /<div[^>]+class="[^"]*front-blockquote[^"]*"/i,
+];
+
+// Lines that start the quoted previous messages of a plain text reply
+const TEXT_QUOTE_MARKERS = [
+  /^On .+wrote:$/,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^_{10,}$/,
+];
+
+// Event types that duplicate messages and comments already in the transcript
+const MESSAGE_EVENT_TYPES = ['inbound', 'outbound', 'out_reply', 'comment', 'mention'];
+
+// Approximate number of characters per token used to apply token budgets
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Transcript utility
+ * This utility renders Frontapp conversations as readable transcripts
+ */
+export class TranscriptUtil {
+  /**
+   * Convert an HTML message body to plain text
+   * @param html The HTML body
+   * @returns The plain text
+   */
+  public htmlToText(html: string): string {
+    if (!html) {
+      return '';
+    }
+
+    return html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&(nbsp|amp|lt|gt|quot|apos|#39);/g, (entity) => HTML_ENTITIES[entity])
+      .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Remove quoted replies from an HTML message body
+   * @param html The HTML body
+   * @returns The HTML body without quoted replies
+   */
+  public stripQuotedHtml(html: string): string {
+    if (!html) {
+      return '';
+    }
+
+    let result = html;
+    for (const marker of HTML_QUOTE_MARKERS) {
+      const index = result.search(marker);
+      if (index !== -1) {
+        result = result.slice(0, index);
+      }
+    }
+
+    // Remove blockquotes from the innermost outwards so nested quotes are removed entirely
+    let previous: string;
+    do {
+      previous = result;
+      result = result.replace(/<blockquote[^>]*>(?:(?!<blockquote)[\s\S])*?<\/blockquote>/gi, '');
+    } while (result !== previous);
+
+    return result;
+  }
+
+  /**
+   * Remove quoted replies from a plain text message body
+   * Drops lines quoted with ">" and everything after a reply header such as "On ... wrote:"
+   * @param text The plain text body
+   * @returns The text without quoted replies
+   */
+  public stripQuotedText(text: string): string {
+    if (!text) {
+      return '';
+    }
+
+    const lines: string[] = [];
+    for (const line of text.split('\n')) {
+      const trimmed = line.trim();
+      if (TEXT_QUOTE_MARKERS.some((marker) => marker.test(trimmed))) {
+        break;
+      }
+      if (!trimmed.startsWith('>')) {
+        lines.push(line);
+      }
+    }
+
+    return lines.join('\n').trim();
+  }
+
+  /**
+   * Get the display name of a message or comment author
+   * @param author The author
+   * @param fallback The name to use when the author is unknown
+   * @returns The display name
+   */
+  public formatAuthor(author: Partial<Author> | undefined | null, fallback = 'Unknown'): string {
+    if (!author) {
+      return fallback;
+    }
+
+    const name = `${author.first_name || ''} ${author.last_name || ''}`.trim();
+    return name || author.username || author.email || fallback;
+  }
+
+  /**
+   * Get the plain text of a message
+   * @param message The message
+   * @param includeQuoted Whether to keep quoted replies
+   * @returns The plain text
+   */
+  private messageText(message: any, includeQuoted: boolean): string {
+    if (message.body) {
+      const html = includeQuoted ? message.body : this.stripQuotedHtml(message.body);
+      const text = this.htmlToText(html);
+      return includeQuoted ? text : this.stripQuotedText(text);
+    }
+
+    return includeQuoted ? message.text || '' : this.stripQuotedText(message.text);
+  }
+
+  /**
+   * Get the display name of the sender of a message
+   * Teammates are named by their author, customers by the "from" recipient
+   * @param message The message
+   * @returns The display name
+   */
+  private messageAuthor(message: any): string {
+    const sender = message.recipients?.find((recipient: any) => recipient.role === 'from');
+    return this.formatAuthor(message.author, sender?.name || sender?.handle);
+  }
+
+  /**
+   * Get the display name of the teammate, rule or integration that emitted an event
+   * @param event The conversation event
+   * @returns The display name
+   */
+  private eventActor(event: ConversationEvent): string {
+    const source = event.source;
+
+    switch (source?._meta?.type) {
+      case 'teammate':
+        return this.formatAuthor(source.data);
+      case 'rule':
+        return `Rule ${source.data?.name || source.data?.id || ''}`.trim();
+      default:
+        return source?.data?.name || 'Front';
+    }
+  }
+
+  /**
+   * Describe what happened in a conversation event
+   * @param event The conversation event
+   * @returns The description, e.g. "assigned the conversation to Jane Doe"
+   */
+  private describeEvent(event: ConversationEvent): string {
+    const target = event.target?.data;
+
+    switch (event.type) {
+      case 'assign':
+        return `assigned the conversation to ${this.formatAuthor(target)}`;
+      case 'unassign':
+        return 'unassigned the conversation';
+      case 'archive':
+        return 'archived the conversation';
+      case 'reopen':
+        return 'reopened the conversation';
+      case 'trash':
+        return 'moved the conversation to trash';
+      case 'restore':
+        return 'restored the conversation';
+      case 'tag':
+        return `added the tag ${target?.name || 'Unknown'}`;
+      case 'untag':
+        return `removed the tag ${target?.name || 'Unknown'}`;
+      case 'move':
+        return `moved the conversation to ${target?.name || 'another inbox'}`;
+      case 'forward':
+        return 'forwarded the conversation';
+      case 'reminder':
+        return 'reopened the conversation from a reminder';
+      default:
+        return `${event.type.replace(/_/g, ' ')} event`;
+    }
+  }
+
+  /**
+   * Build the transcript entries of a conversation
+   * Messages, comments and events are merged and sorted by the time they were created.
+   * Events for messages and comments are skipped as the entries already cover them.
+   * @param messages The messages of the conversation
+   * @param comments The comments of the conversation
+   * @param events The events of the conversation
+   * @param options Options for building the entries
+   * @returns The transcript entries in chronological order
+   */
+  public buildEntries(
+    messages: any[] = [],
+    comments: any[] = [],
+    events: ConversationEvent[] = [],
+    options: TranscriptBuildOptions = {}
+  ): TranscriptEntry[] {
+    const includeQuoted = options.includeQuoted ?? false;
+
+    const entries: TranscriptEntry[] = [
+      ...messages.map((message) => ({
+        kind: 'message' as const,
+        id: message.id,
+        author: this.messageAuthor(message),
+        timestamp: (message.created_at || 0) * 1000,
+        isInbound: message.is_inbound,
+        text: this.messageText(message, includeQuoted),
+      })),
+      ...comments.map((comment) => ({
+        kind: 'comment' as const,
+        id: comment.id,
+        author: this.formatAuthor(comment.author),
+        timestamp: (comment.posted_at || comment.created_at || 0) * 1000,
+        text: comment.text || this.htmlToText(comment.body),
+      })),
+      ...events
+        .filter((event) => !MESSAGE_EVENT_TYPES.includes(event.type))
+        .map((event) => ({
+          kind: 'event' as const,
+          id: event.id,
+          author: this.eventActor(event),
+          timestamp: (event.emitted_at || 0) * 1000,
+          text: this.describeEvent(event),
+        })),
+    ];
+
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Describe a transcript entry, e.g. "inbound message" or "internal comment"
+   * @param entry The transcript entry
+   * @returns The description
+   */
+  private describeEntry(entry: TranscriptEntry): string {
+    if (entry.kind === 'comment') {
+      return 'internal comment';
+    }
+
+    if (entry.isInbound === undefined) {
+      return 'message';
+    }
+
+    return entry.isInbound ? 'inbound message' : 'outbound message';
+  }
+
+  /**
+   * Format a timestamp for a transcript
+   * @param timestamp The timestamp (milliseconds since epoch)
+   * @returns The formatted timestamp, e.g. "2024-01-31 14:05 UTC"
+   */
+  public formatTimestamp(timestamp: number): string {
+    return `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+
+  /**
+   * Estimate the number of tokens in a text
+   * @param text The text
+   * @returns The approximate number of tokens
+   */
+  public estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Render the header of a transcript
+   * @param conversation The conversation
+   * @param format The output format
+   * @returns The header lines
+   */
+  private renderHeader(conversation: any, format: TranscriptFormat): string[] {
+    const subject = conversation.subject || '(No subject)';
+    const details = [`ID: ${conversation.id}`];
+
+    if (conversation.status) {
+      details.push(`Status: ${conversation.status}`);
+    }
+    if (conversation.assignee) {
+      details.push(`Assignee: ${this.formatAuthor(conversation.assignee)}`);
+    }
+    if (conversation.tags?.length) {
+      details.push(`Tags: ${conversation.tags.map((tag: any) => tag.name).join(', ')}`);
+    }
+
+    if (format === 'text') {
+      return [`Subject: ${subject}`, ...details];
+    }
+
+    return [`# ${subject}`, '', ...details.map((detail) => `- ${detail}`)];
+  }
+
+  /**
+   * Render a transcript entry
+   * @param entry The transcript entry
+   * @param format The output format
+   * @returns The rendered entry
+   */
+  private renderEntry(entry: TranscriptEntry, format: TranscriptFormat): string {
+    const time = this.formatTimestamp(entry.timestamp);
+
+    if (entry.kind === 'event') {
+      return format === 'text'
+        ? `[${time}] ${entry.author} ${entry.text}`
+        : `_${time} - ${entry.author} ${entry.text}_`;
+    }
+
+    const text = entry.text || '(No content)';
+
+    return format === 'text'
+      ? `[${time}] ${entry.author} (${this.describeEntry(entry)}):\n${text}`
+      : `## ${entry.author} (${this.describeEntry(entry)}) - ${time}\n\n${text}`;
+  }
+
+  /**
+   * Render a conversation as a transcript
+   * When a token budget is given, the most recent entries that fit are kept and a note
+   * records how many earlier entries were omitted
+   * @param conversation The conversation
+   * @param entries The transcript entries in chronological order
+   * @param options The output format and token budget
+   * @returns The transcript
+   */
+  public render(
+    conversation: any,
+    entries: TranscriptEntry[],
+    options: TranscriptRenderOptions = {}
+  ): string {
+    const format = options.format || 'markdown';
+    const header = this.renderHeader(conversation, format).join('\n');
+    const rendered = entries.map((entry) => this.renderEntry(entry, format));
+
+    let budget =
+      options.maxTokens !== undefined
+        ? options.maxTokens * CHARS_PER_TOKEN - header.length
+        : Infinity;
+
+    // Walk back from the most recent entry and keep as many entries as fit in the budget
+    const kept: string[] = [];
+    for (let index = rendered.length - 1; index >= 0; index--) {
+      const block = rendered[index];
+      const cost = block.length + 2;
+
+      if (cost > budget) {
+        // Always keep the most recent entry, truncated to the budget
+        if (kept.length === 0) {
+          kept.unshift(`${block.slice(0, Math.max(budget, 0)).trimEnd()}…`);
+        }
+        break;
+      }
+
+      kept.unshift(block);
+      budget -= cost;
+    }
+
+    const omitted = rendered.length - kept.length;
+    const blocks = [header];
+
+    if (omitted > 0) {
+      const note = `${omitted} earlier ${omitted === 1 ? 'entry' : 'entries'} omitted to fit the token budget`;
+      blocks.push(format === 'text' ? `(${note})` : `_${note}_`);
+    }
+
+    return `${[...blocks, ...kept].join('\n\n')}\n`;
+  }
+
+  /**
+   * Render a conversation as a Markdown transcript
+   * @param conversation The conversation
+   * @param entries The transcript entries
+   * @returns The Markdown transcript
+   */
+  public renderMarkdown(conversation: any, entries: TranscriptEntry[]): string {
+    return this.render(conversation, entries, { format: 'markdown' });
+  }
+}
+
+// Export a singleton instance
+export const transcriptUtil = new TranscriptUtil();
@@ -0,0 +1,337 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import logger from './logger.js';
+import { DEFAULT_TENANT } from './tenants.js';
+
+/**
+ * Processing status of a stored webhook event
+ * Failed events make up the dead-letter queue until they are replayed or discarded
+ */
+export type WebhookEventStatus = 'received' | 'processed' | 'failed' | 'discarded';
+
+/**
+ * A webhook event stored in the event store
+ */
+export interface StoredWebhookEvent {
+  /** The ID of the webhook event (see getWebhookEventId) */
+  id: string;
+  /** The webhook event type */
+  type: string;
+  /** The processing status */
+  status: WebhookEventStatus;
+  /** The number of times the event has been processed */
+  attempts: number;
+  /** When the event was received (ISO 8601) */
+  receivedAt: string;
+  /** When the event was last updated (ISO 8601) */
+  updatedAt: string;
+  /** The tenant the event was received for (the default tenant when not set) */
+  tenant?: string;
+  /** The error of the last failed attempt */
+  error?: string;
+  /** The webhook event as received from Frontapp */
+  event: any;
+}
+
+/**
+ * Get the ID of a webhook event
+ * The ID of the payload is the ID of the conversation or contact the event is about, so it is
+ * the same for every event about it. Events are identified by the Frontapp event ID in their
+ * _links.self link instead, or else by a hash of the signed body.
+ * @param event The webhook event
+ * @returns The event ID, or undefined if the event is not an object
+ */
+export function getWebhookEventId(event: any): string | undefined {
+  if (!event || typeof event !== 'object') {
+    return undefined;
+  }
+
+  const match = /\/events\/([^/?#]+)/.exec(event._links?.self || '');
+  if (match) {
+    return match[1];
+  }
+
+  return `sha256:${crypto.createHash('sha256').update(JSON.stringify(event)).digest('hex')}`;
+}
+
+// Minimum number of lines in the file before appends compact it
+const COMPACT_MIN_LINES = 1000;
+
+/**
+ * Filters for listing stored webhook events
+ */
+export interface WebhookEventFilter {
+  status?: WebhookEventStatus;
+  type?: string;
+  tenant?: string;
+  limit?: number;
+}
+
+/**
+ * Webhook event store
+ * Stores every received webhook event in an append-only JSON Lines file. Each status change
+ * appends the full record, and the last line for an event wins when the file is read.
+ * The file is read again whenever another process (e.g. the CLI) has appended to it, and is
+ * compacted once it holds twice as many lines as events.
+ */
+export class WebhookEventStore {
+  private events = new Map<string, StoredWebhookEvent>();
+  private fileSize = -1;
+  private lineCount = 0;
+
+  /**
+   * Create a new webhook event store
+   * @param filePath The path of the JSON Lines file
+   * @param retentionDays Number of days processed and discarded events are kept
+   */
+  constructor(
+    private readonly filePath: string = config.webhook.eventStore.path,
+    private readonly retentionDays: number = config.webhook.eventStore.retentionDays
+  ) {}
+
+  /**
+   * Load the events from the file if it changed since it was last read
+   * Expired events are compacted away the first time the file is loaded
+   */
+  private sync(): void {
+    const size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+    if (size === this.fileSize) {
+      return;
+    }
+
+    const isFirstLoad = this.fileSize === -1;
+    this.events.clear();
+    this.lineCount = 0;
+
+    if (size > 0) {
+      const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const record = JSON.parse(line) as StoredWebhookEvent;
+          this.events.set(record.id, record);
+          this.lineCount++;
+        } catch (error: any) {
+          logger.warn('Skipping invalid line in webhook event store', {
+            file: this.filePath,
+            error: error.message,
+          });
+        }
+      }
+    }
+
+    this.fileSize = size;
+
+    if (isFirstLoad && size > 0) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Append a record to the file
+   * The file is compacted when most of its lines are superseded by later records
+   * @param record The record to store
+   * @returns The stored record
+   */
+  private write(record: StoredWebhookEvent): StoredWebhookEvent {
+    const line = `${JSON.stringify(record)}\n`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, line);
+
+    this.fileSize += Buffer.byteLength(line);
+    this.lineCount++;
+    this.events.set(record.id, record);
+
+    if (this.lineCount >= Math.max(COMPACT_MIN_LINES, this.events.size * 2)) {
+      this.compact();
+    }
+
+    return record;
+  }
+
+  /**
+   * Update the status of a stored event
+   * @param id The event ID
+   * @param changes The changes to apply
+   * @returns The updated event
+   * @throws Error if the event is not in the store
+   */
+  private update(id: string, changes: Partial<StoredWebhookEvent>): StoredWebhookEvent {
+    const record = this.get(id);
+    if (!record) {
+      throw new Error(`Webhook event not found: ${id}`);
+    }
+
+    return this.write({ ...record, ...changes, updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Check whether an event has already been received
+   * @param id The event ID
+   * @returns Whether the event is in the store
+   */
+  public has(id: string): boolean {
+    this.sync();
+    return this.events.has(id);
+  }
+
+  /**
+   * Get a stored event
+   * @param id The event ID
+   * @returns The stored event, if any
+   */
+  public get(id: string): StoredWebhookEvent | undefined {
+    this.sync();
+    return this.events.get(id);
+  }
+
+  /**
+   * Store a received webhook event
+   * An event Frontapp delivers again keeps its first receipt time and processing attempts
+   * @param event The webhook event
+   * @param tenant The tenant the event was received for
+   * @returns The stored event
+   */
+  public recordReceived(event: any, tenant: string = DEFAULT_TENANT): StoredWebhookEvent {
+    this.sync();
+    const id = getWebhookEventId(event) as string;
+    const previous = this.events.get(id);
+    const now = new Date().toISOString();
+
+    return this.write({
+      id,
+      type: event.type || 'unknown',
+      status: 'received',
+      attempts: previous?.attempts || 0,
+      receivedAt: previous?.receivedAt || now,
+      updatedAt: now,
+      tenant,
+      event,
+    });
+  }
+
+  /**
+   * Mark an event as processed
+   * @param id The event ID
+   * @returns The updated event
+   */
+  public markProcessed(id: string): StoredWebhookEvent {
+    const attempts = (this.get(id)?.attempts || 0) + 1;
+    return this.update(id, { status: 'processed', attempts, error: undefined });
+  }
+
+  /**
+   * Mark an event as failed, moving it to the dead-letter queue
+   * @param id The event ID
+   * @param error The error that made processing fail
+   * @returns The updated event
+   */
+  public markFailed(id: string, error: any): StoredWebhookEvent {
+    const attempts = (this.get(id)?.attempts || 0) + 1;
+    return this.update(id, { status: 'failed', attempts, error: error?.message || String(error) });
+  }
+
+  /**
+   * Mark an event as discarded, removing it from the dead-letter queue
+   * @param id The event ID
+   * @returns The updated event
+   * @throws Error if the event has already been processed
+   */
+  public markDiscarded(id: string): StoredWebhookEvent {
+    if (this.get(id)?.status === 'processed') {
+      throw new Error(`Webhook event has already been processed: ${id}`);
+    }
+    return this.update(id, { status: 'discarded' });
+  }
+
+  /**
+   * List stored events, most recently received first
+   * @param filter Filters for the status, type, tenant and number of events
+   * @returns The matching events
+   */
+  public list(filter: WebhookEventFilter = {}): StoredWebhookEvent[] {
+    this.sync();
+
+    const events = [...this.events.values()]
+      .filter((event) => !filter.status || event.status === filter.status)
+      .filter((event) => !filter.type || event.type === filter.type)
+      .filter((event) => !filter.tenant || (event.tenant || DEFAULT_TENANT) === filter.tenant)
+      .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+
+    return filter.limit ? events.slice(0, filter.limit) : events;
+  }
+
+  /**
+   * Get the events in the dead-letter queue
+   * @param tenant Only get the events of this tenant
+   * @returns The failed events
+   */
+  public getDeadLetters(tenant?: string): StoredWebhookEvent[] {
+    return this.list({ status: 'failed', tenant });
+  }
+
+  /**
+   * Count the stored events by status
+   * @param tenant Only count the events of this tenant
+   * @returns The number of events for each status
+   */
+  public getStats(tenant?: string): Record<WebhookEventStatus, number> {
+    this.sync();
+
+    const stats: Record<WebhookEventStatus, number> = {
+      received: 0,
+      processed: 0,
+      failed: 0,
+      discarded: 0,
+    };
+    for (const event of this.list({ tenant })) {
+      stats[event.status]++;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Rewrite the file with one line per event, dropping processed and discarded events
+   * older than the retention period
+   * @returns The number of events removed
+   */
+  public compact(): number {
+    this.sync();
+
+    const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const kept = [...this.events.values()].filter(
+      (event) =>
+        !(event.status === 'processed' || event.status === 'discarded') ||
+        event.updatedAt >= cutoff
+    );
+    const removed = this.events.size - kept.length;
+
+    const content = kept.map((event) => `${JSON.stringify(event)}\n`).join('');
+    const tempPath = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, this.filePath);
+
+    this.events = new Map(kept.map((event) => [event.id, event]));
+    this.fileSize = Buffer.byteLength(content);
+    this.lineCount = kept.length;
+
+    if (removed > 0) {
+      logger.info('Compacted webhook event store', { file: this.filePath, removed });
+    }
+
+    return removed;
+  }
+}
+
+// Export a singleton instance
+export const webhookEventStore = new WebhookEventStore();
+
+// Export default
+export default webhookEventStore;
@@ -0,0 +1,142 @@
+import { config } from '../config/index.js';
+import logger from './logger.js';
+import { metricsTracker } from './monitoring.js';
+
+/**
+ * A task waiting in the webhook queue
+ */
+interface QueuedTask {
+  /** Tasks with the same key run one after another, in the order they were enqueued */
+  key: string;
+  /** When the task was enqueued (milliseconds since epoch) */
+  enqueuedAt: number;
+  /** Run the task */
+  run: () => Promise<void>;
+}
+
+/**
+ * Webhook queue
+ * A bounded in-process worker queue for webhook processing. Up to `concurrency` tasks run at
+ * once, and tasks sharing a key (e.g. a conversation ID) run in order, one at a time.
+ * Queue depth and lag are reported to the metrics tracker.
+ */
+export class WebhookQueue {
+  private pending: QueuedTask[] = [];
+  private activeKeys = new Set<string>();
+  private idleResolvers: Array<() => void> = [];
+
+  /**
+   * Create a new webhook queue
+   * @param concurrency The maximum number of tasks running at once
+   * @param maxSize The maximum number of tasks waiting to run
+   */
+  constructor(
+    private readonly concurrency: number = config.webhook.queue.concurrency,
+    private readonly maxSize: number = config.webhook.queue.maxSize
+  ) {}
+
+  /**
+   * Add a task to the queue
+   * @param key The ordering key of the task
+   * @param run The task
+   * @throws Error if the queue is full
+   */
+  public enqueue(key: string, run: () => Promise<void>): void {
+    if (this.isFull()) {
+      throw new Error(`Webhook queue is full (${this.maxSize} pending tasks)`);
+    }
+
+    this.pending.push({ key, enqueuedAt: Date.now(), run });
+    this.drain();
+    this.reportDepth();
+  }
+
+  /**
+   * Check whether the queue is full
+   * @returns Whether no more tasks can be enqueued
+   */
+  public isFull(): boolean {
+    return this.pending.length >= this.maxSize;
+  }
+
+  /**
+   * Get the number of tasks waiting to run
+   * @returns The number of pending tasks
+   */
+  public getDepth(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Get the number of running tasks
+   * @returns The number of active tasks
+   */
+  public getActiveCount(): number {
+    return this.activeKeys.size;
+  }
+
+  /**
+   * Wait until all pending and running tasks have completed
+   * @returns A promise that resolves when the queue is idle
+   */
+  public onIdle(): Promise<void> {
+    if (this.pending.length === 0 && this.activeKeys.size === 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => this.idleResolvers.push(resolve));
+  }
+
+  /**
+   * Start pending tasks while there is capacity
+   * The oldest task whose key has no running task is started first
+   */
+  private drain(): void {
+    while (this.activeKeys.size < this.concurrency) {
+      const index = this.pending.findIndex((task) => !this.activeKeys.has(task.key));
+      if (index === -1) {
+        return;
+      }
+
+      const [task] = this.pending.splice(index, 1);
+      this.start(task);
+    }
+  }
+
+  /**
+   * Run a task and start the next ones when it completes
+   * @param task The task to run
+   */
+  private async start(task: QueuedTask): Promise<void> {
+    this.activeKeys.add(task.key);
+    metricsTracker.addWebhookQueueLag(Date.now() - task.enqueuedAt);
+
+    try {
+      await task.run();
+    } catch (error: any) {
+      // Tasks record and log their own failures
+      logger.debug('Webhook queue task failed', { key: task.key, error: error.message });
+    } finally {
+      this.activeKeys.delete(task.key);
+      this.drain();
+      this.reportDepth();
+
+      if (this.pending.length === 0 && this.activeKeys.size === 0) {
+        this.idleResolvers.splice(0).forEach((resolve) => resolve());
+      }
+    }
+  }
+
+  /**
+   * Report the queue depth to the metrics tracker
+   */
+  private reportDepth(): void {
+    metricsTracker.setWebhookQueueDepth(this.pending.length, this.activeKeys.size);
+  }
+}
+
+// Export a singleton instance
+export const webhookQueue = new WebhookQueue();
+
+// Export default
+export default webhookQueue;
@@ -309,12 +309,13 @@ describe('Conversation Workflow Integration Tests', () => {
     
     // 8. Send message
     const sendMessageResponse = await testClient.request
-      .post('/tools/send_message')
+      .post('/tools/reply_to_conversation')
       .set('X-API-Key', 'test-api-key')
       .send({
         arguments: {
           conversation_id: 'cnv_123',
-          content: 'Hello, how can I help you today?',
+          type: 'reply',
+          body: 'Hello, how can I help you today?',
           author_id: 'tea_123',
         },
       });
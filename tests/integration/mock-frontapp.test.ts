@@ -0,0 +1,241 @@
+/**
+ * Integration test for the mock Frontapp API server
+ * This test verifies that the Frontapp API client works against the mock, and that the mock
+ * paginates, changes its data, rate limits and sends signed webhooks like the Frontapp API, which
+ * the webhook route of the server processes
+ */
+
+import { expect } from 'chai';
+import axios from 'axios';
+import crypto from 'crypto';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MockFrontappServer } from '../../src/mock/frontappServer.js';
+import { FrontappClient } from '../../src/clients/frontapp/index.js';
+import { config } from '../../src/config/index.js';
+import { verifyWebhookSignature } from '../../src/middleware/webhookAuth.js';
+import { createWebhookRoute } from '../../src/handlers/webhooks/index.js';
+import { tenantManager } from '../../src/utils/tenants.js';
+import { webhookQueue } from '../../src/utils/webhookQueue.js';
+import { getWebhookEventId, webhookEventStore } from '../../src/utils/webhookEventStore.js';
+
+describe('Mock Frontapp API Integration Tests', () => {
+  const webhookSecret = 'test-webhook-secret';
+  let mock: MockFrontappServer;
+  let client: FrontappClient;
+  let baseUrl: string;
+  let originalBaseUrl: string;
+  let receiver: http.Server;
+  let received: Array<{ body: string; signature: string }>;
+
+  beforeEach(async () => {
+    // Receive the webhooks of the mock
+    received = [];
+    const app = express();
+    app.post('/webhooks', express.text({ type: '*/*' }), (req, res) => {
+      received.push({ body: req.body, signature: req.header('X-Front-Signature') || '' });
+      res.sendStatus(200);
+    });
+    await new Promise<void>((resolve) => {
+      receiver = app.listen(0, resolve);
+    });
+    const webhookUrl = `http://localhost:${(receiver.address() as AddressInfo).port}/webhooks`;
+
+    mock = new MockFrontappServer({
+      apiKey: 'test-token',
+      webhookUrl,
+      webhookSecret,
+      rateLimitPerMinute: 20,
+    });
+    baseUrl = await mock.start();
+
+    // Point a new client at the mock
+    originalBaseUrl = config.frontapp.baseUrl;
+    config.frontapp.baseUrl = baseUrl;
+    client = new FrontappClient({ apiKey: 'test-token', cacheNamespace: `mock-${Date.now()}` });
+  });
+
+  afterEach(async () => {
+    config.frontapp.baseUrl = originalBaseUrl;
+    await mock.stop();
+    await new Promise<void>((resolve) => receiver.close(() => resolve()));
+  });
+
+  it('should serve the seed data', async () => {
+    const response = await client.getConversation('cnv_refund');
+
+    expect(response.data.id).to.equal('cnv_refund');
+    expect(response.data.assignee.id).to.equal('tea_alice');
+    expect(response.data.tags.map((tag: any) => tag.id)).to.deep.equal(['tag_refund']);
+    expect(response.data._links.self).to.equal(`${baseUrl}/conversations/cnv_refund`);
+  });
+
+  it('should paginate lists', async () => {
+    const firstPage = await axios.get(`${baseUrl}/conversations`, {
+      headers: { Authorization: 'Bearer test-token' },
+      params: { limit: 2 },
+    });
+
+    expect(firstPage.data._results).to.have.lengthOf(2);
+    expect(firstPage.data._pagination.next).to.be.a('string');
+
+    const collection = await client.collect('/conversations', { limit: 2 });
+
+    expect(collection.pages).to.equal(2);
+    expect(collection.results.map((conversation: any) => conversation.id)).to.have.members([
+      'cnv_refund',
+      'cnv_login',
+      'cnv_thanks',
+    ]);
+  });
+
+  it('should search conversations', async () => {
+    const response = await client.get('/conversations/search/tag:Urgent is:open');
+
+    expect(response.data._results.map((conversation: any) => conversation.id)).to.deep.equal([
+      'cnv_login',
+    ]);
+  });
+
+  it('should compute analytics reports', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const created = await client.post('/analytics/reports', {
+      start: now - 7 * 24 * 3600,
+      end: now,
+      metrics: ['new_segments_count', 'num_sla_goal_breached', 'teammates_table'],
+      filters: { inbox_ids: ['inb_support'] },
+    });
+    expect(created.data.status).to.equal('running');
+
+    // Reports are done a second after they are created
+    const reportId = created.data._links.self.split('/').pop();
+    mock.data.analyticsReports.get(reportId).done_at = Date.now();
+    const report = await client.get(`/analytics/reports/${reportId}`);
+
+    expect(report.data.status).to.equal('done');
+    expect(report.data.metrics[0]).to.deep.equal({
+      id: 'new_segments_count',
+      type: 'number',
+      value: 2,
+    });
+    expect(report.data.metrics[1].value).to.equal(2);
+    expect(report.data.metrics[2].value.map((row: any[]) => row[0].value)).to.deep.equal([
+      'tea_bob',
+    ]);
+  });
+
+  it('should tag conversations and send a signed webhook', async () => {
+    await client.post('/conversations/cnv_login/tags', { tag_ids: ['tag_refund'] });
+    await mock.flushWebhooks();
+
+    expect(mock.data.conversations.get('cnv_login').tag_ids).to.include('tag_refund');
+    expect(received).to.have.lengthOf(1);
+
+    const { body, signature } = received[0];
+    const expected = crypto.createHmac('sha256', webhookSecret).update(body).digest('hex');
+    expect(signature).to.equal(expected);
+    expect(JSON.parse(body)).to.deep.include({
+      type: 'conversation.tagged',
+    });
+    expect(JSON.parse(body).payload).to.deep.include({ id: 'cnv_login', tag_id: 'tag_refund' });
+  });
+
+  it('should process every webhook about the same conversation', async () => {
+    // Receive the webhooks with the webhook route of the server, for a tenant of the mock
+    tenantManager.register({ name: 'mock', apiKey: 'test-token', webhookSecret });
+    const events: any[] = [];
+    const statuses: number[] = [];
+    const app = express();
+    app.post(
+      '/webhooks/:tenant',
+      express.json(),
+      (req, res, next) => {
+        events.push(req.body);
+        res.on('finish', () => statuses.push(res.statusCode));
+        next();
+      },
+      verifyWebhookSignature,
+      createWebhookRoute()
+    );
+    let server!: http.Server;
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, resolve);
+    });
+
+    try {
+      await client.post('/webhooks', {
+        url: `http://localhost:${(server.address() as AddressInfo).port}/webhooks/mock`,
+        events: ['conversation.created', 'conversation.tagged'],
+      });
+
+      await client.post('/channels/cha_support/messages', {
+        to: ['customer@example.com'],
+        body: 'Your refund has been processed.',
+      });
+      await mock.flushWebhooks();
+      const conversationId = events[0].payload.id;
+      await client.post(`/conversations/${conversationId}/tags`, { tag_ids: ['tag_refund'] });
+      await mock.flushWebhooks();
+      await webhookQueue.onIdle();
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    expect(events.map((event) => event.type)).to.deep.equal([
+      'conversation.created',
+      'conversation.tagged',
+    ]);
+    expect(events[1].payload.id).to.equal(events[0].payload.id);
+    expect(statuses).to.deep.equal([200, 200]);
+
+    // Both events are identified by their event ID, not by the conversation ID
+    const ids = events.map((event) => getWebhookEventId(event) as string);
+    expect(ids[0]).to.match(/^evt_/);
+    expect(ids[1]).to.not.equal(ids[0]);
+    expect(ids.map((id) => webhookEventStore.get(id).status)).to.deep.equal([
+      'processed',
+      'processed',
+    ]);
+  });
+
+  it('should reject requests with another API token', async () => {
+    const response = await axios.get(`${baseUrl}/teammates`, {
+      headers: { Authorization: 'Bearer wrong-token' },
+      validateStatus: () => true,
+    });
+
+    expect(response.status).to.equal(401);
+    expect(response.data._error.status).to.equal(401);
+  });
+
+  it('should issue rate limit headers and respond with 429 over the limit', async () => {
+    const request = () =>
+      axios.get(`${baseUrl}/tags`, {
+        headers: { Authorization: 'Bearer test-token' },
+        validateStatus: () => true,
+      });
+
+    const first = await request();
+    expect(first.headers['x-ratelimit-limit']).to.equal('20');
+    expect(first.headers['x-ratelimit-remaining']).to.equal('19');
+
+    for (let i = 1; i < 20; i++) {
+      await request();
+    }
+    const limited = await request();
+
+    expect(limited.status).to.equal(429);
+    expect(limited.headers['x-ratelimit-remaining']).to.equal('0');
+    expect(Number(limited.headers['retry-after'])).to.be.greaterThan(0);
+  });
+
+  it('should restore the seed data on reset', async () => {
+    await client.patch('/conversations/cnv_login', { status: 'archived' });
+    expect(mock.data.conversations.get('cnv_login').status).to.equal('archived');
+
+    await axios.post(`${baseUrl}/_mock/reset`);
+
+    expect(mock.data.conversations.get('cnv_login').status).to.equal('unassigned');
+  });
+});